@@ -2,10 +2,15 @@ import {
   type CanActivate,
   type CanActivateFn,
   ExceptionHandler,
+  executeInterceptors,
   ForbiddenException,
   getMethodGuards,
+  getMethodInterceptors,
   GUARDS_METADATA,
   type HttpRouteFn,
+  type Interceptor,
+  type InterceptorFn,
+  INTERCEPTORS_METADATA,
   isClass,
   isFunction,
 } from "@denorid/core";
@@ -47,11 +52,14 @@ type ConsumerInstance = Record<
 /** Guards applicable to a handler, in evaluation order. */
 type Guard = Type<CanActivate> | CanActivate | CanActivateFn;
 
+/** Interceptors wrapped around a handler, outermost first. */
+type HandlerInterceptor = Type<Interceptor> | Interceptor | InterceptorFn;
+
 /**
  * Internal consumer runtime. On application bootstrap it discovers
  * `@AmqpConsumer` classes, asserts each binding's topology against the broker,
  * consumes its queue, and dispatches messages to the decorated methods with
- * guard and `ExceptionHandler` integration. Closes every consumer channel
+ * guard, interceptor and `ExceptionHandler` integration. Closes every consumer channel
  * before application shutdown.
  */
 @Injectable()
@@ -117,11 +125,22 @@ export class AmqpExplorer
           | Set<Guard>
           | undefined ?? new Set<Guard>()),
       ];
+      const controllerInterceptors = [
+        ...(consumer[Symbol.metadata]![INTERCEPTORS_METADATA] as
+          | Set<HandlerInterceptor>
+          | undefined ?? new Set<HandlerInterceptor>()),
+      ];
 
       for (const binding of bindings) {
         const methodGuards = [
           ...(getMethodGuards(consumer, binding.method) ?? new Set<Guard>()),
         ];
+        const interceptors = [
+          ...(this.options.globalInterceptors ?? []),
+          ...controllerInterceptors,
+          ...(getMethodInterceptors(consumer, binding.method) ??
+            new Set<HandlerInterceptor>()),
+        ];
         const channel = await connection.createChannel();
 
         this.channels.push(channel);
@@ -133,6 +152,7 @@ export class AmqpExplorer
           binding,
           controllerGuards,
           methodGuards,
+          interceptors,
         );
       }
     }
@@ -145,6 +165,7 @@ export class AmqpExplorer
     binding: AmqpBinding,
     controllerGuards: Guard[],
     methodGuards: Guard[],
+    interceptors: HandlerInterceptor[],
   ): Promise<void> {
     const queueName = await this.assertTopology(channel, binding);
 
@@ -160,6 +181,7 @@ export class AmqpExplorer
             consumer,
             controllerGuards,
             methodGuards,
+            interceptors,
           ).catch((err) => {
             this.logger.error(
               "Unhandled error in AMQP message handler",
@@ -265,6 +287,7 @@ export class AmqpExplorer
     consumer: Type,
     controllerGuards: Guard[],
     methodGuards: Guard[],
+    interceptors: HandlerInterceptor[],
   ): Promise<void> {
     const payload = this.serializer.deserialize(msg.content);
     const pattern = msg.fields.routingKey || msg.fields.exchange;
@@ -280,17 +303,27 @@ export class AmqpExplorer
           strict: false,
         }) as ConsumerInstance;
 
-        await this.runGuards(
-          contextId,
+        const executionCtx = new AmqpExecutionContext(
           pattern,
           payload,
           consumer,
-          instance[binding.method],
+          instance[binding.method] as unknown as HttpRouteFn,
+        );
+
+        await this.runGuards(
+          contextId,
+          executionCtx,
           controllerGuards,
           methodGuards,
         );
 
-        const result = await instance[binding.method](payload, msg.properties);
+        const result = await executeInterceptors(
+          this.moduleRef,
+          contextId,
+          executionCtx,
+          interceptors,
+          () => instance[binding.method](payload, msg.properties),
+        );
 
         if (binding.type === "rpc" && replyTo) {
           channel.sendToQueue(replyTo, this.serializer.serialize(result), {
@@ -322,10 +355,7 @@ export class AmqpExplorer
 
   private async runGuards(
     contextId: string,
-    pattern: string,
-    payload: unknown,
-    consumer: Type,
-    handlerFn: ConsumerInstance[string | symbol],
+    executionCtx: AmqpExecutionContext,
     controllerGuards: Guard[],
     methodGuards: Guard[],
   ): Promise<void> {
@@ -335,17 +365,6 @@ export class AmqpExplorer
       ...methodGuards,
     ];
 
-    if (allGuards.length === 0) {
-      return;
-    }
-
-    const executionCtx = new AmqpExecutionContext(
-      pattern,
-      payload,
-      consumer,
-      handlerFn as unknown as HttpRouteFn,
-    );
-
     for (const guard of allGuards) {
       let allowed: boolean;
 
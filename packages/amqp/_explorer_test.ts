@@ -1,9 +1,13 @@
 import {
+  type CallHandler,
   type CanActivate,
   type ExceptionHandler,
   type ExecutionContext,
   ForbiddenException,
+  type Interceptor,
+  type InterceptorFn,
   UseGuards,
+  UseInterceptors,
 } from "@denorid/core";
 import { InjectorContext, type ModuleRef, type Type } from "@denorid/injector";
 import {
@@ -24,7 +28,7 @@ import {
   Topic,
   Worker,
 } from "./decorators.ts";
-import { AmqpHostArguments } from "./host_arguments.ts";
+import { AmqpExecutionContext, AmqpHostArguments } from "./host_arguments.ts";
 import type { AmqpModuleOptions } from "./module_options.ts";
 import { type AmqpSerializer, JsonAmqpSerializer } from "./serialization.ts";
 
@@ -235,6 +239,16 @@ class DenyGuard implements CanActivate {
   }
 }
 
+class RecordingInterceptor implements Interceptor {
+  public readonly contexts: ExecutionContext[] = [];
+
+  public intercept(ctx: ExecutionContext, next: CallHandler): Promise<unknown> {
+    this.contexts.push(ctx);
+
+    return next.handle();
+  }
+}
+
 function flush(): Promise<void> {
   const { promise, resolve } = Promise.withResolvers<void>();
   setTimeout(resolve, 0);
@@ -841,6 +855,129 @@ describe(AmqpExplorer.name, () => {
     });
   });
 
+  describe("interceptors", () => {
+    it("replies with the value returned by the interceptor chain", async () => {
+      const order: string[] = [];
+      const global: InterceptorFn = async (_ctx, next) => {
+        order.push("global");
+
+        return { wrapped: await next.handle() };
+      };
+
+      @AmqpConsumer()
+      @UseInterceptors((_ctx, next) => {
+        order.push("controller");
+
+        return next.handle();
+      })
+      class RpcConsumer {
+        @Rpc({ queue: "rpc-q" })
+        @UseInterceptors(RecordingInterceptor)
+        answer(): number {
+          order.push("handler");
+
+          return 42;
+        }
+      }
+
+      const recorder = new RecordingInterceptor();
+      const harness = createHarness({
+        consumers: [RpcConsumer],
+        instances: new Map<Type, unknown>([
+          [RpcConsumer, new RpcConsumer()],
+          [RecordingInterceptor, recorder],
+        ]),
+        options: { globalInterceptors: [global] },
+      });
+
+      await harness.explorer.onApplicationBootstrap();
+
+      const msg = makeMessage({
+        payload: {},
+        routingKey: "rpc-q",
+        replyTo: "reply-q",
+        correlationId: "c-1",
+      });
+      harness.channel.consumeCallback!(msg);
+      await flush();
+
+      assertEquals(order, ["global", "controller", "handler"]);
+      assertEquals(recorder.contexts.length, 1);
+      assertInstanceOf(recorder.contexts[0], AmqpExecutionContext);
+      assertEquals(recorder.contexts[0].getClass<RpcConsumer>(), RpcConsumer);
+
+      const reply = call(harness.channel, "sendToQueue")!;
+      assertEquals(
+        JSON.parse(new TextDecoder().decode(reply.args[1] as Buffer)),
+        { wrapped: 42 },
+      );
+      assertStrictEquals(call(harness.channel, "ack")!.args[0], msg);
+    });
+
+    it("skips the handler when an interceptor short-circuits", async () => {
+      const calls: unknown[] = [];
+
+      @AmqpConsumer()
+      class WorkerConsumer {
+        @Worker({ queue: "tasks" })
+        @UseInterceptors(() => "cached")
+        run(payload: unknown): void {
+          calls.push(payload);
+        }
+      }
+
+      const harness = createHarness({
+        consumers: [WorkerConsumer],
+        instances: new Map<Type, unknown>([
+          [WorkerConsumer, new WorkerConsumer()],
+        ]),
+      });
+
+      await harness.explorer.onApplicationBootstrap();
+
+      const msg = makeMessage({ payload: { x: 1 }, routingKey: "tasks" });
+      harness.channel.consumeCallback!(msg);
+      await flush();
+
+      assertEquals(calls, []);
+      assertStrictEquals(call(harness.channel, "ack")!.args[0], msg);
+    });
+
+    it("does not run interceptors when a guard denies", async () => {
+      const intercepted: unknown[] = [];
+
+      @AmqpConsumer()
+      @UseGuards(DenyGuard)
+      @UseInterceptors((ctx, next) => {
+        intercepted.push(ctx);
+
+        return next.handle();
+      })
+      class WorkerConsumer {
+        @Worker({ queue: "tasks" })
+        run(): void {}
+      }
+
+      const harness = createHarness({
+        consumers: [WorkerConsumer],
+        instances: new Map<Type, unknown>([
+          [WorkerConsumer, new WorkerConsumer()],
+          [DenyGuard, new DenyGuard()],
+        ]),
+      });
+
+      await harness.explorer.onApplicationBootstrap();
+
+      const msg = makeMessage({ payload: {}, routingKey: "tasks" });
+      harness.channel.consumeCallback!(msg);
+      await flush();
+
+      assertEquals(intercepted, []);
+      assertInstanceOf(harness.exceptionCalls[0].err, ForbiddenException);
+      assertEquals(call(harness.channel, "nack")!.args, [msg, false, false]);
+    });
+  });
+
   describe("teardown", () => {
     it("closes every tracked channel and empties the list", async () => {
       @AmqpConsumer()
@@ -0,0 +1,46 @@
+import {
+  type PatternDescriptor,
+  PatternSource,
+  type PatternSourceInterface,
+} from "@denorid/core";
+import type { ModuleRef, Type } from "@denorid/injector";
+import { AMQP_CONSUMER } from "./_constants.ts";
+import { type AmqpBinding, getAmqpBindings } from "./_metadata.ts";
+
+/**
+ * Internal provider listing the bindings of the `@AmqpConsumer()` classes in
+ * the `patterns:list` console command: the queue of work-queue and RPC
+ * handlers, the exchange (and routing keys) of the others.
+ */
+@PatternSource()
+export class AmqpPatternSource implements PatternSourceInterface {
+  public constructor(private readonly moduleRef: ModuleRef) {}
+
+  /**
+   * @inheritdoc
+   */
+  public describePatterns(): PatternDescriptor[] {
+    return this.moduleRef.getTokensByTag<Type>(AMQP_CONSUMER, {
+      strict: false,
+    }).flatMap((consumer) =>
+      (getAmqpBindings(consumer) ?? []).map((binding) => ({
+        transport: "amqp",
+        type: binding.type,
+        pattern: describeBinding(binding),
+        provider: consumer,
+        handler: binding.method,
+      }))
+    );
+  }
+}
+
+function describeBinding({ options }: AmqpBinding): string {
+  if ("routingKeys" in options) {
+    return `${options.exchange}: ${options.routingKeys.join(", ")}`;
+  }
+  if ("exchange" in options) {
+    return options.exchange;
+  }
+
+  return options.queue;
+}
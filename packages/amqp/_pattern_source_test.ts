@@ -0,0 +1,78 @@
+import type { ModuleRef, Type } from "@denorid/injector";
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { AMQP_CONSUMER } from "./_constants.ts";
+import { AmqpPatternSource } from "./_pattern_source.ts";
+import {
+  AmqpConsumer,
+  PubSub,
+  Routing,
+  Rpc,
+  Topic,
+  Worker,
+} from "./decorators.ts";
+
+function createSource(consumers: Type[]): AmqpPatternSource {
+  return new AmqpPatternSource(
+    {
+      getTokensByTag: (tag: symbol) => tag === AMQP_CONSUMER ? consumers : [],
+    } as unknown as ModuleRef,
+  );
+}
+
+describe(AmqpPatternSource.name, () => {
+  it("describes the queue or exchange of every binding", () => {
+    @AmqpConsumer()
+    class OrdersConsumer {
+      @Worker({ queue: "orders" })
+      public process(): void {}
+
+      @PubSub({ exchange: "broadcast" })
+      public broadcast(): void {}
+
+      @Routing({ exchange: "logs", routingKeys: ["error", "warn"] })
+      public logs(): void {}
+
+      @Topic({ exchange: "events", routingKeys: ["order.*"] })
+      public events(): void {}
+
+      @Rpc({ queue: "rpc.orders" })
+      public rpc(): void {}
+    }
+
+    assertEquals(
+      createSource([OrdersConsumer]).describePatterns().map((
+        { type, pattern, provider, handler },
+      ) => [type, pattern, provider, handler]),
+      [
+        ["worker", "orders", OrdersConsumer, "process"],
+        ["pub-sub", "broadcast", OrdersConsumer, "broadcast"],
+        ["routing", "logs: error, warn", OrdersConsumer, "logs"],
+        ["topic", "events: order.*", OrdersConsumer, "events"],
+        ["rpc", "rpc.orders", OrdersConsumer, "rpc"],
+      ],
+    );
+  });
+
+  it("reports the amqp transport and skips consumers without bindings", () => {
+    @AmqpConsumer()
+    class EmptyConsumer {}
+
+    @AmqpConsumer()
+    class TaskConsumer {
+      @Worker({ queue: "tasks" })
+      public run(): void {}
+    }
+
+    assertEquals(
+      createSource([EmptyConsumer, TaskConsumer]).describePatterns(),
+      [{
+        transport: "amqp",
+        type: "worker",
+        pattern: "tasks",
+        provider: TaskConsumer,
+        handler: "run",
+      }],
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { AmqpConnection } from "./connection.ts";
+import type {
+  HealthIndicator,
+  HealthIndicatorFactory,
+  HealthProbe,
+} from "@denorid/health";
+
+/** Options accepted by {@link AmqpHealthIndicator}. */
+export interface AmqpHealthIndicatorOptions {
+  /**
+   * Key of the indicator in the health check result.
+   *
+   * @default "amqp"
+   */
+  name?: string;
+  /**
+   * The probes the indicator takes part in.
+   *
+   * @default ["readiness"]
+   */
+  probes?: HealthProbe[];
+}
+
+/**
+ * Reports the shared `@denorid/amqp` connection as down when no channel can
+ * be opened on it.
+ */
+export class AmqpHealthIndicator implements HealthIndicator {
+  public readonly name: string;
+  public readonly probes?: HealthProbe[];
+
+  /**
+   * @param {AmqpConnection} connection - The shared AMQP connection.
+   * @param {AmqpHealthIndicatorOptions} [options] - The indicator options.
+   */
+  public constructor(
+    private readonly connection: AmqpConnection,
+    options: AmqpHealthIndicatorOptions = {},
+  ) {
+    this.name = options.name ?? "amqp";
+    this.probes = options.probes;
+  }
+
+  /** @inheritdoc */
+  public async check(): Promise<void> {
+    const channel = await this.connection.createChannel();
+
+    await channel.close();
+  }
+}
+
+/**
+ * Creates an {@link AmqpHealthIndicator} for the `indicators` of the
+ * `HealthModule`, injecting the {@link AmqpConnection}.
+ *
+ * @example
+ * ```ts
+ * HealthModule.forRoot({ indicators: [amqpHealthIndicator()] });
+ * ```
+ *
+ * @param {AmqpHealthIndicatorOptions} [options] - The indicator options.
+ * @return {HealthIndicatorFactory} The indicator factory.
+ */
+export function amqpHealthIndicator(
+  options: AmqpHealthIndicatorOptions = {},
+): HealthIndicatorFactory {
+  return {
+    useFactory: (connection: AmqpConnection) =>
+      new AmqpHealthIndicator(connection, options),
+    inject: [AmqpConnection],
+  };
+}
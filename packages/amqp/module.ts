@@ -10,6 +10,7 @@ import {
 } from "@denorid/injector";
 import { AMQP_MODULE_OPTIONS, AMQP_SERIALIZER } from "./_constants.ts";
 import { AmqpExplorer } from "./_explorer.ts";
+import { AmqpPatternSource } from "./_pattern_source.ts";
 import {
   type AbstractClient,
   PublisherClient,
@@ -56,7 +57,7 @@ import { type AmqpSerializer, JsonAmqpSerializer } from "./serialization.ts";
  * ```
  */
 @Module({
-  providers: [AmqpConnection, AmqpExplorer],
+  providers: [AmqpConnection, AmqpExplorer, AmqpPatternSource],
   exports: [AmqpConnection],
 })
 export class AmqpModule implements OnModuleInit, OnModuleDestroy {
@@ -105,7 +106,9 @@ export class AmqpModule implements OnModuleInit, OnModuleDestroy {
 
   private static createDynamicModule(
     options: AmqpModuleOptions | AmqpAsyncModuleOptions,
-    optionsProviderData: Omit<ValueProvider | FactoryProvider, "provide">,
+    optionsProviderData:
+      | Omit<ValueProvider, "provide">
+      | Omit<FactoryProvider, "provide">,
   ): DynamicModule {
     const clients = (options as AmqpModuleOptions).clients ?? [];
 
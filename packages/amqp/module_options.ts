@@ -1,4 +1,9 @@
-import type { CanActivate, CanActivateFn } from "@denorid/core";
+import type {
+  CanActivate,
+  CanActivateFn,
+  Interceptor,
+  InterceptorFn,
+} from "@denorid/core";
 import type {
   GenericFunction,
   InjectionToken,
@@ -22,6 +27,15 @@ export interface AmqpModuleOptions {
    * (order: global -> controller -> method).
    */
   globalGuards?: (Type<CanActivate> | CanActivate | CanActivateFn)[];
+  /**
+   * Interceptors wrapped around every AMQP handler, outside of class/method
+   * interceptors (order: global -> controller -> method).
+   */
+  globalInterceptors?: (
+    | Type<Interceptor>
+    | Interceptor
+    | InterceptorFn
+  )[];
   /**
    * Overrides the default JSON serializer.
    *
@@ -0,0 +1,86 @@
+import {
+  HealthCheckError,
+  type HealthIndicator,
+  type HealthIndicatorFactory,
+  type HealthProbe,
+} from "@denorid/health";
+import { CACHE_MANAGER } from "./_constants.ts";
+import type { Cache } from "./module_options.ts";
+
+/** Options accepted by {@link CacheHealthIndicator}. */
+export interface CacheHealthIndicatorOptions {
+  /**
+   * Key of the indicator in the health check result.
+   *
+   * @default "cache"
+   */
+  name?: string;
+  /**
+   * The probes the indicator takes part in.
+   *
+   * @default ["readiness"]
+   */
+  probes?: HealthProbe[];
+}
+
+/**
+ * Reports the `@denorid/caching` cache as down when a probe entry can't be
+ * written and read back.
+ */
+export class CacheHealthIndicator implements HealthIndicator {
+  public readonly name: string;
+  public readonly probes?: HealthProbe[];
+
+  /**
+   * @param {Cache} cache - The cache manager.
+   * @param {CacheHealthIndicatorOptions} [options] - The indicator options.
+   */
+  public constructor(
+    private readonly cache: Cache,
+    options: CacheHealthIndicatorOptions = {},
+  ) {
+    this.name = options.name ?? "cache";
+    this.probes = options.probes;
+  }
+
+  /**
+   * @inheritdoc
+   *
+   * @throws {HealthCheckError} When the probe entry is not read back.
+   */
+  public async check(): Promise<void> {
+    const key = `denorid:health:${crypto.randomUUID()}`;
+    const value = Date.now();
+
+    try {
+      await this.cache.set(key, value, 10_000);
+
+      if (await this.cache.get<number>(key) !== value) {
+        throw new HealthCheckError("The cache did not return the probe entry.");
+      }
+    } finally {
+      await this.cache.del(key);
+    }
+  }
+}
+
+/**
+ * Creates a {@link CacheHealthIndicator} for the `indicators` of the
+ * `HealthModule`, injecting the `CACHE_MANAGER`.
+ *
+ * @example
+ * ```ts
+ * HealthModule.forRoot({ indicators: [cacheHealthIndicator()] });
+ * ```
+ *
+ * @param {CacheHealthIndicatorOptions} [options] - The indicator options.
+ * @return {HealthIndicatorFactory} The indicator factory.
+ */
+export function cacheHealthIndicator(
+  options: CacheHealthIndicatorOptions = {},
+): HealthIndicatorFactory {
+  return {
+    useFactory: (cache: Cache) => new CacheHealthIndicator(cache, options),
+    inject: [CACHE_MANAGER],
+  };
+}
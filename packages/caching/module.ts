@@ -92,7 +92,9 @@ export class CachingModule implements OnModuleInit, OnModuleDestroy {
 
   private static createDynamicModule(
     options: CachingModuleOptions | CachingAsyncModuleOptions,
-    optionsProviderData: Omit<ValueProvider | FactoryProvider, "provide">,
+    optionsProviderData:
+      | Omit<ValueProvider, "provide">
+      | Omit<FactoryProvider, "provide">,
   ): DynamicModule {
     return {
       module: CachingModule,
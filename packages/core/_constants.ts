@@ -17,3 +17,12 @@ export const MESSAGE_CONTROLLER_METADATA = Symbol.for(
 
 export const CLI_COMMAND_METADATA = Symbol.for("denorid.cli.command");
 export const CLI_OPTIONS_METADATA = Symbol.for("denorid.cli.options");
+export const CLI_PATTERN_SOURCE = Symbol.for("denorid.cli.pattern_source");
+
+export const WEBSOCKET_GATEWAY_METADATA = Symbol.for(
+  "denorid.websocket_gateway",
+);
+export const WEBSOCKET_MESSAGE_METADATA = Symbol.for(
+  "denorid.websocket_message",
+);
+export const WEBSOCKET_SERVER_METADATA = Symbol.for("denorid.websocket_server");
@@ -0,0 +1,57 @@
+/** Signals listened for by `enableShutdownHooks()` when none are given. */
+export const DEFAULT_SHUTDOWN_SIGNALS: Deno.Signal[] = ["SIGTERM", "SIGINT"];
+
+/** Default drain timeout of `enableShutdownHooks()`, in milliseconds. */
+export const DEFAULT_SHUTDOWN_TIMEOUT = 10_000;
+
+/**
+ * Registers OS signal listeners that shut the application down.
+ *
+ * On the first received signal every listener is removed, the `shutdown`
+ * callback runs and the signal is raised again, so the process terminates
+ * with the default behavior of that signal.
+ *
+ * @internal
+ */
+export class ShutdownSignalListener {
+  private readonly listeners: Map<Deno.Signal, () => void> = new Map();
+
+  /**
+   * @param {(signal: Deno.Signal) => Promise<void>} shutdown - Shuts the application down.
+   */
+  public constructor(
+    private readonly shutdown: (signal: Deno.Signal) => Promise<void>,
+  ) {}
+
+  /**
+   * Listens for the given signals, ignoring those already listened for.
+   *
+   * @param {Deno.Signal[]} signals - The signals to listen for.
+   */
+  public listen(signals: Deno.Signal[]): void {
+    for (const signal of signals) {
+      if (this.listeners.has(signal)) {
+        continue;
+      }
+
+      const listener = (): void => {
+        this.dispose();
+        this.shutdown(signal).finally(() => Deno.kill(Deno.pid, signal));
+      };
+
+      Deno.addSignalListener(signal, listener);
+      this.listeners.set(signal, listener);
+    }
+  }
+
+  /**
+   * Removes every registered listener.
+   */
+  public dispose(): void {
+    for (const [signal, listener] of this.listeners) {
+      Deno.removeSignalListener(signal, listener);
+    }
+
+    this.listeners.clear();
+  }
+}
@@ -7,7 +7,15 @@ import type {
   Type,
 } from "@denorid/injector";
 import { Logger, type LoggerService, type LogLevel } from "@denorid/logger";
-import type { ApplicationContext } from "./application_context.ts";
+import {
+  DEFAULT_SHUTDOWN_SIGNALS,
+  DEFAULT_SHUTDOWN_TIMEOUT,
+  ShutdownSignalListener,
+} from "./_shutdown_hooks.ts";
+import type {
+  ApplicationContext,
+  ShutdownHooksOptions,
+} from "./application_context.ts";
 import {
   ConsoleCommandRunner,
   type ConsoleCommandRunnerOptions,
@@ -48,6 +56,14 @@ export class Application<
   /** Exception handler used to process unhandled errors. */
   protected exceptionHandler!: ExceptionHandler;
 
+  /**
+   * Maximum time in milliseconds {@link drain} waits, unlimited unless
+   * {@link enableShutdownHooks} was called.
+   */
+  protected shutdownTimeout?: number;
+
+  private shutdownListener?: ShutdownSignalListener;
+
   /**
    * @param {Type} metaType - The root module class used to derive the logger name.
    * @param {InjectorContext} ctx - The injector context for resolving providers.
@@ -133,16 +149,37 @@ export class Application<
   /**
    * @inheritdoc
    */
+  public async close(signal?: string): Promise<void> {
+    this.shutdownListener?.dispose();
 
-  public async close(): Promise<void> {
     if (this.initialized) {
       this.initialized = false;
 
-      await this.ctx.onBeforeApplicationShutdown();
-      await this.ctx.onApplicationShutdown();
+      await this.ctx.onBeforeApplicationShutdown(signal);
+      await this.ctx.onApplicationShutdown(signal);
     }
   }
 
+  /**
+   * @inheritdoc
+   */
+  public enableShutdownHooks(
+    signals: Deno.Signal[] = DEFAULT_SHUTDOWN_SIGNALS,
+    options: ShutdownHooksOptions = {},
+  ): this {
+    this.shutdownTimeout = options.timeout ?? DEFAULT_SHUTDOWN_TIMEOUT;
+    this.shutdownListener ??= new ShutdownSignalListener(async (signal) => {
+      try {
+        await this.close(signal);
+      } catch (error) {
+        this.logger.error(`Failed to shut down on ${signal}`, error);
+      }
+    });
+    this.shutdownListener.listen(signals);
+
+    return this;
+  }
+
   /**
    * @inheritdoc
    */
@@ -170,4 +207,40 @@ export class Application<
   }
 
   // deno-coverage-ignore-stop
+
+  /**
+   * Waits for in-flight work to settle before the shutdown hooks run, at most
+   * {@link shutdownTimeout} milliseconds.
+   *
+   * @param {Promise<unknown>[]} pending - The work to wait for.
+   * @return {Promise<void>}
+   */
+  protected async drain(pending: Promise<unknown>[]): Promise<void> {
+    const drained = Promise.all(pending).then(() => true);
+    const timeout = this.shutdownTimeout;
+
+    if (timeout === undefined) {
+      await drained;
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const settled = await Promise.race([
+        drained,
+        new Promise<false>((resolve) => {
+          timer = setTimeout(() => resolve(false), timeout);
+        }),
+      ]);
+
+      if (!settled) {
+        this.logger.warn(
+          `In-flight work did not finish within ${timeout}ms, shutting down anyway`,
+        );
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+  }
 }
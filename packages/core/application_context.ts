@@ -6,8 +6,24 @@ import type {
 } from "@denorid/injector";
 import type { ConsoleCommandRunnerOptions } from "./cli/command_runner.ts";
 import type { CanActivate, CanActivateFn } from "./guards/can_activate.ts";
+import type { ListenAddress, ListenOptions } from "./http/adapter.ts";
+import type { VersioningOptions } from "./http/versioning.ts";
+import type { Interceptor, InterceptorFn } from "./interceptors/interceptor.ts";
 import type { MicroserviceServer } from "./microservices/server.ts";
 
+/**
+ * Options accepted by {@link ApplicationContext.enableShutdownHooks}.
+ */
+export interface ShutdownHooksOptions {
+  /**
+   * Time in milliseconds to wait for in-flight HTTP requests and message
+   * handlers before the shutdown hooks run regardless.
+   *
+   * @default 10000
+   */
+  timeout?: number;
+}
+
 /**
  * Interface defining the core application context.
  */
@@ -69,9 +85,34 @@ export interface ApplicationContext extends AsyncDisposable {
   /**
    * Gracefully shuts down the application context and disposes of all providers.
    *
+   * @param {string} [signal] - The signal that caused the shutdown, passed to
+   *        the `onBeforeApplicationShutdown` and `onApplicationShutdown` hooks.
    * @returns {Promise<void>}
    */
-  close(): Promise<void>;
+  close(signal?: string): Promise<void>;
+
+  /**
+   * Closes the application once the process receives one of the given
+   * signals: HTTP servers stop accepting connections, in-flight requests and
+   * message handlers are drained, connected microservices are closed and the
+   * shutdown hooks run with the received signal. The signal is raised again
+   * afterwards, terminating the process.
+   *
+   * @param {Deno.Signal[]} [signals] - The signals to listen for.
+   * @param {ShutdownHooksOptions} [options] - Drain options.
+   * @returns {this} This application instance for method chaining.
+   *
+   * @example
+   * ```ts
+   * const app = await DenoridFactory.create(AppModule, { adapter });
+   *
+   * app.enableShutdownHooks(["SIGTERM", "SIGINT"], { timeout: 30_000 });
+   * ```
+   */
+  enableShutdownHooks(
+    signals?: Deno.Signal[],
+    options?: ShutdownHooksOptions,
+  ): this;
 
   /**
    * Discovers all `@ConsoleCommand`-decorated providers, parses the given
@@ -106,6 +147,16 @@ interface GlobalUsageContext {
   useGlobalGuards(
     ...guards: (CanActivate | CanActivateFn)[]
   ): void;
+
+  /**
+   * Registers one or more interceptors to be applied globally around every
+   * handler. Global interceptors wrap controller and method interceptors.
+   *
+   * @param {...(Interceptor|InterceptorFn)[]} interceptors - The interceptors to register globally.
+   */
+  useGlobalInterceptors(
+    ...interceptors: (Interceptor | InterceptorFn)[]
+  ): void;
 }
 
 export interface MicroserviceApplicationContext
@@ -121,7 +172,8 @@ export interface MicroserviceApplicationContext
  */
 export interface ConnectMicroserviceOptions {
   /**
-   * When true, microservice inherits global guards from the HTTP application.
+   * When true, microservice inherits global guards and interceptors from the
+   * HTTP application.
    *
    * @default false
    */
@@ -131,11 +183,23 @@ export interface ConnectMicroserviceOptions {
 export interface HttpApplicationContext
   extends ApplicationContext, GlobalUsageContext {
   /**
-   * Starts the HTTP server and begins accepting incoming requests.
+   * Starts the HTTP server and begins accepting incoming requests. The
+   * server is started once, later calls resolve to the same address.
+   *
+   * @param {ListenOptions} [options] - Overrides the configured `listen` options.
+   * @return {Promise<ListenAddress>} Resolves to the bound address once the
+   *   server accepts connections.
+   */
+  listen(options?: ListenOptions): Promise<ListenAddress>;
+
+  /**
+   * Enables versioning of the controllers and routes. Must be called before
+   * the application is initialized.
    *
-   * @todo: return a promise instead
+   * @param {VersioningOptions} options - The versioning strategy.
+   * @returns {this} This application instance for method chaining.
    */
-  listen(): void;
+  enableVersioning(options: VersioningOptions): this;
 
   /**
    * Connects a microservice server to this HTTP application.
@@ -0,0 +1,275 @@
+import type { InjectionToken, InjectorContext, Type } from "@denorid/injector";
+import {
+  CLI_PATTERN_SOURCE,
+  MESSAGE_CONTROLLER_METADATA,
+} from "../_constants.ts";
+import type { RegisteredRoute } from "../http/controller_mapping.ts";
+import { HttpMethod } from "../http/method.ts";
+import { StatusCode } from "../http/status.ts";
+import { getMessageMappingMetadata } from "../microservices/metadata.ts";
+import { serializePattern } from "../microservices/pattern.ts";
+import type { OutputFormatter } from "./_formatter.ts";
+import type {
+  ConsoleCommandInput,
+  ConsoleCommandInterface,
+} from "./command_interface.ts";
+import { ConsoleCommand } from "./decorator.ts";
+import type { InputOption } from "./options.ts";
+import type {
+  PatternDescriptor,
+  PatternSourceInterface,
+} from "./pattern_source.ts";
+
+/**
+ * Services handed to the built-in commands by the
+ * {@linkcode ConsoleCommandRunner}, which instantiates them itself instead of
+ * resolving them from the container.
+ */
+export interface BuiltinCommandContext {
+  /** Bootstrapped injector context of the application. */
+  ctx: InjectorContext;
+  /** Formatter honouring the global `--no-color` flag. */
+  formatter: OutputFormatter;
+  /** Routes registered by the HTTP application, empty for other applications. */
+  routes: RegisteredRoute[];
+  /** Writes `text` to the runner's stdout. */
+  write(text: string): Promise<void>;
+}
+
+const JSON_OPTION: InputOption = {
+  name: "json",
+  description: "Output as JSON instead of a table",
+  type: "boolean",
+};
+
+abstract class BuiltinCommand implements ConsoleCommandInterface {
+  public constructor(protected readonly context: BuiltinCommandContext) {}
+
+  public abstract execute(input: ConsoleCommandInput): Promise<number>;
+
+  /**
+   * Writes `records` as pretty printed JSON when `--json` is given, otherwise
+   * as a table of `rows`.
+   */
+  protected async render(
+    input: ConsoleCommandInput,
+    records: unknown[],
+    headers: string[],
+    rows: string[][],
+  ): Promise<number> {
+    await this.context.write(
+      input.options["json"] === true
+        ? `${JSON.stringify(records, null, 2)}\n`
+        : this.context.formatter.table(headers, rows),
+    );
+
+    return 0;
+  }
+}
+
+/**
+ * `routes:list` — lists the routes registered by the HTTP application.
+ */
+@ConsoleCommand({
+  command: "routes:list",
+  description: "Lists the registered HTTP routes",
+  options: [JSON_OPTION],
+})
+export class RoutesListCommand extends BuiltinCommand {
+  /**
+   * @inheritdoc
+   */
+  public execute(input: ConsoleCommandInput): Promise<number> {
+    const records = this.context.routes.map((
+      { method, path, controller, guards, route },
+    ) => ({
+      method: HttpMethod[method],
+      path,
+      controller: controller.name,
+      handler: String(route.name),
+      guards: guards.map(nameOf),
+      validation: [
+        ...route.validation ? [route.validation.type] : [],
+        ...(route.parameterValidation ?? []).map(({ type }) => type),
+      ],
+      statusCode: route.statusCode ?? StatusCode.Ok,
+    }));
+
+    return this.render(
+      input,
+      records,
+      [
+        "Method",
+        "Path",
+        "Controller",
+        "Handler",
+        "Guards",
+        "Validation",
+        "Status",
+      ],
+      records.map((record) => [
+        record.method,
+        record.path,
+        record.controller,
+        record.handler,
+        record.guards.join(", "),
+        record.validation.join(", "),
+        String(record.statusCode),
+      ]),
+    );
+  }
+}
+
+/**
+ * `patterns:list` — lists the `@MessagePattern()` and `@EventPattern()`
+ * handlers plus those contributed by `@PatternSource()` providers, e.g.
+ * `@Queued()`, `@Cron()` and AMQP bindings.
+ */
+@ConsoleCommand({
+  command: "patterns:list",
+  description: "Lists the registered message, event, queue and cron handlers",
+  options: [JSON_OPTION],
+})
+export class PatternsListCommand extends BuiltinCommand {
+  /**
+   * @inheritdoc
+   */
+  public async execute(input: ConsoleCommandInput): Promise<number> {
+    const { ctx } = this.context;
+    const patterns: PatternDescriptor[] = [];
+
+    for (
+      const token of ctx.container.getTokensByTag(
+        MESSAGE_CONTROLLER_METADATA,
+        true,
+      )
+    ) {
+      if (typeof token !== "function") {
+        continue;
+      }
+
+      for (
+        const { pattern, name, type }
+          of getMessageMappingMetadata(token as Type) ?? []
+      ) {
+        patterns.push({
+          transport: "microservice",
+          type,
+          pattern: serializePattern(pattern),
+          provider: token as Type,
+          handler: name,
+        });
+      }
+    }
+
+    // Resolved per module, pattern sources are rarely exported.
+    for (const moduleRef of ctx.getModuleRefs().values()) {
+      for (
+        const source of await moduleRef.getByTag<PatternSourceInterface>(
+          CLI_PATTERN_SOURCE,
+        )
+      ) {
+        patterns.push(...await source.describePatterns());
+      }
+    }
+
+    const records = patterns.map((
+      { transport, type, pattern, provider, handler },
+    ) => ({
+      transport,
+      type,
+      pattern,
+      provider: provider.name,
+      handler: String(handler),
+    }));
+
+    return await this.render(
+      input,
+      records,
+      ["Transport", "Type", "Pattern", "Provider", "Handler"],
+      records.map((
+        { transport, type, pattern, provider, handler },
+      ) => [transport, type, pattern, provider, handler]),
+    );
+  }
+}
+
+/**
+ * `app:inspect` — prints the module graph: the imports of every module and
+ * its providers with their scope and whether they're exported.
+ */
+@ConsoleCommand({
+  command: "app:inspect",
+  description: "Prints the module graph with providers, scopes and exports",
+  options: [JSON_OPTION],
+})
+export class AppInspectCommand extends BuiltinCommand {
+  /**
+   * @inheritdoc
+   */
+  public execute(input: ConsoleCommandInput): Promise<number> {
+    const records = this.context.ctx.describeModules().map((mod) => ({
+      module: mod.type.name,
+      global: mod.isGlobal,
+      imports: mod.imports.map(nameOf),
+      providers: mod.providers.map(({ token, mode, multi }) => ({
+        token: nameOf(token),
+        scope: mode,
+        multi,
+        exported: mod.exports.includes(token),
+      })),
+      exports: mod.exports.map(nameOf),
+    }));
+    const rows: string[][] = [];
+
+    for (const record of records) {
+      const label = record.global
+        ? `${record.module} <comment>(global)</comment>`
+        : record.module;
+      const imports = record.imports.join(", ");
+
+      if (record.providers.length === 0) {
+        rows.push([label, imports, "", "", ""]);
+      }
+
+      record.providers.forEach(({ token, scope, multi, exported }, i) => {
+        rows.push([
+          i === 0 ? label : "",
+          i === 0 ? imports : "",
+          token,
+          multi ? `${scope} (multi)` : scope,
+          exported ? "yes" : "",
+        ]);
+      });
+    }
+
+    return this.render(
+      input,
+      records,
+      ["Module", "Imports", "Provider", "Scope", "Exported"],
+      rows,
+    );
+  }
+}
+
+/**
+ * Commands every {@linkcode ConsoleCommandRunner} provides next to the
+ * `@ConsoleCommand()` providers of the application.
+ */
+export const BUILTIN_COMMANDS: Type<ConsoleCommandInterface>[] = [
+  RoutesListCommand,
+  PatternsListCommand,
+  AppInspectCommand,
+];
+
+/** Display name of a token, guard or module. */
+function nameOf(value: InjectionToken | object): string {
+  if (typeof value === "function") {
+    return value.name || "anonymous";
+  }
+  if (typeof value === "object") {
+    return value.constructor.name;
+  }
+
+  return value.toString();
+}
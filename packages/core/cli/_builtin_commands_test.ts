@@ -0,0 +1,322 @@
+import type {
+  InjectorContext,
+  ModuleDescriptor,
+  Tag,
+  Type,
+} from "@denorid/injector";
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  CLI_PATTERN_SOURCE,
+  MESSAGE_CONTROLLER_METADATA,
+} from "../_constants.ts";
+import type { CanActivate } from "../guards/can_activate.ts";
+import type {
+  HttpController,
+  RegisteredRoute,
+} from "../http/controller_mapping.ts";
+import { HttpMethod } from "../http/method.ts";
+import { StatusCode } from "../http/status.ts";
+import { EventPattern, MessagePattern } from "../microservices/decorators.ts";
+import {
+  AppInspectCommand,
+  type BuiltinCommandContext,
+  PatternsListCommand,
+  RoutesListCommand,
+} from "./_builtin_commands.ts";
+import { OutputFormatter } from "./_formatter.ts";
+import {
+  type PatternDescriptor,
+  PatternSource,
+  type PatternSourceInterface,
+} from "./pattern_source.ts";
+
+function makeContext(
+  overrides: {
+    tokens?: Map<Tag, unknown[]>;
+    sources?: PatternSourceInterface[];
+    modules?: ModuleDescriptor[];
+    routes?: RegisteredRoute[];
+  } = {},
+): { context: BuiltinCommandContext; output: () => string } {
+  let output = "";
+  const ctx = {
+    container: {
+      getTokensByTag: (tag: Tag) => overrides.tokens?.get(tag) ?? [],
+    },
+    getModuleRefs: () =>
+      new Map([[class AppModule {}, {
+        getByTag: (tag: Tag) =>
+          Promise.resolve(
+            tag === CLI_PATTERN_SOURCE ? overrides.sources ?? [] : [],
+          ),
+      }]]),
+    describeModules: () => overrides.modules ?? [],
+  } as unknown as InjectorContext;
+
+  return {
+    context: {
+      ctx,
+      formatter: new OutputFormatter(false),
+      routes: overrides.routes ?? [],
+      write: (text) => {
+        output += text;
+        return Promise.resolve();
+      },
+    },
+    output: () => output,
+  };
+}
+
+class UsersController {}
+
+class AdminGuard implements CanActivate {
+  public canActivate(): boolean {
+    return true;
+  }
+}
+
+const routes: RegisteredRoute[] = [
+  {
+    method: HttpMethod.GET,
+    path: "/api/users",
+    controller: UsersController as Type<HttpController>,
+    guards: [],
+    route: { name: "index", parameterValidation: [{ type: "query", dto: {} }] },
+  },
+  {
+    method: HttpMethod.POST,
+    path: "/api/users",
+    controller: UsersController as Type<HttpController>,
+    guards: [AdminGuard, function isOwner() {
+      return true;
+    }],
+    route: {
+      name: "create",
+      statusCode: StatusCode.Created,
+      validation: { type: "json", dto: {} },
+    },
+  },
+];
+
+describe("RoutesListCommand", () => {
+  it("renders the routes as a table", async () => {
+    const { context, output } = makeContext({ routes });
+
+    const code = await new RoutesListCommand(context).execute({
+      options: {},
+      args: [],
+    });
+
+    assertEquals(code, 0);
+    assertEquals(
+      output(),
+      [
+        "+--------+------------+-----------------+---------+---------------------+------------+--------+",
+        "| Method | Path       | Controller      | Handler | Guards              | Validation | Status |",
+        "+--------+------------+-----------------+---------+---------------------+------------+--------+",
+        "| GET    | /api/users | UsersController | index   |                     | query      | 200    |",
+        "| POST   | /api/users | UsersController | create  | AdminGuard, isOwner | json       | 201    |",
+        "+--------+------------+-----------------+---------+---------------------+------------+--------+",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("renders the routes as JSON with --json", async () => {
+    const { context, output } = makeContext({ routes });
+
+    await new RoutesListCommand(context).execute({
+      options: { json: true },
+      args: [],
+    });
+
+    assertEquals(JSON.parse(output()), [
+      {
+        method: "GET",
+        path: "/api/users",
+        controller: "UsersController",
+        handler: "index",
+        guards: [],
+        validation: ["query"],
+        statusCode: 200,
+      },
+      {
+        method: "POST",
+        path: "/api/users",
+        controller: "UsersController",
+        handler: "create",
+        guards: ["AdminGuard", "isOwner"],
+        validation: ["json"],
+        statusCode: 201,
+      },
+    ]);
+  });
+});
+
+describe("PatternsListCommand", () => {
+  class OrdersController {
+    @MessagePattern({ cmd: "get", entity: "order" })
+    public get(): void {}
+
+    @EventPattern("order.created")
+    public created(): void {}
+  }
+
+  class CronJobs {
+    public cleanup(): void {}
+  }
+
+  @PatternSource()
+  class CronPatterns implements PatternSourceInterface {
+    public describePatterns(): PatternDescriptor[] {
+      return [{
+        transport: "cron",
+        type: "cron",
+        pattern: "0 * * * *",
+        provider: CronJobs,
+        handler: "cleanup",
+      }];
+    }
+  }
+
+  it("lists message patterns and those of pattern sources", async () => {
+    const { context, output } = makeContext({
+      tokens: new Map<Tag, unknown[]>([
+        [MESSAGE_CONTROLLER_METADATA, [OrdersController, "not-a-class"]],
+      ]),
+      sources: [new CronPatterns()],
+    });
+
+    await new PatternsListCommand(context).execute({
+      options: { json: true },
+      args: [],
+    });
+
+    assertEquals(JSON.parse(output()), [
+      {
+        transport: "microservice",
+        type: "message",
+        pattern: '{"cmd":"get","entity":"order"}',
+        provider: "OrdersController",
+        handler: "get",
+      },
+      {
+        transport: "microservice",
+        type: "event",
+        pattern: "order.created",
+        provider: "OrdersController",
+        handler: "created",
+      },
+      {
+        transport: "cron",
+        type: "cron",
+        pattern: "0 * * * *",
+        provider: "CronJobs",
+        handler: "cleanup",
+      },
+    ]);
+  });
+
+  it("renders an empty table without handlers", async () => {
+    const { context, output } = makeContext();
+
+    await new PatternsListCommand(context).execute({ options: {}, args: [] });
+
+    assertEquals(
+      output(),
+      [
+        "+-----------+------+---------+----------+---------+",
+        "| Transport | Type | Pattern | Provider | Handler |",
+        "+-----------+------+---------+----------+---------+",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("AppInspectCommand", () => {
+  class ConfigModule {}
+  class AppModule {}
+  class ConfigService {}
+
+  const TOKEN = Symbol("plugins");
+  const modules: ModuleDescriptor[] = [
+    {
+      type: ConfigModule,
+      isGlobal: true,
+      imports: [],
+      providers: [
+        { token: ConfigService, mode: "singleton", multi: false },
+        { token: TOKEN, mode: "transient", multi: true },
+      ],
+      exports: [ConfigService],
+    },
+    {
+      type: AppModule,
+      isGlobal: false,
+      imports: [ConfigModule],
+      providers: [],
+      exports: [],
+    },
+  ];
+
+  it("renders one row per provider", async () => {
+    const { context, output } = makeContext({ modules });
+
+    await new AppInspectCommand(context).execute({ options: {}, args: [] });
+
+    assertEquals(
+      output(),
+      [
+        "+-----------------------+--------------+-----------------+-------------------+----------+",
+        "| Module                | Imports      | Provider        | Scope             | Exported |",
+        "+-----------------------+--------------+-----------------+-------------------+----------+",
+        "| ConfigModule (global) |              | ConfigService   | singleton         | yes      |",
+        "|                       |              | Symbol(plugins) | transient (multi) |          |",
+        "| AppModule             | ConfigModule |                 |                   |          |",
+        "+-----------------------+--------------+-----------------+-------------------+----------+",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("renders the module graph as JSON with --json", async () => {
+    const { context, output } = makeContext({ modules });
+
+    await new AppInspectCommand(context).execute({
+      options: { json: true },
+      args: [],
+    });
+
+    assertEquals(JSON.parse(output()), [
+      {
+        module: "ConfigModule",
+        global: true,
+        imports: [],
+        providers: [
+          {
+            token: "ConfigService",
+            scope: "singleton",
+            multi: false,
+            exported: true,
+          },
+          {
+            token: "Symbol(plugins)",
+            scope: "transient",
+            multi: true,
+            exported: false,
+          },
+        ],
+        exports: ["ConfigService"],
+      },
+      {
+        module: "AppModule",
+        global: false,
+        imports: ["ConfigModule"],
+        providers: [],
+        exports: [],
+      },
+    ]);
+  });
+});
@@ -76,6 +76,8 @@ export const DEFAULT_STYLES: Record<string, StyleDefinition> = {
 };
 
 const TAG_PATTERN: RegExp = /<(\/?)([a-zA-Z][a-zA-Z0-9_-]*)>/g;
+// deno-lint-ignore no-control-regex
+const ANSI_PATTERN: RegExp = /\x1b\[[0-9;]*m/g;
 
 /**
  * Decides whether ANSI escapes should be emitted to stdout/stderr by default.
@@ -199,6 +201,46 @@ export class OutputFormatter {
     return output;
   }
 
+  /**
+   * Renders a Symfony-style table with a bordered header row. Cells may
+   * contain markup; it doesn't count towards the column width.
+   *
+   * @param {string[]} headers - Column titles, rendered with the `info` style.
+   * @param {string[][]} rows - Cell values, one array per row.
+   * @returns {string} The rendered table, terminated by a newline.
+   */
+  public table(headers: string[], rows: string[][]): string {
+    const formatted = [
+      headers.map((header) => this.format(`<info>${header}</info>`)),
+      ...rows.map((row) => headers.map((_, i) => this.format(row[i] ?? ""))),
+    ];
+    const widths = headers.map((_, i) =>
+      Math.max(
+        ...formatted.map((row) => row[i].replace(ANSI_PATTERN, "").length),
+      )
+    );
+    const border = `+${
+      widths.map((width) => "-".repeat(width + 2)).join("+")
+    }+`;
+    const line = (row: string[]): string =>
+      `|${
+        row.map((cell, i) =>
+          ` ${cell}${
+            " ".repeat(widths[i] - cell.replace(ANSI_PATTERN, "").length)
+          } `
+        ).join("|")
+      }|`;
+
+    return [
+      border,
+      line(formatted[0]),
+      border,
+      ...formatted.slice(1).map(line),
+      ...(rows.length > 0 ? [border] : []),
+      "",
+    ].join("\n");
+  }
+
   private renderSegment(text: string, stack: StyleDefinition[]): string {
     if (!this.decorated || stack.length === 0) {
       return text;
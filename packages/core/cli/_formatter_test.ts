@@ -138,6 +138,51 @@ describe("OutputFormatter", () => {
     });
   });
 
+  describe("table()", () => {
+    it("pads every column to its widest cell", () => {
+      const formatter = new OutputFormatter(false);
+
+      assertEquals(
+        formatter.table(["Name", "Value"], [["a", "<info>long value</info>"], [
+          "longer name",
+        ]]),
+        [
+          "+-------------+------------+",
+          "| Name        | Value      |",
+          "+-------------+------------+",
+          "| a           | long value |",
+          "| longer name |            |",
+          "+-------------+------------+",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("ignores ANSI escapes when measuring the cells", () => {
+      const formatter = new OutputFormatter(true);
+
+      assertEquals(
+        formatter.table(["A"], [["<comment>x</comment>"], ["long"]]),
+        [
+          "+------+",
+          `| ${GREEN}A${RESET}    |`,
+          "+------+",
+          `| ${YELLOW}x${RESET}    |`,
+          "| long |",
+          "+------+",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it("omits the closing border without rows", () => {
+      assertEquals(
+        new OutputFormatter(false).table(["A"], []),
+        "+---+\n| A |\n+---+\n",
+      );
+    });
+  });
+
   describe("regex state safety", () => {
     it("repeated format() calls do not interfere because lastIndex is reset", () => {
       const formatter = new OutputFormatter(true);
@@ -10,6 +10,8 @@ import type { ConsoleCommandInterface } from "./command_interface.ts";
 export interface CommandEntry extends CommandSummary {
   /** Class type used to resolve the singleton instance from the container. */
   token: Type<ConsoleCommandInterface>;
+  /** Whether the runner instantiates the command instead of resolving it from the container. */
+  builtin: boolean;
 }
 
 /**
@@ -21,17 +23,19 @@ export interface CommandEntry extends CommandSummary {
  * same DI tree) surface here automatically.
  *
  * @param {InjectorContext} ctx - Bootstrapped injector context.
+ * @param {Type<ConsoleCommandInterface>[]} [builtins] - Commands instantiated by the runner, listed first.
  * @returns {Map<string, CommandEntry>} Registry keyed by command name.
  *
  * @throws {Error} When two commands declare the same name.
  */
 export function buildCommandRegistry(
   ctx: InjectorContext,
+  builtins: Type<ConsoleCommandInterface>[] = [],
 ): Map<string, CommandEntry> {
   const tokens = ctx.container.getTokensByTag(CLI_COMMAND_METADATA, true);
   const entries: Map<string, CommandEntry> = new Map();
 
-  for (const token of tokens) {
+  for (const token of [...builtins, ...tokens]) {
     if (typeof token !== "function") {
       continue;
     }
@@ -57,6 +61,7 @@ export function buildCommandRegistry(
       description: meta.description,
       help: meta.help,
       options: getOptionsMeta(type),
+      builtin: builtins.includes(type),
     });
   }
 
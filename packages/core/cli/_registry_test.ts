@@ -112,6 +112,16 @@ describe("buildCommandRegistry()", () => {
     assertEquals(registry.has("cache:clear"), true);
   });
 
+  it("lists built-in commands first and flags them", () => {
+    const registry = buildCommandRegistry(makeCtx([ClearCache as Type]), [
+      CreateUser,
+    ]);
+
+    assertEquals([...registry.keys()], ["user:create", "cache:clear"]);
+    assertEquals(registry.get("user:create")!.builtin, true);
+    assertEquals(registry.get("cache:clear")!.builtin, false);
+  });
+
   it("throws when two commands share a name", () => {
     assertThrows(
       () =>
@@ -1,9 +1,14 @@
 import type { InjectorContext } from "@denorid/injector";
+import type { RegisteredRoute } from "../http/controller_mapping.ts";
 import {
   CommandParseError,
   parseCommandArgs,
   preScanArgv,
 } from "./_argv_parser.ts";
+import {
+  BUILTIN_COMMANDS,
+  type BuiltinCommandContext,
+} from "./_builtin_commands.ts";
 import { OutputFormatter, shouldDecorate } from "./_formatter.ts";
 import { type CommandSummary, GLOBAL_OPTIONS, HelpRenderer } from "./_help.ts";
 import { buildCommandRegistry, type CommandEntry } from "./_registry.ts";
@@ -31,6 +36,8 @@ export interface ConsoleCommandRunnerOptions {
   stderr?: ConsoleWriter;
   /** Force-enable / disable ANSI escapes. When omitted, auto-detected. */
   decorated?: boolean;
+  /** Returns the routes listed by `routes:list`. Supplied by the HTTP application. */
+  routes?: () => RegisteredRoute[];
 }
 
 /**
@@ -47,6 +54,7 @@ export class ConsoleCommandRunner {
   private readonly help: HelpRenderer;
   private readonly stdout: ConsoleWriter;
   private readonly stderr: ConsoleWriter;
+  private readonly routes?: () => RegisteredRoute[];
   private readonly encoder: TextEncoder = new TextEncoder();
 
   /**
@@ -58,11 +66,12 @@ export class ConsoleCommandRunner {
     options: ConsoleCommandRunnerOptions = {},
   ) {
     this.ctx = ctx;
-    this.registry = buildCommandRegistry(ctx);
+    this.registry = buildCommandRegistry(ctx, BUILTIN_COMMANDS);
     this.formatter = new OutputFormatter(options.decorated ?? shouldDecorate());
     this.help = new HelpRenderer(this.formatter, options.appName ?? "Denorid");
     this.stdout = options.stdout ?? Deno.stdout;
     this.stderr = options.stderr ?? Deno.stderr;
+    this.routes = options.routes;
   }
 
   /**
@@ -163,9 +172,9 @@ export class ConsoleCommandRunner {
       throw error;
     }
 
-    const instance = await this.ctx.resolveInternal<ConsoleCommandInterface>(
-      entry.token,
-    );
+    const instance = entry.builtin
+      ? new entry.token(this.builtinContext())
+      : await this.ctx.resolveInternal<ConsoleCommandInterface>(entry.token);
 
     try {
       const code = await instance.execute({
@@ -185,6 +194,15 @@ export class ConsoleCommandRunner {
     }
   }
 
+  private builtinContext(): BuiltinCommandContext {
+    return {
+      ctx: this.ctx,
+      formatter: this.formatter,
+      routes: this.routes?.() ?? [],
+      write: (text) => this.write(this.stdout, text),
+    };
+  }
+
   private summary(): CommandSummary[] {
     return [...this.registry.values()];
   }
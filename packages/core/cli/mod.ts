@@ -43,3 +43,8 @@ export type {
   InputOption,
   InputOptionValue,
 } from "./options.ts";
+export {
+  type PatternDescriptor,
+  PatternSource,
+  type PatternSourceInterface,
+} from "./pattern_source.ts";
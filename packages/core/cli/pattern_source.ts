@@ -0,0 +1,48 @@
+import type { Decorator, Type } from "@denorid/injector";
+import { Injectable, Tags } from "@denorid/injector";
+import { CLI_PATTERN_SOURCE } from "../_constants.ts";
+
+/**
+ * A message handler listed by the built-in `patterns:list` command.
+ */
+export interface PatternDescriptor {
+  /** The transport delivering the messages, e.g. `amqp` or `cron`. */
+  transport: string;
+  /** The kind of handler, e.g. `message`, `event` or `topic`. */
+  type: string;
+  /** The pattern, queue, routing keys or schedule the handler is bound to. */
+  pattern: string;
+  /** The class declaring the handler. */
+  provider: Type;
+  /** The name of the handler method. */
+  handler: string | symbol;
+}
+
+/**
+ * Contract implemented by every `@PatternSource()` provider.
+ */
+export interface PatternSourceInterface {
+  /**
+   * Describes the message handlers discovered by the provider.
+   *
+   * @returns {PatternDescriptor[]|Promise<PatternDescriptor[]>} The handlers.
+   */
+  describePatterns(): PatternDescriptor[] | Promise<PatternDescriptor[]>;
+}
+
+/**
+ * Marks a provider that contributes message handlers to the built-in
+ * `patterns:list` command, e.g. the `@Cron()` jobs of a package.
+ *
+ * The decorator registers the class as a singleton injectable and tags it
+ * with {@linkcode CLI_PATTERN_SOURCE}; `@MessagePattern()` and
+ * `@EventPattern()` handlers are listed without one.
+ *
+ * @returns {Decorator<ClassDecoratorContext>}
+ */
+export function PatternSource(): Decorator<ClassDecoratorContext> {
+  return (target: unknown, ctx: ClassDecoratorContext): void => {
+    Injectable({ mode: "singleton" })(target, ctx);
+    Tags(CLI_PATTERN_SOURCE)(target, ctx);
+  };
+}
@@ -15,6 +15,7 @@ import {
 } from "./http_application.ts";
 import { MicroserviceApplication } from "./microservice_application.ts";
 import { MicroserviceServer } from "./microservices/server.ts";
+import { Reflector } from "./reflector/reflector.ts";
 
 /**
  * Factory for creating and bootstrapping Denorid application instances.
@@ -85,6 +86,10 @@ export class DenoridFactory {
           provide: InjectorContext,
           useValue: ctx,
         });
+        ctx.registerGlobal({
+          provide: Reflector,
+          useValue: new Reflector(),
+        });
       },
     });
     const app = this.instantiateApplication(
@@ -19,6 +19,7 @@ import type { ControllerMapping } from "./http/controller_mapping.ts";
 import { HttpApplication } from "./http_application.ts";
 import { MicroserviceApplication } from "./microservice_application.ts";
 import { MicroserviceServer } from "./microservices/server.ts";
+import { Reflector } from "./reflector/reflector.ts";
 
 describe("DenoridFactory", () => {
   class RootModule {}
@@ -31,6 +32,7 @@ describe("DenoridFactory", () => {
       },
       resolve: () => Promise.resolve(undefined),
       resolveInternal: () => Promise.resolve(undefined),
+      getModuleRefs: () => new Map(),
       onApplicationBootstrap: () => Promise.resolve(),
       onBeforeApplicationShutdown: () => Promise.resolve(),
       onApplicationShutdown: () => Promise.resolve(),
@@ -45,7 +47,8 @@ describe("DenoridFactory", () => {
 
   function makeHttpAdapter(mapping?: ControllerMapping): HttpAdapter {
     return {
-      listen: () => {},
+      listen: () =>
+        Promise.resolve({ transport: "tcp", hostname: "0.0.0.0", port: 8000 }),
       close: () => Promise.resolve(),
       createControllerMapping: (
         _opts: ControllerMappingOptions,
@@ -115,9 +118,11 @@ describe("DenoridFactory", () => {
 
         opts.beforeInit(mockCtx);
 
-        assertEquals(registered.length, 2);
+        assertEquals(registered.length, 3);
         assertEquals(registered[0].provide, ExceptionHandler);
         assertInstanceOf(registered[0].useValue, ExceptionHandler);
+        assertEquals(registered[2].provide, Reflector);
+        assertInstanceOf(registered[2].useValue, Reflector);
       } finally {
         createStub.restore();
       }
@@ -309,6 +314,7 @@ describe("DenoridFactory", () => {
       public override setExceptionHandler(): void {}
       public override registerHandlers(): void {}
       public override setGlobalGuards(): void {}
+      public override setGlobalInterceptors(): void {}
     }
 
     it("returns a MicroserviceApplication when passed a MicroserviceServer", async () => {
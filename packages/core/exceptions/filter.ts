@@ -27,8 +27,11 @@ export interface ExceptionFilter<T = unknown> {
  * @template T The exception class this filter is bound to
  */
 export interface ExceptionFilterMetadata<T extends Error> {
-  /** The exception class this filter handles. */
-  target: Type;
+  /**
+   * The exception class this filter handles, including its subclasses. When
+   * omitted the filter catches everything.
+   */
+  target?: Type;
   /**
    * Optional priority used to determine the order in which filters are
    * evaluated when multiple filters match the same exception. Higher values
@@ -37,9 +40,25 @@ export interface ExceptionFilterMetadata<T extends Error> {
   priority?: number;
 }
 
+/**
+ * Class decorator that marks a class as a catch-all exception filter.
+ *
+ * Catch-all filters only run when no filter targets the thrown error's class
+ * or one of its parent classes. They also receive thrown values that are not
+ * `Error` instances.
+ *
+ * @example
+ * ```ts
+ * @Catch()
+ * class AllExceptionsFilter implements ExceptionFilter {
+ *   catch(exception: unknown, host: HostArguments): void { ... }
+ * }
+ * ```
+ */
+export function Catch(): Decorator<ClassDecoratorContext, Type>;
 /**
  * Class decorator that marks a class as an exception filter and registers it
- * for a specific exception type.
+ * for a specific exception type and its subclasses.
  *
  * @template T The exception class to catch
  *
@@ -81,13 +100,13 @@ export function Catch<T extends Error>(
   options: ExceptionFilterMetadata<T>,
 ): Decorator<ClassDecoratorContext, Type>;
 export function Catch<T extends Error>(
-  arg0: Type<T> | ExceptionFilterMetadata<T>,
+  arg0?: Type<T> | ExceptionFilterMetadata<T>,
   arg1?: Required<Omit<ExceptionFilterMetadata<T>, "target">>,
 ): Decorator<ClassDecoratorContext, Type> {
   return (target: Type, ctx: ClassDecoratorContext): void => {
     const options: ExceptionFilterMetadata<T> = typeof arg0 === "function"
       ? { target: arg0, ...(arg1 ?? {}) }
-      : arg0;
+      : arg0 ?? {};
 
     ctx.metadata[EXCEPTION_FILTER_METADATA] = options;
 
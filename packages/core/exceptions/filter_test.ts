@@ -10,6 +10,33 @@ const TAG_METADATA = Symbol.for("denorid.tags");
 class TestError extends Error {}
 
 describe("Catch", () => {
+  describe("overload: Catch()", () => {
+    it("sets EXCEPTION_FILTER_METADATA without a target", () => {
+      @Catch()
+      class CatchAllFilter {}
+
+      const meta = CatchAllFilter[Symbol.metadata]
+        ?.[EXCEPTION_FILTER_METADATA] as
+          | ExceptionFilterMetadata<Error>
+          | undefined;
+
+      assertExists(meta);
+      assertEquals(meta.target, undefined);
+    });
+
+    it("tags the class with EXCEPTION_FILTER", () => {
+      @Catch()
+      class CatchAllFilter {}
+
+      const tags = CatchAllFilter[Symbol.metadata]?.[TAG_METADATA] as
+        | Tag[]
+        | undefined;
+
+      assertExists(tags);
+      assertEquals(tags.includes(EXCEPTION_FILTER), true);
+    });
+  });
+
   describe("overload: Catch(exceptionClass)", () => {
     it("sets EXCEPTION_FILTER_METADATA with only target", () => {
       @Catch(TestError)
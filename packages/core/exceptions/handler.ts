@@ -2,6 +2,7 @@ import type { InjectorContext, Type } from "@denorid/injector";
 import { Logger, type LoggerService } from "@denorid/logger";
 import { EXCEPTION_FILTER, EXCEPTION_FILTER_METADATA } from "../_constants.ts";
 import type { HostArguments } from "../host_arguments.ts";
+import { isClass } from "../type_guards.ts";
 import type { ExceptionFilter, ExceptionFilterMetadata } from "./filter.ts";
 import { IntrinsicException } from "./intrinsic.ts";
 
@@ -22,14 +23,28 @@ interface ExceptionFilterEntry {
   priority: number;
 }
 
+/**
+ * A filter bound to a controller or handler via `UseFilters`, together with
+ * the metadata of its `@Catch()` decorator.
+ */
+interface ScopedExceptionFilterEntry {
+  /** The filter class or instance. */
+  exceptionFilter: Type<ExceptionFilter> | ExceptionFilter;
+  /** The targeted exception class, `undefined` for catch-all filters. */
+  target?: Type;
+  /** Dispatch priority for this filter. */
+  priority: number;
+}
+
 /**
  * Resolves and dispatches exception filters registered in the DI container.
  *
  * On {@linkcode ExceptionHandler.register}, all providers tagged with
  * `EXCEPTION_FILTER` are resolved and indexed by the exception class they
- * target. When an error is thrown, {@linkcode ExceptionHandler.handle} fans
- * out to all matching filters in priority order and collects their return
- * values.
+ * target. When an error is thrown, {@linkcode ExceptionHandler.handle} walks
+ * the prototype chain of the error and fans out to the filters of the most
+ * specific class that has any, in priority order, and collects their return
+ * values. Catch-all filters (`@Catch()`) are used when no class matches.
  *
  * @example
  * ```ts
@@ -47,6 +62,11 @@ export class ExceptionHandler {
   });
   private readonly handlers: WeakMap<Type, ExceptionFilterEntry[]> =
     new WeakMap();
+  private readonly catchAllHandlers: ExceptionFilterEntry[] = [];
+  private readonly scopedFilterInstances: WeakMap<
+    Type<ExceptionFilter>,
+    Promise<ExceptionFilter>
+  > = new WeakMap();
 
   /**
    * @param {InjectorContext} ctx The injector context used to resolve exception
@@ -70,56 +90,83 @@ export class ExceptionHandler {
   }
 
   /**
-   * Returns whether a registered filter exists for the given error.
+   * Returns whether a filter exists for the given error.
    *
    * @param {unknown} error The value thrown during request processing.
-   * @returns {boolean} `true` when `error` is an `Error` instance **and** at
-   * least one filter is registered for its constructor, `false` otherwise.
+   * @param {(Type<ExceptionFilter> | ExceptionFilter)[]} [scopedFilters] Filters
+   * bound via `UseFilters`, method-level filters first.
+   * @returns {boolean} `true` when a scoped filter, a global filter for the
+   * error's class or one of its parent classes, or a catch-all filter exists,
+   * `false` otherwise.
    */
-  public canHandle(error: unknown): boolean {
-    return error instanceof Error &&
-      this.handlers.has((error as Error).constructor as Type);
+  public canHandle(
+    error: unknown,
+    scopedFilters: (Type<ExceptionFilter> | ExceptionFilter)[] = [],
+  ): boolean {
+    return this.selectScopedFilters(error, scopedFilters).length > 0 ||
+      this.selectGlobalFilters(error).length > 0;
   }
 
   /**
    * Dispatches `error` to all matching exception filters and collects their
    * return values.
    *
+   * - Scoped filters win over global ones. Among each, only the filters
+   *   targeting the most specific class in the prototype chain of `error` are
+   *   called, catch-all filters are the fallback.
    * - Filters are called concurrently via `Promise.allSettled`.
    * - Rejected filters are logged at `fatal` level and do not interrupt other
    *   filters.
    * - `null` and `undefined` return values are discarded.
    * - When exactly one non-null/undefined value is collected it is returned
    *   directly; when multiple values are collected they are returned as an
-   *   array. When `error` is not an `Error` instance, or all filters return
-   *   nothing, the method returns `undefined`.
+   *   array. When no filter matches, or all filters return nothing, the
+   *   method returns `undefined`.
+   * - Values that are not `Error` instances only reach catch-all filters.
    *
    * @param {unknown} error The value thrown during request processing.
    * @param {HostArguments} host Provides access to the in-flight request/response.
+   * @param {(Type<ExceptionFilter> | ExceptionFilter)[]} [scopedFilters] Filters
+   * bound via `UseFilters`, method-level filters first.
    * @returns {Promise<unknown>} The collected filter result(s), or `undefined`.
    */
-  public async handle(error: unknown, host: HostArguments): Promise<unknown> {
+  public async handle(
+    error: unknown,
+    host: HostArguments,
+    scopedFilters: (Type<ExceptionFilter> | ExceptionFilter)[] = [],
+  ): Promise<unknown> {
     const result: unknown[] = [];
 
-    if (error instanceof Error) {
-      if (!(error instanceof IntrinsicException)) {
-        this.logger.error(error.message, error.stack);
-      }
+    if (error instanceof Error && !(error instanceof IntrinsicException)) {
+      this.logger.error(error.message, error.stack);
+    }
 
-      const allSetteled = await Promise.allSettled(
-        (this.handlers.get(error.constructor as Type) ?? []).map((
-          { exceptionFilter },
-        ) => exceptionFilter.catch(error, host)),
+    const scoped = this.selectScopedFilters(error, scopedFilters);
+    const exceptionFilters = scoped.length > 0
+      ? await Promise.all(
+        scoped.map(({ exceptionFilter }) =>
+          this.resolveScopedFilter(exceptionFilter)
+        ),
+      )
+      : this.selectGlobalFilters(error).map(({ exceptionFilter }) =>
+        exceptionFilter
       );
 
-      for (const setteled of allSetteled) {
-        if (setteled.status === "rejected") {
-          this.logger.fatal(
-            `Unhandeld exception while listening for ${error.constructor.name}: ${setteled.reason}`,
-          );
-        } else if (setteled.value !== undefined && setteled.value !== null) {
-          result.push(setteled.value);
-        }
+    const allSetteled = await Promise.allSettled(
+      exceptionFilters.map(async (exceptionFilter) =>
+        await exceptionFilter.catch(error, host)
+      ),
+    );
+
+    for (const setteled of allSetteled) {
+      if (setteled.status === "rejected") {
+        this.logger.fatal(
+          `Unhandeld exception while listening for ${
+            error instanceof Error ? error.constructor.name : typeof error
+          }: ${setteled.reason}`,
+        );
+      } else if (setteled.value !== undefined && setteled.value !== null) {
+        result.push(setteled.value);
       }
     }
 
@@ -152,7 +199,9 @@ export class ExceptionHandler {
     const exceptionFilter = await this.ctx.resolveInternal(filterClass);
 
     this.registerExceptionFilterInCache(
-      this.getExceptionFilterEntries(metadata.target),
+      metadata.target
+        ? this.getExceptionFilterEntries(metadata.target)
+        : this.catchAllHandlers,
       {
         exceptionFilter,
         priority: metadata.priority ?? 0,
@@ -160,6 +209,116 @@ export class ExceptionHandler {
     );
   }
 
+  /**
+   * Returns the global filters for `error`: the entries of the closest class
+   * in its prototype chain that has any, otherwise the catch-all filters.
+   *
+   * @param {unknown} error The thrown value.
+   * @returns {ExceptionFilterEntry[]} The matching entries, sorted by priority.
+   *
+   * @internal
+   */
+  private selectGlobalFilters(error: unknown): ExceptionFilterEntry[] {
+    for (const type of getPrototypeChain(error)) {
+      const entries = this.handlers.get(type);
+
+      if (entries) {
+        return entries;
+      }
+    }
+
+    return this.catchAllHandlers;
+  }
+
+  /**
+   * Returns the scoped filters for `error` that target the closest class in
+   * its prototype chain, falling back to the scoped catch-all filters. The
+   * result is sorted by priority; equal priorities keep the given order.
+   *
+   * @param {unknown} error The thrown value.
+   * @param {(Type<ExceptionFilter> | ExceptionFilter)[]} scopedFilters The
+   * filters bound via `UseFilters`.
+   * @returns {ScopedExceptionFilterEntry[]} The matching entries.
+   *
+   * @internal
+   */
+  private selectScopedFilters(
+    error: unknown,
+    scopedFilters: (Type<ExceptionFilter> | ExceptionFilter)[],
+  ): ScopedExceptionFilterEntry[] {
+    if (scopedFilters.length === 0) {
+      return [];
+    }
+
+    const chain = getPrototypeChain(error);
+    let selected: ScopedExceptionFilterEntry[] = [];
+    let selectedDistance = Infinity;
+
+    for (const exceptionFilter of scopedFilters) {
+      const type = isClass<ExceptionFilter>(exceptionFilter)
+        ? exceptionFilter
+        : exceptionFilter.constructor as Type;
+      const metadata = type[Symbol.metadata]?.[EXCEPTION_FILTER_METADATA] as
+        | ExceptionFilterMetadata<Error>
+        | undefined;
+
+      if (!metadata) {
+        continue;
+      }
+
+      const distance = metadata.target
+        ? chain.indexOf(metadata.target)
+        : chain.length;
+
+      if (distance === -1 || distance > selectedDistance) {
+        continue;
+      }
+      if (distance < selectedDistance) {
+        selected = [];
+        selectedDistance = distance;
+      }
+
+      this.registerExceptionFilterInCache(selected, {
+        exceptionFilter,
+        target: metadata.target,
+        priority: metadata.priority ?? 0,
+      });
+    }
+
+    return selected;
+  }
+
+  /**
+   * Resolves a scoped filter class from the DI container, or instantiates it
+   * when it is not registered as a provider. Instances are returned as is.
+   *
+   * @param {Type<ExceptionFilter> | ExceptionFilter} exceptionFilter The
+   * filter class or instance.
+   * @returns {Promise<ExceptionFilter>} The filter instance.
+   *
+   * @internal
+   */
+  private resolveScopedFilter(
+    exceptionFilter: Type<ExceptionFilter> | ExceptionFilter,
+  ): Promise<ExceptionFilter> {
+    if (!isClass<ExceptionFilter>(exceptionFilter)) {
+      return Promise.resolve(exceptionFilter);
+    }
+
+    let instance = this.scopedFilterInstances.get(exceptionFilter);
+
+    if (!instance) {
+      const moduleRef = this.ctx.getHostModuleRef();
+
+      instance = moduleRef.tryGet(exceptionFilter, { strict: false })
+        .then((resolved) => resolved ?? moduleRef.create(exceptionFilter));
+
+      this.scopedFilterInstances.set(exceptionFilter, instance);
+    }
+
+    return instance;
+  }
+
   /**
    * Retrieves (or lazily creates) the filter entry list for `target`.
    *
@@ -184,14 +343,14 @@ export class ExceptionHandler {
    * Inserts `entry` into `cache` at the correct position so that the array
    * remains sorted in descending priority order (highest priority first).
    *
-   * @param {ExceptionFilterEntry[]} cache The target filter list, sorted descending by priority.
-   * @param {ExceptionFilterEntry} entry The entry to insert.
+   * @param {T[]} cache The target filter list, sorted descending by priority.
+   * @param {T} entry The entry to insert.
    *
    * @internal
    */
-  private registerExceptionFilterInCache(
-    cache: ExceptionFilterEntry[],
-    entry: ExceptionFilterEntry,
+  private registerExceptionFilterInCache<T extends { priority: number }>(
+    cache: T[],
+    entry: T,
   ): void {
     const priority = entry.priority;
     const insertAt = cache.findIndex((value) => value.priority < priority);
@@ -203,3 +362,28 @@ export class ExceptionHandler {
     }
   }
 }
+
+/**
+ * Returns the constructors of `value` and its parent classes, most specific
+ * first, or an empty array when `value` is not an object.
+ *
+ * @param {unknown} value The thrown value.
+ * @returns {Type[]} The constructors in the prototype chain.
+ */
+function getPrototypeChain(value: unknown): Type[] {
+  const chain: Type[] = [];
+
+  if (typeof value !== "object" || value === null) {
+    return chain;
+  }
+
+  for (
+    let proto = Object.getPrototypeOf(value);
+    proto !== null && proto !== Object.prototype;
+    proto = Object.getPrototypeOf(proto)
+  ) {
+    chain.push(proto.constructor as Type);
+  }
+
+  return chain;
+}
@@ -35,6 +35,10 @@ describe("ExceptionHandler", () => {
       container: { getTokensByTag: () => tokens },
       resolveInternal: (token: Type) =>
         Promise.resolve(resolveMap.get(token) as ExceptionFilter),
+      getHostModuleRef: () => ({
+        tryGet: (token: Type) => Promise.resolve(resolveMap.get(token)),
+        create: (token: Type<ExceptionFilter>) => Promise.resolve(new token()),
+      }),
     } as unknown as InjectorContext;
   }
 
@@ -441,4 +445,239 @@ describe("ExceptionHandler", () => {
       assertEquals(order, [5, 3]);
     });
   });
+
+  describe("inheritance", () => {
+    class ChildError extends TestError {}
+
+    it("dispatches to filters of parent classes", async () => {
+      @Catch(TestError)
+      class ParentFilter implements ExceptionFilter<TestError> {
+        catch(): unknown {
+          return "parent";
+        }
+      }
+
+      const token = ParentFilter as unknown as Type;
+      const handler = new ExceptionHandler(
+        makeCtx([token], new Map([[token, new ParentFilter()]])),
+      );
+
+      disableLoggerOutput(handler);
+
+      await handler.register();
+
+      assertEquals(handler.canHandle(new ChildError()), true);
+      assertEquals(await handler.handle(new ChildError(), mockHost), "parent");
+    });
+
+    it("prefers the most specific class over a higher priority", async () => {
+      @Catch(TestError, { priority: 100 })
+      class ParentFilter implements ExceptionFilter<TestError> {
+        catch(): unknown {
+          return "parent";
+        }
+      }
+
+      @Catch(ChildError)
+      class ChildFilter implements ExceptionFilter<ChildError> {
+        catch(): unknown {
+          return "child";
+        }
+      }
+
+      const tokenParent = ParentFilter as unknown as Type;
+      const tokenChild = ChildFilter as unknown as Type;
+      const handler = new ExceptionHandler(
+        makeCtx(
+          [tokenParent, tokenChild],
+          new Map<Type, ExceptionFilter>([
+            [tokenParent, new ParentFilter()],
+            [tokenChild, new ChildFilter()],
+          ]),
+        ),
+      );
+
+      disableLoggerOutput(handler);
+
+      await handler.register();
+
+      assertEquals(await handler.handle(new ChildError(), mockHost), "child");
+      assertEquals(await handler.handle(new TestError(), mockHost), "parent");
+    });
+  });
+
+  describe("catch-all", () => {
+    @Catch()
+    class CatchAllFilter implements ExceptionFilter {
+      catch(exception: unknown): unknown {
+        return `all:${String(exception)}`;
+      }
+    }
+
+    @Catch(TestError)
+    class TestFilter implements ExceptionFilter<TestError> {
+      catch(): unknown {
+        return "test";
+      }
+    }
+
+    async function createHandler(): Promise<ExceptionHandler> {
+      const tokenAll = CatchAllFilter as unknown as Type;
+      const tokenTest = TestFilter as unknown as Type;
+      const handler = new ExceptionHandler(
+        makeCtx(
+          [tokenAll, tokenTest],
+          new Map<Type, ExceptionFilter>([
+            [tokenAll, new CatchAllFilter()],
+            [tokenTest, new TestFilter()],
+          ]),
+        ),
+      );
+
+      disableLoggerOutput(handler);
+
+      await handler.register();
+
+      return handler;
+    }
+
+    it("handles errors without a targeted filter", async () => {
+      const handler = await createHandler();
+
+      assertEquals(handler.canHandle(new AnotherError("x")), true);
+      assertEquals(
+        await handler.handle(new AnotherError("x"), mockHost),
+        "all:Error: x",
+      );
+    });
+
+    it("handles thrown values that are not errors", async () => {
+      const handler = await createHandler();
+
+      assertEquals(handler.canHandle("oops"), true);
+      assertEquals(await handler.handle("oops", mockHost), "all:oops");
+    });
+
+    it("is not used when a targeted filter matches", async () => {
+      const handler = await createHandler();
+
+      assertEquals(await handler.handle(new TestError(), mockHost), "test");
+    });
+  });
+
+  describe("scoped filters", () => {
+    @Catch(TestError)
+    class ScopedFilter implements ExceptionFilter<TestError> {
+      catch(): unknown {
+        return "scoped";
+      }
+    }
+
+    @Catch(TestError)
+    class GlobalFilter implements ExceptionFilter<TestError> {
+      catch(): unknown {
+        return "global";
+      }
+    }
+
+    async function createHandler(): Promise<ExceptionHandler> {
+      const token = GlobalFilter as unknown as Type;
+      const handler = new ExceptionHandler(
+        makeCtx([token], new Map([[token, new GlobalFilter()]])),
+      );
+
+      disableLoggerOutput(handler);
+
+      await handler.register();
+
+      return handler;
+    }
+
+    it("prefers scoped filters over global ones", async () => {
+      const handler = await createHandler();
+
+      assertEquals(
+        await handler.handle(new TestError(), mockHost, [new ScopedFilter()]),
+        "scoped",
+      );
+    });
+
+    it("instantiates scoped filter classes that are no providers once", async () => {
+      const create = spy(() => Promise.resolve(new ScopedFilter()));
+      const moduleRef = { tryGet: () => Promise.resolve(undefined), create };
+      const handler = new ExceptionHandler(
+        {
+          container: { getTokensByTag: () => [] },
+          getHostModuleRef: () => moduleRef,
+        } as unknown as InjectorContext,
+      );
+
+      disableLoggerOutput(handler);
+
+      assertEquals(
+        await handler.handle(new TestError(), mockHost, [ScopedFilter]),
+        "scoped",
+      );
+      await handler.handle(new TestError(), mockHost, [ScopedFilter]);
+
+      assertSpyCalls(create, 1);
+    });
+
+    it("falls back to global filters when no scoped filter matches", async () => {
+      @Catch(AnotherError)
+      class OtherFilter implements ExceptionFilter<AnotherError> {
+        catch(): unknown {
+          return "other";
+        }
+      }
+
+      const handler = await createHandler();
+
+      assertEquals(
+        handler.canHandle(new TestError(), [new OtherFilter()]),
+        true,
+      );
+      assertEquals(
+        await handler.handle(new TestError(), mockHost, [new OtherFilter()]),
+        "global",
+      );
+    });
+
+    it("picks the most specific scoped filter before catch-all ones", async () => {
+      @Catch()
+      class ScopedCatchAllFilter implements ExceptionFilter {
+        catch(): unknown {
+          return "all";
+        }
+      }
+
+      const handler = await createHandler();
+
+      assertEquals(
+        await handler.handle(new TestError(), mockHost, [
+          new ScopedCatchAllFilter(),
+          new ScopedFilter(),
+        ]),
+        "scoped",
+      );
+      assertEquals(
+        await handler.handle(new AnotherError(), mockHost, [
+          new ScopedCatchAllFilter(),
+          new ScopedFilter(),
+        ]),
+        "all",
+      );
+    });
+
+    it("ignores scoped filters without @Catch() metadata", async () => {
+      const handler = await createHandler();
+
+      assertEquals(
+        await handler.handle(new TestError(), mockHost, [{
+          catch: () => "plain",
+        }]),
+        "global",
+      );
+    });
+  });
 });
@@ -1,5 +1,6 @@
-import type { StatusCode } from "../../http/status.ts";
+import { STATUS_TEXT, type StatusCode } from "../../http/status.ts";
 import { IntrinsicException } from "../intrinsic.ts";
+import type { ProblemDetails } from "./problem_details.ts";
 
 /**
  * Valid shapes for the `message` field inside an {@linkcode HttpExceptionBody}.
@@ -30,6 +31,14 @@ export interface HttpExceptionOptions {
   cause?: unknown;
   /** Short human-readable description of the error. */
   description?: string;
+  /**
+   * URI reference identifying the problem type in Problem Details responses.
+   *
+   * @default "about:blank"
+   */
+  type?: string;
+  /** Extension members added to Problem Details responses. */
+  extensions?: Record<string, unknown>;
 }
 
 /**
@@ -95,6 +104,61 @@ export class HttpException extends IntrinsicException {
     this.name = this.constructor.name;
   }
 
+  /**
+   * Renders the exception as an RFC 9457 Problem Details object.
+   *
+   * The `error` label of the body becomes the `title`, falling back to the
+   * status phrase, and the `message` becomes the `detail`. Other members of a
+   * custom body and the `extensions` option are added as extension members.
+   * Subclasses override this method to add members of their own.
+   *
+   * @example
+   * ```ts
+   * throw new ForbiddenException("Your current balance is 30, but that costs 50.", {
+   *   description: "Out of credit",
+   *   type: "https://example.com/problems/out-of-credit",
+   *   extensions: { balance: 30 },
+   * });
+   * ```
+   *
+   * @param {string} [instance] - URI reference of the failed request, usually its path.
+   * @return {ProblemDetails} The Problem Details object.
+   */
+  public toProblemDetails(instance?: string): ProblemDetails {
+    const {
+      message,
+      error,
+      statusCode: _,
+      ...members
+    } = typeof this.response === "string"
+      ? { message: this.response }
+      : this.response;
+    const title = typeof error === "string"
+      ? error
+      : STATUS_TEXT[this.status as keyof typeof STATUS_TEXT] ?? this.message;
+    const detail = Array.isArray(message)
+      ? message.join(", ")
+      : message === undefined
+      ? undefined
+      : String(message);
+    const problem: ProblemDetails = {
+      ...members,
+      ...this.options?.extensions,
+      type: this.options?.type ?? "about:blank",
+      title,
+      status: this.status,
+    };
+
+    if (detail && detail !== title) {
+      problem.detail = detail;
+    }
+    if (instance !== undefined) {
+      problem.instance = instance;
+    }
+
+    return problem;
+  }
+
   /**
    * Builds an {@linkcode HttpExceptionBody} with only `message` and `statusCode`.
    * Use when there is no primary error label - the body will not include an `error` field.
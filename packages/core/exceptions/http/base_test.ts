@@ -2,7 +2,7 @@ import { assertEquals, assertInstanceOf } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
 import { StatusCode } from "../../http/status.ts";
 import { IntrinsicException } from "../intrinsic.ts";
-import { HttpException } from "./mod.ts";
+import { ForbiddenException, HttpException, NotFoundException } from "./mod.ts";
 
 describe("HttpException", () => {
   describe("constructor", () => {
@@ -165,4 +165,73 @@ describe("HttpException", () => {
       assertEquals(result.httpExceptionOptions, options);
     });
   });
+
+  describe("toProblemDetails", () => {
+    it("uses about:blank and the status phrase by default", () => {
+      assertEquals(new NotFoundException().toProblemDetails("/users/1"), {
+        type: "about:blank",
+        title: "Not Found",
+        status: StatusCode.NotFound,
+        instance: "/users/1",
+      });
+    });
+
+    it("maps the error label to the title and the message to the detail", () => {
+      assertEquals(
+        new NotFoundException("User 1 does not exist").toProblemDetails(),
+        {
+          type: "about:blank",
+          title: "Not Found",
+          status: StatusCode.NotFound,
+          detail: "User 1 does not exist",
+        },
+      );
+    });
+
+    it("applies the declared type and extension members", () => {
+      const err = new ForbiddenException("That costs 50.", {
+        description: "Out of credit",
+        type: "https://example.com/problems/out-of-credit",
+        extensions: { balance: 30 },
+      });
+
+      assertEquals(err.toProblemDetails("/transfers"), {
+        balance: 30,
+        type: "https://example.com/problems/out-of-credit",
+        title: "Out of credit",
+        status: StatusCode.Forbidden,
+        detail: "That costs 50.",
+        instance: "/transfers",
+      });
+    });
+
+    it("keeps the members of custom bodies", () => {
+      const err = new HttpException(
+        { message: "Locked", retryAt: 10 },
+        StatusCode.Locked,
+      );
+
+      assertEquals(err.toProblemDetails(), {
+        retryAt: 10,
+        type: "about:blank",
+        title: "Locked",
+        status: StatusCode.Locked,
+      });
+    });
+
+    it("lets subclasses declare their problem type", () => {
+      class OutOfCreditException extends HttpException {
+        public constructor() {
+          super("Not enough credit", StatusCode.Forbidden, {
+            type: "https://example.com/problems/out-of-credit",
+          });
+        }
+      }
+
+      assertEquals(
+        new OutOfCreditException().toProblemDetails().type,
+        "https://example.com/problems/out-of-credit",
+      );
+    });
+  });
 });
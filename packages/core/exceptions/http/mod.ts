@@ -42,9 +42,11 @@ export * from "./not_implemented.ts";
 export * from "./payment_required.ts";
 export * from "./precondition_failed.ts";
 export * from "./precondition_required.ts";
+export * from "./problem_details.ts";
 export * from "./proxy_authentication_required.ts";
 export * from "./range_not_satisfiable.ts";
 export * from "./request_timeout.ts";
+export * from "./response_serialization.ts";
 export * from "./service_unavailable.ts";
 export * from "./teapot.ts";
 export * from "./too_early.ts";
@@ -0,0 +1,36 @@
+/**
+ * The media type of {@linkcode ProblemDetails} responses.
+ */
+export const PROBLEM_DETAILS_MEDIA_TYPE = "application/problem+json";
+
+/**
+ * A Problem Details object as defined by RFC 9457, the response body of
+ * HTTP exceptions when the `problemDetails` mode of the HTTP application is
+ * enabled.
+ *
+ * @example
+ * ```json
+ * {
+ *   "type": "https://example.com/problems/out-of-credit",
+ *   "title": "Out of credit",
+ *   "status": 403,
+ *   "detail": "Your current balance is 30, but that costs 50.",
+ *   "instance": "/accounts/12345/transfers",
+ *   "balance": 30
+ * }
+ * ```
+ */
+export interface ProblemDetails {
+  /** URI reference identifying the problem type, `about:blank` by default. */
+  type: string;
+  /** Short human-readable summary of the problem type. */
+  title: string;
+  /** The HTTP status code of the response. */
+  status: number;
+  /** Human-readable explanation specific to this occurrence of the problem. */
+  detail?: string;
+  /** URI reference identifying this occurrence, the request path. */
+  instance?: string;
+  /** Extension members. */
+  [member: string]: unknown;
+}
@@ -0,0 +1,29 @@
+import type { HttpExceptionOptions } from "./base.ts";
+import { InternalServerErrorException } from "./internal_server_error.ts";
+
+/**
+ * Specialization of {@linkcode InternalServerErrorException} thrown when a
+ * route returns a value violating its `Serialize()` schema.
+ *
+ * The violations are kept in {@linkcode issues} for logging, the 500 response
+ * body does not disclose them.
+ *
+ * @example
+ * ```ts
+ * throw new ResponseSerializationException(["id: Required"]);
+ * ```
+ */
+export class ResponseSerializationException
+  extends InternalServerErrorException {
+  /**
+   * @param {string[]} issues - The violations, prefixed with the path of the offending value.
+   * @param {string | HttpExceptionOptions} [descriptionOrOptions] - Either a short description of
+   *   the HTTP error or an {@linkcode HttpExceptionOptions} object used to provide an underlying error cause.
+   */
+  public constructor(
+    public readonly issues: string[],
+    descriptionOrOptions?: string | HttpExceptionOptions,
+  ) {
+    super("Response does not match its schema", descriptionOrOptions);
+  }
+}
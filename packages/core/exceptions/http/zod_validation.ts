@@ -1,12 +1,14 @@
 import type { ZodError } from "zod";
 import { BadRequestException } from "./bad_request.ts";
 import type { HttpExceptionOptions } from "./base.ts";
+import type { ProblemDetails } from "./problem_details.ts";
 
 /**
  * Specialization of {@linkcode BadRequestException} for Zod schema validation failures.
  *
  * Extracts all issue messages from a {@linkcode ZodError} and forwards them as the
- * `message` array in the 400 Bad Request response body.
+ * `message` array in the 400 Bad Request response body. Problem Details
+ * responses list the issues in an `errors` extension member instead.
  *
  * @example
  * ```ts
@@ -17,6 +19,9 @@ import type { HttpExceptionOptions } from "./base.ts";
  * ```
  */
 export class ZodValidationException extends BadRequestException {
+  /** The issues of the failed validation. */
+  public readonly issues: ZodError["issues"];
+
   /**
    * @param {ZodError} error - The Zod validation error whose issues will be mapped to messages.
    * @param {string | HttpExceptionOptions} [descriptionOrOptions] - Either a short description of
@@ -27,5 +32,33 @@ export class ZodValidationException extends BadRequestException {
     descriptionOrOptions?: string | HttpExceptionOptions,
   ) {
     super(error.issues.map((issue) => issue.message), descriptionOrOptions);
+
+    this.issues = error.issues;
+  }
+
+  /**
+   * Renders the exception as Problem Details with an `errors` member holding
+   * the `detail` and the JSON pointer of each issue.
+   *
+   * @param {string} [instance] - URI reference of the failed request, usually its path.
+   * @return {ProblemDetails} The Problem Details object.
+   */
+  public override toProblemDetails(instance?: string): ProblemDetails {
+    return {
+      ...super.toProblemDetails(instance),
+      detail: "The request failed validation",
+      errors: this.issues.map((issue) => ({
+        detail: issue.message,
+        pointer: toJsonPointer(issue.path ?? []),
+      })),
+    };
   }
 }
+
+function toJsonPointer(path: PropertyKey[]): string {
+  return `#${
+    path.map((segment) =>
+      `/${String(segment).replaceAll("~", "~0").replaceAll("/", "~1")}`
+    ).join("")
+  }`;
+}
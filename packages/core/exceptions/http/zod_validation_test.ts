@@ -6,9 +6,12 @@ import { BadRequestException } from "./bad_request.ts";
 import { HttpException } from "./base.ts";
 import { ZodValidationException } from "./zod_validation.ts";
 
-function makeZodError(messages: string[]): ZodError {
+function makeZodError(
+  messages: string[],
+  paths: PropertyKey[][] = [],
+): ZodError {
   return {
-    issues: messages.map((message) => ({ message })),
+    issues: messages.map((message, i) => ({ message, path: paths[i] ?? [] })),
   } as unknown as ZodError;
 }
 
@@ -93,4 +96,25 @@ describe("ZodValidationException", () => {
       error: "Validation failed",
     });
   });
+
+  it("lists the issues in the errors member of its Problem Details", () => {
+    const err = new ZodValidationException(
+      makeZodError(["Expected number", "Required"], [
+        ["items", 0, "qty"],
+        ["a/b"],
+      ]),
+    );
+
+    assertEquals(err.toProblemDetails("/orders"), {
+      type: "about:blank",
+      title: "Bad Request",
+      status: StatusCode.BadRequest,
+      detail: "The request failed validation",
+      instance: "/orders",
+      errors: [
+        { detail: "Expected number", pointer: "#/items/0/qty" },
+        { detail: "Required", pointer: "#/a~1b" },
+      ],
+    });
+  });
 });
@@ -3,7 +3,8 @@
  *
  * This module exposes:
  * - {@linkcode ExceptionFilter} - interface for implementing custom exception filters
- * - {@linkcode Catch} - class decorator to register a filter for a specific exception type
+ * - {@linkcode Catch} - class decorator to register a filter for an exception type and its subclasses, or for everything
+ * - {@linkcode UseFilters} - decorator to bind filters to a controller or a single handler
  * - {@linkcode ExceptionHandler} - resolves and dispatches registered filters at runtime
  * - {@linkcode IntrinsicException} - base class for framework-internal exceptions that skip error logging
  * - All built-in HTTP exception classes (e.g. {@linkcode NotFoundException}, {@linkcode BadRequestException})
@@ -41,3 +42,4 @@ export * from "./filter.ts";
 export * from "./handler.ts";
 export * from "./http/mod.ts";
 export * from "./intrinsic.ts";
+export * from "./use_filters.ts";
@@ -0,0 +1,135 @@
+import {
+  type ClassMethodDecoratorInitializer,
+  type Decorator,
+  InvalidStaticMemberDecoratorUsageError,
+  type MethodDecorator,
+  type Type,
+} from "@denorid/injector";
+import { CONTROLLER_REQUEST_MAPPING } from "../_constants.ts";
+import { preserveRequestMappingMetadata } from "../http/_request_mapping.ts";
+import type { ExceptionFilter } from "./filter.ts";
+
+export const FILTERS_METADATA = Symbol.for("denorid.filters");
+
+/**
+ * Returns the method-level exception filters registered on `type` for the
+ * given `methodName`.
+ *
+ * @param {Type} type - The controller or handler class constructor.
+ * @param {string | symbol} methodName - The method name to look up.
+ * @returns {Set<Type<ExceptionFilter> | ExceptionFilter> | undefined}
+ */
+export function getMethodFilters(
+  type: Type,
+  methodName: string | symbol,
+): Set<Type<ExceptionFilter> | ExceptionFilter> | undefined {
+  const metadata = type[Symbol.metadata];
+
+  if (metadata == null) {
+    return undefined;
+  }
+
+  const requestMapping = metadata[CONTROLLER_REQUEST_MAPPING] as
+    | Array<{ name: string | symbol; filters?: Set<unknown> }>
+    | undefined;
+
+  const entry = requestMapping?.find(({ name }) => name === methodName);
+
+  return entry?.filters as
+    | Set<Type<ExceptionFilter> | ExceptionFilter>
+    | undefined;
+}
+
+/**
+ * Returns the exception filters of a handler, method-level filters first,
+ * followed by the filters of its class.
+ *
+ * @param {Type} type - The controller or handler class constructor.
+ * @param {string | symbol} methodName - The method name to look up.
+ * @returns {(Type<ExceptionFilter> | ExceptionFilter)[]} The scoped filters.
+ */
+export function getScopedFilters(
+  type: Type,
+  methodName: string | symbol,
+): (Type<ExceptionFilter> | ExceptionFilter)[] {
+  return [
+    ...new Set([
+      ...(getMethodFilters(type, methodName) ?? []),
+      ...(type[Symbol.metadata]?.[FILTERS_METADATA] as
+        | Set<Type<ExceptionFilter> | ExceptionFilter>
+        | undefined ?? []),
+    ]),
+  ];
+}
+
+/**
+ * Decorator that binds one or more exception filters to a controller class or
+ * a single handler method.
+ *
+ * Scoped filters take precedence over the global ones registered via
+ * {@link Catch}: method-level filters are considered first, then the filters
+ * of the class, and only when none of them matches the thrown error the
+ * global filters are used.
+ *
+ * Accepts two forms of filters:
+ * - A `@Catch()` decorated class, resolved from the DI container when it is
+ *   registered as a provider and instantiated otherwise
+ * - An already-instantiated filter whose class is decorated with `@Catch()`
+ *
+ * Note that a filter class registered as a provider is a global filter as
+ * well, scoped-only filters must not be listed in `providers`.
+ *
+ * @example
+ * ```ts
+ * @UseFilters(ValidationFilter)
+ * @Controller('/orders')
+ * class OrdersController {
+ *   @UseFilters(new NotFoundFilter())
+ *   @Get('/:id')
+ *   show(): string { return 'order'; }
+ * }
+ * ```
+ *
+ * @param {...(Type<ExceptionFilter> | ExceptionFilter)} filters One or more
+ * exception filters to bind.
+ *
+ * @returns {Decorator<ClassDecoratorContext, Type> & MethodDecorator} A
+ * decorator applicable to both classes and non-static methods.
+ */
+export function UseFilters(
+  ...filters: (Type<ExceptionFilter> | ExceptionFilter)[]
+): Decorator<ClassDecoratorContext, Type> & MethodDecorator {
+  const decorator = function <
+    T extends object,
+    V extends ClassMethodDecoratorInitializer<T>,
+  >(
+    target: V,
+    ctx: ClassDecoratorContext | ClassMethodDecoratorContext<T, V>,
+  ): V {
+    let cache: Set<Type<ExceptionFilter> | ExceptionFilter>;
+
+    if (ctx.kind === "method") {
+      if (ctx.static) {
+        throw new InvalidStaticMemberDecoratorUsageError(
+          UseFilters.name,
+          ctx.name,
+          "function",
+        );
+      }
+
+      cache = preserveRequestMappingMetadata(ctx).filters ??= new Set();
+    } else {
+      cache = (ctx.metadata[FILTERS_METADATA] ??= new Set()) as Set<
+        Type<ExceptionFilter> | ExceptionFilter
+      >;
+    }
+
+    for (const filter of filters) {
+      cache.add(filter);
+    }
+
+    return target;
+  };
+
+  return decorator as Decorator<ClassDecoratorContext, Type> & MethodDecorator;
+}
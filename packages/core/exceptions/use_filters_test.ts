@@ -0,0 +1,87 @@
+import { InvalidStaticMemberDecoratorUsageError } from "@denorid/injector";
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { Catch, type ExceptionFilter } from "./filter.ts";
+import {
+  FILTERS_METADATA,
+  getMethodFilters,
+  getScopedFilters,
+  UseFilters,
+} from "./use_filters.ts";
+
+@Catch()
+class CatchAllFilter implements ExceptionFilter {
+  public catch(): unknown {
+    return undefined;
+  }
+}
+
+const filterInstance = new CatchAllFilter();
+
+describe("@UseFilters()", () => {
+  it("should add filters to the class metadata", () => {
+    @UseFilters(CatchAllFilter, filterInstance)
+    class ExampleController {}
+
+    const filters = ExampleController[Symbol.metadata]?.[FILTERS_METADATA] as
+      | Set<unknown>
+      | undefined;
+
+    assertInstanceOf(filters, Set);
+    assertEquals([...filters], [CatchAllFilter, filterInstance]);
+  });
+
+  it("should add filters to the request mapping of a method", () => {
+    class ExampleController {
+      @UseFilters(filterInstance)
+      public index(): void {}
+    }
+
+    assertEquals(
+      [...getMethodFilters(ExampleController, "index") ?? []],
+      [filterInstance],
+    );
+    assertEquals(getMethodFilters(ExampleController, "missing"), undefined);
+  });
+
+  it("should throw when applied to a static method", () => {
+    assertThrows(
+      () => {
+        class _ExampleController {
+          @UseFilters(filterInstance)
+          public static index(): void {}
+        }
+      },
+      InvalidStaticMemberDecoratorUsageError,
+    );
+  });
+});
+
+describe(getScopedFilters.name, () => {
+  it("returns method filters before class filters without duplicates", () => {
+    const methodFilter = new CatchAllFilter();
+
+    @UseFilters(CatchAllFilter, methodFilter)
+    class ExampleController {
+      @UseFilters(methodFilter)
+      public index(): void {}
+
+      public other(): void {}
+    }
+
+    assertEquals(getScopedFilters(ExampleController, "index"), [
+      methodFilter,
+      CatchAllFilter,
+    ]);
+    assertEquals(getScopedFilters(ExampleController, "other"), [
+      CatchAllFilter,
+      methodFilter,
+    ]);
+  });
+
+  it("returns an empty array for classes without filters", () => {
+    class ExampleController {}
+
+    assertEquals(getScopedFilters(ExampleController, "index"), []);
+  });
+});
@@ -0,0 +1,168 @@
+import { NotAcceptableException } from "../exceptions/http/not_acceptable.ts";
+import { UnsupportedMediaTypeException } from "../exceptions/http/unsupported_media_type.ts";
+import {
+  type HttpRequestDecoder,
+  type HttpResponseEncoder,
+  JsonDecoder,
+  JsonEncoder,
+  PlainTextEncoder,
+} from "./encoding.ts";
+
+interface MediaRange {
+  type: string;
+  subtype: string;
+  quality: number;
+}
+
+/**
+ * Adds the configured encoders or decoders to the built-in ones. An entry
+ * replaces the built-in of the same media type, any other is appended.
+ *
+ * @param {T[]} builtIn - The built-in encoders or decoders, in order of preference.
+ * @param {T[]} [custom] - The configured encoders or decoders.
+ * @return {T[]} The registry, in order of preference.
+ */
+export function createRegistry<T extends { mediaType: string }>(
+  builtIn: T[],
+  custom: T[] = [],
+): T[] {
+  const registry = new Map<string, T>();
+
+  for (const entry of [...builtIn, ...custom]) {
+    registry.set(getEssence(entry.mediaType), entry);
+  }
+
+  return [...registry.values()];
+}
+
+/**
+ * Builds the encoder registry, with the plain text and JSON encoders first.
+ *
+ * @param {HttpResponseEncoder[]} [encoders] - The configured encoders.
+ * @return {HttpResponseEncoder[]} The registry, in order of preference.
+ */
+export function createEncoderRegistry(
+  encoders?: HttpResponseEncoder[],
+): HttpResponseEncoder[] {
+  return createRegistry([new PlainTextEncoder(), new JsonEncoder()], encoders);
+}
+
+/**
+ * Builds the decoder registry, with the JSON decoder first.
+ *
+ * @param {HttpRequestDecoder[]} [decoders] - The configured decoders.
+ * @return {HttpRequestDecoder[]} The registry, in order of preference.
+ */
+export function createDecoderRegistry(
+  decoders?: HttpRequestDecoder[],
+): HttpRequestDecoder[] {
+  return createRegistry([new JsonDecoder()], decoders);
+}
+
+/**
+ * Selects the encoder of a value by the `Accept` header of the request.
+ *
+ * Media ranges are tried by descending quality, wildcards included. Without
+ * an `Accept` header the first encoder able to encode the value wins.
+ *
+ * @param {string | undefined} accept - The `Accept` header.
+ * @param {unknown} value - The route result.
+ * @param {HttpResponseEncoder[]} encoders - The encoder registry.
+ * @return {HttpResponseEncoder} The selected encoder.
+ * @throws {NotAcceptableException} When no acceptable encoder can encode the value.
+ */
+export function selectEncoder(
+  accept: string | undefined,
+  value: unknown,
+  encoders: HttpResponseEncoder[],
+): HttpResponseEncoder {
+  const candidates = encoders.filter((encoder) => encoder.canEncode(value));
+
+  for (const range of parseAccept(accept)) {
+    const encoder = candidates.find((candidate) =>
+      matchesRange(candidate.mediaType, range)
+    );
+
+    if (encoder) {
+      return encoder;
+    }
+  }
+
+  throw new NotAcceptableException(
+    `None of the accepted media types can represent the response, available: ${
+      candidates.map(({ mediaType }) => getEssence(mediaType)).join(", ")
+    }`,
+  );
+}
+
+/**
+ * Selects the decoder of a request body by its `Content-Type` header. Bodies
+ * without a `Content-Type` are decoded with the first decoder.
+ *
+ * @param {string | undefined} contentType - The `Content-Type` header.
+ * @param {HttpRequestDecoder[]} decoders - The decoder registry.
+ * @return {HttpRequestDecoder} The selected decoder.
+ * @throws {UnsupportedMediaTypeException} When no decoder handles the media type.
+ */
+export function selectDecoder(
+  contentType: string | undefined,
+  decoders: HttpRequestDecoder[],
+): HttpRequestDecoder {
+  if (!contentType?.trim()) {
+    return decoders[0];
+  }
+
+  const essence = getEssence(contentType);
+  const decoder = decoders.find(({ mediaType }) =>
+    getEssence(mediaType) === essence
+  );
+
+  if (!decoder) {
+    throw new UnsupportedMediaTypeException(
+      `Unsupported request body media type "${essence}", expected one of: ${
+        decoders.map(({ mediaType }) => getEssence(mediaType)).join(", ")
+      }`,
+    );
+  }
+
+  return decoder;
+}
+
+/** Strips the parameters of a media type, e.g. `; charset=UTF-8`. */
+function getEssence(mediaType: string): string {
+  return mediaType.split(";", 1)[0].trim().toLowerCase();
+}
+
+/**
+ * Parses an `Accept` header into media ranges ordered by descending quality,
+ * ranges with a quality of `0` are dropped. A missing header accepts anything.
+ */
+function parseAccept(accept: string | undefined): MediaRange[] {
+  if (!accept?.trim()) {
+    return [{ type: "*", subtype: "*", quality: 1 }];
+  }
+
+  const ranges: MediaRange[] = [];
+
+  for (const part of accept.split(",")) {
+    const [mediaType, ...parameters] = part.split(";");
+    const [type, subtype = "*"] = getEssence(mediaType).split("/");
+    const q = parameters.map((p) => p.trim().split("="))
+      .find(([name]) => name.toLowerCase() === "q")?.[1];
+    const quality = q === undefined ? 1 : Number(q);
+
+    if (type && !Number.isNaN(quality) && quality > 0) {
+      ranges.push({ type, subtype, quality });
+    }
+  }
+
+  // `Array.prototype.sort` is stable, ranges of equal quality keep their order.
+  return ranges.sort((a, b) => b.quality - a.quality);
+}
+
+function matchesRange(mediaType: string, range: MediaRange): boolean {
+  const [type, subtype] = getEssence(mediaType).split("/");
+
+  return (range.type === "*" || range.type === type) &&
+    (range.subtype === "*" || range.subtype === subtype);
+}
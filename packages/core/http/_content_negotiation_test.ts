@@ -0,0 +1,111 @@
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { NotAcceptableException } from "../exceptions/http/not_acceptable.ts";
+import { UnsupportedMediaTypeException } from "../exceptions/http/unsupported_media_type.ts";
+import {
+  createDecoderRegistry,
+  createEncoderRegistry,
+  selectDecoder,
+  selectEncoder,
+} from "./_content_negotiation.ts";
+import {
+  CsvEncoder,
+  JsonDecoder,
+  JsonEncoder,
+  NdjsonDecoder,
+  NdjsonEncoder,
+  PlainTextEncoder,
+} from "./encoding.ts";
+
+describe(createEncoderRegistry.name, () => {
+  it("appends custom encoders and replaces built-ins of the same media type", () => {
+    class PrettyJsonEncoder extends JsonEncoder {
+      public override encode(value: unknown): string {
+        return JSON.stringify(value, null, 2);
+      }
+    }
+
+    const pretty = new PrettyJsonEncoder();
+    const csv = new CsvEncoder();
+    const registry = createEncoderRegistry([pretty, csv]);
+
+    assertInstanceOf(registry[0], PlainTextEncoder);
+    assertEquals(registry.slice(1), [pretty, csv]);
+  });
+});
+
+describe(selectEncoder.name, () => {
+  const encoders = createEncoderRegistry([
+    new CsvEncoder(),
+    new NdjsonEncoder(),
+  ]);
+  const rows = [{ id: 1 }];
+
+  it("picks the first capable encoder without an Accept header", () => {
+    assertInstanceOf(
+      selectEncoder(undefined, "pong", encoders),
+      PlainTextEncoder,
+    );
+    assertInstanceOf(selectEncoder(undefined, rows, encoders), JsonEncoder);
+    assertInstanceOf(selectEncoder("*/*", rows, encoders), JsonEncoder);
+  });
+
+  it("honors quality values and wildcards", () => {
+    assertInstanceOf(
+      selectEncoder("application/json;q=0.5, text/csv", rows, encoders),
+      CsvEncoder,
+    );
+    assertInstanceOf(
+      selectEncoder("application/*;q=0.9, text/*;q=0.1", rows, encoders),
+      JsonEncoder,
+    );
+    assertInstanceOf(
+      selectEncoder("text/csv;q=0, */*;q=0.1", rows, encoders),
+      JsonEncoder,
+    );
+  });
+
+  it("skips encoders unable to represent the value", () => {
+    assertInstanceOf(
+      selectEncoder("text/csv, application/json;q=0.5", { id: 1 }, encoders),
+      JsonEncoder,
+    );
+  });
+
+  it("throws NotAcceptableException when nothing matches", () => {
+    assertThrows(
+      () => selectEncoder("application/xml", rows, encoders),
+      NotAcceptableException,
+    );
+    assertThrows(
+      () => selectEncoder("text/csv", { id: 1 }, encoders),
+      NotAcceptableException,
+    );
+  });
+});
+
+describe(selectDecoder.name, () => {
+  const decoders = createDecoderRegistry([new NdjsonDecoder()]);
+
+  it("matches the media type without its parameters", () => {
+    assertInstanceOf(
+      selectDecoder("application/json; charset=utf-8", decoders),
+      JsonDecoder,
+    );
+    assertInstanceOf(
+      selectDecoder("Application/X-NDJSON", decoders),
+      NdjsonDecoder,
+    );
+  });
+
+  it("falls back to the first decoder without a Content-Type", () => {
+    assertInstanceOf(selectDecoder(undefined, decoders), JsonDecoder);
+  });
+
+  it("throws UnsupportedMediaTypeException for unknown media types", () => {
+    assertThrows(
+      () => selectDecoder("text/plain", decoders),
+      UnsupportedMediaTypeException,
+    );
+  });
+});
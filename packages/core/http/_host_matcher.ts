@@ -0,0 +1,65 @@
+import type { ControllerOptions } from "./controller_options.ts";
+
+/**
+ * Matches a request hostname against the host restriction of a controller.
+ *
+ * @param {string} hostname - The request hostname, without port.
+ * @return {Record<string, string> | undefined} The host parameters on a match,
+ *   `undefined` when the hostname does not match.
+ */
+export type HostMatcher = (
+  hostname: string,
+) => Record<string, string> | undefined;
+
+/**
+ * Compiles a {@link ControllerOptions.host} restriction into a
+ * {@link HostMatcher}.
+ *
+ * String patterns match the whole hostname case-insensitively; `:name`
+ * segments (e.g. `":tenant.example.com"`) match a single label and are
+ * exposed as host parameters. Regular expressions are used as is, their named
+ * capture groups are exposed as host parameters.
+ *
+ * @param {ControllerOptions["host"]} host - The host restriction.
+ * @return {HostMatcher | undefined} The matcher, or `undefined` when `host`
+ *   does not restrict anything.
+ */
+export function createHostMatcher(
+  host: ControllerOptions["host"],
+): HostMatcher | undefined {
+  if (host === undefined) {
+    return undefined;
+  }
+
+  const patterns = (Array.isArray(host) ? host : [host]).map(compilePattern);
+
+  return (hostname: string): Record<string, string> | undefined => {
+    for (const pattern of patterns) {
+      const match = pattern.exec(hostname);
+
+      if (match) {
+        return { ...match.groups };
+      }
+    }
+
+    return undefined;
+  };
+}
+
+function compilePattern(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) {
+    // Stateful flags would make `exec` depend on the previous request.
+    return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ""));
+  }
+
+  const source = pattern
+    .split(".")
+    .map((label) =>
+      label.startsWith(":")
+        ? `(?<${label.slice(1)}>[^.]+)`
+        : label.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("\\.");
+
+  return new RegExp(`^${source}$`, "i");
+}
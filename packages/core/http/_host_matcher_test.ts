@@ -0,0 +1,43 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { createHostMatcher } from "./_host_matcher.ts";
+
+describe(createHostMatcher.name, () => {
+  it("returns undefined when no host restriction is configured", () => {
+    assertEquals(createHostMatcher(undefined), undefined);
+  });
+
+  it("matches exact hostnames case-insensitively", () => {
+    const match = createHostMatcher("admin.example.com")!;
+
+    assertEquals(match("admin.example.com"), {});
+    assertEquals(match("ADMIN.Example.com"), {});
+    assertEquals(match("admin.example.com.evil.io"), undefined);
+    assertEquals(match("adminxexample.com"), undefined);
+  });
+
+  it("exposes :name labels as host parameters", () => {
+    const match = createHostMatcher(":tenant.example.com")!;
+
+    assertEquals(match("acme.example.com"), { tenant: "acme" });
+    assertEquals(match("a.b.example.com"), undefined);
+    assertEquals(match("example.com"), undefined);
+  });
+
+  it("exposes named groups of regular expressions", () => {
+    const match = createHostMatcher(/^(?<tenant>[a-z]+)\.example\.com$/g)!;
+
+    assertEquals(match("acme.example.com"), { tenant: "acme" });
+    // A global flag must not leak `lastIndex` into the next match.
+    assertEquals(match("acme.example.com"), { tenant: "acme" });
+    assertEquals(match("42.example.com"), undefined);
+  });
+
+  it("matches any of multiple patterns", () => {
+    const match = createHostMatcher(["localhost", ":tenant.example.com"])!;
+
+    assertEquals(match("localhost"), {});
+    assertEquals(match("acme.example.com"), { tenant: "acme" });
+    assertEquals(match("example.org"), undefined);
+  });
+});
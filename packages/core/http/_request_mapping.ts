@@ -5,23 +5,55 @@ import {
   type Type,
 } from "@denorid/injector";
 import { CONTROLLER_REQUEST_MAPPING } from "../_constants.ts";
+import type { ExceptionFilter } from "../exceptions/filter.ts";
 import type { CanActivate, CanActivateFn } from "../guards/can_activate.ts";
+import type {
+  Interceptor,
+  InterceptorFn,
+} from "../interceptors/interceptor.ts";
 import { isNil } from "../type_guards.ts";
 import type { HttpMethod } from "./method.ts";
+import type { SerializationMode } from "./serialization.ts";
 import type { StatusCode } from "./status.ts";
+import type { UploadOptions } from "./upload.ts";
+import type { VersionValue } from "./versioning.ts";
 
 export interface RequestMappingValidationMetadata {
   type: "form" | "json";
   dto: unknown;
 }
 
+export interface RequestMappingParameterValidationMetadata {
+  type: "query" | "param" | "header";
+  dto: unknown;
+}
+
+export interface RequestMappingSerializationMetadata {
+  schema: unknown;
+  mode: SerializationMode;
+  groups?: string[];
+}
+
+export interface RequestMappingUploadMetadata {
+  field?: string;
+  required: boolean;
+  options: UploadOptions;
+}
+
 export interface RequestMappingMetadata {
   path?: string | string[];
   method?: HttpMethod;
   statusCode?: StatusCode;
   name: string | symbol;
   validation?: RequestMappingValidationMetadata;
+  parameterValidation?: RequestMappingParameterValidationMetadata[];
+  uploads?: RequestMappingUploadMetadata[];
+  serialization?: RequestMappingSerializationMetadata;
   guards?: Set<CanActivate | CanActivateFn>;
+  interceptors?: Set<Type<Interceptor> | Interceptor | InterceptorFn>;
+  filters?: Set<Type<ExceptionFilter> | ExceptionFilter>;
+  sse?: { keepAlive: number | false };
+  version?: VersionValue;
 }
 
 export function getRequestMappingMetadata(
@@ -0,0 +1,162 @@
+import {
+  type core,
+  globalRegistry,
+  ZodArray,
+  ZodObject,
+  ZodPipe,
+  type ZodType,
+} from "zod";
+import { ResponseSerializationException } from "../exceptions/http/response_serialization.ts";
+import type { RequestMappingSerializationMetadata } from "./_request_mapping.ts";
+
+/**
+ * Validates a route result against its `Serialize()` schema and removes the
+ * fields that are not part of the response.
+ *
+ * @param {unknown} value - The route result.
+ * @param {RequestMappingSerializationMetadata} serialization - The route's serialization metadata.
+ * @param {Iterable<string>} groups - The groups of the in-flight request.
+ * @return {unknown} The serialized result.
+ * @throws {ResponseSerializationException} When the result violates the schema,
+ *   or contains undeclared fields in `strict` mode.
+ */
+export function serializeResponse(
+  value: unknown,
+  serialization: RequestMappingSerializationMetadata,
+  groups: Iterable<string>,
+): unknown {
+  const schema = serialization.schema as ZodType;
+  const result = schema.safeParse(value);
+
+  if (!result.success) {
+    throw new ResponseSerializationException(
+      result.error.issues.map(({ path, message }) =>
+        `${formatPath(path)}: ${message}`
+      ),
+    );
+  }
+
+  if (serialization.mode === "strict") {
+    const undeclared = findStrippedPaths(value, result.data, []);
+
+    if (undeclared.length > 0) {
+      throw new ResponseSerializationException(
+        undeclared.map((path) => `${formatPath(path)}: Undeclared field`),
+      );
+    }
+  }
+
+  return removeHiddenFields(
+    schema,
+    result.data,
+    new Set([...serialization.groups ?? [], ...groups]),
+  );
+}
+
+/**
+ * Compares the parsed output with the input, reporting the object keys the
+ * schema stripped. Objects are compared by their own enumerable keys, so
+ * class instances are checked as well.
+ */
+function findStrippedPaths(
+  input: unknown,
+  output: unknown,
+  path: PropertyKey[],
+): PropertyKey[][] {
+  if (Array.isArray(input) && Array.isArray(output)) {
+    return output.flatMap((item, index) =>
+      findStrippedPaths(input[index], item, [...path, index])
+    );
+  }
+  if (!isRecord(input) || !isRecord(output)) {
+    return [];
+  }
+
+  return Object.keys(input).flatMap((key) =>
+    Object.hasOwn(output, key)
+      ? findStrippedPaths(input[key], output[key], [...path, key])
+      : [[...path, key]]
+  );
+}
+
+/**
+ * Deletes the object fields whose schema declares `groups` in its metadata
+ * none of which is active.
+ */
+function removeHiddenFields(
+  schema: core.$ZodType,
+  value: unknown,
+  groups: Set<string>,
+): unknown {
+  if (schema instanceof ZodArray) {
+    return Array.isArray(value)
+      ? value.map((item) => removeHiddenFields(schema.element, item, groups))
+      : value;
+  }
+  if (schema instanceof ZodPipe) {
+    return removeHiddenFields(schema.out, value, groups);
+  }
+  if (!(schema instanceof ZodObject)) {
+    const inner = unwrap(schema);
+
+    return inner ? removeHiddenFields(inner, value, groups) : value;
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  for (
+    const [key, field] of Object.entries(
+      schema.shape as Record<string, core.$ZodType>,
+    )
+  ) {
+    const fieldGroups = getGroups(field);
+
+    if (fieldGroups && !fieldGroups.some((group) => groups.has(group))) {
+      delete value[key];
+    } else if (Object.hasOwn(value, key)) {
+      value[key] = removeHiddenFields(field, value[key], groups);
+    }
+  }
+
+  return value;
+}
+
+/** Reads the `groups` metadata of a schema or of the schemas it wraps. */
+function getGroups(schema: core.$ZodType): string[] | undefined {
+  for (
+    let current: core.$ZodType | undefined = schema;
+    current;
+    current = unwrap(current)
+  ) {
+    const groups = globalRegistry.get(current)?.groups;
+
+    if (Array.isArray(groups)) {
+      return groups as string[];
+    }
+  }
+
+  return undefined;
+}
+
+/** Returns the inner schema of wrappers like `optional()` or `default()`. */
+function unwrap(schema: core.$ZodType): core.$ZodType | undefined {
+  if (schema instanceof ZodArray || schema instanceof ZodObject) {
+    return undefined;
+  }
+
+  return (schema._zod.def as { innerType?: core.$ZodType }).innerType;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.length > 0 ? path.map(String).join(".") : "(root)";
+}
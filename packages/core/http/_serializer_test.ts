@@ -0,0 +1,110 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { z } from "zod";
+import { ResponseSerializationException } from "../exceptions/http/response_serialization.ts";
+import { serializeResponse } from "./_serializer.ts";
+
+describe(serializeResponse.name, () => {
+  const User = z.object({
+    id: z.number(),
+    name: z.string(),
+    email: z.string().meta({ groups: ["admin", "self"] }).optional(),
+    roles: z.array(
+      z.object({
+        name: z.string(),
+        grantedBy: z.string().meta({ groups: ["admin"] }),
+      }),
+    ).default([]),
+  });
+  const user = {
+    id: 1,
+    name: "Ada",
+    email: "ada@example.com",
+    passwordHash: "secret",
+    roles: [{ name: "owner", grantedBy: "root", internalId: 7 }],
+  };
+
+  it("strips undeclared fields and fields of inactive groups", () => {
+    assertEquals(serializeResponse(user, { schema: User, mode: "strip" }, []), {
+      id: 1,
+      name: "Ada",
+      roles: [{ name: "owner" }],
+    });
+  });
+
+  it("exposes the fields of the active groups", () => {
+    assertEquals(
+      serializeResponse(user, { schema: User, mode: "strip" }, ["self"]),
+      {
+        id: 1,
+        name: "Ada",
+        email: "ada@example.com",
+        roles: [{ name: "owner" }],
+      },
+    );
+    assertEquals(
+      serializeResponse(
+        [user],
+        { schema: z.array(User), mode: "strip", groups: ["admin"] },
+        [],
+      ),
+      [{
+        id: 1,
+        name: "Ada",
+        email: "ada@example.com",
+        roles: [{ name: "owner", grantedBy: "root" }],
+      }],
+    );
+  });
+
+  it("rejects values violating the schema", () => {
+    const error = assertThrows(
+      () => serializeResponse({ id: "1" }, { schema: User, mode: "strip" }, []),
+      ResponseSerializationException,
+    );
+
+    assertEquals(error.status, 500);
+    assertEquals(error.issues.length, 2);
+    assertEquals(error.issues[0].startsWith("id: "), true);
+  });
+
+  it("rejects undeclared fields in strict mode", () => {
+    const error = assertThrows(
+      () => serializeResponse(user, { schema: User, mode: "strict" }, []),
+      ResponseSerializationException,
+    );
+
+    assertEquals(error.issues, [
+      "passwordHash: Undeclared field",
+      "roles.0.internalId: Undeclared field",
+    ]);
+    assertEquals(
+      serializeResponse(
+        { id: 1, name: "Ada" },
+        { schema: User, mode: "strict" },
+        [],
+      ),
+      { id: 1, name: "Ada", roles: [] },
+    );
+  });
+
+  it("rejects undeclared fields of class instances in strict mode", () => {
+    class UserEntity {
+      public readonly id = 1;
+      public readonly name = "Ada";
+      public readonly passwordHash = "secret";
+    }
+
+    const error = assertThrows(
+      () =>
+        serializeResponse(
+          new UserEntity(),
+          { schema: User, mode: "strict" },
+          [],
+        ),
+      ResponseSerializationException,
+    );
+
+    assertEquals(error.issues, ["passwordHash: Undeclared field"]);
+  });
+});
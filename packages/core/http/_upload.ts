@@ -0,0 +1,131 @@
+import type { Type } from "@denorid/injector";
+import { BadRequestException } from "../exceptions/http/bad_request.ts";
+import { ContentTooLargeException } from "../exceptions/http/content_too_large.ts";
+import { UnsupportedMediaTypeException } from "../exceptions/http/unsupported_media_type.ts";
+import type { RequestMappingUploadMetadata } from "./_request_mapping.ts";
+import {
+  type FileStorage,
+  MemoryStorage,
+  type StoredFile,
+} from "./file_storage.ts";
+
+/** Resolves a storage class from the DI container. */
+export type FileStorageResolver = (
+  storage: Type<FileStorage>,
+) => Promise<FileStorage>;
+
+const defaultStorage = new MemoryStorage();
+
+/**
+ * Checks the files of a parsed multipart body against the uploads of a route
+ * and stores them.
+ *
+ * Every file is checked before the first one is stored, so a rejected
+ * request stores nothing. If storing fails, the files stored so far are
+ * removed again.
+ *
+ * @param {Record<string, unknown>} body - The parsed body, repeated fields as arrays.
+ * @param {RequestMappingUploadMetadata[]} uploads - The uploads of the route.
+ * @param {FileStorageResolver} resolveStorage - Resolves storage classes.
+ * @return {Promise<StoredFile[]>} The stored files, in body order.
+ * @throws {BadRequestException} If a required file is missing or a file is
+ *   sent in a field without upload.
+ * @throws {ContentTooLargeException} If a file or the number of files
+ *   exceeds the limits.
+ * @throws {UnsupportedMediaTypeException} If the media type of a file is
+ *   not accepted.
+ */
+export async function storeUploads(
+  body: Record<string, unknown>,
+  uploads: RequestMappingUploadMetadata[],
+  resolveStorage: FileStorageResolver,
+): Promise<StoredFile[]> {
+  const filesByUpload = new Map<RequestMappingUploadMetadata, [string, File][]>(
+    uploads.map((upload) => [upload, []]),
+  );
+  const catchAll = uploads.find(({ field }) => field === undefined);
+
+  for (const [field, value] of Object.entries(body)) {
+    for (const file of (Array.isArray(value) ? value : [value])) {
+      if (!(file instanceof File)) {
+        continue;
+      }
+
+      const upload = uploads.find((upload) => upload.field === field) ??
+        catchAll;
+
+      if (!upload) {
+        throw new BadRequestException(`Unexpected file field "${field}"`);
+      }
+
+      filesByUpload.get(upload)!.push([field, file]);
+    }
+  }
+
+  for (const [upload, files] of filesByUpload) {
+    checkUpload(upload, files);
+  }
+
+  const stored: [FileStorage, StoredFile][] = [];
+
+  try {
+    for (const [upload, files] of filesByUpload) {
+      const { storage = defaultStorage } = upload.options;
+      const resolved = typeof storage === "function"
+        ? await resolveStorage(storage)
+        : storage;
+
+      for (const [field, file] of files) {
+        stored.push([resolved, await resolved.store(field, file)]);
+      }
+    }
+  } catch (err) {
+    await Promise.allSettled(
+      stored.map(([storage, file]) => storage.remove?.(file)),
+    );
+
+    throw err;
+  }
+
+  return stored.map(([, file]) => file);
+}
+
+function checkUpload(
+  { field, required, options }: RequestMappingUploadMetadata,
+  files: [string, File][],
+): void {
+  const { limits = {}, mimeTypes } = options;
+
+  if (required && files.length === 0) {
+    throw new BadRequestException(
+      field === undefined ? "Missing files" : `Missing file "${field}"`,
+    );
+  }
+  if (limits.files !== undefined && files.length > limits.files) {
+    throw new ContentTooLargeException(
+      `Too many files, at most ${limits.files} accepted`,
+    );
+  }
+
+  for (const [name, file] of files) {
+    if (limits.fileSize !== undefined && file.size > limits.fileSize) {
+      throw new ContentTooLargeException(
+        `File "${name}" exceeds the limit of ${limits.fileSize} bytes`,
+      );
+    }
+    if (mimeTypes && !mimeTypes.some((type) => matchesMimeType(type, file))) {
+      throw new UnsupportedMediaTypeException(
+        `File "${name}" has an unsupported media type`,
+      );
+    }
+  }
+}
+
+function matchesMimeType(pattern: string, file: File): boolean {
+  const type = (file.type || "application/octet-stream").toLowerCase();
+  const expected = pattern.toLowerCase();
+
+  return expected.endsWith("/*")
+    ? type.startsWith(expected.slice(0, -1))
+    : type === expected;
+}
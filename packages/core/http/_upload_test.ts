@@ -0,0 +1,186 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCalls, spy } from "@std/testing/mock";
+import { BadRequestException } from "../exceptions/http/bad_request.ts";
+import { ContentTooLargeException } from "../exceptions/http/content_too_large.ts";
+import { UnsupportedMediaTypeException } from "../exceptions/http/unsupported_media_type.ts";
+import type { RequestMappingUploadMetadata } from "./_request_mapping.ts";
+import { storeUploads } from "./_upload.ts";
+import type { FileStorage, StoredFile } from "./file_storage.ts";
+
+function createStorage(failOn?: string) {
+  const remove = spy((_file: StoredFile) => Promise.resolve());
+  const store = spy((fieldName: string, file: File) =>
+    file.name === failOn
+      ? Promise.reject(new Error("storage failed"))
+      : Promise.resolve({
+        fieldName,
+        originalName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        location: `/${file.name}`,
+      })
+  );
+
+  return { storage: { store, remove } satisfies FileStorage, store, remove };
+}
+
+const png = (name: string, size = 3) =>
+  new File([new Uint8Array(size)], name, { type: "image/png" });
+
+const noResolver = () => Promise.reject(new Error("not resolvable"));
+
+describe(storeUploads.name, () => {
+  it("stores the files of each upload in body order", async () => {
+    const { storage } = createStorage();
+    const uploads: RequestMappingUploadMetadata[] = [
+      { field: "avatar", required: true, options: { storage } },
+      { required: false, options: { storage } },
+    ];
+
+    const stored = await storeUploads(
+      {
+        title: "ignored",
+        avatar: png("a.png"),
+        attachments: [png("b.png"), "text", png("c.png")],
+      },
+      uploads,
+      noResolver,
+    );
+
+    assertEquals(
+      stored.map(({ fieldName, location }) => [fieldName, location]),
+      [
+        ["avatar", "/a.png"],
+        ["attachments", "/b.png"],
+        ["attachments", "/c.png"],
+      ],
+    );
+  });
+
+  it("stores files in memory by default", async () => {
+    const [stored] = await storeUploads(
+      { avatar: png("a.png") },
+      [{ field: "avatar", required: true, options: {} }],
+      noResolver,
+    );
+
+    assertEquals(stored.buffer, new Uint8Array(3));
+  });
+
+  it("resolves storage classes", async () => {
+    const { storage } = createStorage();
+    class ClassStorage {}
+    const resolver = spy((_cls: unknown) => Promise.resolve(storage));
+
+    await storeUploads(
+      { avatar: png("a.png") },
+      [{
+        field: "avatar",
+        required: true,
+        options: { storage: ClassStorage as never },
+      }],
+      resolver,
+    );
+
+    assertEquals(resolver.calls[0].args[0], ClassStorage);
+  });
+
+  it("rejects files in fields without upload", async () => {
+    await assertRejects(
+      () =>
+        storeUploads(
+          { other: png("a.png") },
+          [{ field: "avatar", required: false, options: {} }],
+          noResolver,
+        ),
+      BadRequestException,
+      'Unexpected file field "other"',
+    );
+  });
+
+  it("rejects missing required files", async () => {
+    await assertRejects(
+      () =>
+        storeUploads(
+          {},
+          [{ field: "avatar", required: true, options: {} }],
+          noResolver,
+        ),
+      BadRequestException,
+      'Missing file "avatar"',
+    );
+    await assertRejects(
+      () => storeUploads({}, [{ required: true, options: {} }], noResolver),
+      BadRequestException,
+      "Missing files",
+    );
+  });
+
+  it("enforces the limits and media types before storing", async () => {
+    const { storage, store } = createStorage();
+    const upload = (
+      options: RequestMappingUploadMetadata["options"],
+    ): RequestMappingUploadMetadata[] => [{
+      field: "avatar",
+      required: true,
+      options: { storage, ...options },
+    }];
+
+    await assertRejects(
+      () =>
+        storeUploads(
+          { avatar: [png("a.png"), png("b.png")] },
+          upload({ limits: { files: 1 } }),
+          noResolver,
+        ),
+      ContentTooLargeException,
+    );
+    await assertRejects(
+      () =>
+        storeUploads(
+          { avatar: png("a.png", 11) },
+          upload({ limits: { fileSize: 10 } }),
+          noResolver,
+        ),
+      ContentTooLargeException,
+    );
+    await assertRejects(
+      () =>
+        storeUploads(
+          { avatar: png("a.png") },
+          upload({ mimeTypes: ["image/jpeg", "text/*"] }),
+          noResolver,
+        ),
+      UnsupportedMediaTypeException,
+    );
+    assertSpyCalls(store, 0);
+
+    await storeUploads(
+      { avatar: png("a.png", 10) },
+      upload({ limits: { fileSize: 10 }, mimeTypes: ["IMAGE/*"] }),
+      noResolver,
+    );
+    assertSpyCalls(store, 1);
+  });
+
+  it("removes the stored files when storing fails", async () => {
+    const { storage, remove } = createStorage("c.png");
+
+    await assertRejects(
+      () =>
+        storeUploads(
+          { files: [png("a.png"), png("b.png"), png("c.png")] },
+          [{ required: false, options: { storage } }],
+          noResolver,
+        ),
+      Error,
+      "storage failed",
+    );
+
+    assertEquals(
+      remove.calls.map(({ args }) => args[0].location),
+      ["/a.png", "/b.png"],
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import type { RequestContext } from "./request_context.ts";
+import {
+  VERSION_NEUTRAL,
+  type VersioningOptions,
+  type VersionValue,
+} from "./versioning.ts";
+
+/**
+ * Checks wether a route serves the version requested by a request.
+ *
+ * @param {RequestContext} ctx - The context of the in-flight request.
+ * @return {boolean} `true` if the route serves the request, `false` otherwise.
+ */
+export type VersionMatcher = (ctx: RequestContext) => boolean;
+
+/**
+ * Normalizes a version value to an array of versions.
+ *
+ * @param {VersionValue | undefined} version - The version value.
+ * @return {Array<string | typeof VERSION_NEUTRAL>} The versions, empty if `version` is undefined.
+ */
+export function normalizeVersions(
+  version: VersionValue | undefined,
+): Array<string | typeof VERSION_NEUTRAL> {
+  return version === undefined
+    ? []
+    : Array.isArray(version)
+    ? version
+    : [version];
+}
+
+/**
+ * Compiles the version of a route into a {@link VersionMatcher} for the
+ * request-based strategies (`header`, `media-type` and `custom`).
+ *
+ * @param {VersionValue | undefined} version - The version of the route.
+ * @param {VersioningOptions | undefined} options - The versioning strategy.
+ * @return {VersionMatcher | undefined} The matcher, or `undefined` when the
+ *   route serves every request: versioning is disabled or path-based, the
+ *   route has no version or is {@link VERSION_NEUTRAL}.
+ */
+export function createVersionMatcher(
+  version: VersionValue | undefined,
+  options: VersioningOptions | undefined,
+): VersionMatcher | undefined {
+  const versions = normalizeVersions(version);
+
+  if (
+    !options || options.type === "uri" || versions.length === 0 ||
+    versions.includes(VERSION_NEUTRAL)
+  ) {
+    return undefined;
+  }
+
+  return (ctx) => {
+    const requested = extractVersions(ctx, options);
+
+    return requested.some((v) => versions.includes(v));
+  };
+}
+
+function extractVersions(
+  ctx: RequestContext,
+  options: Exclude<VersioningOptions, { type: "uri" }>,
+): string[] {
+  switch (options.type) {
+    case "header": {
+      const value = ctx.header(options.header)?.trim();
+
+      return value ? [value] : [];
+    }
+    case "media-type": {
+      const key = options.key ?? "v=";
+
+      return (ctx.header("accept") ?? "").split(",").flatMap((mediaType) =>
+        mediaType.split(";").slice(1).map((param) => param.trim()).filter((
+          param,
+        ) => param.startsWith(key)).map((param) => param.slice(key.length))
+      );
+    }
+    case "custom": {
+      const value = options.extractor(ctx);
+
+      return value === undefined ? [] : Array.isArray(value) ? value : [value];
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { createVersionMatcher, normalizeVersions } from "./_version_matcher.ts";
+import type { RequestContext } from "./request_context.ts";
+import { VERSION_NEUTRAL } from "./versioning.ts";
+
+function makeRequestContext(headers: Record<string, string>): RequestContext {
+  return {
+    header: (key: string) => headers[key],
+  } as unknown as RequestContext;
+}
+
+describe(normalizeVersions.name, () => {
+  it("normalizes version values to arrays", () => {
+    assertEquals(normalizeVersions(undefined), []);
+    assertEquals(normalizeVersions("1"), ["1"]);
+    assertEquals(normalizeVersions(["1", VERSION_NEUTRAL]), [
+      "1",
+      VERSION_NEUTRAL,
+    ]);
+  });
+});
+
+describe(createVersionMatcher.name, () => {
+  it("returns undefined for routes serving every request", () => {
+    const header = { type: "header", header: "x-api-version" } as const;
+
+    assertEquals(createVersionMatcher("1", undefined), undefined);
+    assertEquals(createVersionMatcher("1", { type: "uri" }), undefined);
+    assertEquals(createVersionMatcher(undefined, header), undefined);
+    assertEquals(createVersionMatcher(VERSION_NEUTRAL, header), undefined);
+    assertEquals(
+      createVersionMatcher(["1", VERSION_NEUTRAL], header),
+      undefined,
+    );
+  });
+
+  it("matches the version header", () => {
+    const match = createVersionMatcher(["1", "2"], {
+      type: "header",
+      header: "x-api-version",
+    })!;
+
+    assertEquals(match(makeRequestContext({ "x-api-version": " 2 " })), true);
+    assertEquals(match(makeRequestContext({ "x-api-version": "3" })), false);
+    assertEquals(match(makeRequestContext({})), false);
+  });
+
+  it("matches the media type parameter of the accept header", () => {
+    const match = createVersionMatcher("2", { type: "media-type" })!;
+    const matchKey = createVersionMatcher("2", {
+      type: "media-type",
+      key: "version=",
+    })!;
+
+    assertEquals(
+      match(makeRequestContext({ accept: "text/html, application/json;v=2" })),
+      true,
+    );
+    assertEquals(
+      match(makeRequestContext({ accept: "application/json;v=1" })),
+      false,
+    );
+    assertEquals(
+      match(makeRequestContext({ accept: "application/json" })),
+      false,
+    );
+    assertEquals(
+      matchKey(makeRequestContext({ accept: "application/json; version=2" })),
+      true,
+    );
+  });
+
+  it("matches the versions of a custom extractor", () => {
+    const match = createVersionMatcher("2", {
+      type: "custom",
+      extractor: (ctx) => ctx.header("x-versions")?.split(","),
+    })!;
+
+    assertEquals(match(makeRequestContext({ "x-versions": "3,2" })), true);
+    assertEquals(match(makeRequestContext({ "x-versions": "1" })), false);
+    assertEquals(match(makeRequestContext({})), false);
+  });
+});
@@ -1,8 +1,19 @@
 import type { InjectorContext } from "@denorid/injector";
 import type { ExceptionHandler } from "../exceptions/handler.ts";
 import type { CanActivate, CanActivateFn } from "../guards/can_activate.ts";
+import type {
+  Interceptor,
+  InterceptorFn,
+} from "../interceptors/interceptor.ts";
+import type { MiddlewareConfiguration } from "../middleware/consumer.ts";
+import type {
+  GatewayMapping,
+  GatewayMappingOptions,
+} from "../websockets/gateway_mapping.ts";
 import type { ControllerMapping } from "./controller_mapping.ts";
 import type { CorsOptions } from "./cors.ts";
+import type { HttpRequestDecoder, HttpResponseEncoder } from "./encoding.ts";
+import type { VersioningOptions } from "./versioning.ts";
 
 /** Options passed to {@link HttpAdapter.createControllerMapping} to configure route registration. */
 export interface ControllerMappingOptions {
@@ -14,8 +25,58 @@ export interface ControllerMappingOptions {
   cors: boolean | CorsOptions | undefined;
   /** Global guards evaluated before every route handler. */
   globalGuards: (CanActivate | CanActivateFn)[];
+  /** Global interceptors wrapped around every route handler, outermost first. */
+  globalInterceptors?: (Interceptor | InterceptorFn)[];
+  /** Middleware bound to routes by the `configure()` hooks of the modules. */
+  middleware?: MiddlewareConfiguration[];
+  /** Versioning strategy of the routes, versioning is disabled if omitted. */
+  versioning?: VersioningOptions;
+  /** Secret(s) of signed cookies, the first one signs new cookies. */
+  cookieSecret?: string | string[];
+  /** Response encoders added to the built-in plain text and JSON encoders. */
+  encoders?: HttpResponseEncoder[];
+  /** Request body decoders added to the built-in JSON decoder. */
+  decoders?: HttpRequestDecoder[];
+  /** Renders HTTP exceptions as RFC 9457 Problem Details. */
+  problemDetails?: boolean;
 }
 
+/**
+ * Options passed to {@link HttpAdapter.listen} to bind the HTTP server.
+ *
+ * @example
+ * ```ts
+ * const { port } = await app.listen({ hostname: "127.0.0.1", port: 0 });
+ * ```
+ */
+export interface ListenOptions {
+  /**
+   * The hostname to listen on.
+   *
+   * @default "0.0.0.0"
+   */
+  hostname?: string;
+  /**
+   * The port to listen on, `0` binds a random free port.
+   *
+   * @default 3000
+   */
+  port?: number;
+  /** PEM encoded certificate chain, serves HTTPS together with `key`. */
+  cert?: string;
+  /** PEM encoded private key, serves HTTPS together with `cert`. */
+  key?: string;
+  /** Path of a Unix domain socket to listen on instead of a TCP port. */
+  path?: string;
+  /** Allows several processes to listen on the same port (Linux only). */
+  reusePort?: boolean;
+  /** Aborting the signal closes the server. */
+  signal?: AbortSignal;
+}
+
+/** The address an HTTP server is bound to, see {@link HttpAdapter.listen}. */
+export type ListenAddress = Deno.NetAddr | Deno.UnixAddr;
+
 /**
  * Defines the contract for an HTTP adapter used by the Denorid framework.
  *
@@ -24,11 +85,15 @@ export interface ControllerMappingOptions {
  */
 export interface HttpAdapter {
   /**
-   * Starts the HTTP server and begins accepting incoming connections.
+   * Starts the HTTP server and begins accepting incoming connections. Calls
+   * on a listening adapter resolve to the address of the running server.
    *
-   * @param {number} [port] - The port to listen on. Defaults to 3000 when omitted.
+   * @param {ListenOptions} [options] - Where and how to listen, port 3000 on
+   *   all interfaces when omitted.
+   * @return {Promise<ListenAddress>} Resolves to the bound address once the
+   *   server accepts connections.
    */
-  listen(port?: number): void;
+  listen(options?: ListenOptions): Promise<ListenAddress>;
 
   /**
    * Gracefully shuts down the HTTP server and releases its resources.
@@ -37,6 +102,16 @@ export interface HttpAdapter {
    */
   close(): Promise<void>;
 
+  /**
+   * Answers a request with the registered routes without a listening server,
+   * used by the testing utilities. Adapters without in-process dispatch omit
+   * this method.
+   *
+   * @param {Request} request - The request.
+   * @return {Promise<Response>} The response.
+   */
+  fetch?(request: Request): Promise<Response>;
+
   /**
    * Registers all controllers from the given options and returns
    * the resulting route mapping for the adapter.
@@ -47,4 +122,15 @@ export interface HttpAdapter {
   createControllerMapping(
     opts: ControllerMappingOptions,
   ): ControllerMapping | Promise<ControllerMapping>;
+
+  /**
+   * Creates the mapping that serves the `@WebSocketGateway()` classes.
+   * Adapters without WebSocket support omit this method.
+   *
+   * @param {GatewayMappingOptions} opts - Options used to configure the gateway mapping.
+   * @return {GatewayMapping | Promise<GatewayMapping>} The constructed mapping.
+   */
+  createGatewayMapping?(
+    opts: GatewayMappingOptions,
+  ): GatewayMapping | Promise<GatewayMapping>;
 }
@@ -1,18 +1,65 @@
-import type { Type } from "@denorid/injector";
+import type { ModuleRef, Type } from "@denorid/injector";
 import { Logger, type LoggerService } from "@denorid/logger";
 import {
   CONTROLLER_METADATA,
   CONTROLLER_REQUEST_MAPPING,
   HTTP_CONTROLLER_METADATA,
 } from "../_constants.ts";
+import type { ZodType } from "zod";
+import type { ExceptionFilter } from "../exceptions/filter.ts";
+import { BadRequestException } from "../exceptions/http/bad_request.ts";
+import { HttpException } from "../exceptions/http/base.ts";
+import { ForbiddenException } from "../exceptions/http/forbidden.ts";
+import { InternalServerErrorException } from "../exceptions/http/internal_server_error.ts";
+import { PROBLEM_DETAILS_MEDIA_TYPE } from "../exceptions/http/problem_details.ts";
+import { ResponseSerializationException } from "../exceptions/http/response_serialization.ts";
+import { UnprocessableContentException } from "../exceptions/http/unprocessable_context.ts";
+import { UnsupportedMediaTypeException } from "../exceptions/http/unsupported_media_type.ts";
+import { ZodValidationException } from "../exceptions/http/zod_validation.ts";
+import { getScopedFilters } from "../exceptions/use_filters.ts";
 import type { CanActivate, CanActivateFn } from "../guards/can_activate.ts";
 import { GUARDS_METADATA } from "../guards/decorator.ts";
 import type { ExecutionContext } from "../guards/execution_context.ts";
-import { isClass, isFunction } from "../type_guards.ts";
-import type { RequestMappingMetadata } from "./_request_mapping.ts";
+import type { HostArguments } from "../host_arguments.ts";
+import {
+  createDecoderRegistry,
+  createEncoderRegistry,
+  selectDecoder,
+  selectEncoder,
+} from "./_content_negotiation.ts";
+import { INTERCEPTORS_METADATA } from "../interceptors/decorator.ts";
+import { executeInterceptors } from "../interceptors/execute.ts";
+import type {
+  Interceptor,
+  InterceptorFn,
+} from "../interceptors/interceptor.ts";
+import { getRouteMiddleware } from "../middleware/_route_matcher.ts";
+import {
+  executeMiddleware,
+  type MiddlewareBinding,
+} from "../middleware/execute.ts";
+import { isAsyncIterable, isClass, isFunction } from "../type_guards.ts";
+import { createHostMatcher, type HostMatcher } from "./_host_matcher.ts";
+import type {
+  RequestMappingMetadata,
+  RequestMappingParameterValidationMetadata,
+} from "./_request_mapping.ts";
+import { serializeResponse } from "./_serializer.ts";
+import { storeUploads } from "./_upload.ts";
 import type { ControllerMappingOptions } from "./adapter.ts";
 import type { ControllerOptions } from "./controller_options.ts";
+import type { HttpRequestDecoder, HttpResponseEncoder } from "./encoding.ts";
+import {
+  createVersionMatcher,
+  normalizeVersions,
+  type VersionMatcher,
+} from "./_version_matcher.ts";
+import type { StoredFile } from "./file_storage.ts";
+import { HttpMethod } from "./method.ts";
 import type { RequestContext } from "./request_context.ts";
+import { StatusCode } from "./status.ts";
+import { createStreamBody } from "./streaming.ts";
+import { VERSION_NEUTRAL } from "./versioning.ts";
 
 /** A route handler function that receives a request context and returns a response. */
 export type HttpRouteFn = (ctx: RequestContext) => Promise<unknown> | unknown;
@@ -20,6 +67,135 @@ export type HttpRouteFn = (ctx: RequestContext) => Promise<unknown> | unknown;
 /** A controller instance represented as a map of route handler functions. */
 export type HttpController = Record<PropertyKey, HttpRouteFn>;
 
+/**
+ * A route registered by a {@link ControllerMapping}, see
+ * {@link ControllerMapping.getRoutes}.
+ */
+export interface RegisteredRoute {
+  /** The HTTP method of the route. */
+  method: HttpMethod;
+  /** The full route path, including the base path and version segment. */
+  path: string;
+  /** The controller class owning the route. */
+  controller: Type<HttpController>;
+  /** The guards of the controller followed by those of the route, without global guards. */
+  guards: (Type<CanActivate> | CanActivate | CanActivateFn)[];
+  /** Metadata describing the route (handler, validation, status code). */
+  route: RequestMappingMetadata;
+}
+
+/** A response body built by a {@link ControllerMapping}. */
+export type HttpResponseBody =
+  | string
+  | Uint8Array<ArrayBuffer>
+  | ReadableStream<Uint8Array>
+  | null;
+
+/**
+ * The platform specific accessors of an in-flight request, supplied by the
+ * adapter to the handler of {@link ControllerMapping.createRouteHandler}.
+ *
+ * @template T - The request context of the adapter.
+ */
+export interface HttpRouteRequest<T extends RequestContext = RequestContext> {
+  /** The URL of the request. */
+  readonly url: URL;
+
+  /**
+   * Reads a header of the request.
+   *
+   * @param {string} name - The header name.
+   * @return {string | undefined} The header value.
+   */
+  header(name: string): string | undefined;
+
+  /**
+   * Creates the context of the request.
+   *
+   * @param {string} requestId - The ID of the request scope.
+   * @param {Record<string, string>} hostParams - The parameters of the
+   *   controller's `host` pattern.
+   * @return {T} The request context.
+   */
+  createContext(requestId: string, hostParams: Record<string, string>): T;
+
+  /**
+   * Creates the host arguments handed to exception filters.
+   *
+   * @param {T} context - The request context.
+   * @return {HostArguments} The host arguments.
+   */
+  createHostArguments(context: T): HostArguments;
+
+  /**
+   * Creates the execution context handed to guards and interceptors.
+   *
+   * @param {T} context - The request context.
+   * @param {Type<HttpController>} controllerClass - The controller class.
+   * @param {HttpRouteFn} handler - The route handler.
+   * @return {ExecutionContext} The execution context.
+   */
+  createExecutionContext(
+    context: T,
+    controllerClass: Type<HttpController>,
+    handler: HttpRouteFn,
+  ): ExecutionContext;
+
+  /**
+   * Reads the raw request body.
+   *
+   * @param {T} context - The request context.
+   * @return {Promise<ArrayBuffer>} The raw body.
+   */
+  arrayBuffer(context: T): Promise<ArrayBuffer>;
+
+  /**
+   * Parses a `multipart/form-data` or `application/x-www-form-urlencoded`
+   * request body.
+   *
+   * @param {T} context - The request context.
+   * @param {{ all?: boolean }} [options] - `all` collects every value of
+   *   repeated fields in an array.
+   * @return {Promise<Record<string, unknown>>} The form fields.
+   */
+  parseBody(
+    context: T,
+    options?: { all?: boolean },
+  ): Promise<Record<string, unknown>>;
+
+  /**
+   * Hands validated request data to the underlying framework.
+   *
+   * @param {"json" | "form" | RequestMappingParameterValidationMetadata["type"]} type - The validated part of the request.
+   * @param {unknown} data - The validated data.
+   */
+  addValidatedData?(
+    type: "json" | "form" | RequestMappingParameterValidationMetadata["type"],
+    data: unknown,
+  ): void;
+
+  /**
+   * Creates the response of the request.
+   *
+   * @param {HttpResponseBody} body - The response body.
+   * @param {{ status: number; headers: Headers }} init - The status and the
+   *   headers of the response.
+   * @return {Response} The response.
+   */
+  respond(
+    body: HttpResponseBody,
+    init: { status: number; headers: Headers },
+  ): Response;
+}
+
+/**
+ * Answers a request of a route, see {@link ControllerMapping.createRouteHandler}.
+ * Resolves to `undefined` for requests of other hosts or versions.
+ */
+export type HttpRouteHandler<T extends RequestContext = RequestContext> = (
+  request: HttpRouteRequest<T>,
+) => Promise<Response | undefined>;
+
 /**
  * Base class for HTTP adapter-specific controller mappings.
  *
@@ -35,13 +211,34 @@ export abstract class ControllerMapping {
     },
   );
 
+  private basePath = "";
+  private readonly routes: RegisteredRoute[] = [];
+  private readonly encoders: HttpResponseEncoder[];
+  private readonly decoders: HttpRequestDecoder[];
+
   /**
    * @param {ControllerMappingOptions} options - Configuration for the controller mapping,
    *   including the injector context, exception handler, CORS settings, and global guards.
    */
   public constructor(
     protected readonly options: ControllerMappingOptions,
-  ) {}
+  ) {
+    this.encoders = createEncoderRegistry(options.encoders);
+    this.decoders = createDecoderRegistry(options.decoders);
+  }
+
+  /**
+   * The secrets of signed cookies, the first one signs new cookies.
+   */
+  protected get cookieSecrets(): string[] {
+    const { cookieSecret } = this.options;
+
+    return cookieSecret === undefined
+      ? []
+      : Array.isArray(cookieSecret)
+      ? cookieSecret
+      : [cookieSecret];
+  }
 
   /**
    * Registers all HTTP controllers found in the injector context.
@@ -51,6 +248,7 @@ export abstract class ControllerMapping {
    */
   public async register(basePath?: string): Promise<void> {
     basePath ??= "";
+    this.basePath = basePath;
 
     for (
       const token of this.options.ctx.container
@@ -60,6 +258,15 @@ export abstract class ControllerMapping {
     }
   }
 
+  /**
+   * Returns the routes registered by {@link register}, in registration order.
+   *
+   * @return {RegisteredRoute[]} The registered routes.
+   */
+  public getRoutes(): RegisteredRoute[] {
+    return [...this.routes];
+  }
+
   /**
    * Registers a single route with the underlying HTTP engine.
    *
@@ -82,9 +289,182 @@ export abstract class ControllerMapping {
     route: RequestMappingMetadata,
   ): Promise<void>;
 
+  /**
+   * Creates the handler answering the requests of a route, independent of
+   * the HTTP engine: it matches the host and version, then runs the
+   * middleware, guards, interceptors, validation and the route handler
+   * within the request scope and builds the response, errors included.
+   * Adapters bind the handler to their router and supply the accessors of
+   * every request.
+   *
+   * @param {Type<HttpController>} controllerClass - The controller class owning the route.
+   * @param {string} fullPath - The full route path, including the base path.
+   * @param {(Type<CanActivate>|CanActivate|CanActivateFn)[]} controllerGuards - Guards defined on the controller level.
+   * @param {RequestMappingMetadata} route - Metadata describing the route.
+   * @return {HttpRouteHandler<T>} The handler of the route.
+   */
+  protected createRouteHandler<T extends RequestContext>(
+    controllerClass: Type<HttpController>,
+    fullPath: string,
+    controllerGuards: (Type<CanActivate> | CanActivate | CanActivateFn)[],
+    route: RequestMappingMetadata,
+  ): HttpRouteHandler<T> {
+    const guards = [
+      ...new Set([
+        ...this.options.globalGuards,
+        ...controllerGuards,
+        ...(route.guards ?? []),
+      ]),
+    ];
+    const interceptors = [
+      ...new Set([
+        ...(this.options.globalInterceptors ?? []),
+        ...(controllerClass[Symbol.metadata]?.[INTERCEPTORS_METADATA] as
+          | Set<Type<Interceptor> | Interceptor | InterceptorFn>
+          | undefined ?? []),
+        ...(route.interceptors ?? []),
+      ]),
+    ];
+
+    const filters = getScopedFilters(controllerClass, route.name);
+    const routeMiddleware = this.getMiddleware(
+      controllerClass,
+      fullPath,
+      route.method ?? HttpMethod.GET,
+    );
+    const matchHost = this.resolveHostMatcher(controllerClass);
+    const matchVersion = this.resolveVersionMatcher(route);
+
+    return async (request) => {
+      const hostParams = matchHost ? matchHost(request.url.hostname) : {};
+
+      if (!hostParams) {
+        // Leave the request to routes of other hosts or the not-found handler.
+        return undefined;
+      }
+
+      const requestId = request.header("x-request-id") ?? crypto.randomUUID();
+      const context = request.createContext(requestId, hostParams);
+
+      if (matchVersion && !matchVersion(context)) {
+        // Leave the request to the routes of other versions.
+        return undefined;
+      }
+
+      return await this.options.ctx.runInRequestScopeAsync(
+        requestId,
+        async () => {
+          const hostArguments = request.createHostArguments(context);
+          let streaming = false;
+
+          try {
+            const res = await this.resolveMiddleware(
+              context,
+              routeMiddleware,
+              async () => {
+                const controller = await this.resolveController(
+                  controllerClass,
+                  requestId,
+                );
+
+                const executionContext = request.createExecutionContext(
+                  context,
+                  controllerClass,
+                  controller[route.name],
+                );
+
+                if (!await this.resolveGuards(executionContext, ...guards)) {
+                  throw new ForbiddenException();
+                }
+
+                const result = await this.resolveInterceptors(
+                  executionContext,
+                  interceptors,
+                  async () => {
+                    this.validateParameters(request, context, route);
+                    context.files = await this.readUploads(
+                      request,
+                      context,
+                      route,
+                    );
+                    context.dto = await this.validateRequest(
+                      request,
+                      context,
+                      route,
+                    );
+
+                    return this.serializeResult(
+                      context,
+                      route,
+                      await controller[route.name](context),
+                    );
+                  },
+                );
+
+                if (route.sse || isAsyncIterable(result)) {
+                  const response = this.resolveStreamResponse(
+                    request,
+                    result,
+                    route,
+                    await this.collectResponseHeaders(context),
+                    () => this.options.ctx.clearContext(requestId),
+                  );
+
+                  // The request scope is released once the stream ends.
+                  streaming = true;
+
+                  return response;
+                }
+
+                return await this.createResponse(
+                  request,
+                  context,
+                  result,
+                  route.statusCode,
+                );
+              },
+            );
+
+            // Middleware may short-circuit the chain with a plain value.
+            return await this.createResponse(
+              request,
+              context,
+              res,
+              route.statusCode,
+            );
+          } catch (err) {
+            return await this.handleError(
+              request,
+              hostArguments,
+              err,
+              // Keep headers like `Retry-After` set before the error, unless
+              // collecting them failed in the first place.
+              await this.collectResponseHeaders(context).catch(() =>
+                new Headers()
+              ),
+              filters,
+            );
+            // I haven't found a solution to catch the finally :(
+            // deno-coverage-ignore-start
+          } finally {
+            if (!streaming) {
+              this.options.ctx.clearContext(requestId);
+            }
+          }
+          // deno-coverage-ignore-stop
+        },
+      );
+    };
+  }
+
   /**
    * Reads controller metadata and registers each of its declared routes.
    *
+   * With versioning enabled, every route is registered with its resolved
+   * version (`@Version()`, the controller's `version` or the default
+   * version). The `uri` strategy registers the route once per version below
+   * a version path segment.
+   *
    * @param {Type<HttpController>} controllerClass - The controller class to register.
    * @param {string} basePath - The global path prefix to prepend.
    * @return {Promise<void>} Resolves when all routes of the controller are registered.
@@ -96,11 +476,6 @@ export abstract class ControllerMapping {
     const options = controllerClass[Symbol.metadata]
       ?.[CONTROLLER_METADATA] as ControllerOptions;
 
-    const controllerBasePath = this.joinPaths(
-      basePath,
-      ...this.normalizePaths(options.path),
-    );
-
     const requestMapping =
       (controllerClass[Symbol.metadata]?.[CONTROLLER_REQUEST_MAPPING] ??
         []) as RequestMappingMetadata[];
@@ -110,16 +485,75 @@ export abstract class ControllerMapping {
         | Set<Type<CanActivate> | CanActivate | CanActivateFn>
         | undefined;
 
+    const { versioning } = this.options;
+    const uriPrefix = versioning?.type === "uri"
+      ? versioning.prefix === false ? "" : versioning.prefix ?? "v"
+      : undefined;
+
     for (const route of requestMapping) {
-      await this.registerRoute(
-        controllerClass,
-        controllerBasePath,
-        controllerGuards ? [...controllerGuards] : [],
-        route,
-      );
+      const version = versioning
+        ? route.version ?? options.version ?? versioning.defaultVersion
+        : undefined;
+      const uriVersions = uriPrefix !== undefined
+        ? normalizeVersions(version)
+        : [];
+
+      for (
+        const uriVersion of uriVersions.length > 0 ? uriVersions : [undefined]
+      ) {
+        const versionSegment =
+          uriVersion === undefined || uriVersion === VERSION_NEUTRAL
+            ? ""
+            : `${uriPrefix}${uriVersion}`;
+
+        const controllerBasePath = this.joinPaths(
+          basePath,
+          versionSegment,
+          ...this.normalizePaths(options.path),
+        );
+        const registered: RequestMappingMetadata = versioning
+          ? { ...route, version: uriVersion ?? version }
+          : route;
+
+        this.routes.push({
+          method: route.method ?? HttpMethod.GET,
+          path: this.joinPaths(
+            controllerBasePath,
+            ...this.normalizePaths(route.path),
+          ),
+          controller: controllerClass,
+          guards: [...controllerGuards ?? [], ...route.guards ?? []],
+          route: registered,
+        });
+
+        await this.registerRoute(
+          controllerClass,
+          controllerBasePath,
+          controllerGuards ? [...controllerGuards] : [],
+          registered,
+        );
+      }
     }
   }
 
+  /**
+   * Resolves a controller within the request's `contextId` through the module
+   * declaring it, controllers of imported modules are usually not exported.
+   *
+   * @param {Type<HttpController>} controllerClass - The controller class.
+   * @param {string} contextId - The DI context of the in-flight request.
+   * @return {Promise<HttpController>} The controller instance.
+   */
+  protected resolveController(
+    controllerClass: Type<HttpController>,
+    contextId: string,
+  ): Promise<HttpController> {
+    return this.options.ctx.getModuleRefOf(controllerClass).get(
+      controllerClass,
+      { contextId, strict: false },
+    );
+  }
+
   protected async resolveGuards(
     executionContext: ExecutionContext,
     ...guards: (Type<CanActivate> | CanActivate | CanActivateFn)[]
@@ -138,11 +572,14 @@ export abstract class ControllerMapping {
     guard: Type<CanActivate> | CanActivate | CanActivateFn,
   ): Promise<boolean> {
     if (isClass<CanActivate>(guard)) {
-      return await (await this.options.ctx.getHostModuleRef().get(guard, {
+      const moduleRef = this.getModuleRefFor(executionContext, guard);
+
+      return await (await moduleRef.get(guard, {
         contextId: executionContext
           .switchToHttp()
           .getRequest()
           .contextId,
+        strict: false,
       })).canActivate(
         executionContext,
       );
@@ -154,6 +591,500 @@ export abstract class ControllerMapping {
     return await guard.canActivate(executionContext);
   }
 
+  /**
+   * Get the module reference to resolve a class guard or interceptor from.
+   *
+   * @param {ExecutionContext} executionContext - The execution context of the in-flight request.
+   * @param {Type} type - The guard or interceptor class
+   * @return {ModuleRef} The module reference.
+   */
+  protected getModuleRefFor(
+    executionContext: ExecutionContext,
+    type: Type,
+  ): ModuleRef {
+    const hostModuleRef = this.options.ctx.getHostModuleRef();
+
+    // Guards and interceptors of the application (and their overrides in
+    // tests) win, others are declared next to the controller.
+    return hostModuleRef.hasGlobal(type)
+      ? hostModuleRef
+      : this.options.ctx.getModuleRefOf(executionContext.getClass());
+  }
+
+  /**
+   * Runs `handler` wrapped by the given interceptors. Class interceptors are
+   * resolved like guards, within the request's `contextId`.
+   *
+   * @param {ExecutionContext} executionContext - The execution context of the in-flight request.
+   * @param {(Type<Interceptor> | Interceptor | InterceptorFn)[]} interceptors - Interceptors, outermost first.
+   * @param {() => unknown} handler - Invokes the actual route handler.
+   * @return {Promise<unknown>} The value returned by the outermost interceptor.
+   */
+  protected resolveInterceptors(
+    executionContext: ExecutionContext,
+    interceptors: (Type<Interceptor> | Interceptor | InterceptorFn)[],
+    handler: () => unknown,
+  ): Promise<unknown> {
+    return executeInterceptors(
+      (interceptor) => this.getModuleRefFor(executionContext, interceptor),
+      executionContext.switchToHttp().getRequest().contextId,
+      executionContext,
+      interceptors,
+      handler,
+    );
+  }
+
+  /**
+   * Collects the middleware bound to a route by the `configure()` hooks of
+   * the modules.
+   *
+   * @param {Type<HttpController>} controllerClass - The controller class owning the route.
+   * @param {string} fullPath - The full route path, including the base path.
+   * @param {HttpMethod} method - The HTTP method of the route.
+   * @return {MiddlewareBinding[]} The middleware of the route, outermost first.
+   */
+  protected getMiddleware(
+    controllerClass: Type<HttpController>,
+    fullPath: string,
+    method: HttpMethod,
+  ): MiddlewareBinding[] {
+    return getRouteMiddleware(
+      this.options.middleware ?? [],
+      { controller: controllerClass, path: fullPath, method },
+      this.basePath,
+    );
+  }
+
+  /**
+   * Runs `handler` wrapped by the given middleware. Class middleware is
+   * resolved from the DI container within the request's `contextId`.
+   *
+   * @param {RequestContext} context - The context of the in-flight request.
+   * @param {MiddlewareBinding[]} middleware - Middleware, outermost first.
+   * @param {() => unknown} handler - Invokes the guards, interceptors and route handler.
+   * @return {Promise<unknown>} The value returned by the outermost middleware.
+   */
+  protected resolveMiddleware(
+    context: RequestContext,
+    middleware: MiddlewareBinding[],
+    handler: () => unknown,
+  ): Promise<unknown> {
+    return executeMiddleware(context, middleware, handler);
+  }
+
+  /**
+   * Checks and stores the files uploaded to a route with `UploadedFile()` or
+   * `UploadedFiles()`. Class storages are resolved from the DI container
+   * within the request's `contextId`.
+   *
+   * @param {RequestContext} context - The context of the in-flight request.
+   * @param {RequestMappingMetadata} route - The route accepting the uploads.
+   * @param {Record<string, unknown>} body - The parsed multipart body,
+   *   repeated fields as arrays.
+   * @return {Promise<StoredFile[]>} The stored files.
+   */
+  protected resolveUploads(
+    context: RequestContext,
+    route: RequestMappingMetadata,
+    body: Record<string, unknown>,
+  ): Promise<StoredFile[]> {
+    return storeUploads(
+      body,
+      route.uploads ?? [],
+      (storage) =>
+        this.options.ctx.getHostModuleRef().get(storage, {
+          contextId: context.contextId,
+          strict: false,
+        }),
+    );
+  }
+
+  /**
+   * Applies the route's `Serialize()` schema to the result of its handler.
+   * Results of routes without a schema, `Response` objects and streamed
+   * results are returned as they are.
+   *
+   * @param {RequestContext} context - The context of the in-flight request.
+   * @param {RequestMappingMetadata} route - The route that produced the result.
+   * @param {unknown} result - The value returned by the route handler.
+   * @return {unknown} The serialized result.
+   * @throws {ResponseSerializationException} When the result violates the schema.
+   */
+  protected serializeResult(
+    context: RequestContext,
+    route: RequestMappingMetadata,
+    result: unknown,
+  ): unknown {
+    if (
+      !route.serialization || result instanceof Response ||
+      isAsyncIterable(result)
+    ) {
+      return result;
+    }
+
+    try {
+      return serializeResponse(
+        result,
+        route.serialization,
+        context.serializationGroups,
+      );
+    } catch (err) {
+      if (err instanceof ResponseSerializationException) {
+        this.logger.error(
+          `Response of ${String(route.name)} does not match its schema: ${
+            err.issues.join(", ")
+          }`,
+        );
+      }
+
+      throw err;
+    }
+  }
+
+  /**
+   * Encodes a plain route result with the encoder selected by the `Accept`
+   * header of the request.
+   *
+   * @param {RequestContext} context - The context of the in-flight request.
+   * @param {unknown} result - The route result, neither `null` nor `undefined`.
+   * @return {{ body: string | Uint8Array<ArrayBuffer>; mediaType: string }}
+   *   The encoded body and its media type.
+   * @throws {NotAcceptableException} When no acceptable encoder can encode the result.
+   */
+  protected encodeResult(
+    context: RequestContext,
+    result: unknown,
+  ): { body: string | Uint8Array<ArrayBuffer>; mediaType: string } {
+    const encoder = selectEncoder(
+      context.header("accept"),
+      result,
+      this.encoders,
+    );
+
+    return { body: encoder.encode(result), mediaType: encoder.mediaType };
+  }
+
+  /**
+   * Decodes the body of a `Body()` route with the decoder selected by the
+   * `Content-Type` header of the request.
+   *
+   * @param {RequestContext} context - The context of the in-flight request.
+   * @param {() => Promise<ArrayBuffer>} read - Reads the raw request body.
+   * @return {Promise<unknown>} The decoded body.
+   * @throws {UnsupportedMediaTypeException} When no decoder handles the media type.
+   * @throws {BadRequestException} When the body cannot be read or decoded.
+   */
+  protected async decodeBody(
+    context: RequestContext,
+    read: () => Promise<ArrayBuffer>,
+  ): Promise<unknown> {
+    const decoder = selectDecoder(
+      context.header("content-type"),
+      this.decoders,
+    );
+
+    try {
+      return await decoder.decode(new Uint8Array(await read()));
+    } catch {
+      throw new BadRequestException("Malformed request body");
+    }
+  }
+
+  /**
+   * Renders the response body of an HTTP exception, as Problem Details when
+   * the `problemDetails` mode is enabled.
+   *
+   * @param {HttpException} exception - The exception to answer with.
+   * @param {string} instance - The path of the failed request.
+   * @return {{ body: unknown; mediaType: string }} The JSON body and its media type.
+   */
+  protected renderException(
+    exception: HttpException,
+    instance: string,
+  ): { body: unknown; mediaType: string } {
+    return this.options.problemDetails
+      ? {
+        body: exception.toProblemDetails(instance),
+        mediaType: PROBLEM_DETAILS_MEDIA_TYPE,
+      }
+      : { body: exception.response, mediaType: "application/json" };
+  }
+
+  /**
+   * Compiles the version of a route for the request-based versioning
+   * strategies.
+   *
+   * @param {RequestMappingMetadata} route - The route, with its resolved version.
+   * @return {VersionMatcher | undefined} A matcher checking wether a request
+   *   asks for a version of the route, or `undefined` when the route serves
+   *   every request.
+   */
+  protected resolveVersionMatcher(
+    route: RequestMappingMetadata,
+  ): VersionMatcher | undefined {
+    return createVersionMatcher(route.version, this.options.versioning);
+  }
+
+  /**
+   * Compiles the `host` restriction of a controller.
+   *
+   * @param {Type<HttpController>} controllerClass - The controller class.
+   * @return {HostMatcher | undefined} A matcher returning the host parameters
+   *   of matching hostnames, or `undefined` when the controller accepts any host.
+   */
+  protected resolveHostMatcher(
+    controllerClass: Type<HttpController>,
+  ): HostMatcher | undefined {
+    return createHostMatcher(
+      (controllerClass[Symbol.metadata]?.[CONTROLLER_METADATA] as
+        | ControllerOptions
+        | undefined)?.host,
+    );
+  }
+
+  private async validateRequest<T extends RequestContext>(
+    request: HttpRouteRequest<T>,
+    context: T,
+    route: RequestMappingMetadata,
+  ): Promise<unknown> {
+    if (!route.validation) {
+      return undefined;
+    }
+
+    const { type, dto } = route.validation;
+    let raw: unknown;
+
+    if (type === "json") {
+      raw = await this.decodeBody(context, () => request.arrayBuffer(context));
+    } else {
+      try {
+        raw = await request.parseBody(context);
+      } catch {
+        throw new BadRequestException("Malformed request body");
+      }
+    }
+
+    const result = (dto as ZodType).safeParse(raw);
+
+    if (!result.success) {
+      throw new ZodValidationException(result.error);
+    }
+
+    request.addValidatedData?.(type, result.data);
+
+    return result.data;
+  }
+
+  private async readUploads<T extends RequestContext>(
+    request: HttpRouteRequest<T>,
+    context: T,
+    route: RequestMappingMetadata,
+  ): Promise<StoredFile[]> {
+    if (!route.uploads?.length) {
+      return [];
+    }
+    if (
+      !context.header("content-type")?.toLowerCase().startsWith(
+        "multipart/form-data",
+      )
+    ) {
+      throw new UnsupportedMediaTypeException(
+        "Expected a multipart/form-data request body",
+      );
+    }
+
+    let body: Record<string, unknown>;
+
+    try {
+      body = await request.parseBody(context, { all: true });
+    } catch {
+      throw new BadRequestException("Malformed request body");
+    }
+
+    return await this.resolveUploads(context, route, body);
+  }
+
+  private validateParameters<T extends RequestContext>(
+    request: HttpRouteRequest<T>,
+    context: T,
+    route: RequestMappingMetadata,
+  ): void {
+    for (const { type, dto } of route.parameterValidation ?? []) {
+      const result = (dto as ZodType).safeParse(
+        this.readParameters(context, type),
+      );
+
+      if (!result.success) {
+        throw new ZodValidationException(result.error);
+      }
+
+      request.addValidatedData?.(type, result.data);
+
+      switch (type) {
+        case "query":
+          context.validatedQuery = result.data;
+          break;
+        case "param":
+          context.validatedParams = result.data;
+          break;
+        case "header":
+          context.validatedHeaders = result.data;
+          break;
+      }
+    }
+  }
+
+  private readParameters(
+    context: RequestContext,
+    type: RequestMappingParameterValidationMetadata["type"],
+  ): Record<string, string | string[]> {
+    switch (type) {
+      case "query":
+        return Object.fromEntries(
+          Object.entries(context.queries()).map(([key, values]) => [
+            key,
+            values.length === 1 ? values[0] : values,
+          ]),
+        );
+      case "param":
+        return context.params();
+      case "header":
+        return context.headers();
+    }
+  }
+
+  /**
+   * Applies the status, headers and cookies set on the request context to
+   * plain handler results; `Response` objects are returned as is.
+   */
+  private async createResponse<T extends RequestContext>(
+    request: HttpRouteRequest<T>,
+    context: T,
+    res: unknown,
+    statusCode: number | undefined,
+  ): Promise<Response> {
+    if (res instanceof Response) {
+      return res;
+    }
+
+    return this.resolveResponse(
+      request,
+      context,
+      res,
+      context.getResponseStatus() ?? statusCode,
+      await this.collectResponseHeaders(context),
+    );
+  }
+
+  /**
+   * Collects the headers and cookies set on the request context into fresh
+   * headers of a single response.
+   */
+  private async collectResponseHeaders(
+    context: RequestContext,
+  ): Promise<Headers> {
+    const headers = new Headers();
+
+    for (const [name, value] of await context.getResponseHeaders()) {
+      headers.append(name, value);
+    }
+
+    return headers;
+  }
+
+  private resolveResponse<T extends RequestContext>(
+    request: HttpRouteRequest<T>,
+    context: T,
+    res: unknown,
+    statusCode: number | undefined,
+    headers: Headers,
+  ): Response {
+    if (res === undefined || res === null) {
+      return request.respond(null, { status: StatusCode.NoContent, headers });
+    }
+
+    if (typeof res === "function") {
+      throw new UnprocessableContentException();
+    }
+
+    const { body, mediaType } = this.encodeResult(context, res);
+
+    headers.set("Content-Type", mediaType);
+
+    return request.respond(body, {
+      status: statusCode ?? StatusCode.Ok,
+      headers,
+    });
+  }
+
+  private resolveStreamResponse<T extends RequestContext>(
+    request: HttpRouteRequest<T>,
+    res: unknown,
+    route: RequestMappingMetadata,
+    headers: Headers,
+    onClose: () => void,
+  ): Response {
+    if (!isAsyncIterable(res)) {
+      throw new UnprocessableContentException();
+    }
+
+    const body = createStreamBody(res, {
+      sse: route.sse,
+      onClose,
+      onError: (err) =>
+        this.logger.error(
+          `Stream of ${String(route.name)} failed`,
+          err instanceof Error ? err.stack : err,
+        ),
+    });
+
+    if (route.sse) {
+      headers.set("Content-Type", "text/event-stream");
+      headers.set("Cache-Control", "no-cache");
+      headers.set("Connection", "keep-alive");
+    }
+
+    return request.respond(body, {
+      status: route.statusCode ?? StatusCode.Ok,
+      headers,
+    });
+  }
+
+  private async handleError<T extends RequestContext>(
+    request: HttpRouteRequest<T>,
+    hostArguments: HostArguments,
+    err: unknown,
+    headers: Headers,
+    filters: (Type<ExceptionFilter> | ExceptionFilter)[] = [],
+  ): Promise<Response> {
+    const responsePayload = (await this.options.exceptionHandler.handle(
+      err,
+      hostArguments,
+      filters,
+    )) ??
+      (err instanceof HttpException ? err : new InternalServerErrorException(
+        typeof err === "string"
+          ? err
+          : (err instanceof Error ? err.message : undefined),
+      ));
+
+    if (!(responsePayload instanceof HttpException)) {
+      return responsePayload as Response;
+    }
+
+    const { body, mediaType } = this.renderException(
+      responsePayload,
+      request.url.pathname,
+    );
+
+    headers.set("Content-Type", mediaType);
+
+    return request.respond(JSON.stringify(body), {
+      status: responsePayload.status,
+      headers,
+    });
+  }
+
   /**
    * Normalizes a path value to an array of path strings.
    *
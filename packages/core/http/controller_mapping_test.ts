@@ -11,11 +11,16 @@ import type { ExceptionHandler } from "../exceptions/handler.ts";
 import type { CanActivate, CanActivateFn } from "../guards/can_activate.ts";
 import { GUARDS_METADATA } from "../guards/decorator.ts";
 import type { ExecutionContext } from "../guards/execution_context.ts";
+import type { CallHandler, Interceptor } from "../interceptors/interceptor.ts";
 import type { RequestMappingMetadata } from "./_request_mapping.ts";
 import {
   ControllerMapping,
   type HttpController,
+  type HttpRouteRequest,
 } from "./controller_mapping.ts";
+import type { ControllerOptions } from "./controller_options.ts";
+import { HttpMethod } from "./method.ts";
+import type { RequestContext } from "./request_context.ts";
 
 describe("ControllerMapping", () => {
   interface RegisterRouteCall {
@@ -78,6 +83,10 @@ describe("ControllerMapping", () => {
       resolve: resolveFn,
       getHostModuleRef: () => ({
         get: resolveFn,
+        hasGlobal: () => true,
+      }),
+      getModuleRefOf: () => ({
+        get: resolveFn,
       }),
     } as unknown as {
       container: MockContainer;
@@ -90,7 +99,7 @@ describe("ControllerMapping", () => {
 
   function setControllerMetadata(
     target: Type,
-    controllerMeta: { path?: string | string[] },
+    controllerMeta: ControllerOptions,
     requestMapping?: RequestMappingMetadata[],
     guards?: Set<Type<CanActivate> | CanActivate | CanActivateFn>,
   ): void {
@@ -480,6 +489,89 @@ describe("ControllerMapping", () => {
     });
   });
 
+  describe("getRoutes()", () => {
+    it("should return the registered routes with full paths and guards", async () => {
+      const controllerGuard: CanActivateFn = () => true;
+      const routeGuard: CanActivateFn = () => true;
+      const list: RequestMappingMetadata = { name: "list" };
+      const create: RequestMappingMetadata = {
+        name: "create",
+        path: "/:id",
+        method: HttpMethod.POST,
+        guards: new Set([routeGuard]),
+      };
+
+      class FakeController {}
+      setControllerMetadata(
+        FakeController,
+        { path: "/items" },
+        [list, create],
+        new Set([controllerGuard]),
+      );
+
+      const { ctx } = createMockContext([FakeController]);
+      const mapping = new TestControllerMapping({
+        ctx: ctx as never,
+        exceptionHandler: {} as ExceptionHandler,
+        globalGuards: [],
+        cors: undefined,
+      });
+
+      await mapping.register("/api");
+
+      assertEquals(mapping.getRoutes(), [
+        {
+          method: HttpMethod.GET,
+          path: "/api/items",
+          controller: FakeController as Type<HttpController>,
+          guards: [controllerGuard],
+          route: list,
+        },
+        {
+          method: HttpMethod.POST,
+          path: "/api/items/:id",
+          controller: FakeController as Type<HttpController>,
+          guards: [controllerGuard, routeGuard],
+          route: create,
+        },
+      ]);
+    });
+  });
+
+  describe("resolveHostMatcher()", () => {
+    let mapping: TestControllerMapping;
+
+    beforeEach(() => {
+      const { ctx } = createMockContext([]);
+      mapping = new TestControllerMapping({
+        ctx: ctx as never,
+        exceptionHandler: {} as ExceptionHandler,
+        globalGuards: [],
+        cors: undefined,
+      });
+    });
+
+    it("should return undefined when the controller has no host", () => {
+      class NoHostController {}
+      setControllerMetadata(NoHostController, {});
+
+      assertEquals(
+        mapping["resolveHostMatcher"](NoHostController as never),
+        undefined,
+      );
+    });
+
+    it("should compile the host option of the controller", () => {
+      class TenantController {}
+      setControllerMetadata(TenantController, { host: ":tenant.example.com" });
+
+      const match = mapping["resolveHostMatcher"](TenantController as never);
+
+      assertEquals(match?.("acme.example.com"), { tenant: "acme" });
+      assertEquals(match?.("example.org"), undefined);
+    });
+  });
+
   describe("resolveGuards()", () => {
     const mockExecCtx = {} as ExecutionContext;
 
@@ -540,6 +632,7 @@ describe("ControllerMapping", () => {
 
   describe("resolveGuard()", () => {
     const mockExecCtx = {
+      getClass: () => class UsersController {},
       switchToHttp: () => ({
         getRequest: () => ({ contextId: Symbol() }),
       }),
@@ -596,4 +689,146 @@ describe("ControllerMapping", () => {
       assertEquals(result, true);
     });
   });
+
+  describe("resolveInterceptors()", () => {
+    class UsersController {}
+
+    const mockExecCtx = {
+      getClass: () => UsersController,
+      switchToHttp: () => ({
+        getRequest: () => ({ contextId: "req-1" }),
+      }),
+    } as unknown as ExecutionContext;
+
+    it("should resolve interceptors declared next to the controller from its module", async () => {
+      class LocalInterceptor implements Interceptor {
+        intercept(_ctx: ExecutionContext, next: CallHandler): unknown {
+          return next.handle();
+        }
+      }
+
+      const get = spy((_token: unknown, _opts: unknown) =>
+        Promise.resolve(new LocalInterceptor())
+      );
+      const getModuleRefOf = spy((_token: unknown) => ({ get }));
+      const mapping = new TestControllerMapping({
+        ctx: {
+          getHostModuleRef: () => ({ hasGlobal: () => false }),
+          getModuleRefOf,
+        } as never,
+        exceptionHandler: {} as ExceptionHandler,
+        globalGuards: [],
+        cors: undefined,
+      });
+
+      const result = await mapping["resolveInterceptors"](
+        mockExecCtx,
+        [LocalInterceptor],
+        () => "handled",
+      );
+
+      assertEquals(result, "handled");
+      assertEquals(getModuleRefOf.calls[0].args, [UsersController]);
+      assertEquals(get.calls[0].args, [LocalInterceptor, {
+        contextId: "req-1",
+        strict: false,
+      }]);
+    });
+  });
+
+  describe("createRouteHandler()", () => {
+    class ItemsController {
+      list(): unknown {
+        return { items: [] };
+      }
+    }
+
+    const route: RequestMappingMetadata = {
+      name: "list",
+      path: "/",
+      method: HttpMethod.GET,
+      statusCode: 201,
+    } as RequestMappingMetadata;
+
+    let clearContext: Spy;
+    let respond: Spy;
+    let mapping: TestControllerMapping;
+
+    function createRequest(url: string): HttpRouteRequest {
+      const context = {
+        header: () => undefined,
+        getResponseStatus: () => undefined,
+        getResponseHeaders: () => Promise.resolve([["x-trace", "abc"]]),
+      } as unknown as RequestContext;
+
+      return {
+        url: new URL(url),
+        header: (name) => name === "x-request-id" ? "req-1" : undefined,
+        createContext: () => context,
+        createHostArguments: () => ({}) as never,
+        createExecutionContext: () =>
+          ({
+            getClass: () => ItemsController,
+            switchToHttp: () => ({ getRequest: () => context }),
+          }) as unknown as ExecutionContext,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+        parseBody: () => Promise.resolve({}),
+        respond: respond as HttpRouteRequest["respond"],
+      };
+    }
+
+    beforeEach(() => {
+      setControllerMetadata(ItemsController, { host: "api.example.com" });
+
+      clearContext = spy((_requestId: string) => {});
+      respond = spy((
+        body: string | null,
+        init: { status: number; headers: Headers },
+      ) => new Response(body, init));
+      mapping = new TestControllerMapping({
+        ctx: {
+          runInRequestScopeAsync: (_id: string, fn: () => unknown) => fn(),
+          clearContext,
+          getModuleRefOf: () => ({
+            get: () => Promise.resolve(new ItemsController()),
+          }),
+        } as never,
+        exceptionHandler: {} as ExceptionHandler,
+        globalGuards: [],
+        cors: undefined,
+      });
+    });
+
+    it("should leave requests of other hosts to the adapter", async () => {
+      const handle = mapping["createRouteHandler"](
+        ItemsController as never,
+        "/items",
+        [],
+        route,
+      );
+
+      assertEquals(
+        await handle(createRequest("http://www.example.com/items")),
+        undefined,
+      );
+      assertEquals(respond.calls.length, 0);
+    });
+
+    it("should build the response with the headers set on the context", async () => {
+      const handle = mapping["createRouteHandler"](
+        ItemsController as never,
+        "/items",
+        [],
+        route,
+      );
+
+      const res = await handle(createRequest("http://api.example.com/items"));
+
+      assertEquals(res?.status, 201);
+      assertEquals(res?.headers.get("x-trace"), "abc");
+      assertEquals(res?.headers.get("content-type"), "application/json");
+      assertEquals(await res?.json(), { items: [] });
+      assertEquals(clearContext.calls[0].args, ["req-1"]);
+    });
+  });
 });
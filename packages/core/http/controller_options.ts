@@ -1,4 +1,5 @@
 import type { InjectableOptions } from "@denorid/injector";
+import type { VersionValue } from "./versioning.ts";
 
 /**
  * Configuration options for controller registration and routing.
@@ -31,12 +32,28 @@ export interface ControllerOptions extends InjectableOptions {
    * the given host pattern(s). This is useful for multi-tenant applications or
    * subdomain-based routing.
    *
-   * - String: Exact host match (e.g., "api.example.com")
-   * - RegExp: Pattern matching for dynamic hosts (e.g., /^(.+)\.example\.com$/)
+   * - String: Exact host match (e.g., "api.example.com"), `:name` labels match
+   *   a single subdomain (e.g., ":tenant.example.com")
+   * - RegExp: Pattern matching for dynamic hosts (e.g., /^(?<tenant>.+)\.example\.com$/)
    * - Array: Multiple host patterns, routes respond to any matching pattern
    * - Undefined: No host restriction, routes respond to all hosts
    *
+   * Parameters captured by `:name` labels or named RegExp groups are available
+   * via `RequestContext.hostParam()`. Requests to other hosts fall through to
+   * the remaining routes.
+   *
    * @default undefined
    */
   host?: string | RegExp | Array<string | RegExp>;
+
+  /**
+   * Version(s) of the controller's routes, see `VersioningOptions`. Routes
+   * override it with `@Version()`; `VERSION_NEUTRAL` routes serve every
+   * version.
+   *
+   * Ignored unless versioning is enabled on the application.
+   *
+   * @default The `defaultVersion` of the versioning options.
+   */
+  version?: VersionValue;
 }
@@ -0,0 +1,193 @@
+/**
+ * Attributes of a response cookie, see `RequestContext.setCookie()`.
+ */
+export interface CookieOptions {
+  /** The hosts the cookie is sent to. */
+  domain?: string;
+  /**
+   * The path the cookie is sent for.
+   *
+   * @default "/"
+   */
+  path?: string;
+  /** The expiry date of the cookie. */
+  expires?: Date;
+  /** The lifetime of the cookie in seconds, wins over {@link expires}. */
+  maxAge?: number;
+  /** Hides the cookie from client-side scripts. */
+  httpOnly?: boolean;
+  /** Restricts the cookie to HTTPS requests. */
+  secure?: boolean;
+  /** Restricts the cookie to first-party or same-site requests. */
+  sameSite?: "Strict" | "Lax" | "None";
+  /** Stores the cookie in partitioned storage (CHIPS). */
+  partitioned?: boolean;
+  /**
+   * Signs the cookie value with the application's cookie secret, see
+   * `HttpApplicationOptions.cookieSecret`.
+   */
+  signed?: boolean;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Parses a `Cookie` request header.
+ *
+ * Values are URI-decoded; malformed values are kept as is. The first
+ * occurrence of a cookie name wins.
+ *
+ * @param {string | undefined} header - The `Cookie` header value.
+ * @return {Record<string, string>} The cookies by name.
+ */
+export function parseCookies(
+  header: string | undefined,
+): Record<string, string> {
+  const cookies: Record<string, string> = {};
+
+  for (const pair of header?.split(";") ?? []) {
+    const index = pair.indexOf("=");
+
+    if (index <= 0) {
+      continue;
+    }
+
+    const name = pair.slice(0, index).trim();
+    let value = pair.slice(index + 1).trim();
+
+    if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+      value = value.slice(1, -1);
+    }
+
+    if (name && !(name in cookies)) {
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch {
+        cookies[name] = value;
+      }
+    }
+  }
+
+  return cookies;
+}
+
+/**
+ * Serializes a cookie into a `Set-Cookie` response header value. The value
+ * is URI-encoded, the {@link CookieOptions.signed} flag is ignored.
+ *
+ * @param {string} name - The cookie name.
+ * @param {string} value - The cookie value.
+ * @param {CookieOptions} [options] - The cookie attributes.
+ * @return {string} The `Set-Cookie` header value.
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  options: CookieOptions = {},
+): string {
+  const parts = [
+    `${name}=${encodeURIComponent(value)}`,
+    `Path=${options.path ?? "/"}`,
+  ];
+
+  if (options.domain) {
+    parts.push(`Domain=${options.domain}`);
+  }
+  if (options.maxAge !== undefined) {
+    parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  }
+  if (options.expires) {
+    parts.push(`Expires=${options.expires.toUTCString()}`);
+  }
+  if (options.httpOnly) {
+    parts.push("HttpOnly");
+  }
+  if (options.secure) {
+    parts.push("Secure");
+  }
+  if (options.sameSite) {
+    parts.push(`SameSite=${options.sameSite}`);
+  }
+  if (options.partitioned) {
+    parts.push("Partitioned");
+  }
+
+  return parts.join("; ");
+}
+
+/**
+ * Signs a cookie value with HMAC-SHA256. The result has the format
+ * `<value>.<base64 signature>`.
+ *
+ * @param {string} value - The cookie value.
+ * @param {string} secret - The signing secret.
+ * @return {Promise<string>} The signed value.
+ */
+export async function signCookieValue(
+  value: string,
+  secret: string,
+): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    encoder.encode(value),
+  );
+
+  return `${value}.${btoa(String.fromCharCode(...new Uint8Array(signature)))}`;
+}
+
+/**
+ * Verifies a value signed by {@link signCookieValue}.
+ *
+ * @param {string} signed - The signed value.
+ * @param {string[]} secrets - The accepted secrets, to allow rotating them.
+ * @return {Promise<string | undefined>} The original value, or `undefined`
+ *   if the signature is missing or invalid.
+ */
+export async function unsignCookieValue(
+  signed: string,
+  secrets: string[],
+): Promise<string | undefined> {
+  const index = signed.lastIndexOf(".");
+
+  if (index < 0) {
+    return undefined;
+  }
+
+  const value = signed.slice(0, index);
+  let signature: Uint8Array<ArrayBuffer>;
+
+  try {
+    signature = Uint8Array.from(
+      atob(signed.slice(index + 1)),
+      (c) => c.charCodeAt(0),
+    );
+  } catch {
+    return undefined;
+  }
+
+  for (const secret of secrets) {
+    if (
+      await crypto.subtle.verify(
+        "HMAC",
+        await importKey(secret),
+        signature,
+        encoder.encode(value),
+      )
+    ) {
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
@@ -0,0 +1,72 @@
+import { assertEquals, assertMatch } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  parseCookies,
+  serializeCookie,
+  signCookieValue,
+  unsignCookieValue,
+} from "./cookies.ts";
+
+describe(parseCookies.name, () => {
+  it("parses and decodes cookie pairs", () => {
+    assertEquals(
+      parseCookies('a=1; b="quoted"; c=x%3Dy; invalid; =empty; a=2'),
+      { a: "1", b: "quoted", c: "x=y" },
+    );
+    assertEquals(parseCookies(undefined), {});
+  });
+
+  it("keeps malformed encodings as is", () => {
+    assertEquals(parseCookies("a=%E0%A4%A"), { a: "%E0%A4%A" });
+  });
+});
+
+describe(serializeCookie.name, () => {
+  it("serializes the value with the default path", () => {
+    assertEquals(serializeCookie("a", "x y"), "a=x%20y; Path=/");
+  });
+
+  it("serializes every attribute", () => {
+    assertEquals(
+      serializeCookie("a", "1", {
+        domain: "example.com",
+        path: "/app",
+        maxAge: 60.5,
+        expires: new Date(0),
+        httpOnly: true,
+        secure: true,
+        sameSite: "Strict",
+        partitioned: true,
+        signed: true,
+      }),
+      "a=1; Path=/app; Domain=example.com; Max-Age=60; " +
+        "Expires=Thu, 01 Jan 1970 00:00:00 GMT; HttpOnly; Secure; " +
+        "SameSite=Strict; Partitioned",
+    );
+  });
+});
+
+describe(signCookieValue.name, () => {
+  it("signs values verifiable with the same secret", async () => {
+    const signed = await signCookieValue("user.1", "secret");
+
+    assertMatch(signed, /^user\.1\.[A-Za-z0-9+/]+=*$/);
+    assertEquals(await unsignCookieValue(signed, ["secret"]), "user.1");
+    assertEquals(await unsignCookieValue(signed, ["other"]), undefined);
+    assertEquals(
+      await unsignCookieValue(signed, ["other", "secret"]),
+      "user.1",
+    );
+  });
+
+  it("rejects tampered or unsigned values", async () => {
+    const signed = await signCookieValue("user-1", "secret");
+
+    assertEquals(
+      await unsignCookieValue(signed.replace("user-1", "user-2"), ["secret"]),
+      undefined,
+    );
+    assertEquals(await unsignCookieValue("user-1", ["secret"]), undefined);
+    assertEquals(await unsignCookieValue("user-1.!!", ["secret"]), undefined);
+  });
+});
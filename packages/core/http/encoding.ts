@@ -0,0 +1,202 @@
+import { decode, encode, type ValueType } from "@std/msgpack";
+
+/**
+ * Encodes the results of route handlers for one media type. Encoders are
+ * selected by the `Accept` header of the request.
+ *
+ * @example
+ * ```ts
+ * class YamlEncoder implements HttpResponseEncoder {
+ *   public readonly mediaType: string = "application/yaml";
+ *
+ *   public canEncode(value: unknown): boolean {
+ *     return typeof value === "object";
+ *   }
+ *
+ *   public encode(value: unknown): string {
+ *     return stringify(value);
+ *   }
+ * }
+ * ```
+ */
+export interface HttpResponseEncoder {
+  /** The media type of the encoded body, e.g. `application/json`. */
+  readonly mediaType: string;
+
+  /**
+   * Checks whether the encoder can represent a value.
+   *
+   * @param {unknown} value - The route result, never `null` or `undefined`.
+   * @return {boolean} `true` if {@link encode} accepts the value.
+   */
+  canEncode(value: unknown): boolean;
+
+  /**
+   * Encodes a value.
+   *
+   * @param {unknown} value - The route result.
+   * @return {string | Uint8Array<ArrayBuffer>} The response body.
+   */
+  encode(value: unknown): string | Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Decodes request bodies of one media type for the `Body()` validation.
+ * Decoders are selected by the `Content-Type` header of the request.
+ */
+export interface HttpRequestDecoder {
+  /** The media type of the decoded body, e.g. `application/json`. */
+  readonly mediaType: string;
+
+  /**
+   * Decodes a request body. Thrown errors are answered with
+   * `400 Bad Request`.
+   *
+   * @param {Uint8Array} body - The raw request body.
+   * @return {unknown | Promise<unknown>} The decoded value passed to the
+   *   `Body()` schema.
+   */
+  decode(body: Uint8Array): unknown | Promise<unknown>;
+}
+
+/**
+ * Encodes strings, numbers, booleans, bigints and symbols as
+ * `text/plain; charset=UTF-8`. Built in.
+ */
+export class PlainTextEncoder implements HttpResponseEncoder {
+  public readonly mediaType: string = "text/plain; charset=UTF-8";
+
+  /** @inheritdoc */
+  public canEncode(value: unknown): boolean {
+    return typeof value !== "object" && typeof value !== "function";
+  }
+
+  /** @inheritdoc */
+  public encode(value: unknown): string {
+    return String(value);
+  }
+}
+
+/** Encodes objects and arrays as `application/json`. Built in. */
+export class JsonEncoder implements HttpResponseEncoder {
+  public readonly mediaType: string = "application/json";
+
+  /** @inheritdoc */
+  public canEncode(value: unknown): boolean {
+    return typeof value !== "function" && typeof value !== "symbol" &&
+      typeof value !== "bigint";
+  }
+
+  /** @inheritdoc */
+  public encode(value: unknown): string {
+    return JSON.stringify(value);
+  }
+}
+
+/** Decodes `application/json` request bodies. Built in. */
+export class JsonDecoder implements HttpRequestDecoder {
+  public readonly mediaType: string = "application/json";
+
+  /** @inheritdoc */
+  public decode(body: Uint8Array): unknown {
+    return JSON.parse(new TextDecoder().decode(body));
+  }
+}
+
+/** Encodes values as MessagePack (`application/msgpack`). */
+export class MsgpackEncoder implements HttpResponseEncoder {
+  public readonly mediaType: string = "application/msgpack";
+
+  /** @inheritdoc */
+  public canEncode(value: unknown): boolean {
+    return typeof value !== "function" && typeof value !== "symbol";
+  }
+
+  /** @inheritdoc */
+  public encode(value: unknown): Uint8Array<ArrayBuffer> {
+    return encode(value as ValueType) as Uint8Array<ArrayBuffer>;
+  }
+}
+
+/** Decodes MessagePack (`application/msgpack`) request bodies. */
+export class MsgpackDecoder implements HttpRequestDecoder {
+  public readonly mediaType: string = "application/msgpack";
+
+  /** @inheritdoc */
+  public decode(body: Uint8Array): unknown {
+    return decode(body);
+  }
+}
+
+/**
+ * Encodes arrays as newline delimited JSON (`application/x-ndjson`), one
+ * item per line.
+ */
+export class NdjsonEncoder implements HttpResponseEncoder {
+  public readonly mediaType: string = "application/x-ndjson";
+
+  /** @inheritdoc */
+  public canEncode(value: unknown): boolean {
+    return Array.isArray(value);
+  }
+
+  /** @inheritdoc */
+  public encode(value: unknown): string {
+    return (value as unknown[]).map((item) => `${JSON.stringify(item)}\n`)
+      .join("");
+  }
+}
+
+/**
+ * Decodes newline delimited JSON (`application/x-ndjson`) request bodies into
+ * an array, skipping blank lines.
+ */
+export class NdjsonDecoder implements HttpRequestDecoder {
+  public readonly mediaType: string = "application/x-ndjson";
+
+  /** @inheritdoc */
+  public decode(body: Uint8Array): unknown {
+    return new TextDecoder().decode(body).split(/\r?\n/)
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line));
+  }
+}
+
+/**
+ * Encodes arrays of records as `text/csv` (RFC 4180). The header row lists
+ * the keys of all records in order of appearance, nested values are written
+ * as JSON.
+ */
+export class CsvEncoder implements HttpResponseEncoder {
+  public readonly mediaType: string = "text/csv; charset=UTF-8";
+
+  /** @inheritdoc */
+  public canEncode(value: unknown): boolean {
+    return Array.isArray(value) &&
+      value.every((row) =>
+        typeof row === "object" && row !== null && !Array.isArray(row)
+      );
+  }
+
+  /** @inheritdoc */
+  public encode(value: unknown): string {
+    const rows = value as Record<string, unknown>[];
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+    return [columns, ...rows.map((row) => columns.map((key) => row[key]))]
+      .map((cells) => `${cells.map(formatCsvCell).join(",")}\r\n`)
+      .join("");
+  }
+}
+
+function formatCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  const text = typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
@@ -0,0 +1,95 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  CsvEncoder,
+  JsonDecoder,
+  JsonEncoder,
+  MsgpackDecoder,
+  MsgpackEncoder,
+  NdjsonDecoder,
+  NdjsonEncoder,
+  PlainTextEncoder,
+} from "./encoding.ts";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe(PlainTextEncoder.name, () => {
+  it("encodes primitives only", () => {
+    const encoder = new PlainTextEncoder();
+
+    assertEquals(encoder.canEncode("pong"), true);
+    assertEquals(encoder.canEncode(10n), true);
+    assertEquals(encoder.canEncode({}), false);
+    assertEquals(encoder.encode(42), "42");
+  });
+});
+
+describe(JsonEncoder.name, () => {
+  it("encodes JSON values", () => {
+    const encoder = new JsonEncoder();
+
+    assertEquals(encoder.canEncode({ id: 1 }), true);
+    assertEquals(encoder.canEncode(10n), false);
+    assertEquals(encoder.encode({ id: 1 }), '{"id":1}');
+  });
+});
+
+describe(JsonDecoder.name, () => {
+  it("decodes JSON bodies", () => {
+    assertEquals(new JsonDecoder().decode(bytes('{"id":1}')), { id: 1 });
+    assertThrows(() => new JsonDecoder().decode(bytes("{")), SyntaxError);
+  });
+});
+
+describe(MsgpackEncoder.name, () => {
+  it("round-trips values with the decoder", () => {
+    const value = { id: 1, tags: ["a", "b"], active: true };
+
+    assertEquals(
+      new MsgpackDecoder().decode(new MsgpackEncoder().encode(value)),
+      value,
+    );
+  });
+});
+
+describe(NdjsonEncoder.name, () => {
+  it("writes one array item per line", () => {
+    const encoder = new NdjsonEncoder();
+
+    assertEquals(encoder.canEncode({ id: 1 }), false);
+    assertEquals(
+      encoder.encode([{ id: 1 }, { id: 2 }]),
+      '{"id":1}\n{"id":2}\n',
+    );
+  });
+});
+
+describe(NdjsonDecoder.name, () => {
+  it("reads one item per line and skips blank lines", () => {
+    assertEquals(
+      new NdjsonDecoder().decode(bytes('{"id":1}\r\n\n{"id":2}')),
+      [{ id: 1 }, { id: 2 }],
+    );
+  });
+});
+
+describe(CsvEncoder.name, () => {
+  it("encodes arrays of records only", () => {
+    const encoder = new CsvEncoder();
+
+    assertEquals(encoder.canEncode([{ id: 1 }]), true);
+    assertEquals(encoder.canEncode([1, 2]), false);
+    assertEquals(encoder.canEncode({ id: 1 }), false);
+  });
+
+  it("writes the union of keys as header and quotes special characters", () => {
+    assertEquals(
+      new CsvEncoder().encode([
+        { id: 1, name: 'Ada "Countess" Lovelace' },
+        { id: 2, tags: ["a", "b"], name: null },
+        { id: 3, name: "one,\ntwo" },
+      ]),
+      'id,name,tags\r\n1,"Ada ""Countess"" Lovelace",\r\n2,,"[""a"",""b""]"\r\n3,"one,\ntwo",\r\n',
+    );
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * A file of a multipart request after it was handed to a {@link FileStorage}.
+ */
+export interface StoredFile {
+  /** The name of the form field the file was sent in. */
+  fieldName: string;
+  /** The file name reported by the client. */
+  originalName: string;
+  /** The media type reported by the client, `application/octet-stream` if absent. */
+  mimeType: string;
+  /** The size of the file in bytes. */
+  size: number;
+  /** Where the storage put the file, e.g. the temp file path or the object key. */
+  location?: string;
+  /** The file contents, set by {@link MemoryStorage}. */
+  buffer?: Uint8Array;
+}
+
+/**
+ * Strategy storing the files uploaded to routes decorated with
+ * `UploadedFile()` or `UploadedFiles()`.
+ *
+ * Implementations are either passed as an instance or as a class, which is
+ * resolved from the DI container within the request scope.
+ */
+export interface FileStorage {
+  /**
+   * Stores a single uploaded file.
+   *
+   * @param {string} fieldName - The name of the form field.
+   * @param {File} file - The uploaded file.
+   * @return {Promise<StoredFile>} The description of the stored file.
+   */
+  store(fieldName: string, file: File): Promise<StoredFile>;
+
+  /**
+   * Removes a stored file again. Called for the files stored so far when
+   * storing another file of the same request fails.
+   *
+   * @param {StoredFile} file - The stored file.
+   * @return {Promise<void>} Resolves once the file is removed.
+   */
+  remove?(file: StoredFile): Promise<void>;
+}
+
+function describeFile(fieldName: string, file: File, size = file.size) {
+  return {
+    fieldName,
+    originalName: file.name,
+    mimeType: file.type || "application/octet-stream",
+    size,
+  };
+}
+
+/**
+ * Keeps uploaded files in memory and exposes their contents as
+ * {@link StoredFile.buffer}. The default storage of uploads.
+ */
+export class MemoryStorage implements FileStorage {
+  /** @inheritdoc */
+  public async store(fieldName: string, file: File): Promise<StoredFile> {
+    const buffer = new Uint8Array(await file.arrayBuffer());
+
+    return { ...describeFile(fieldName, file, buffer.byteLength), buffer };
+  }
+}
+
+/** Options accepted by {@link TempFileStorage}. */
+export interface TempFileStorageOptions {
+  /**
+   * The directory the files are written to.
+   *
+   * @default The system's temp directory.
+   */
+  dir?: string;
+  /**
+   * The prefix of the generated file names.
+   *
+   * @default "upload-"
+   */
+  prefix?: string;
+}
+
+/**
+ * Streams uploaded files into temp files and exposes their path as
+ * {@link StoredFile.location}.
+ *
+ * The files are not deleted automatically; move or remove them once the
+ * request is handled.
+ */
+export class TempFileStorage implements FileStorage {
+  /**
+   * @param {TempFileStorageOptions} [options] - Where the files are written to.
+   */
+  public constructor(private readonly options: TempFileStorageOptions = {}) {}
+
+  /** @inheritdoc */
+  public async store(fieldName: string, file: File): Promise<StoredFile> {
+    const location = await Deno.makeTempFile({
+      dir: this.options.dir,
+      prefix: this.options.prefix ?? "upload-",
+    });
+
+    try {
+      await Deno.writeFile(location, file.stream());
+    } catch (err) {
+      await this.remove({ ...describeFile(fieldName, file), location });
+
+      throw err;
+    }
+
+    return { ...describeFile(fieldName, file), location };
+  }
+
+  /** @inheritdoc */
+  public async remove(file: StoredFile): Promise<void> {
+    if (!file.location) {
+      return;
+    }
+
+    try {
+      await Deno.remove(file.location);
+    } catch (err) {
+      if (!(err instanceof Deno.errors.NotFound)) {
+        throw err;
+      }
+    }
+  }
+}
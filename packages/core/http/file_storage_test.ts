@@ -0,0 +1,95 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  assertSpyCall,
+  assertSpyCalls,
+  returnsNext,
+  stub,
+} from "@std/testing/mock";
+import { MemoryStorage, TempFileStorage } from "./file_storage.ts";
+
+describe(MemoryStorage.name, () => {
+  it("keeps the file contents in memory", async () => {
+    const stored = await new MemoryStorage().store(
+      "doc",
+      new File(["hello"], "hello.txt"),
+    );
+
+    assertEquals(stored, {
+      fieldName: "doc",
+      originalName: "hello.txt",
+      mimeType: "application/octet-stream",
+      size: 5,
+      buffer: new TextEncoder().encode("hello"),
+    });
+  });
+});
+
+describe(TempFileStorage.name, () => {
+  it("writes the file into the given directory and removes it", async () => {
+    using makeTempFile = stub(
+      Deno,
+      "makeTempFile",
+      () => Promise.resolve("/uploads/test-1"),
+    );
+    let written: string | undefined;
+    using writeFile = stub(
+      Deno,
+      "writeFile",
+      async (_path, data) => {
+        written = await new Response(data as ReadableStream<Uint8Array>)
+          .text();
+      },
+    );
+    const storage = new TempFileStorage({ dir: "/uploads", prefix: "test-" });
+    const stored = await storage.store(
+      "doc",
+      new File(["hello"], "hello.txt", { type: "text/plain" }),
+    );
+
+    assertSpyCall(makeTempFile, 0, {
+      args: [{ dir: "/uploads", prefix: "test-" }],
+    });
+    assertEquals(writeFile.calls[0].args[0], "/uploads/test-1");
+    assertEquals(written, "hello");
+    assertEquals(stored.location, "/uploads/test-1");
+    assertEquals(stored.mimeType, "text/plain");
+    assertEquals(stored.size, 5);
+
+    using remove = stub(
+      Deno,
+      "remove",
+      returnsNext([Promise.resolve(), new Deno.errors.NotFound()]),
+    );
+
+    await storage.remove(stored);
+    await storage.remove(stored);
+    await storage.remove({ ...stored, location: undefined });
+
+    assertSpyCalls(remove, 2);
+    assertSpyCall(remove, 0, { args: ["/uploads/test-1"] });
+  });
+
+  it("removes the temp file when writing fails", async () => {
+    using _makeTempFile = stub(
+      Deno,
+      "makeTempFile",
+      () => Promise.resolve("/tmp/upload-1"),
+    );
+    using _writeFile = stub(
+      Deno,
+      "writeFile",
+      () => Promise.reject(new Error("aborted")),
+    );
+    using remove = stub(Deno, "remove", () => Promise.resolve());
+
+    await assertRejects(
+      () =>
+        new TempFileStorage().store("doc", new File(["hello"], "hello.txt")),
+      Error,
+      "aborted",
+    );
+    assertSpyCalls(remove, 1);
+    assertSpyCall(remove, 0, { args: ["/tmp/upload-1"] });
+  });
+});
@@ -25,11 +25,24 @@ export type { CorsOptions } from "./cors.ts";
 export * from "./controller.ts";
 export * from "./controller_mapping.ts";
 export * from "./controller_options.ts";
+export * from "./cookies.ts";
+export * from "./encoding.ts";
+export * from "./file_storage.ts";
 export * from "./http_code.ts";
 export * from "./method.ts";
 export * from "./request_context.ts";
 export * from "./request_mapping.ts";
+export * from "./serialization.ts";
+export * from "./sse.ts";
 export * from "./status.ts";
+export * from "./streaming.ts";
+export * from "./upload.ts";
 export * from "./validation.ts";
+export * from "./versioning.ts";
 
-export type { RequestMappingMetadata } from "./_request_mapping.ts";
+export type { HostMatcher } from "./_host_matcher.ts";
+export type { VersionMatcher } from "./_version_matcher.ts";
+export type {
+  RequestMappingMetadata,
+  RequestMappingParameterValidationMetadata,
+} from "./_request_mapping.ts";
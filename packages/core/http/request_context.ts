@@ -5,6 +5,15 @@ import type {
   PipeTransformFn,
 } from "../pipes/pipe_transform.ts";
 import { isFunction } from "../type_guards.ts";
+import {
+  type CookieOptions,
+  parseCookies,
+  serializeCookie,
+  signCookieValue,
+  unsignCookieValue,
+} from "./cookies.ts";
+import type { StoredFile } from "./file_storage.ts";
+import type { StatusCode } from "./status.ts";
 
 /**
  * Infers the TypeScript type from a Zod schema, or passes `T` through unchanged
@@ -21,13 +30,72 @@ export type InferIfZod<T> = T extends ZodType ? z.infer<T> : T;
  * are injected into route handlers by the framework. The optional `Dto` type
  * parameter describes the validated/parsed request body; when a Zod schema is
  * supplied the inferred type is used automatically via {@link InferIfZod}.
+ * `Query`, `Params` and `Headers` describe the results of the `Query()`,
+ * `Params()` and `Headers()` validation decorators the same way.
  *
  * @template Dto - The type or Zod schema describing the request body.
+ * @template Query - The type or Zod schema describing the query string.
+ * @template Params - The type or Zod schema describing the route path parameters.
+ * @template Headers - The type or Zod schema describing the request headers.
  */
-export abstract class RequestContext<Dto = unknown> {
+export abstract class RequestContext<
+  Dto = unknown,
+  Query = unknown,
+  Params = unknown,
+  Headers = unknown,
+> {
+  /**
+   * The query string validated by the route's `Query()` schema, or `undefined`
+   * when the route does not validate its query string.
+   */
+  public validatedQuery: InferIfZod<Query> | undefined;
+
+  /**
+   * The path parameters validated by the route's `Params()` schema, or
+   * `undefined` when the route does not validate its path parameters.
+   */
+  public validatedParams: InferIfZod<Params> | undefined;
+
+  /**
+   * The headers validated by the route's `Headers()` schema, or `undefined`
+   * when the route does not validate its headers.
+   */
+  public validatedHeaders: InferIfZod<Headers> | undefined;
+
+  /**
+   * The files stored by the route's `UploadedFile()` and `UploadedFiles()`
+   * decorators, in request order.
+   */
+  public files: StoredFile[] = [];
+
+  /**
+   * The groups exposing the fields of the route's `Serialize()` schema that
+   * declare `groups` in their metadata, e.g. set by a guard from the role of
+   * the user.
+   */
+  public serializationGroups: string[] = [];
+
+  private responseStatus?: StatusCode;
+  private readonly responseHeaders: [string, string][] = [];
+  private readonly responseCookies: {
+    name: string;
+    value: string;
+    options: CookieOptions;
+  }[] = [];
+
+  /**
+   * @param {string} contextId - The request scope identifier.
+   * @param {InferIfZod<Dto> | undefined} dto - The validated request body.
+   * @param {Record<string, string>} [hostParameters] - The parameters captured
+   *   by the controller's `host` pattern.
+   * @param {string[]} [cookieSecrets] - The secrets of signed cookies, the
+   *   first one signs new cookies.
+   */
   public constructor(
     public readonly contextId: string,
     public dto: InferIfZod<Dto> | undefined,
+    private readonly hostParameters: Record<string, string> = {},
+    private readonly cookieSecrets: string[] = [],
   ) {}
 
   /**
@@ -90,6 +158,46 @@ export abstract class RequestContext<Dto = unknown> {
     transformer: PipeTransform<T> | PipeTransformFn<T>,
   ): T;
 
+  /**
+   * Returns all parameters captured by the controller's `host` pattern, e.g.
+   * `{ tenant: "acme" }` for `":tenant.example.com"` and a request to
+   * `acme.example.com`.
+   *
+   * @return {Record<string, string>} All host parameters.
+   */
+  public hostParams(): Record<string, string> {
+    return { ...this.hostParameters };
+  }
+
+  /**
+   * Returns the raw string value of a single host parameter.
+   *
+   * @param {string} key - The parameter name as defined in the host pattern.
+   * @return {string | undefined} The parameter value, or `undefined` if absent.
+   */
+  public hostParam(key: string): string | undefined;
+  /**
+   * Returns the value of a single host parameter, transformed via a pipe.
+   *
+   * @param {string} key - The parameter name as defined in the host pattern.
+   * @param {PipeTransform<T> | PipeTransformFn<T>} transformer - Pipe used to convert the raw string value.
+   * @return {T} The transformed parameter value.
+   */
+  public hostParam<T>(
+    key: string,
+    transformer: PipeTransform<T> | PipeTransformFn<T>,
+  ): T;
+  public hostParam<T>(
+    key: string,
+    transformer?: PipeTransform<T> | PipeTransformFn<T>,
+  ): string | T | undefined {
+    const value = this.hostParameters[key];
+
+    return transformer
+      ? this.transform(value, transformer, { type: "host", data: key })
+      : value;
+  }
+
   /**
    * Returns all query string parameters as a key/value-array map.
    *
@@ -136,6 +244,159 @@ export abstract class RequestContext<Dto = unknown> {
     transformer: PipeTransform<T> | PipeTransformFn<T>,
   ): T;
 
+  /**
+   * Returns the first stored file uploaded in the given form field.
+   *
+   * @param {string} fieldName - The name of the form field.
+   * @return {StoredFile | undefined} The stored file, or `undefined` if absent.
+   */
+  public file(fieldName: string): StoredFile | undefined {
+    return this.files.find((file) => file.fieldName === fieldName);
+  }
+
+  /**
+   * Returns all request cookies as a key/value map.
+   *
+   * @return {Record<string, string>} All cookies sent with the request, signed cookies unverified.
+   */
+  public cookies(): Record<string, string> {
+    return parseCookies(this.header("cookie"));
+  }
+
+  /**
+   * Returns the value of a single request cookie.
+   *
+   * @param {string} name - The cookie name.
+   * @return {string | undefined} The cookie value, or `undefined` if absent.
+   */
+  public cookie(name: string): string | undefined {
+    return this.cookies()[name];
+  }
+
+  /**
+   * Returns the verified value of a signed request cookie.
+   *
+   * @param {string} name - The cookie name.
+   * @return {Promise<string | undefined>} The cookie value, or `undefined` if
+   *   absent or its signature is invalid.
+   * @throws {Error} if no cookie secret is configured.
+   */
+  public async signedCookie(name: string): Promise<string | undefined> {
+    const value = this.cookie(name);
+
+    if (value === undefined) {
+      return undefined;
+    }
+
+    return await unsignCookieValue(value, this.requireCookieSecrets());
+  }
+
+  /**
+   * Overrides the status code of the response, including the route's
+   * `HttpCode()`. Only applies when the handler does not return a `Response`.
+   *
+   * @param {StatusCode} statusCode - The response status code.
+   * @return {this} The context, for chaining.
+   */
+  public status(statusCode: StatusCode): this {
+    this.responseStatus = statusCode;
+    return this;
+  }
+
+  /**
+   * Adds a response header. Only applies when the handler does not return a
+   * `Response`.
+   *
+   * @param {string} name - The header name.
+   * @param {string} value - The header value.
+   * @return {this} The context, for chaining.
+   */
+  public setHeader(name: string, value: string): this {
+    this.responseHeaders.push([name, value]);
+    return this;
+  }
+
+  /**
+   * Adds a response cookie. Only applies when the handler does not return a
+   * `Response`.
+   *
+   * @param {string} name - The cookie name.
+   * @param {string} value - The cookie value.
+   * @param {CookieOptions} [options] - The cookie attributes.
+   * @return {this} The context, for chaining.
+   */
+  public setCookie(
+    name: string,
+    value: string,
+    options: CookieOptions = {},
+  ): this {
+    this.responseCookies.push({ name, value, options });
+    return this;
+  }
+
+  /**
+   * Expires a cookie on the client.
+   *
+   * @param {string} name - The cookie name.
+   * @param {CookieOptions} [options] - The `path` and `domain` the cookie was set with.
+   * @return {this} The context, for chaining.
+   */
+  public clearCookie(
+    name: string,
+    options: Pick<CookieOptions, "domain" | "path"> = {},
+  ): this {
+    return this.setCookie(name, "", {
+      ...options,
+      maxAge: 0,
+      expires: new Date(0),
+    });
+  }
+
+  /**
+   * Returns the status code set via {@link status}.
+   *
+   * @return {StatusCode | undefined} The status code, or `undefined` if not set.
+   */
+  public getResponseStatus(): StatusCode | undefined {
+    return this.responseStatus;
+  }
+
+  /**
+   * Returns the headers and cookies set via {@link setHeader} and
+   * {@link setCookie}, with one `Set-Cookie` header per cookie.
+   *
+   * @return {Promise<[string, string][]>} The response headers, in order.
+   * @throws {Error} if a signed cookie is set without a cookie secret.
+   */
+  public async getResponseHeaders(): Promise<[string, string][]> {
+    const headers = [...this.responseHeaders];
+
+    for (const { name, value, options } of this.responseCookies) {
+      headers.push([
+        "Set-Cookie",
+        serializeCookie(
+          name,
+          options.signed
+            ? await signCookieValue(value, this.requireCookieSecrets()[0])
+            : value,
+          options,
+        ),
+      ]);
+    }
+
+    return headers;
+  }
+
+  private requireCookieSecrets(): string[] {
+    if (this.cookieSecrets.length === 0) {
+      throw new Error(
+        "Signed cookies require a secret, see HttpApplicationOptions.cookieSecret",
+      );
+    }
+
+    return this.cookieSecrets;
+  }
+
   /**
    * Applies a pipe transformer to a raw string value.
    *
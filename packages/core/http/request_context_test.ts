@@ -1,15 +1,22 @@
+import { assertEquals, assertMatch, assertRejects } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
 import { assertSpyCall, spy } from "@std/testing/mock";
 import type {
   PipeTransform,
   PipeTransformFn,
 } from "../pipes/pipe_transform.ts";
+import { signCookieValue } from "./cookies.ts";
 import { RequestContext } from "./request_context.ts";
+import { StatusCode } from "./status.ts";
 
 describe("abstract RequestContext class", () => {
   class TestRequestContext extends RequestContext {
-    public constructor() {
-      super("", undefined);
+    public constructor(
+      hostParams?: Record<string, string>,
+      private readonly cookieHeader?: string,
+      cookieSecrets?: string[],
+    ) {
+      super("", undefined, hostParams, cookieSecrets);
     }
 
     public override get ip(): string {
@@ -24,8 +31,8 @@ describe("abstract RequestContext class", () => {
       throw new Error("Method not implemented");
     }
 
-    public override header(_key: string): string | undefined {
-      throw new Error("Method not implemented");
+    public override header(key: string): string | undefined {
+      return key === "cookie" ? this.cookieHeader : undefined;
     }
 
     public override params(): Record<string, string> {
@@ -99,4 +106,97 @@ describe("abstract RequestContext class", () => {
       assertSpyCall(transformer.transform, 0);
     });
   });
+
+  describe("hostParam", () => {
+    const ctx = new TestRequestContext({ tenant: "acme", id: "42" });
+
+    it("returns no host params by default", () => {
+      assertEquals(new TestRequestContext().hostParams(), {});
+    });
+
+    it("returns all host params as a copy", () => {
+      const params = ctx.hostParams();
+      params.tenant = "other";
+
+      assertEquals(ctx.hostParams(), { tenant: "acme", id: "42" });
+    });
+
+    it("returns the raw value of a single host param", () => {
+      assertEquals(ctx.hostParam("tenant"), "acme");
+      assertEquals(ctx.hostParam("missing"), undefined);
+    });
+
+    it("transforms the value with type host", () => {
+      const transformSpy = spy((value: string) => Number(value));
+
+      assertEquals(ctx.hostParam("id", transformSpy), 42);
+      assertSpyCall(transformSpy, 0, {
+        args: ["42", { type: "host", data: "id" }],
+      });
+    });
+  });
+
+  describe("cookies", () => {
+    it("parses the cookie header", () => {
+      const ctx = new TestRequestContext({}, "session=abc; theme=dark%20mode");
+
+      assertEquals(ctx.cookies(), { session: "abc", theme: "dark mode" });
+      assertEquals(ctx.cookie("theme"), "dark mode");
+      assertEquals(ctx.cookie("missing"), undefined);
+      assertEquals(new TestRequestContext().cookies(), {});
+    });
+
+    it("verifies signed cookies with every secret", async () => {
+      const signed = await signCookieValue("user-1", "old");
+      const ctx = new TestRequestContext(
+        {},
+        `session=${encodeURIComponent(signed)}; forged=user-2.AAAA`,
+        ["new", "old"],
+      );
+
+      assertEquals(await ctx.signedCookie("session"), "user-1");
+      assertEquals(await ctx.signedCookie("forged"), undefined);
+      assertEquals(await ctx.signedCookie("missing"), undefined);
+    });
+
+    it("rejects signed cookies without a secret", async () => {
+      const ctx = new TestRequestContext({}, "session=abc.def");
+
+      await assertRejects(() => ctx.signedCookie("session"), Error, "secret");
+    });
+  });
+
+  describe("response state", () => {
+    it("collects the status, headers and cookies", async () => {
+      const ctx = new TestRequestContext({}, undefined, ["secret"]);
+
+      assertEquals(ctx.getResponseStatus(), undefined);
+
+      ctx.status(StatusCode.Accepted)
+        .setHeader("X-Trace", "1")
+        .setCookie("theme", "dark mode", { httpOnly: true })
+        .setCookie("session", "user-1", { signed: true })
+        .clearCookie("legacy", { path: "/old" });
+
+      const headers = await ctx.getResponseHeaders();
+
+      assertEquals(ctx.getResponseStatus(), StatusCode.Accepted);
+      assertEquals(headers.length, 4);
+      assertEquals(headers[0], ["X-Trace", "1"]);
+      assertEquals(headers[1], [
+        "Set-Cookie",
+        "theme=dark%20mode; Path=/; HttpOnly",
+      ]);
+      assertMatch(headers[2][1], /^session=user-1\.[^;]+; Path=\/$/);
+      assertMatch(headers[3][1], /^legacy=; Path=\/old; Max-Age=0; Expires=/);
+    });
+
+    it("rejects signed response cookies without a secret", async () => {
+      const ctx = new TestRequestContext().setCookie("session", "user-1", {
+        signed: true,
+      });
+
+      await assertRejects(() => ctx.getResponseHeaders(), Error, "secret");
+    });
+  });
 });
@@ -0,0 +1,87 @@
+import type { MethodDecorator } from "@denorid/injector";
+import { createRequestMappingDecorator } from "./_request_mapping.ts";
+
+/**
+ * How {@linkcode Serialize} treats fields of the route result that the schema
+ * does not declare:
+ *
+ * - `"strip"` removes them from the response.
+ * - `"strict"` answers with `500 Internal Server Error` instead.
+ */
+export type SerializationMode = "strip" | "strict";
+
+/** Options accepted by {@linkcode Serialize}. */
+export interface SerializeOptions {
+  /**
+   * How undeclared fields are treated.
+   *
+   * @default "strip"
+   */
+  mode?: SerializationMode;
+  /**
+   * Groups exposed on every request of the route, in addition to
+   * {@linkcode RequestContext.serializationGroups}.
+   */
+  groups?: string[];
+}
+
+/**
+ * Validates the result of a route handler against a Zod schema before it is
+ * sent, so internal fields never leak into the response.
+ *
+ * Fields the schema does not declare are removed, or rejected in `strict`
+ * mode. A result violating the schema is answered with
+ * `500 Internal Server Error`, see {@linkcode ResponseSerializationException}.
+ * Fields declaring `groups` in their metadata are only sent when one of them
+ * is active for the request, see {@linkcode RequestContext.serializationGroups}.
+ * `Response` objects and streamed results are sent as they are.
+ *
+ * The schema also documents the response of the route in generated API
+ * specifications.
+ *
+ * @example
+ * ```ts
+ * const User = z.object({
+ *   id: z.number(),
+ *   name: z.string(),
+ *   email: z.string().meta({ groups: ["admin"] }),
+ * });
+ *
+ * \@Get("/:id")
+ * \@Serialize(User)
+ * show(ctx: RequestContext): Promise<UserEntity> {}
+ * ```
+ *
+ * @param {unknown} schema - The Zod schema describing the response body.
+ * @param {SerializeOptions} [options] - Serialization options.
+ * @return {MethodDecorator} A method decorator that registers the response schema for the route.
+ */
+export function Serialize(
+  schema: unknown,
+  options: SerializeOptions = {},
+): MethodDecorator {
+  return createRequestMappingDecorator({
+    name: "Serialize",
+    initializer: (entry): void => {
+      entry.serialization = {
+        schema,
+        mode: options.mode ?? "strip",
+        groups: options.groups,
+      };
+    },
+  });
+}
+
+/**
+ * Alias of {@linkcode Serialize}.
+ *
+ * @param {unknown} schema - The Zod schema describing the response body.
+ * @param {SerializeOptions} [options] - Serialization options.
+ * @return {MethodDecorator} A method decorator that registers the response schema for the route.
+ */
+export function ResponseSchema(
+  schema: unknown,
+  options?: SerializeOptions,
+): MethodDecorator {
+  return Serialize(schema, options);
+}
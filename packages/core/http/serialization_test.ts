@@ -0,0 +1,46 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { z } from "zod";
+import { CONTROLLER_REQUEST_MAPPING } from "../_constants.ts";
+import type { RequestMappingMetadata } from "./_request_mapping.ts";
+import { Get } from "./request_mapping.ts";
+import { ResponseSchema, Serialize } from "./serialization.ts";
+
+describe("@Serialize()", () => {
+  const schema = z.object({ id: z.number() });
+
+  it("should store the schema in strip mode by default", () => {
+    class ExampleClass {
+      @Get()
+      @Serialize(schema)
+      public something(): void {}
+    }
+
+    const metadata = ExampleClass[Symbol.metadata]
+      ?.[CONTROLLER_REQUEST_MAPPING] as RequestMappingMetadata[] | undefined;
+
+    assertExists(metadata);
+    assertEquals(metadata.at(0)?.serialization, {
+      schema,
+      mode: "strip",
+      groups: undefined,
+    });
+  });
+
+  it("should store the mode and groups, also via ResponseSchema()", () => {
+    class ExampleClass {
+      @ResponseSchema(schema, { mode: "strict", groups: ["admin"] })
+      public something(): void {}
+    }
+
+    const metadata = ExampleClass[Symbol.metadata]
+      ?.[CONTROLLER_REQUEST_MAPPING] as RequestMappingMetadata[] | undefined;
+
+    assertExists(metadata);
+    assertEquals(metadata.at(0)?.serialization, {
+      schema,
+      mode: "strict",
+      groups: ["admin"],
+    });
+  });
+});
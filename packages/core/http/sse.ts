@@ -0,0 +1,72 @@
+import type { MethodDecorator } from "@denorid/injector";
+import { createRequestMappingDecorator } from "./_request_mapping.ts";
+import { HttpMethod } from "./method.ts";
+
+/** Default interval between keep-alive comments of an event stream. */
+export const DEFAULT_SSE_KEEP_ALIVE = 15_000;
+
+/**
+ * A single Server-Sent Event. Handlers decorated with {@link Sse} yield either
+ * these objects or plain values, which are sent as the `data` field.
+ */
+export interface SseMessage {
+  /** The event payload; non-string values are serialized as JSON. */
+  data: unknown;
+  /** The event type, dispatched as a named event on the client. */
+  event?: string;
+  /** The event ID, sent back by reconnecting clients as `Last-Event-ID`. */
+  id?: string;
+  /** The reconnection time in milliseconds. */
+  retry?: number;
+}
+
+/** Options accepted by {@link Sse}. */
+export interface SseOptions {
+  /**
+   * Interval in milliseconds between keep-alive comments, which prevent
+   * proxies from closing idle connections. `false` disables them.
+   *
+   * @default 15000
+   */
+  keepAlive?: number | false;
+}
+
+/**
+ * Route handler (method) decorator. Routes HTTP GET requests to the specified
+ * path and streams the values of the returned `AsyncIterable` (e.g. an async
+ * generator) as `text/event-stream`.
+ *
+ * The iteration is aborted when the client disconnects.
+ *
+ * @example
+ * ```ts
+ * @Controller("/orders")
+ * class OrdersController {
+ *   @Sse("/events")
+ *   async *events(): AsyncGenerator<SseMessage> {
+ *     for await (const order of this.orders.watch()) {
+ *       yield { event: "order", id: String(order.id), data: order };
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * @param {string | string[]} [path="/"] - The route path(s).
+ * @param {SseOptions} [options] - Event stream options.
+ * @return {MethodDecorator} The method decorator.
+ */
+export function Sse(
+  path: string | string[] = "/",
+  options: SseOptions = {},
+): MethodDecorator {
+  return createRequestMappingDecorator({
+    name: "Sse",
+    initializer: (entry): void => {
+      entry.method = HttpMethod.GET;
+      entry.path = path;
+      entry.sse = {
+        keepAlive: options.keepAlive ?? DEFAULT_SSE_KEEP_ALIVE,
+      };
+    },
+  });
+}
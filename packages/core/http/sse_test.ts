@@ -0,0 +1,36 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { CONTROLLER_REQUEST_MAPPING } from "../_constants.ts";
+import type { RequestMappingMetadata } from "./_request_mapping.ts";
+import { HttpMethod } from "./method.ts";
+import { DEFAULT_SSE_KEEP_ALIVE, Sse } from "./sse.ts";
+
+describe("@Sse()", () => {
+  it("should register a GET route with the default keep-alive interval", () => {
+    class ExampleClass {
+      @Sse()
+      public async *events(): AsyncGenerator<string> {}
+    }
+
+    const metadata = ExampleClass[Symbol.metadata]
+      ?.[CONTROLLER_REQUEST_MAPPING] as RequestMappingMetadata[] | undefined;
+
+    assertExists(metadata);
+    assertEquals(metadata.at(0)?.method, HttpMethod.GET);
+    assertEquals(metadata.at(0)?.path, "/");
+    assertEquals(metadata.at(0)?.sse, { keepAlive: DEFAULT_SSE_KEEP_ALIVE });
+  });
+
+  it("should apply the given path and options", () => {
+    class ExampleClass {
+      @Sse("/events", { keepAlive: false })
+      public async *events(): AsyncGenerator<string> {}
+    }
+
+    const metadata = ExampleClass[Symbol.metadata]
+      ?.[CONTROLLER_REQUEST_MAPPING] as RequestMappingMetadata[] | undefined;
+
+    assertEquals(metadata?.at(0)?.path, "/events");
+    assertEquals(metadata?.at(0)?.sse, { keepAlive: false });
+  });
+});
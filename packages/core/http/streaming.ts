@@ -0,0 +1,139 @@
+import type { SseMessage } from "./sse.ts";
+
+/** Options accepted by {@link createStreamBody}. */
+export interface StreamBodyOptions {
+  /**
+   * Formats the values as Server-Sent Events. `keepAlive` is the interval in
+   * milliseconds between keep-alive comments, `false` disables them.
+   */
+  sse?: { keepAlive: number | false };
+  /**
+   * Called once when the stream ends, fails or is cancelled by the client,
+   * e.g. to release the request scope.
+   */
+  onClose?: () => void;
+  /** Called with the error when iterating the source fails. */
+  onError?: (error: unknown) => void;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Serializes a value yielded by an event stream handler. Objects with a
+ * `data` property are treated as {@link SseMessage}, any other value is sent
+ * as the data of an unnamed event.
+ *
+ * @param {unknown} value - The yielded value.
+ * @return {string} The event in `text/event-stream` format.
+ */
+export function formatSseMessage(value: unknown): string {
+  const message: SseMessage =
+    typeof value === "object" && value !== null && "data" in value
+      ? value as SseMessage
+      : { data: value };
+  const data = typeof message.data === "string"
+    ? message.data
+    : JSON.stringify(message.data);
+  let event = "";
+
+  if (message.event !== undefined) {
+    event += `event: ${message.event}\n`;
+  }
+  if (message.id !== undefined) {
+    event += `id: ${message.id}\n`;
+  }
+  if (message.retry !== undefined) {
+    event += `retry: ${message.retry}\n`;
+  }
+
+  for (const line of (data ?? "").split(/\r\n|\r|\n/)) {
+    event += `data: ${line}\n`;
+  }
+
+  return `${event}\n`;
+}
+
+function encodeChunk(value: unknown): Uint8Array {
+  if (value instanceof Uint8Array) {
+    return value;
+  }
+
+  return encoder.encode(
+    typeof value === "string" ? value : `${JSON.stringify(value)}\n`,
+  );
+}
+
+/**
+ * Creates a response body streaming the values of `source`.
+ *
+ * Without `sse`, bytes and strings are written as is and any other value as a
+ * line of JSON. With `sse`, every value is written as an event, see
+ * {@link formatSseMessage}. Cancelling the body, e.g. because the client
+ * disconnected, aborts the iteration of `source`.
+ *
+ * @param {AsyncIterable<unknown>} source - The values to stream, e.g. an async
+ *   generator or a `ReadableStream`.
+ * @param {StreamBodyOptions} [options] - Stream options.
+ * @return {ReadableStream<Uint8Array>} The response body.
+ */
+export function createStreamBody(
+  source: AsyncIterable<unknown>,
+  options: StreamBodyOptions = {},
+): ReadableStream<Uint8Array> {
+  const iterator = source[Symbol.asyncIterator]();
+  let keepAliveTimer: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const close = (): void => {
+    if (closed) {
+      return;
+    }
+
+    closed = true;
+    clearInterval(keepAliveTimer);
+    options.onClose?.();
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller): void {
+      if (options.sse && options.sse.keepAlive !== false) {
+        keepAliveTimer = setInterval(
+          () => controller.enqueue(encoder.encode(": keep-alive\n\n")),
+          options.sse.keepAlive,
+        );
+      }
+    },
+    async pull(controller): Promise<void> {
+      try {
+        const { value, done } = await iterator.next();
+
+        if (closed) {
+          return;
+        }
+        if (done) {
+          close();
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(
+          options.sse
+            ? encoder.encode(formatSseMessage(value))
+            : encodeChunk(value),
+        );
+      } catch (err) {
+        if (closed) {
+          return;
+        }
+
+        close();
+        options.onError?.(err);
+        controller.error(err);
+      }
+    },
+    async cancel(): Promise<void> {
+      close();
+      await iterator.return?.();
+    },
+  });
+}
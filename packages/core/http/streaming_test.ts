@@ -0,0 +1,122 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCalls, spy } from "@std/testing/mock";
+import { FakeTime } from "@std/testing/time";
+import { createStreamBody, formatSseMessage } from "./streaming.ts";
+
+async function* values<T>(...items: T[]): AsyncGenerator<T> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+describe(formatSseMessage.name, () => {
+  it("sends plain values as data of an unnamed event", () => {
+    assertEquals(formatSseMessage("hello"), "data: hello\n\n");
+    assertEquals(formatSseMessage({ id: 1 }), 'data: {"id":1}\n\n');
+  });
+
+  it("writes all fields of a message", () => {
+    assertEquals(
+      formatSseMessage({ event: "order", id: "7", retry: 1000, data: "a" }),
+      "event: order\nid: 7\nretry: 1000\ndata: a\n\n",
+    );
+  });
+
+  it("splits multi-line data into multiple data fields", () => {
+    assertEquals(
+      formatSseMessage({ data: "line 1\nline 2" }),
+      "data: line 1\ndata: line 2\n\n",
+    );
+  });
+});
+
+describe(createStreamBody.name, () => {
+  it("writes strings and bytes as is and other values as JSON lines", async () => {
+    const onClose = spy(() => {});
+    const body = createStreamBody(
+      values<unknown>("a", new TextEncoder().encode("b"), { c: 1 }),
+      { onClose },
+    );
+
+    assertEquals(await new Response(body).text(), 'ab{"c":1}\n');
+    assertSpyCalls(onClose, 1);
+  });
+
+  it("writes every value as an event in SSE mode", async () => {
+    const body = createStreamBody(
+      values<unknown>("a", { data: 1, event: "n" }),
+      {
+        sse: { keepAlive: false },
+      },
+    );
+
+    assertEquals(
+      await new Response(body).text(),
+      "data: a\n\nevent: n\ndata: 1\n\n",
+    );
+  });
+
+  it("aborts the source when the body is cancelled", async () => {
+    let finalized = false;
+    const onClose = spy(() => {});
+
+    async function* infinite(): AsyncGenerator<number> {
+      try {
+        for (let i = 0;; i++) {
+          yield i;
+        }
+      } finally {
+        finalized = true;
+      }
+    }
+
+    const reader = createStreamBody(infinite(), { onClose }).getReader();
+
+    await reader.read();
+    await reader.cancel();
+
+    assertEquals(finalized, true);
+    assertSpyCalls(onClose, 1);
+  });
+
+  it("errors the body and reports failures of the source", async () => {
+    const onClose = spy(() => {});
+    const onError = spy((_err: unknown) => {});
+
+    async function* failing(): AsyncGenerator<string> {
+      yield "a";
+      throw new Error("boom");
+    }
+
+    const body = createStreamBody(failing(), { onClose, onError });
+
+    await assertRejects(() => new Response(body).text(), Error, "boom");
+    assertSpyCalls(onError, 1);
+    assertSpyCalls(onClose, 1);
+  });
+
+  it("sends keep-alive comments while waiting for events", async () => {
+    using time = new FakeTime();
+    const { promise, resolve } = Promise.withResolvers<void>();
+
+    async function* delayed(): AsyncGenerator<string> {
+      await promise;
+      yield "done";
+    }
+
+    const reader = createStreamBody(delayed(), { sse: { keepAlive: 1000 } })
+      .getReader();
+    const decoder = new TextDecoder();
+
+    const first = reader.read();
+    await time.tickAsync(1000);
+
+    assertEquals(decoder.decode((await first).value), ": keep-alive\n\n");
+
+    resolve();
+
+    assertEquals(decoder.decode((await reader.read()).value), "data: done\n\n");
+    assertEquals((await reader.read()).done, true);
+  });
+});
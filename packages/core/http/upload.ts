@@ -0,0 +1,143 @@
+import type { MethodDecorator, Type } from "@denorid/injector";
+import { createRequestMappingDecorator } from "./_request_mapping.ts";
+import type { FileStorage } from "./file_storage.ts";
+
+/** Limits of the files accepted by `UploadedFile()` and `UploadedFiles()`. */
+export interface UploadLimits {
+  /** The maximum size of a single file in bytes. */
+  fileSize?: number;
+  /**
+   * The maximum number of files.
+   *
+   * @default 1 for `UploadedFile()`, unlimited for `UploadedFiles()`
+   */
+  files?: number;
+}
+
+/** Options shared by `UploadedFile()` and `UploadedFiles()`. */
+export interface UploadOptions {
+  /**
+   * Limits raising a `ContentTooLargeException` when exceeded.
+   */
+  limits?: UploadLimits;
+  /**
+   * The accepted media types, either exact (`image/png`) or a wildcard
+   * (`image/*`). Other files raise an `UnsupportedMediaTypeException`.
+   */
+  mimeTypes?: string[];
+  /**
+   * Where the files are stored, a class is resolved from the DI container.
+   *
+   * @default MemoryStorage
+   */
+  storage?: FileStorage | Type<FileStorage>;
+}
+
+/** Options accepted by {@link UploadedFile}. */
+export interface UploadedFileOptions extends UploadOptions {
+  /**
+   * Whether requests without the file are rejected with a
+   * `BadRequestException`.
+   *
+   * @default true
+   */
+  required?: boolean;
+}
+
+/** Options accepted by {@link UploadedFiles}. */
+export interface UploadedFilesOptions extends UploadOptions {
+  /**
+   * The form field the files are sent in. Without a field, the files of
+   * every field not claimed by an `UploadedFile()` or another
+   * `UploadedFiles()` decorator are accepted.
+   */
+  field?: string;
+  /**
+   * Whether requests without any file are rejected with a
+   * `BadRequestException`.
+   *
+   * @default false
+   */
+  required?: boolean;
+}
+
+/**
+ * Decorator accepting a single file upload in the given field of a
+ * `multipart/form-data` request.
+ *
+ * The stored file is exposed via {@linkcode RequestContext.file}. Files in
+ * fields without an upload decorator are rejected, see {@link UploadedFiles}.
+ *
+ * @example
+ * ```ts
+ * @Post("/avatar")
+ * @UploadedFile("avatar", {
+ *   limits: { fileSize: 1024 * 1024 },
+ *   mimeTypes: ["image/*"],
+ * })
+ * upload(ctx: RequestContext): void {
+ *   const avatar = ctx.file("avatar")!;
+ * }
+ * ```
+ *
+ * @param {string} field - The form field the file is sent in.
+ * @param {UploadedFileOptions} [options] - Limits and storage of the file.
+ * @return {MethodDecorator} A method decorator that registers the upload for the route.
+ */
+export function UploadedFile(
+  field: string,
+  options: UploadedFileOptions = {},
+): MethodDecorator {
+  const { required = true, ...upload } = options;
+
+  return createUploadDecorator(UploadedFile.name, {
+    field,
+    required,
+    options: { ...upload, limits: { files: 1, ...upload.limits } },
+  });
+}
+
+/**
+ * Decorator accepting multiple file uploads of a `multipart/form-data`
+ * request, either of a single field or of any field.
+ *
+ * The stored files are exposed via {@linkcode RequestContext.files}.
+ *
+ * @example
+ * ```ts
+ * @Post("/attachments")
+ * @UploadedFiles({ field: "attachments", limits: { files: 10 } })
+ * upload(ctx: RequestContext): number {
+ *   return ctx.files.length;
+ * }
+ * ```
+ *
+ * @param {UploadedFilesOptions} [options] - The field, limits and storage of the files.
+ * @return {MethodDecorator} A method decorator that registers the upload for the route.
+ */
+export function UploadedFiles(
+  options: UploadedFilesOptions = {},
+): MethodDecorator {
+  const { field, required = false, ...upload } = options;
+
+  return createUploadDecorator(UploadedFiles.name, {
+    field,
+    required,
+    options: upload,
+  });
+}
+
+function createUploadDecorator(
+  name: string,
+  upload: { field?: string; required: boolean; options: UploadOptions },
+): MethodDecorator {
+  return createRequestMappingDecorator({
+    name,
+    initializer: (entry): void => {
+      entry.uploads = [
+        ...(entry.uploads ?? []).filter(({ field }) => field !== upload.field),
+        upload,
+      ];
+    },
+  });
+}
@@ -0,0 +1,94 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { CONTROLLER_REQUEST_MAPPING } from "../_constants.ts";
+import type { RequestMappingMetadata } from "./_request_mapping.ts";
+import { TempFileStorage } from "./file_storage.ts";
+import { UploadedFile, UploadedFiles } from "./upload.ts";
+
+const getUploads = (target: object) =>
+  ((target as { [Symbol.metadata]: Record<symbol | string, unknown> })[
+    Symbol.metadata
+  ]?.[CONTROLLER_REQUEST_MAPPING] as RequestMappingMetadata[] | undefined)
+    ?.at(0)?.uploads;
+
+describe(UploadedFile.name, () => {
+  it("throws when decorating a static method", () => {
+    assertThrows(() => {
+      class _ {
+        @UploadedFile("avatar")
+        public static stub(): void {}
+      }
+    }, Error);
+  });
+
+  it("registers a required single file upload", () => {
+    const storage = new TempFileStorage();
+
+    class ExampleController {
+      @UploadedFile("avatar", {
+        storage,
+        limits: { fileSize: 1024 },
+        mimeTypes: ["image/*"],
+      })
+      public handler(): void {}
+    }
+
+    assertEquals(getUploads(ExampleController), [{
+      field: "avatar",
+      required: true,
+      options: {
+        storage,
+        limits: { files: 1, fileSize: 1024 },
+        mimeTypes: ["image/*"],
+      },
+    }]);
+  });
+
+  it("combines uploads of different fields and replaces the same field", () => {
+    class ExampleController {
+      @UploadedFile("avatar", { required: false })
+      @UploadedFile("avatar")
+      @UploadedFile("cover")
+      public handler(): void {}
+    }
+
+    assertEquals(
+      getUploads(ExampleController)?.map(({ field, required }) => ({
+        field,
+        required,
+      })),
+      [
+        { field: "cover", required: true },
+        { field: "avatar", required: false },
+      ],
+    );
+  });
+});
+
+describe(UploadedFiles.name, () => {
+  it("registers an optional upload of any field", () => {
+    class ExampleController {
+      @UploadedFiles({ limits: { files: 5 } })
+      public handler(): void {}
+    }
+
+    assertEquals(getUploads(ExampleController), [{
+      field: undefined,
+      required: false,
+      options: { limits: { files: 5 } },
+    }]);
+  });
+
+  it("registers an upload of a single field", () => {
+    class ExampleController {
+      @UploadedFiles({ field: "attachments", required: true })
+      public handler(): void {}
+    }
+
+    assertEquals(getUploads(ExampleController), [{
+      field: "attachments",
+      required: true,
+      options: {},
+    }]);
+  });
+});
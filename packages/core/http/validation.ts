@@ -1,6 +1,7 @@
 import type { MethodDecorator } from "@denorid/injector";
 import {
   createRequestMappingDecorator,
+  type RequestMappingParameterValidationMetadata,
   type RequestMappingValidationMetadata,
 } from "./_request_mapping.ts";
 
@@ -19,6 +20,25 @@ function createRequestValidationDecorator(
   };
 }
 
+function createParameterValidationDecorator(
+  name: string,
+  type: RequestMappingParameterValidationMetadata["type"],
+): RequestValidationDecoratorFactory {
+  return (dto: unknown): MethodDecorator => {
+    return createRequestMappingDecorator({
+      name,
+      initializer: (entry): void => {
+        entry.parameterValidation = [
+          ...(entry.parameterValidation ?? []).filter((validation) =>
+            validation.type !== type
+          ),
+          { type, dto },
+        ];
+      },
+    });
+  };
+}
+
 /**
  * Decorator that parses and validates the request body as JSON, binding it to
  * the route handler's DTO parameter.
@@ -38,3 +58,38 @@ export const Body: RequestValidationDecoratorFactory =
  */
 export const Form: RequestValidationDecoratorFactory =
   createRequestValidationDecorator("form");
+
+/**
+ * Decorator that validates and coerces the query string, exposing the result
+ * as {@linkcode RequestContext.validatedQuery}.
+ *
+ * Keys occurring once are passed to the schema as a string, repeated keys as
+ * an array of strings.
+ *
+ * @param {unknown} dto - The Zod schema used to validate the query parameters.
+ * @return {MethodDecorator} A method decorator that registers query validation for the route.
+ */
+export const Query: RequestValidationDecoratorFactory =
+  createParameterValidationDecorator("Query", "query");
+
+/**
+ * Decorator that validates and coerces the route path parameters, exposing the
+ * result as {@linkcode RequestContext.validatedParams}.
+ *
+ * @param {unknown} dto - The Zod schema used to validate the path parameters.
+ * @return {MethodDecorator} A method decorator that registers path parameter validation for the route.
+ */
+export const Params: RequestValidationDecoratorFactory =
+  createParameterValidationDecorator("Params", "param");
+
+/**
+ * Decorator that validates and coerces the request headers, exposing the
+ * result as {@linkcode RequestContext.validatedHeaders}.
+ *
+ * Header names are passed to the schema in lower case.
+ *
+ * @param {unknown} dto - The Zod schema used to validate the request headers.
+ * @return {MethodDecorator} A method decorator that registers header validation for the route.
+ */
+export const Headers: RequestValidationDecoratorFactory =
+  createParameterValidationDecorator("Headers", "header");
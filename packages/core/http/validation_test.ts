@@ -2,7 +2,7 @@ import { assertEquals, assertExists, assertThrows } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
 import { CONTROLLER_REQUEST_MAPPING } from "../_constants.ts";
 import type { RequestMappingMetadata } from "./_request_mapping.ts";
-import { Body, Form } from "./validation.ts";
+import { Body, Form, Headers, Params, Query } from "./validation.ts";
 
 const getMetadata = (
   target: object,
@@ -112,3 +112,76 @@ describe("HTTP: Form decorator", () => {
     assertEquals(metadata.at(0)?.name, "myHandler");
   });
 });
+
+describe("HTTP: parameter validation decorators", () => {
+  for (
+    const [name, decorator, type] of [
+      ["Query", Query, "query"],
+      ["Params", Params, "param"],
+      ["Headers", Headers, "header"],
+    ] as const
+  ) {
+    describe(name, () => {
+      it("should throw when decorating a static method", () => {
+        assertThrows(() => {
+          class _ {
+            @decorator({})
+            public static stub(): void {}
+          }
+        }, Error);
+      });
+
+      it(`should register a '${type}' parameter validation`, () => {
+        const dto = { parse: () => {} };
+
+        class ExampleController {
+          @decorator(dto)
+          public handler(): void {}
+        }
+
+        const metadata = getMetadata(ExampleController);
+        assertExists(metadata);
+        assertEquals(metadata.at(0)?.parameterValidation, [{ type, dto }]);
+        assertEquals(metadata.at(0)?.validation, undefined);
+      });
+    });
+  }
+
+  it("should keep body and parameter validations side by side", () => {
+    const body = {};
+    const query = {};
+    const params = {};
+
+    class ExampleController {
+      @Body(body)
+      @Query(query)
+      @Params(params)
+      public handler(): void {}
+    }
+
+    const metadata = getMetadata(ExampleController);
+    assertExists(metadata);
+    assertEquals(metadata.at(0)?.validation, { type: "json", dto: body });
+    assertEquals(metadata.at(0)?.parameterValidation, [
+      { type: "param", dto: params },
+      { type: "query", dto: query },
+    ]);
+  });
+
+  it("should replace a previous schema for the same target", () => {
+    const first = {};
+    const second = {};
+
+    class ExampleController {
+      @Query(second)
+      @Query(first)
+      public handler(): void {}
+    }
+
+    const metadata = getMetadata(ExampleController);
+    assertExists(metadata);
+    assertEquals(metadata.at(0)?.parameterValidation, [
+      { type: "query", dto: second },
+    ]);
+  });
+});
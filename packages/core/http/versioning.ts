@@ -0,0 +1,123 @@
+import type { MethodDecorator } from "@denorid/injector";
+import { createRequestMappingDecorator } from "./_request_mapping.ts";
+import type { RequestContext } from "./request_context.ts";
+
+/**
+ * Version of controllers and routes available regardless of the requested
+ * version.
+ */
+export const VERSION_NEUTRAL: unique symbol = Symbol.for(
+  "denorid.version_neutral",
+);
+
+/**
+ * The version(s) of a controller or route. A route with multiple versions
+ * serves each of them.
+ */
+export type VersionValue =
+  | string
+  | typeof VERSION_NEUTRAL
+  | Array<string | typeof VERSION_NEUTRAL>;
+
+/**
+ * Extracts the requested version(s) of a request.
+ *
+ * @param {RequestContext} ctx - The context of the in-flight request.
+ * @return {string | string[] | undefined} The requested version(s), the first
+ *   one served by a route wins.
+ */
+export type VersionExtractor = (
+  ctx: RequestContext,
+) => string | string[] | undefined;
+
+interface BaseVersioningOptions {
+  /**
+   * Version of the controllers and routes without an explicit version.
+   *
+   * @default undefined
+   */
+  defaultVersion?: VersionValue;
+}
+
+/**
+ * Selects the version by a path segment, e.g. `/v1/users`.
+ */
+export interface UriVersioningOptions extends BaseVersioningOptions {
+  type: "uri";
+  /**
+   * Prefix of the version segment, `false` to use the bare version.
+   *
+   * @default "v"
+   */
+  prefix?: string | false;
+}
+
+/**
+ * Selects the version by a request header, e.g. `X-API-Version: 1`.
+ */
+export interface HeaderVersioningOptions extends BaseVersioningOptions {
+  type: "header";
+  /**
+   * Name of the request header carrying the version.
+   */
+  header: string;
+}
+
+/**
+ * Selects the version by a parameter of the `Accept` header, e.g.
+ * `Accept: application/json;v=1`.
+ */
+export interface MediaTypeVersioningOptions extends BaseVersioningOptions {
+  type: "media-type";
+  /**
+   * The media type parameter carrying the version, including the separator.
+   *
+   * @default "v="
+   */
+  key?: string;
+}
+
+/**
+ * Selects the version by a custom {@link VersionExtractor}.
+ */
+export interface CustomVersioningOptions extends BaseVersioningOptions {
+  type: "custom";
+  /**
+   * Extracts the requested version(s) of a request.
+   */
+  extractor: VersionExtractor;
+}
+
+/**
+ * Versioning strategy of an HTTP application.
+ */
+export type VersioningOptions =
+  | UriVersioningOptions
+  | HeaderVersioningOptions
+  | MediaTypeVersioningOptions
+  | CustomVersioningOptions;
+
+/**
+ * Overrides the version of the controller for a single route handler.
+ *
+ * @example
+ * ```ts
+ * \@Controller({ path: "/users", version: "1" })
+ * class UsersController {
+ *   \@Get()
+ *   \@Version(["2", VERSION_NEUTRAL])
+ *   list(ctx: RequestContext): User[] {}
+ * }
+ * ```
+ *
+ * @param {VersionValue} version - The version(s) served by the route.
+ * @return {MethodDecorator} A method decorator that sets the route version.
+ */
+export function Version(version: VersionValue): MethodDecorator {
+  return createRequestMappingDecorator({
+    name: "Version",
+    initializer: (entry): void => {
+      entry.version = version;
+    },
+  });
+}
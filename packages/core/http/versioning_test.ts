@@ -0,0 +1,26 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { CONTROLLER_REQUEST_MAPPING } from "../_constants.ts";
+import type { RequestMappingMetadata } from "./_request_mapping.ts";
+import { Get } from "./request_mapping.ts";
+import { Version, VERSION_NEUTRAL } from "./versioning.ts";
+
+describe("@Version()", () => {
+  it("should add the version property to the route entry", () => {
+    class ExampleClass {
+      @Get("/")
+      public list(): void {}
+
+      @Get("/:id")
+      @Version(["2", VERSION_NEUTRAL])
+      public show(): void {}
+    }
+
+    const metadata = ExampleClass[Symbol.metadata]
+      ?.[CONTROLLER_REQUEST_MAPPING] as RequestMappingMetadata[] | undefined;
+
+    assertExists(metadata);
+    assertEquals(metadata.at(0)?.version, undefined);
+    assertEquals(metadata.at(1)?.version, ["2", VERSION_NEUTRAL]);
+  });
+});
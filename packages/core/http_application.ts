@@ -6,22 +6,47 @@ import type {
   HttpApplicationContext,
 } from "./application_context.ts";
 import { ExceptionHandler } from "./exceptions/handler.ts";
+import type { ConsoleCommandRunnerOptions } from "./cli/command_runner.ts";
 import type { CanActivate, CanActivateFn } from "./guards/can_activate.ts";
-import type { HttpAdapter } from "./http/adapter.ts";
+import type {
+  HttpAdapter,
+  ListenAddress,
+  ListenOptions,
+} from "./http/adapter.ts";
 import type { ControllerMapping } from "./http/controller_mapping.ts";
 import type { CorsOptions } from "./http/cors.ts";
+import type {
+  HttpRequestDecoder,
+  HttpResponseEncoder,
+} from "./http/encoding.ts";
+import type { VersioningOptions } from "./http/versioning.ts";
+import type { Interceptor, InterceptorFn } from "./interceptors/interceptor.ts";
 import type { MicroserviceServer } from "./microservices/server.ts";
+import {
+  type MiddlewareConfiguration,
+  MiddlewareConsumer,
+} from "./middleware/consumer.ts";
+import { isMiddlewareModule } from "./middleware/middleware.ts";
+import type { GatewayMapping } from "./websockets/gateway_mapping.ts";
 
 /**
  * Core HTTP-specific configuration options for an HTTP application.
  */
 export interface HttpCoreApplicationOptions {
   /**
-   * Port number for the HTTP server to listen on.
+   * Port number for the HTTP server to listen on, shorthand for
+   * `listen.port`.
    *
    * @default 3000
    */
   port?: number;
+  /**
+   * Where and how the HTTP server listens: hostname, port, TLS certificate,
+   * Unix domain socket, see {@link ListenOptions}.
+   *
+   * @default {}
+   */
+  listen?: ListenOptions;
 
   /**
    * Base path prefix applied to all registered routes.
@@ -39,6 +64,47 @@ export interface HttpCoreApplicationOptions {
    * @default false
    */
   cors?: boolean | CorsOptions;
+  /**
+   * Versioning strategy of the controllers and routes, see
+   * {@link VersioningOptions}. Can also be set via `enableVersioning()`.
+   *
+   * @default undefined
+   */
+  versioning?: VersioningOptions;
+  /**
+   * Secret used to sign and verify signed cookies. Pass multiple secrets to
+   * rotate them: the first one signs new cookies, all of them verify.
+   *
+   * @default undefined
+   */
+  cookieSecret?: string | string[];
+  /**
+   * Encoders of route results, selected by the `Accept` header of the
+   * request. Plain text and JSON are built in, an encoder of the same media
+   * type replaces the built-in one. Requests accepting none of them are
+   * answered with `406 Not Acceptable`.
+   *
+   * @default []
+   */
+  encoders?: HttpResponseEncoder[];
+  /**
+   * Decoders of `Body()` request bodies, selected by the `Content-Type`
+   * header of the request. JSON is built in and used for bodies without a
+   * `Content-Type`. Other media types are answered with
+   * `415 Unsupported Media Type`.
+   *
+   * @default []
+   */
+  decoders?: HttpRequestDecoder[];
+  /**
+   * Renders HTTP exceptions as RFC 9457 Problem Details
+   * (`application/problem+json`) with `type`, `title`, `status`, `detail`
+   * and `instance` members instead of the `{ statusCode, message, error }`
+   * body, see `HttpException.toProblemDetails()`.
+   *
+   * @default false
+   */
+  problemDetails?: boolean;
 }
 
 /**
@@ -69,9 +135,13 @@ export class HttpApplication extends Application<InternalHttpApplicationOptions>
   private readonly options: HttpCoreApplicationOptions;
   private readonly adapter: HttpAdapter;
   private controller?: ControllerMapping;
-  private listening?: "pending" | "active";
+  private gateways?: GatewayMapping;
+  private listening?: Promise<ListenAddress>;
+  private listenOptions?: ListenOptions;
 
   private readonly globalGuards: Set<CanActivate | CanActivateFn> = new Set();
+  private readonly globalInterceptors: Set<Interceptor | InterceptorFn> =
+    new Set();
   private readonly microservices: Map<
     MicroserviceServer<object>,
     ConnectMicroserviceOptions
@@ -89,7 +159,16 @@ export class HttpApplication extends Application<InternalHttpApplicationOptions>
   ) {
     super(target, ctx, options);
 
-    this.options = { port: options.port, basePath: options.basePath };
+    this.options = {
+      port: options.port,
+      listen: options.listen,
+      basePath: options.basePath,
+      versioning: options.versioning,
+      cookieSecret: options.cookieSecret,
+      encoders: options.encoders,
+      decoders: options.decoders,
+      problemDetails: options.problemDetails,
+    };
     this.adapter = options.adapter;
   }
 
@@ -107,11 +186,25 @@ export class HttpApplication extends Application<InternalHttpApplicationOptions>
         exceptionHandler: this.exceptionHandler,
         cors: this.options.cors,
         globalGuards: [...this.globalGuards],
+        globalInterceptors: [...this.globalInterceptors],
+        middleware: await this.configureMiddleware(),
+        versioning: this.options.versioning,
+        cookieSecret: this.options.cookieSecret,
+        encoders: this.options.encoders,
+        decoders: this.options.decoders,
+        problemDetails: this.options.problemDetails,
+      });
+      this.gateways = await this.adapter.createGatewayMapping?.({
+        ctx: this.ctx,
+        exceptionHandler: this.exceptionHandler,
+        globalGuards: [...this.globalGuards],
+        globalInterceptors: [...this.globalInterceptors],
       });
 
       await this.ctx.onApplicationBootstrap();
 
       await this.controller.register(this.options.basePath);
+      await this.gateways?.register();
     }
   }
 
@@ -126,6 +219,25 @@ export class HttpApplication extends Application<InternalHttpApplicationOptions>
     }
   }
 
+  /**
+   * @inheritdoc
+   */
+  public useGlobalInterceptors(
+    ...interceptors: (Interceptor | InterceptorFn)[]
+  ): void {
+    for (const interceptor of interceptors) {
+      this.globalInterceptors.add(interceptor);
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public enableVersioning(options: VersioningOptions): this {
+    this.options.versioning = options;
+    return this;
+  }
+
   /**
    * @inheritdoc
    */
@@ -159,6 +271,9 @@ export class HttpApplication extends Application<InternalHttpApplicationOptions>
         server.setGlobalGuards(
           options.inheritAppConfig ? [...this.globalGuards] : [],
         );
+        server.setGlobalInterceptors(
+          options.inheritAppConfig ? [...this.globalInterceptors] : [],
+        );
         server.registerHandlers(types, this.ctx);
         const listenPromise = server.listen();
         // Race against a resolved microtask: immediate rejections surface here,
@@ -179,35 +294,107 @@ export class HttpApplication extends Application<InternalHttpApplicationOptions>
   /**
    * @inheritdoc
    */
-  public override async close(): Promise<void> {
+  public override async close(signal?: string): Promise<void> {
     if (this.initialized) {
-      await Promise.all(
-        [...this.microservices.keys()].map((s) => s.close().catch(() => {})),
-      );
-      await this.adapter.close();
-      await super.close();
+      const servers = [...this.microservices.keys()];
+
+      // Stops accepting connections and lets in-flight requests and message
+      // handlers finish before anything is torn down.
+      await this.drain([
+        this.adapter.close(),
+        ...servers.map((s) => s.drain()),
+      ]);
+      await Promise.all(servers.map((s) => s.close().catch(() => {})));
+      this.gateways?.close();
     }
+
+    this.listening = undefined;
+    this.listenOptions = undefined;
+
+    await super.close(signal);
   }
 
   /**
    * @inheritdoc
+   *
+   * The registered routes are listed by the built-in `routes:list` command.
    */
-  public listen(): void {
-    if (!this.initialized) {
-      if (this.listening !== "active") {
-        this.listening = "pending";
-      }
+  public override runCommandLine(
+    argv?: string[],
+    options?: ConsoleCommandRunnerOptions,
+  ): Promise<number> {
+    return super.runCommandLine(argv, {
+      routes: () => this.controller?.getRoutes() ?? [],
+      ...options,
+    });
+  }
 
-      this.init().then(() => {
-        if (this.listening === "pending") {
-          this.listening = "active";
+  /**
+   * @inheritdoc
+   *
+   * Calling it again while listening resolves to the same address, unless
+   * other options are passed, which rejects until the application is closed.
+   */
+  public listen(options?: ListenOptions): Promise<ListenAddress> {
+    const listenOptions: ListenOptions = {
+      port: this.options.port,
+      ...this.options.listen,
+      ...options,
+    };
+
+    if (
+      this.listening &&
+      !isSameListenOptions(this.listenOptions!, listenOptions)
+    ) {
+      return Promise.reject(
+        new Error(
+          "The application already listens with other options, close it first",
+        ),
+      );
+    }
 
-          this.adapter.listen(this.options.port);
-        }
+    this.listenOptions = listenOptions;
+    this.listening ??= this.init()
+      .then(() => this.adapter.listen(listenOptions))
+      .catch((error) => {
+        // Allows another attempt, e.g. once the port is free again.
+        this.listening = undefined;
+
+        throw error;
       });
-    } else if (!this.listening) {
-      this.listening = "active";
-      this.adapter.listen(this.options.port);
+
+    return this.listening;
+  }
+
+  /**
+   * Calls the `configure()` hook of every module implementing
+   * {@link MiddlewareModule}, in initialization order.
+   *
+   * @return {Promise<MiddlewareConfiguration[]>} The collected middleware bindings.
+   */
+  private async configureMiddleware(): Promise<MiddlewareConfiguration[]> {
+    const configurations: MiddlewareConfiguration[] = [];
+
+    for (const [type, moduleRef] of this.ctx.getModuleRefs()) {
+      const instance = await moduleRef.get(type);
+
+      if (isMiddlewareModule(instance)) {
+        const consumer = new MiddlewareConsumer(moduleRef);
+
+        await instance.configure(consumer);
+
+        configurations.push(...consumer.getConfigurations());
+      }
     }
+
+    return configurations;
   }
 }
+
+function isSameListenOptions(a: ListenOptions, b: ListenOptions): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+
+  return [...keys].every((key) =>
+    a[key as keyof ListenOptions] === b[key as keyof ListenOptions]
+  );
+}
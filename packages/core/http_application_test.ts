@@ -1,11 +1,14 @@
-import type { InjectorContext, Type } from "@denorid/injector";
+import type { InjectorContext, ModuleRef, Type } from "@denorid/injector";
 import { assertEquals, assertRejects, assertStrictEquals } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
-import { assertSpyCalls, spy, stub } from "@std/testing/mock";
+import { assertSpyCall, assertSpyCalls, spy, stub } from "@std/testing/mock";
+import { FakeTime } from "@std/testing/time";
 import type { ControllerMappingOptions, HttpAdapter } from "./http/adapter.ts";
 import type { ControllerMapping } from "./http/controller_mapping.ts";
+import { HttpMethod } from "./http/method.ts";
 import { HttpApplication } from "./http_application.ts";
 import type { MicroserviceServer } from "./microservices/server.ts";
+import type { MiddlewareConsumer } from "./middleware/consumer.ts";
 
 class RootModule {}
 
@@ -17,6 +20,7 @@ function makeInjectorContext(): InjectorContext {
     },
     resolve: () => Promise.resolve(undefined),
     resolveInternal: () => Promise.resolve(undefined),
+    getModuleRefs: () => new Map(),
     onApplicationBootstrap: () => Promise.resolve(),
     onBeforeApplicationShutdown: () => Promise.resolve(),
     onApplicationShutdown: () => Promise.resolve(),
@@ -31,7 +35,12 @@ function makeControllerMapping(): ControllerMapping {
 
 function makeHttpAdapter(mapping?: ControllerMapping): HttpAdapter {
   return {
-    listen: () => {},
+    listen: (options) =>
+      Promise.resolve<Deno.NetAddr>({
+        transport: "tcp",
+        hostname: options?.hostname ?? "0.0.0.0",
+        port: options?.port ?? 3000,
+      }),
     close: () => Promise.resolve(),
     createControllerMapping: (
       _opts: ControllerMappingOptions,
@@ -56,9 +65,11 @@ function makeMockServer(): {
   const calls: Record<string, unknown[]> = {
     listen: [],
     close: [],
+    drain: [],
     registerHandlers: [],
     setExceptionHandler: [],
     setGlobalGuards: [],
+    setGlobalInterceptors: [],
   };
   return {
     server: {
@@ -70,6 +81,10 @@ function makeMockServer(): {
         calls.close.push(true);
         return Promise.resolve();
       },
+      drain: () => {
+        calls.drain.push(true);
+        return Promise.resolve();
+      },
       registerHandlers: (...args: unknown[]) => {
         calls.registerHandlers.push(args);
       },
@@ -79,6 +94,9 @@ function makeMockServer(): {
       setGlobalGuards: (g: unknown[]) => {
         calls.setGlobalGuards.push(g);
       },
+      setGlobalInterceptors: (i: unknown[]) => {
+        calls.setGlobalInterceptors.push(i);
+      },
     } as unknown as MicroserviceServer,
     calls,
   };
@@ -105,6 +123,73 @@ describe("HttpApplication", () => {
       assertSpyCalls(createMappingSpy, 1);
     });
 
+    it("passes global guards and interceptors to the controller mapping", async () => {
+      const adapter = makeHttpAdapter();
+      const createMappingSpy = spy(adapter, "createControllerMapping");
+      const app = makeApp({ adapter });
+      const guardFn = () => true;
+      const interceptorFn = () => undefined;
+
+      app.useGlobalGuards(guardFn);
+      app.useGlobalInterceptors(interceptorFn, interceptorFn);
+      await app.init();
+
+      const opts = createMappingSpy.calls[0].args[0];
+      assertEquals(opts.globalGuards, [guardFn]);
+      assertEquals(opts.globalInterceptors, [interceptorFn]);
+    });
+
+    it("collects the middleware configured by the modules", async () => {
+      const middlewareFn = () => undefined;
+      const moduleRef = {
+        get: (type: Type) => Promise.resolve(new type()),
+      } as unknown as ModuleRef;
+
+      class PlainModule {}
+      class UsersModule {
+        public configure(consumer: MiddlewareConsumer): void {
+          consumer.apply(middlewareFn).exclude("/users/health").forRoutes(
+            "/users/*",
+          );
+        }
+      }
+
+      const ctx = {
+        ...makeInjectorContext(),
+        getModuleRefs: () =>
+          new Map([[PlainModule, moduleRef], [UsersModule, moduleRef]]),
+      } as unknown as InjectorContext;
+      const adapter = makeHttpAdapter();
+      const createMappingSpy = spy(adapter, "createControllerMapping");
+      const app = makeApp({ adapter, ctx });
+
+      await app.init();
+
+      assertEquals(createMappingSpy.calls[0].args[0].middleware, [{
+        middleware: [middlewareFn],
+        routes: ["/users/*"],
+        exclude: ["/users/health"],
+        moduleRef,
+      }]);
+    });
+
+    it("passes the versioning options to the controller mapping", async () => {
+      const adapter = makeHttpAdapter();
+      const createMappingSpy = spy(adapter, "createControllerMapping");
+      const app = makeApp({ adapter });
+
+      assertStrictEquals(
+        app.enableVersioning({ type: "uri", defaultVersion: "1" }),
+        app,
+      );
+      await app.init();
+
+      assertEquals(createMappingSpy.calls[0].args[0].versioning, {
+        type: "uri",
+        defaultVersion: "1",
+      });
+    });
+
     it("skips metadata push when metaType has no @Module decorator", async () => {
       const app = makeApp();
       await app.init();
@@ -152,60 +237,145 @@ describe("HttpApplication", () => {
   });
 
   describe("listen", () => {
-    it("sets listening to pending then active and calls adapter.listen after init", async () => {
+    it("initializes the application and resolves to the bound address", async () => {
       const adapter = makeHttpAdapter();
       const listenSpy = spy(adapter, "listen");
       const app = makeApp({ adapter });
+      using initStub = stub(app, "init", () => Promise.resolve());
+
+      const address = await app.listen();
 
-      using _s = stub(app, "init", () => Promise.resolve());
+      assertSpyCalls(initStub, 1);
+      assertSpyCalls(listenSpy, 1);
+      assertEquals(address, {
+        transport: "tcp",
+        hostname: "0.0.0.0",
+        port: 3000,
+      });
+    });
 
-      app.listen();
-      assertEquals(app["listening"], "pending");
+    it("merges the configured port and listen options with the passed ones", async () => {
+      const adapter = makeHttpAdapter();
+      const listenSpy = spy(adapter, "listen");
+      const app = new HttpApplication(RootModule, makeInjectorContext(), {
+        adapter,
+        port: 8080,
+        listen: { hostname: "127.0.0.1", reusePort: true },
+      });
 
-      await new Promise<void>((r) => setTimeout(r, 0));
+      await app.listen({ reusePort: false });
 
-      assertEquals(app["listening"], "active");
-      assertSpyCalls(listenSpy, 1);
+      assertSpyCall(listenSpy, 0, {
+        args: [{ port: 8080, hostname: "127.0.0.1", reusePort: false }],
+      });
     });
 
-    it("does not call adapter.listen when already active before init resolves", async () => {
+    it("starts the server once", async () => {
       const adapter = makeHttpAdapter();
       const listenSpy = spy(adapter, "listen");
       const app = makeApp({ adapter });
 
-      app["listening"] = "active";
-
-      using _s = stub(app, "init", () => Promise.resolve());
+      const [first, second] = await Promise.all([app.listen(), app.listen()]);
 
-      app.listen();
+      assertEquals(first, second);
+      assertSpyCalls(listenSpy, 1);
+    });
 
-      await new Promise<void>((r) => setTimeout(r, 0));
+    it("rejects when the adapter fails and allows another attempt", async () => {
+      const adapter = makeHttpAdapter();
+      let attempts = 0;
+      const listenSpy = stub(
+        adapter,
+        "listen",
+        () =>
+          attempts++ === 0
+            ? Promise.reject(new Deno.errors.AddrInUse("in use"))
+            : Promise.resolve<Deno.NetAddr>({
+              transport: "tcp",
+              hostname: "0.0.0.0",
+              port: 3000,
+            }),
+      );
+      const app = makeApp({ adapter });
 
-      assertSpyCalls(listenSpy, 0);
+      await assertRejects(() => app.listen(), Deno.errors.AddrInUse);
+      assertEquals((await app.listen()).transport, "tcp");
+      assertSpyCalls(listenSpy, 2);
     });
 
-    it("calls adapter.listen directly when initialized and not yet listening", async () => {
+    it("rejects listening again with other options", async () => {
       const adapter = makeHttpAdapter();
       const listenSpy = spy(adapter, "listen");
       const app = makeApp({ adapter });
 
-      await app.init();
-      app.listen();
+      await app.listen({ port: 8080 });
 
-      assertEquals(app["listening"], "active");
+      assertEquals(await app.listen({ port: 8080 }), {
+        transport: "tcp",
+        hostname: "0.0.0.0",
+        port: 8080,
+      });
+      await assertRejects(
+        () => app.listen({ port: 8081 }),
+        Error,
+        "The application already listens with other options",
+      );
       assertSpyCalls(listenSpy, 1);
     });
 
-    it("is a no-op when initialized and already listening", async () => {
+    it("listens again once closed", async () => {
       const adapter = makeHttpAdapter();
       const listenSpy = spy(adapter, "listen");
       const app = makeApp({ adapter });
 
-      await app.init();
-      app.listen();
-      app.listen();
+      await app.listen({ port: 8080 });
+      await app.close();
 
-      assertSpyCalls(listenSpy, 1);
+      assertEquals(await app.listen({ port: 8081 }), {
+        transport: "tcp",
+        hostname: "0.0.0.0",
+        port: 8081,
+      });
+      assertSpyCalls(listenSpy, 2);
+    });
+  });
+
+  describe("runCommandLine", () => {
+    it("lists the routes registered by the controller mapping", async () => {
+      class UsersController {}
+
+      const mapping = {
+        register: () => Promise.resolve(),
+        getRoutes: () => [{
+          method: HttpMethod.GET,
+          path: "/api/users",
+          controller: UsersController,
+          guards: [],
+          route: { name: "index" },
+        }],
+      } as unknown as ControllerMapping;
+      const app = makeApp({ adapter: makeHttpAdapter(mapping) });
+      let output = "";
+
+      const code = await app.runCommandLine(["routes:list", "--json"], {
+        stdout: {
+          write: (p) => {
+            output += new TextDecoder().decode(p);
+            return p.length;
+          },
+        },
+      });
+
+      assertEquals(code, 0);
+      assertEquals(JSON.parse(output), [{
+        method: "GET",
+        path: "/api/users",
+        controller: "UsersController",
+        handler: "index",
+        guards: [],
+        validation: [],
+        statusCode: 200,
+      }]);
     });
   });
 
@@ -311,6 +481,22 @@ describe("HttpApplication", () => {
       assertStrictEquals(guards[0], guardFn);
     });
 
+    it("passes HTTP interceptors only with inheritAppConfig", async () => {
+      const app = makeApp();
+      const interceptorFn = () => undefined;
+      app.useGlobalInterceptors(interceptorFn);
+
+      const { server: isolated, calls: isolatedCalls } = makeMockServer();
+      const { server: inheriting, calls: inheritingCalls } = makeMockServer();
+      app
+        .connectMicroservice(isolated)
+        .connectMicroservice(inheriting, { inheritAppConfig: true });
+      await app.startAllMicroservices();
+
+      assertEquals(isolatedCalls.setGlobalInterceptors[0], []);
+      assertEquals(inheritingCalls.setGlobalInterceptors[0], [interceptorFn]);
+    });
+
     it("rolls back started servers on failure", async () => {
       const app = makeApp();
       const { server: server1, calls: calls1 } = makeMockServer();
@@ -356,5 +542,98 @@ describe("HttpApplication", () => {
 
       assertEquals(calls2.close.length, 1);
     });
+
+    it("drains the adapter and the microservices before closing them", async () => {
+      const order: string[] = [];
+      const adapter = makeHttpAdapter();
+      adapter.close = () => {
+        order.push("adapter.close");
+        return Promise.resolve();
+      };
+      const { server } = makeMockServer();
+      server.drain = () => {
+        order.push("server.drain");
+        return Promise.resolve();
+      };
+      server.close = () => {
+        order.push("server.close");
+        return Promise.resolve();
+      };
+      const app = makeApp({ adapter });
+
+      app.connectMicroservice(server);
+      await app.init();
+      await app.close();
+
+      assertEquals(order, ["adapter.close", "server.drain", "server.close"]);
+    });
+  });
+
+  describe("enableShutdownHooks", () => {
+    it("closes the application with the received signal", async () => {
+      const listeners = new Map<Deno.Signal, () => void>();
+      using _add = stub(
+        Deno,
+        "addSignalListener",
+        (signal: Deno.Signal, listener: () => void) => {
+          listeners.set(signal, listener);
+        },
+      );
+      using removeSpy = stub(Deno, "removeSignalListener");
+      const { promise: killed, resolve } = Promise.withResolvers<unknown[]>();
+      using _kill = stub(
+        Deno,
+        "kill",
+        (pid: number, signal?: Deno.Signal | number) => resolve([pid, signal]),
+      );
+      const ctx = makeInjectorContext();
+      const beforeSpy = spy(ctx, "onBeforeApplicationShutdown");
+      const shutdownSpy = spy(ctx, "onApplicationShutdown");
+      const app = makeApp({ ctx });
+
+      assertStrictEquals(app.enableShutdownHooks(), app);
+      assertEquals([...listeners.keys()], ["SIGTERM", "SIGINT"]);
+
+      await app.init();
+      listeners.get("SIGTERM")!();
+
+      assertEquals(await killed, [Deno.pid, "SIGTERM"]);
+      assertEquals(beforeSpy.calls[0].args, ["SIGTERM"]);
+      assertEquals(shutdownSpy.calls[0].args, ["SIGTERM"]);
+      assertSpyCalls(removeSpy, 2);
+    });
+
+    it("removes the listeners when closed manually", async () => {
+      using _add = stub(Deno, "addSignalListener");
+      using removeSpy = stub(Deno, "removeSignalListener");
+      const app = makeApp();
+
+      app.enableShutdownHooks(["SIGTERM", "SIGTERM"]);
+      await app.init();
+      await app.close();
+
+      assertSpyCalls(removeSpy, 1);
+    });
+
+    it("stops waiting for in-flight work after the timeout", async () => {
+      using _add = stub(Deno, "addSignalListener");
+      using _remove = stub(Deno, "removeSignalListener");
+      using time = new FakeTime();
+      const adapter = makeHttpAdapter();
+      adapter.close = () => new Promise(() => {});
+      const ctx = makeInjectorContext();
+      const shutdownSpy = spy(ctx, "onApplicationShutdown");
+      const app = makeApp({ adapter, ctx });
+
+      app.enableShutdownHooks(["SIGTERM"], { timeout: 1000 });
+      await app.init();
+
+      const closing = app.close();
+
+      await time.tickAsync(1000);
+      await closing;
+
+      assertSpyCalls(shutdownSpy, 1);
+    });
   });
 });
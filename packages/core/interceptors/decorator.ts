@@ -0,0 +1,113 @@
+import {
+  type ClassMethodDecoratorInitializer,
+  type Decorator,
+  InvalidStaticMemberDecoratorUsageError,
+  type MethodDecorator,
+  type Type,
+} from "@denorid/injector";
+import { CONTROLLER_REQUEST_MAPPING } from "../_constants.ts";
+import { preserveRequestMappingMetadata } from "../http/_request_mapping.ts";
+import type { Interceptor, InterceptorFn } from "./interceptor.ts";
+
+export const INTERCEPTORS_METADATA = Symbol.for("denorid.interceptors");
+
+/**
+ * Returns the method-level interceptors registered on `type` for the given
+ * `methodName`.
+ *
+ * Interceptors applied via {@link UseInterceptors} on a method are stored
+ * alongside the HTTP request-mapping entry for that method, the same way
+ * method guards are.
+ *
+ * @param {Type} type - The controller or handler class constructor.
+ * @param {string | symbol} methodName - The method name to look up.
+ * @returns {Set<Type<Interceptor> | Interceptor | InterceptorFn> | undefined}
+ */
+export function getMethodInterceptors(
+  type: Type,
+  methodName: string | symbol,
+): Set<Type<Interceptor> | Interceptor | InterceptorFn> | undefined {
+  const metadata = type[Symbol.metadata];
+
+  if (metadata == null) {
+    return undefined;
+  }
+
+  const requestMapping = metadata[CONTROLLER_REQUEST_MAPPING] as
+    | Array<{ name: string | symbol; interceptors?: Set<unknown> }>
+    | undefined;
+
+  const entry = requestMapping?.find(({ name }) => name === methodName);
+
+  return entry?.interceptors as
+    | Set<Type<Interceptor> | Interceptor | InterceptorFn>
+    | undefined;
+}
+
+/**
+ * Decorator that binds one or more interceptors to a controller class or a
+ * single handler method.
+ *
+ * Interceptors are executed in the order they are provided, the first one
+ * being the outermost. Class-level interceptors wrap method-level ones.
+ *
+ * Accepts three forms of interceptors:
+ * - A class type implementing {@link Interceptor} (resolved via the DI container)
+ * - An already-instantiated {@link Interceptor} object
+ * - A plain {@link InterceptorFn} function
+ *
+ * @example
+ * ```ts
+ * @UseInterceptors(LoggingInterceptor)
+ * @Controller('/items')
+ * class ItemsController {
+ *   @UseInterceptors(CacheInterceptor)
+ *   @Get('/:id')
+ *   getItem(): string { return 'item'; }
+ * }
+ * ```
+ *
+ * @param {...(Type<Interceptor> | Interceptor | InterceptorFn)} interceptors One
+ * or more interceptors to bind. Each interceptor can be a class type, an
+ * instance, or a plain function.
+ *
+ * @returns {Decorator<ClassDecoratorContext, Type> & MethodDecorator} A
+ * decorator applicable to both classes and non-static methods.
+ */
+export function UseInterceptors(
+  ...interceptors: (Type<Interceptor> | Interceptor | InterceptorFn)[]
+): Decorator<ClassDecoratorContext, Type> & MethodDecorator {
+  const decorator = function <
+    T extends object,
+    V extends ClassMethodDecoratorInitializer<T>,
+  >(
+    target: V,
+    ctx: ClassDecoratorContext | ClassMethodDecoratorContext<T, V>,
+  ): V {
+    let cache: Set<Type<Interceptor> | Interceptor | InterceptorFn>;
+
+    if (ctx.kind === "method") {
+      if (ctx.static) {
+        throw new InvalidStaticMemberDecoratorUsageError(
+          UseInterceptors.name,
+          ctx.name,
+          "function",
+        );
+      }
+
+      cache = preserveRequestMappingMetadata(ctx).interceptors ??= new Set();
+    } else {
+      cache = (ctx.metadata[INTERCEPTORS_METADATA] ??= new Set()) as Set<
+        Type<Interceptor> | Interceptor | InterceptorFn
+      >;
+    }
+
+    for (const interceptor of interceptors) {
+      cache.add(interceptor);
+    }
+
+    return target;
+  };
+
+  return decorator as Decorator<ClassDecoratorContext, Type> & MethodDecorator;
+}
@@ -0,0 +1,117 @@
+import { InvalidStaticMemberDecoratorUsageError } from "@denorid/injector";
+import { assertEquals, assertInstanceOf, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { CONTROLLER_REQUEST_MAPPING } from "../_constants.ts";
+import type { RequestMappingMetadata } from "../http/_request_mapping.ts";
+import {
+  getMethodInterceptors,
+  INTERCEPTORS_METADATA,
+  UseInterceptors,
+} from "./decorator.ts";
+import type { CallHandler, Interceptor, InterceptorFn } from "./interceptor.ts";
+
+class MockInterceptor implements Interceptor {
+  public intercept(_ctx: unknown, next: CallHandler): Promise<unknown> {
+    return next.handle();
+  }
+}
+
+const mockInterceptorFn: InterceptorFn = (_ctx, next) => next.handle();
+
+describe("@UseInterceptors()", () => {
+  describe("as a class decorator", () => {
+    it("should add interceptors to the class metadata", () => {
+      const instance = new MockInterceptor();
+
+      @UseInterceptors(MockInterceptor, instance, mockInterceptorFn)
+      class ExampleController {}
+
+      const interceptors = ExampleController[Symbol.metadata]
+        ?.[INTERCEPTORS_METADATA] as Set<unknown> | undefined;
+
+      assertInstanceOf(interceptors, Set);
+      assertEquals([...interceptors], [
+        MockInterceptor,
+        instance,
+        mockInterceptorFn,
+      ]);
+    });
+
+    it("should merge interceptors when applied multiple times", () => {
+      @UseInterceptors(mockInterceptorFn)
+      @UseInterceptors(MockInterceptor, mockInterceptorFn)
+      class ExampleController {}
+
+      const interceptors = ExampleController[Symbol.metadata]
+        ?.[INTERCEPTORS_METADATA] as Set<unknown> | undefined;
+
+      assertEquals(interceptors?.size, 2);
+    });
+  });
+
+  describe("as a method decorator", () => {
+    it("should throw when decorating a static method", () => {
+      assertThrows(
+        () => {
+          class ExampleController {
+            @UseInterceptors(MockInterceptor)
+            public static stub(): void {}
+          }
+
+          void ExampleController;
+        },
+        InvalidStaticMemberDecoratorUsageError,
+      );
+    });
+
+    it("should add interceptors to the request mapping entry of the method", () => {
+      class ExampleController {
+        @UseInterceptors(MockInterceptor, mockInterceptorFn)
+        public handler(): void {}
+      }
+
+      const mappings = ExampleController[Symbol.metadata]
+        ?.[CONTROLLER_REQUEST_MAPPING] as RequestMappingMetadata[] | undefined;
+      const entry = mappings?.find(({ name }) => name === "handler");
+
+      assertInstanceOf(entry?.interceptors, Set);
+      assertEquals([...entry.interceptors], [
+        MockInterceptor,
+        mockInterceptorFn,
+      ]);
+    });
+
+    it("should isolate interceptors per method", () => {
+      class ExampleController {
+        @UseInterceptors(MockInterceptor)
+        public handlerA(): void {}
+
+        @UseInterceptors(mockInterceptorFn)
+        public handlerB(): void {}
+      }
+
+      assertEquals([...getMethodInterceptors(ExampleController, "handlerA")!], [
+        MockInterceptor,
+      ]);
+      assertEquals([...getMethodInterceptors(ExampleController, "handlerB")!], [
+        mockInterceptorFn,
+      ]);
+    });
+  });
+});
+
+describe("getMethodInterceptors()", () => {
+  it("returns undefined when the type has no Symbol.metadata", () => {
+    class NoMeta {}
+
+    Object.defineProperty(NoMeta, Symbol.metadata, { value: null });
+
+    assertEquals(getMethodInterceptors(NoMeta, "handle"), undefined);
+  });
+
+  it("returns undefined when no request-mapping entry exists for the method", () => {
+    class Ctrl {}
+
+    assertEquals(getMethodInterceptors(Ctrl, "handle"), undefined);
+  });
+});
@@ -0,0 +1,53 @@
+import type { ModuleRef, Type } from "@denorid/injector";
+import type { ExecutionContext } from "../guards/execution_context.ts";
+import { isClass, isFunction } from "../type_guards.ts";
+import type { CallHandler, Interceptor, InterceptorFn } from "./interceptor.ts";
+
+/**
+ * Runs `handler` wrapped by the given interceptors.
+ *
+ * The first interceptor is the outermost one; each interceptor receives a
+ * {@link CallHandler} invoking the next one, the last {@link CallHandler}
+ * invokes `handler`. Class interceptors are resolved from `moduleRef` within
+ * the given `contextId`, so request-scoped interceptors share the request's
+ * DI context. Pass a function to pick the module reference per interceptor.
+ *
+ * @param {ModuleRef | ((interceptor: Type<Interceptor>) => ModuleRef)} moduleRef - Module reference used to resolve class interceptors.
+ * @param {string} contextId - The DI context of the in-flight request or message.
+ * @param {ExecutionContext} context - Execution context handed to every interceptor.
+ * @param {(Type<Interceptor> | Interceptor | InterceptorFn)[]} interceptors - Interceptors, outermost first.
+ * @param {() => unknown} handler - The actual route or message handler invocation.
+ * @returns {Promise<unknown>} The value returned by the outermost interceptor.
+ */
+export function executeInterceptors(
+  moduleRef: ModuleRef | ((interceptor: Type<Interceptor>) => ModuleRef),
+  contextId: string,
+  context: ExecutionContext,
+  interceptors: (Type<Interceptor> | Interceptor | InterceptorFn)[],
+  handler: () => unknown,
+): Promise<unknown> {
+  const dispatch = async (index: number): Promise<unknown> => {
+    if (index >= interceptors.length) {
+      return await handler();
+    }
+
+    const interceptor = interceptors[index];
+    const next: CallHandler = { handle: () => dispatch(index + 1) };
+
+    if (isClass<Interceptor>(interceptor)) {
+      const ref = isFunction<(type: Type<Interceptor>) => ModuleRef>(moduleRef)
+        ? moduleRef(interceptor)
+        : moduleRef;
+
+      return await (await ref.get(interceptor, { contextId, strict: false }))
+        .intercept(context, next);
+    }
+    if (isFunction<InterceptorFn>(interceptor)) {
+      return await interceptor(context, next);
+    }
+
+    return await interceptor.intercept(context, next);
+  };
+
+  return dispatch(0);
+}
@@ -0,0 +1,176 @@
+import type { ModuleRef, Type } from "@denorid/injector";
+import { assertEquals, assertRejects, assertStrictEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { spy } from "@std/testing/mock";
+import type { ExecutionContext } from "../guards/execution_context.ts";
+import { executeInterceptors } from "./execute.ts";
+import type { CallHandler, Interceptor, InterceptorFn } from "./interceptor.ts";
+
+function makeModuleRef(...pairs: [Type, unknown][]): ModuleRef {
+  const map = new Map<Type, unknown>(pairs);
+
+  return {
+    get: spy((type: Type, _opts: unknown) => Promise.resolve(map.get(type))),
+  } as unknown as ModuleRef;
+}
+
+const executionContext = {} as ExecutionContext;
+
+describe(executeInterceptors.name, () => {
+  it("invokes the handler directly when no interceptors are given", async () => {
+    const result = await executeInterceptors(
+      makeModuleRef(),
+      "ctx-1",
+      executionContext,
+      [],
+      () => "handled",
+    );
+
+    assertEquals(result, "handled");
+  });
+
+  it("runs interceptors outermost first", async () => {
+    const order: string[] = [];
+    const record = (name: string): InterceptorFn => async (_ctx, next) => {
+      order.push(`${name}:before`);
+      const result = await next.handle();
+      order.push(`${name}:after`);
+
+      return result;
+    };
+
+    await executeInterceptors(
+      makeModuleRef(),
+      "ctx-1",
+      executionContext,
+      [record("a"), record("b")],
+      () => {
+        order.push("handler");
+      },
+    );
+
+    assertEquals(order, [
+      "a:before",
+      "b:before",
+      "handler",
+      "b:after",
+      "a:after",
+    ]);
+  });
+
+  it("returns the value produced by the outermost interceptor", async () => {
+    const result = await executeInterceptors(
+      makeModuleRef(),
+      "ctx-1",
+      executionContext,
+      [
+        async (_ctx, next) => `<${await next.handle()}>`,
+        { intercept: async (_ctx, next) => `[${await next.handle()}]` },
+      ],
+      () => Promise.resolve("value"),
+    );
+
+    assertEquals(result, "<[value]>");
+  });
+
+  it("skips the handler when an interceptor does not call next", async () => {
+    const handler = spy(() => "fresh");
+
+    const result = await executeInterceptors(
+      makeModuleRef(),
+      "ctx-1",
+      executionContext,
+      [() => "cached"],
+      handler,
+    );
+
+    assertEquals(result, "cached");
+    assertEquals(handler.calls.length, 0);
+  });
+
+  it("resolves class interceptors via DI within the given context", async () => {
+    class ClassInterceptor implements Interceptor {
+      public readonly contexts: ExecutionContext[] = [];
+
+      public intercept(
+        ctx: ExecutionContext,
+        next: CallHandler,
+      ): Promise<unknown> {
+        this.contexts.push(ctx);
+
+        return next.handle();
+      }
+    }
+
+    const instance = new ClassInterceptor();
+    const moduleRef = makeModuleRef([ClassInterceptor, instance]);
+
+    const result = await executeInterceptors(
+      moduleRef,
+      "ctx-42",
+      executionContext,
+      [ClassInterceptor],
+      () => 1,
+    );
+
+    assertEquals(result, 1);
+    assertStrictEquals(instance.contexts[0], executionContext);
+    assertEquals(
+      (moduleRef.get as unknown as { calls: { args: unknown[] }[] }).calls[0]
+        .args,
+      [ClassInterceptor, { contextId: "ctx-42", strict: false }],
+    );
+  });
+
+  it("resolves class interceptors from the module reference picked for them", async () => {
+    class ClassInterceptor implements Interceptor {
+      public intercept(
+        _ctx: ExecutionContext,
+        next: CallHandler,
+      ): Promise<unknown> {
+        return next.handle();
+      }
+    }
+
+    const moduleRef = makeModuleRef([ClassInterceptor, new ClassInterceptor()]);
+    const pick = spy((_interceptor: Type<Interceptor>) => moduleRef);
+
+    await executeInterceptors(
+      pick,
+      "ctx-1",
+      executionContext,
+      [ClassInterceptor],
+      () => 1,
+    );
+
+    assertEquals(pick.calls[0].args, [ClassInterceptor]);
+  });
+
+  it("propagates errors thrown by the handler through the chain", async () => {
+    const seen: unknown[] = [];
+
+    await assertRejects(
+      () =>
+        executeInterceptors(
+          makeModuleRef(),
+          "ctx-1",
+          executionContext,
+          [async (_ctx, next) => {
+            try {
+              return await next.handle();
+            } catch (err) {
+              seen.push(err);
+              throw err;
+            }
+          }],
+          () => {
+            throw new Error("boom");
+          },
+        ),
+      Error,
+      "boom",
+    );
+
+    assertEquals(seen.length, 1);
+  });
+});
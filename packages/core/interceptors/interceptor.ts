@@ -0,0 +1,58 @@
+import type { ExecutionContext } from "../guards/execution_context.ts";
+
+/**
+ * Interface providing access to the next step of the interceptor chain.
+ * Calling {@link CallHandler.handle} invokes the next interceptor or, once the
+ * chain is exhausted, the route/message handler itself.
+ *
+ * @template T The value produced by the rest of the chain.
+ */
+export interface CallHandler<T = unknown> {
+  /**
+   * Invokes the remaining interceptors and the handler.
+   *
+   * @returns {Promise<T>} The value returned by the rest of the chain.
+   */
+  handle(): Promise<T>;
+}
+
+/**
+ * Interface defining the `intercept()` function that must be implemented
+ * by an interceptor. An interceptor wraps the handler invocation and may run
+ * logic before and after it, transform its result or short-circuit the chain
+ * by returning a value without calling `next.handle()`.
+ *
+ * @template T The value produced by the rest of the chain.
+ * @template R The value returned by this interceptor.
+ */
+export interface Interceptor<T = unknown, R = unknown> {
+  /**
+   * @param {ExecutionContext} context Current execution context, provides
+   * access to details about the current request pipeline.
+   * @param {CallHandler<T>} next Handle to invoke the rest of the chain.
+   *
+   * @returns {R|Promise<R>} The (possibly transformed) handler result.
+   */
+  intercept(
+    context: ExecutionContext,
+    next: CallHandler<T>,
+  ): R | Promise<R>;
+}
+
+/**
+ * Type defining the interceptor function signature. Behaves exactly like
+ * {@link Interceptor.intercept}.
+ *
+ * @template T The value produced by the rest of the chain.
+ * @template R The value returned by this interceptor.
+ *
+ * @param {ExecutionContext} context Current execution context, provides
+ * access to details about the current request pipeline.
+ * @param {CallHandler<T>} next Handle to invoke the rest of the chain.
+ *
+ * @returns {R|Promise<R>} The (possibly transformed) handler result.
+ */
+export type InterceptorFn<T = unknown, R = unknown> = (
+  context: ExecutionContext,
+  next: CallHandler<T>,
+) => R | Promise<R>;
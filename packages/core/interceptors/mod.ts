@@ -0,0 +1,52 @@
+/**
+ * Interceptors - cross-cutting handler wrappers for Denorid.
+ *
+ * An interceptor runs around a route or message handler. It can execute logic
+ * before and after the handler, transform the returned value or short-circuit
+ * the handler entirely (e.g. to serve a cached value). Interceptors can be
+ * applied to an entire controller class or to individual handler methods via
+ * the {@link UseInterceptors} decorator, or globally through
+ * `useGlobalInterceptors()` on the application.
+ *
+ * ### Implementing an interceptor
+ *
+ * Implement the {@link Interceptor} interface or provide a plain
+ * {@link InterceptorFn} function:
+ *
+ * ```ts
+ * import type {
+ *   CallHandler,
+ *   ExecutionContext,
+ *   Interceptor,
+ * } from "@denorid/core";
+ *
+ * class TimingInterceptor implements Interceptor {
+ *   public async intercept(ctx: ExecutionContext, next: CallHandler) {
+ *     const start = performance.now();
+ *     const result = await next.handle();
+ *     console.log(`${ctx.getClass().name} took ${performance.now() - start}ms`);
+ *     return result;
+ *   }
+ * }
+ * ```
+ *
+ * ### Binding interceptors
+ *
+ * ```ts
+ * import { Controller, UseInterceptors } from "@denorid/core";
+ *
+ * @UseInterceptors(TimingInterceptor)
+ * @Controller('/items')
+ * class ItemsController {}
+ * ```
+ *
+ * @see {@link Interceptor}
+ * @see {@link InterceptorFn}
+ * @see {@link CallHandler}
+ * @see {@link UseInterceptors}
+ *
+ * @module
+ */
+export * from "./decorator.ts";
+export * from "./execute.ts";
+export * from "./interceptor.ts";
@@ -3,6 +3,7 @@ import { MESSAGE_CONTROLLER_METADATA } from "./_constants.ts";
 import { Application, type ApplicationOptions } from "./application.ts";
 import type { MicroserviceApplicationContext } from "./application_context.ts";
 import type { CanActivate, CanActivateFn } from "./guards/can_activate.ts";
+import type { Interceptor, InterceptorFn } from "./interceptors/interceptor.ts";
 import type { MicroserviceServer } from "./microservices/server.ts";
 
 export class MicroserviceApplication extends Application
@@ -17,6 +18,8 @@ export class MicroserviceApplication extends Application
   }
 
   private readonly globalGuards: Set<CanActivate | CanActivateFn> = new Set();
+  private readonly globalInterceptors: Set<Interceptor | InterceptorFn> =
+    new Set();
 
   public useGlobalGuards(...guards: (CanActivate | CanActivateFn)[]): void {
     for (const guard of guards) {
@@ -24,6 +27,14 @@ export class MicroserviceApplication extends Application
     }
   }
 
+  public useGlobalInterceptors(
+    ...interceptors: (Interceptor | InterceptorFn)[]
+  ): void {
+    for (const interceptor of interceptors) {
+      this.globalInterceptors.add(interceptor);
+    }
+  }
+
   public async listen(): Promise<void> {
     if (this.initialized) {
       return;
@@ -33,15 +44,18 @@ export class MicroserviceApplication extends Application
     await this.exceptionHandler.register();
     this.server.setExceptionHandler(this.exceptionHandler);
     this.server.setGlobalGuards([...this.globalGuards]);
+    this.server.setGlobalInterceptors([...this.globalInterceptors]);
     this.discoverHandlers();
     await this.server.listen();
   }
 
-  public override async close(): Promise<void> {
+  public override async close(signal?: string): Promise<void> {
     if (this.initialized) {
+      await this.drain([this.server.drain()]);
       await this.server.close();
-      await super.close();
     }
+
+    await super.close(signal);
   }
 
   private discoverHandlers(): void {
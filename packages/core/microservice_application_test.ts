@@ -40,9 +40,11 @@ function makeMockServer(): {
   const calls: Record<string, unknown[]> = {
     listen: [],
     close: [],
+    drain: [],
     registerHandlers: [],
     setExceptionHandler: [],
     setGlobalGuards: [],
+    setGlobalInterceptors: [],
   };
 
   const server: MicroserviceServer = {
@@ -54,6 +56,10 @@ function makeMockServer(): {
       calls["close"].push(true);
       await Promise.resolve();
     },
+    drain: async () => {
+      calls["drain"].push(true);
+      await Promise.resolve();
+    },
     registerHandlers: (types: Type[], ctx: InjectorContext) => {
       calls["registerHandlers"].push([types, ctx]);
     },
@@ -63,6 +69,9 @@ function makeMockServer(): {
     setGlobalGuards: (guards: unknown[]) => {
       calls["setGlobalGuards"].push(guards);
     },
+    setGlobalInterceptors: (interceptors: unknown[]) => {
+      calls["setGlobalInterceptors"].push(interceptors);
+    },
   } as unknown as MicroserviceServer;
 
   return { server, calls };
@@ -184,6 +193,34 @@ describe("MicroserviceApplication", () => {
       assertEquals(shutdownSpy.calls.length, 1);
     });
 
+    it("drains the server before closing it and passes the signal", async () => {
+      const ctx = makeInjectorContext();
+      const { server } = makeMockServer();
+      const order: string[] = [];
+      server.drain = () => {
+        order.push("drain");
+        return Promise.resolve();
+      };
+      server.close = () => {
+        order.push("close");
+        return Promise.resolve();
+      };
+      const shutdownSpy = spy(ctx, "onApplicationShutdown");
+
+      const app = new MicroserviceApplication(
+        RootModule as Type,
+        ctx,
+        {},
+        server,
+      );
+
+      await app.listen();
+      await app.close("SIGTERM");
+
+      assertEquals(order, ["drain", "close"]);
+      assertEquals(shutdownSpy.calls[0].args, ["SIGTERM"]);
+    });
+
     it("is a no-op when not initialized", async () => {
       const ctx = makeInjectorContext();
       const { server, calls } = makeMockServer();
@@ -244,4 +281,25 @@ describe("MicroserviceApplication", () => {
       assertEquals((calls["setGlobalGuards"][0] as unknown[]).length, 1);
     });
   });
+
+  describe("useGlobalInterceptors()", () => {
+    it("stores interceptors and forwards them to the server on listen", async () => {
+      const ctx = makeInjectorContext();
+      const { server, calls } = makeMockServer();
+
+      const app = new MicroserviceApplication(
+        RootModule as Type,
+        ctx,
+        {},
+        server,
+      );
+
+      const interceptorFn = () => undefined;
+      app.useGlobalInterceptors(interceptorFn, interceptorFn);
+      await app.listen();
+
+      assertEquals(calls["setGlobalInterceptors"].length, 1);
+      assertEquals(calls["setGlobalInterceptors"][0], [interceptorFn]);
+    });
+  });
 });
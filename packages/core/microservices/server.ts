@@ -1,5 +1,9 @@
 import type { ExceptionHandler } from "../exceptions/handler.ts";
 import type { CanActivate, CanActivateFn } from "../guards/can_activate.ts";
+import type {
+  Interceptor,
+  InterceptorFn,
+} from "../interceptors/interceptor.ts";
 import type { InjectorContext, Type } from "@denorid/injector";
 
 /**
@@ -26,6 +30,17 @@ export abstract class MicroserviceServer<
    */
   public abstract close(): Promise<void>;
 
+  /**
+   * Resolves once the messages currently being handled are done. Called
+   * before {@link close} when the application shuts down; transports not
+   * tracking their handlers resolve immediately.
+   *
+   * @return {Promise<void>}
+   */
+  public drain(): Promise<void> {
+    return Promise.resolve();
+  }
+
   /**
    * Receives the application-level exception handler after DI is initialised.
    *
@@ -52,4 +67,14 @@ export abstract class MicroserviceServer<
   public abstract setGlobalGuards(
     guards: (CanActivate | CanActivateFn)[],
   ): void;
+
+  /**
+   * Registers global interceptors wrapped around every handler invocation.
+   *
+   * @param {(Interceptor|InterceptorFn)[]} interceptors - Interceptors to apply globally.
+   * @return {void}
+   */
+  public abstract setGlobalInterceptors(
+    interceptors: (Interceptor | InterceptorFn)[],
+  ): void;
 }
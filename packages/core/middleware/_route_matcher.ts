@@ -0,0 +1,95 @@
+import type { Type } from "@denorid/injector";
+import type { HttpMethod } from "../http/method.ts";
+import type { MiddlewareConfiguration, RouteSelector } from "./consumer.ts";
+import type { MiddlewareBinding } from "./execute.ts";
+
+/**
+ * A registered route, as seen by the middleware route selectors.
+ */
+export interface MiddlewareRoute {
+  /** The controller class owning the route. */
+  controller: Type;
+  /** The full route path, including the application's `basePath`. */
+  path: string;
+  /** The HTTP method of the route. */
+  method: HttpMethod;
+}
+
+/**
+ * Collects the middleware of all configurations selecting the given route.
+ *
+ * @param {MiddlewareConfiguration[]} configurations - The collected bindings.
+ * @param {MiddlewareRoute} route - The registered route.
+ * @param {string} basePath - The application's `basePath`, prepended to path selectors.
+ * @returns {MiddlewareBinding[]} The middleware of the route, outermost first.
+ */
+export function getRouteMiddleware(
+  configurations: MiddlewareConfiguration[],
+  route: MiddlewareRoute,
+  basePath: string,
+): MiddlewareBinding[] {
+  return configurations
+    .filter(({ routes, exclude }) =>
+      routes.some((selector) => matchesRoute(selector, route, basePath)) &&
+      !exclude.some((selector) => matchesRoute(selector, route, basePath))
+    )
+    .flatMap(({ middleware, moduleRef }) =>
+      middleware.map((m) => ({ middleware: m, moduleRef }))
+    );
+}
+
+/**
+ * Checks wether a route selector selects the given route.
+ *
+ * @param {RouteSelector} selector - A path pattern, route info or controller class.
+ * @param {MiddlewareRoute} route - The registered route.
+ * @param {string} basePath - The application's `basePath`, prepended to path selectors.
+ * @returns {boolean} `true` if the route is selected, `false` otherwise.
+ */
+export function matchesRoute(
+  selector: RouteSelector,
+  route: MiddlewareRoute,
+  basePath: string,
+): boolean {
+  if (typeof selector === "function") {
+    return selector === route.controller;
+  }
+
+  const { path, method } = typeof selector === "string"
+    ? { path: selector, method: undefined }
+    : selector;
+
+  return (method === undefined || method === route.method) &&
+    compilePathPattern(`${basePath}/${path}`).test(route.path);
+}
+
+/**
+ * Compiles a path pattern to a regular expression matching route paths.
+ * `:name` segments match any single segment (including the parameter
+ * segments of route paths), `*` matches any characters and a trailing `/*`
+ * additionally matches the bare prefix.
+ */
+function compilePathPattern(pattern: string): RegExp {
+  const segments = pattern.split("/").filter(Boolean);
+
+  if (segments.length === 0) {
+    return /^\/$/;
+  }
+
+  const source = segments.map((segment, index) => {
+    if (segment === "*" && index === segments.length - 1) {
+      return "(?:/.*)?";
+    }
+    if (segment.startsWith(":")) {
+      return "/[^/]+";
+    }
+
+    return `/${
+      segment.split("*").map((part) =>
+        part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+      ).join(".*")
+    }`;
+  }).join("");
+
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,142 @@
+import type { ModuleRef } from "@denorid/injector";
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { HttpMethod } from "../http/method.ts";
+import {
+  getRouteMiddleware,
+  matchesRoute,
+  type MiddlewareRoute,
+} from "./_route_matcher.ts";
+
+class UsersController {}
+class OrdersController {}
+
+const route: MiddlewareRoute = {
+  controller: UsersController,
+  path: "/api/users/:id{[0-9]+}",
+  method: HttpMethod.GET,
+};
+
+describe(matchesRoute.name, () => {
+  it("matches controller classes", () => {
+    assertEquals(matchesRoute(UsersController, route, "/api"), true);
+    assertEquals(matchesRoute(OrdersController, route, "/api"), false);
+  });
+
+  it("matches path patterns relative to the base path", () => {
+    assertEquals(matchesRoute("/users/:id", route, "/api"), true);
+    assertEquals(matchesRoute("users/:userId/", route, "api"), true);
+    assertEquals(matchesRoute("/users/:id", route, ""), false);
+    assertEquals(matchesRoute("/users", route, "/api"), false);
+    assertEquals(matchesRoute("/orders/:id", route, "/api"), false);
+  });
+
+  it("matches wildcards", () => {
+    assertEquals(matchesRoute("*", route, "/api"), true);
+    assertEquals(matchesRoute("/users/*", route, "/api"), true);
+    assertEquals(matchesRoute("/us*/:id", route, "/api"), true);
+    assertEquals(matchesRoute("/orders/*", route, "/api"), false);
+    assertEquals(
+      matchesRoute("/users/*", { ...route, path: "/api/users" }, "/api"),
+      true,
+    );
+    assertEquals(
+      matchesRoute("/users/*", { ...route, path: "/api/users-admin" }, "/api"),
+      false,
+    );
+  });
+
+  it("matches the root path", () => {
+    assertEquals(matchesRoute("/", { ...route, path: "/" }, ""), true);
+    assertEquals(matchesRoute("/", route, ""), false);
+  });
+
+  it("matches route infos by path and method", () => {
+    assertEquals(
+      matchesRoute(
+        { path: "/users/:id", method: HttpMethod.GET },
+        route,
+        "/api",
+      ),
+      true,
+    );
+    assertEquals(
+      matchesRoute(
+        { path: "/users/:id", method: HttpMethod.POST },
+        route,
+        "/api",
+      ),
+      false,
+    );
+    assertEquals(matchesRoute({ path: "/users/*" }, route, "/api"), true);
+  });
+
+  it("escapes regular expression characters of literal segments", () => {
+    assertEquals(
+      matchesRoute("/v1.0", { ...route, path: "/v1.0" }, ""),
+      true,
+    );
+    assertEquals(
+      matchesRoute("/v1.0", { ...route, path: "/v1x0" }, ""),
+      false,
+    );
+  });
+});
+
+describe(getRouteMiddleware.name, () => {
+  const moduleRef = {} as ModuleRef;
+  const first = () => undefined;
+  const second = () => undefined;
+
+  it("collects the middleware of matching configurations in order", () => {
+    assertEquals(
+      getRouteMiddleware(
+        [
+          {
+            middleware: [first, second],
+            routes: ["*"],
+            exclude: [],
+            moduleRef,
+          },
+          {
+            middleware: [second],
+            routes: [OrdersController],
+            exclude: [],
+            moduleRef,
+          },
+          {
+            middleware: [first],
+            routes: [UsersController],
+            exclude: [],
+            moduleRef,
+          },
+        ],
+        route,
+        "/api",
+      ),
+      [
+        { middleware: first, moduleRef },
+        { middleware: second, moduleRef },
+        { middleware: first, moduleRef },
+      ],
+    );
+  });
+
+  it("skips excluded routes", () => {
+    assertEquals(
+      getRouteMiddleware(
+        [
+          {
+            middleware: [first],
+            routes: ["*"],
+            exclude: [{ path: "/users/:id", method: HttpMethod.GET }],
+            moduleRef,
+          },
+        ],
+        route,
+        "/api",
+      ),
+      [],
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import type { ModuleRef, Type } from "@denorid/injector";
+import type { HttpMethod } from "../http/method.ts";
+import type { Middleware, MiddlewareFn } from "./middleware.ts";
+
+/**
+ * Describes a route by its path and, optionally, its HTTP method.
+ */
+export interface RouteInfo {
+  /**
+   * The route path, relative to the application's `basePath`. `:name`
+   * segments match any single segment, `*` matches any suffix.
+   */
+  path: string;
+  /**
+   * The HTTP method, any method if omitted.
+   */
+  method?: HttpMethod;
+}
+
+/**
+ * A route selector accepted by {@link MiddlewareConfigProxy.forRoutes} and
+ * {@link MiddlewareConfigProxy.exclude}: a path pattern, a {@link RouteInfo}
+ * or a controller class selecting all of its routes.
+ */
+export type RouteSelector = string | RouteInfo | Type;
+
+/**
+ * Middleware bound to a set of routes, collected by a
+ * {@link MiddlewareConsumer}.
+ */
+export interface MiddlewareConfiguration {
+  /**
+   * The middleware, outermost first.
+   */
+  middleware: (Type<Middleware> | Middleware | MiddlewareFn)[];
+  /**
+   * The routes the middleware applies to.
+   */
+  routes: RouteSelector[];
+  /**
+   * Routes excluded from {@link routes}.
+   */
+  exclude: RouteSelector[];
+  /**
+   * Module reference of the configuring module, class middleware is resolved
+   * from it.
+   */
+  moduleRef: ModuleRef;
+}
+
+/**
+ * Fluent interface returned by {@link MiddlewareConsumer.apply}.
+ */
+export interface MiddlewareConfigProxy {
+  /**
+   * Excludes routes from the middleware.
+   *
+   * @param {...RouteSelector} routes - The excluded routes.
+   * @return {MiddlewareConfigProxy} The proxy, for chaining.
+   */
+  exclude(...routes: RouteSelector[]): MiddlewareConfigProxy;
+
+  /**
+   * Binds the middleware to the given routes.
+   *
+   * @param {...RouteSelector} routes - The routes the middleware applies to.
+   * @return {MiddlewareConsumer} The consumer, to bind further middleware.
+   */
+  forRoutes(...routes: RouteSelector[]): MiddlewareConsumer;
+}
+
+/**
+ * Collects the middleware bindings of a module, see
+ * {@link MiddlewareModule.configure}.
+ *
+ * @example
+ * ```ts
+ * consumer
+ *   .apply(LoggerMiddleware, tenantMiddleware)
+ *   .exclude({ path: "/health", method: HttpMethod.GET })
+ *   .forRoutes("*");
+ * ```
+ */
+export class MiddlewareConsumer {
+  private readonly configurations: MiddlewareConfiguration[] = [];
+
+  /**
+   * @param {ModuleRef} moduleRef - Module reference of the configuring module.
+   */
+  public constructor(private readonly moduleRef: ModuleRef) {}
+
+  /**
+   * Starts a middleware binding. The middleware run in the given order,
+   * before the guards of the matched routes.
+   *
+   * @param {...(Type<Middleware> | Middleware | MiddlewareFn)} middleware - Middleware
+   *   classes (resolved via DI in the request scope), instances or functions.
+   * @return {MiddlewareConfigProxy} A proxy selecting the routes.
+   */
+  public apply(
+    ...middleware: (Type<Middleware> | Middleware | MiddlewareFn)[]
+  ): MiddlewareConfigProxy {
+    const exclude: RouteSelector[] = [];
+    const proxy: MiddlewareConfigProxy = {
+      exclude: (...routes) => {
+        exclude.push(...routes);
+
+        return proxy;
+      },
+      forRoutes: (...routes) => {
+        this.configurations.push({
+          middleware,
+          routes,
+          exclude,
+          moduleRef: this.moduleRef,
+        });
+
+        return this;
+      },
+    };
+
+    return proxy;
+  }
+
+  /**
+   * Get the middleware bindings collected so far.
+   *
+   * @return {MiddlewareConfiguration[]} The bindings in configuration order.
+   */
+  public getConfigurations(): MiddlewareConfiguration[] {
+    return [...this.configurations];
+  }
+}
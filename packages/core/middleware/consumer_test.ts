@@ -0,0 +1,62 @@
+import type { ModuleRef } from "@denorid/injector";
+import { assertEquals, assertStrictEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { HttpMethod } from "../http/method.ts";
+import { MiddlewareConsumer } from "./consumer.ts";
+import { isMiddlewareModule } from "./middleware.ts";
+
+describe(MiddlewareConsumer.name, () => {
+  const moduleRef = {} as ModuleRef;
+
+  it("starts without configurations", () => {
+    assertEquals(new MiddlewareConsumer(moduleRef).getConfigurations(), []);
+  });
+
+  it("collects the bound middleware with routes and exclusions", () => {
+    class LoggerMiddleware {
+      public use(): void {}
+    }
+    const tenant = () => undefined;
+    const consumer = new MiddlewareConsumer(moduleRef);
+
+    const result = consumer
+      .apply(LoggerMiddleware, tenant)
+      .exclude("/health")
+      .exclude({ path: "/metrics", method: HttpMethod.GET })
+      .forRoutes("*")
+      .apply(tenant)
+      .forRoutes({ path: "/users", method: HttpMethod.POST });
+
+    assertStrictEquals(result, consumer);
+    assertEquals(consumer.getConfigurations(), [
+      {
+        middleware: [LoggerMiddleware, tenant],
+        routes: ["*"],
+        exclude: ["/health", { path: "/metrics", method: HttpMethod.GET }],
+        moduleRef,
+      },
+      {
+        middleware: [tenant],
+        routes: [{ path: "/users", method: HttpMethod.POST }],
+        exclude: [],
+        moduleRef,
+      },
+    ]);
+  });
+
+  it("ignores bindings without forRoutes()", () => {
+    const consumer = new MiddlewareConsumer(moduleRef);
+
+    consumer.apply(() => undefined).exclude("/health");
+
+    assertEquals(consumer.getConfigurations(), []);
+  });
+});
+
+describe(isMiddlewareModule.name, () => {
+  it("detects modules with a configure() method", () => {
+    assertEquals(isMiddlewareModule({ configure: () => {} }), true);
+    assertEquals(isMiddlewareModule({}), false);
+    assertEquals(isMiddlewareModule(null), false);
+  });
+});
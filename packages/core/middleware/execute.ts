@@ -0,0 +1,60 @@
+import type { ModuleRef, Type } from "@denorid/injector";
+import type { RequestContext } from "../http/request_context.ts";
+import { isClass, isFunction } from "../type_guards.ts";
+import type { Middleware, MiddlewareFn } from "./middleware.ts";
+
+/**
+ * A middleware together with the module reference it is resolved from.
+ */
+export interface MiddlewareBinding {
+  /**
+   * The middleware class, instance or function.
+   */
+  middleware: Type<Middleware> | Middleware | MiddlewareFn;
+  /**
+   * Module reference used to resolve class middleware.
+   */
+  moduleRef: ModuleRef;
+}
+
+/**
+ * Runs `handler` wrapped by the given middleware.
+ *
+ * The first middleware is the outermost one; each middleware receives a
+ * `next()` function invoking the next one, the last `next()` invokes
+ * `handler`. Class middleware is resolved from the module reference of its
+ * binding within the request's `contextId`.
+ *
+ * @param {RequestContext} ctx - The context of the in-flight request.
+ * @param {MiddlewareBinding[]} middleware - Middleware, outermost first.
+ * @param {() => unknown} handler - Invokes the rest of the request pipeline.
+ * @returns {Promise<unknown>} The value returned by the outermost middleware.
+ */
+export function executeMiddleware(
+  ctx: RequestContext,
+  middleware: MiddlewareBinding[],
+  handler: () => unknown,
+): Promise<unknown> {
+  const dispatch = async (index: number): Promise<unknown> => {
+    if (index >= middleware.length) {
+      return await handler();
+    }
+
+    const { middleware: current, moduleRef } = middleware[index];
+    const next = () => dispatch(index + 1);
+
+    if (isClass<Middleware>(current)) {
+      return await (await moduleRef.get(current, {
+        contextId: ctx.contextId,
+        strict: false,
+      })).use(ctx, next);
+    }
+    if (isFunction<MiddlewareFn>(current)) {
+      return await current(ctx, next);
+    }
+
+    return await current.use(ctx, next);
+  };
+
+  return dispatch(0);
+}
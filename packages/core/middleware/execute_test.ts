@@ -0,0 +1,114 @@
+import type { ModuleRef, Type } from "@denorid/injector";
+import { assertEquals, assertRejects } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { spy } from "@std/testing/mock";
+import type { RequestContext } from "../http/request_context.ts";
+import { executeMiddleware } from "./execute.ts";
+import type { Middleware, MiddlewareFn, NextFn } from "./middleware.ts";
+
+function makeModuleRef(...pairs: [Type, unknown][]): ModuleRef {
+  const map = new Map<Type, unknown>(pairs);
+
+  return {
+    get: spy((type: Type, _opts: unknown) => Promise.resolve(map.get(type))),
+  } as unknown as ModuleRef;
+}
+
+const requestContext = { contextId: "ctx-1" } as RequestContext;
+
+describe(executeMiddleware.name, () => {
+  it("invokes the handler directly when no middleware is given", async () => {
+    const result = await executeMiddleware(
+      requestContext,
+      [],
+      () => "handled",
+    );
+
+    assertEquals(result, "handled");
+  });
+
+  it("runs middleware outermost first", async () => {
+    const moduleRef = makeModuleRef();
+    const order: string[] = [];
+    const record = (name: string): MiddlewareFn => async (_ctx, next) => {
+      order.push(`${name}:before`);
+      const result = await next();
+      order.push(`${name}:after`);
+
+      return result;
+    };
+
+    await executeMiddleware(
+      requestContext,
+      [
+        { middleware: record("a"), moduleRef },
+        { middleware: record("b"), moduleRef },
+      ],
+      () => {
+        order.push("handler");
+      },
+    );
+
+    assertEquals(order, [
+      "a:before",
+      "b:before",
+      "handler",
+      "b:after",
+      "a:after",
+    ]);
+  });
+
+  it("short-circuits when a middleware does not call next()", async () => {
+    const handler = spy(() => "handled");
+
+    const result = await executeMiddleware(
+      requestContext,
+      [{ middleware: { use: () => "blocked" }, moduleRef: makeModuleRef() }],
+      handler,
+    );
+
+    assertEquals(result, "blocked");
+    assertEquals(handler.calls.length, 0);
+  });
+
+  it("resolves class middleware from its module within the request scope", async () => {
+    class TenantMiddleware implements Middleware {
+      public use(ctx: RequestContext, next: NextFn): Promise<unknown> {
+        return next().then((result) => `${ctx.contextId}:${result}`);
+      }
+    }
+
+    const moduleRef = makeModuleRef([TenantMiddleware, new TenantMiddleware()]);
+
+    const result = await executeMiddleware(
+      requestContext,
+      [{ middleware: TenantMiddleware, moduleRef }],
+      () => "handled",
+    );
+
+    assertEquals(result, "ctx-1:handled");
+    assertEquals(
+      (moduleRef.get as unknown as { calls: { args: unknown[] }[] }).calls[0]
+        .args,
+      [TenantMiddleware, { contextId: "ctx-1", strict: false }],
+    );
+  });
+
+  it("propagates errors thrown by middleware", async () => {
+    await assertRejects(
+      () =>
+        executeMiddleware(
+          requestContext,
+          [{
+            middleware: () => {
+              throw new Error("boom");
+            },
+            moduleRef: makeModuleRef(),
+          }],
+          () => "handled",
+        ),
+      Error,
+      "boom",
+    );
+  });
+});
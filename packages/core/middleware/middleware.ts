@@ -0,0 +1,73 @@
+import type { RequestContext } from "../http/request_context.ts";
+import type { MiddlewareConsumer } from "./consumer.ts";
+
+/**
+ * Function invoking the next middleware or, once the chain is exhausted, the
+ * guards, interceptors and the route handler.
+ *
+ * @returns {Promise<unknown>} The response produced by the rest of the chain.
+ */
+export type NextFn = () => Promise<unknown>;
+
+/**
+ * Interface defining the `use()` function that must be implemented by a
+ * middleware. A middleware runs before the guards of a route and may inspect
+ * or enrich the request, run logic after the rest of the chain or
+ * short-circuit it by returning a value without calling `next()`.
+ */
+export interface Middleware {
+  /**
+   * @param {RequestContext} ctx The context of the in-flight request.
+   * @param {NextFn} next Invokes the rest of the chain.
+   *
+   * @returns {unknown} The response, usually the value returned by `next()`.
+   */
+  use(ctx: RequestContext, next: NextFn): unknown;
+}
+
+/**
+ * Type defining the middleware function signature. Behaves exactly like
+ * {@link Middleware.use}.
+ *
+ * @param {RequestContext} ctx The context of the in-flight request.
+ * @param {NextFn} next Invokes the rest of the chain.
+ *
+ * @returns {unknown} The response, usually the value returned by `next()`.
+ */
+export type MiddlewareFn = (ctx: RequestContext, next: NextFn) => unknown;
+
+/**
+ * Interface implemented by modules which bind middleware to routes.
+ *
+ * @example Usage
+ * ```ts
+ * \@Module({ providers: [UsersController, TenantMiddleware] })
+ * class UsersModule implements MiddlewareModule {
+ *   public configure(consumer: MiddlewareConsumer): void {
+ *     consumer.apply(TenantMiddleware).forRoutes(UsersController);
+ *   }
+ * }
+ * ```
+ */
+export interface MiddlewareModule {
+  /**
+   * Called once while the HTTP application initializes, before any route is
+   * registered.
+   *
+   * @param {MiddlewareConsumer} consumer Collects the middleware bindings of the module.
+   *
+   * @returns {Promise<void>|void}
+   */
+  configure(consumer: MiddlewareConsumer): Promise<void> | void;
+}
+
+/**
+ * Checks wether the given module instance implements {@link MiddlewareModule}.
+ *
+ * @param {unknown} value The module instance.
+ * @returns {boolean} `true` if `value` has a `configure()` method, `false` otherwise.
+ */
+export function isMiddlewareModule(value: unknown): value is MiddlewareModule {
+  return typeof value === "object" && value !== null &&
+    typeof (value as Partial<MiddlewareModule>).configure === "function";
+}
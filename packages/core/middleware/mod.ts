@@ -0,0 +1,58 @@
+/**
+ * Middleware - request pre-processing for Denorid HTTP applications.
+ *
+ * A middleware runs before the guards of a route, inside the request scope.
+ * It can inspect or enrich the request (e.g. request logging or tenant
+ * resolution), run logic after the rest of the pipeline or short-circuit it
+ * by returning a response without calling `next()`.
+ *
+ * ### Implementing a middleware
+ *
+ * Implement the {@link Middleware} interface or provide a plain
+ * {@link MiddlewareFn} function:
+ *
+ * ```ts
+ * import type { Middleware, NextFn, RequestContext } from "@denorid/core";
+ *
+ * class LoggerMiddleware implements Middleware {
+ *   public async use(ctx: RequestContext, next: NextFn) {
+ *     const start = performance.now();
+ *     const response = await next();
+ *     console.log(`${ctx.contextId} took ${performance.now() - start}ms`);
+ *     return response;
+ *   }
+ * }
+ * ```
+ *
+ * ### Binding middleware
+ *
+ * Modules implementing {@link MiddlewareModule} bind middleware to routes
+ * selected by path pattern, HTTP method or controller class:
+ *
+ * ```ts
+ * import { HttpMethod, type MiddlewareConsumer } from "@denorid/core";
+ * import { Module } from "@denorid/injector";
+ *
+ * @Module({ providers: [UsersController] })
+ * class UsersModule {
+ *   public configure(consumer: MiddlewareConsumer): void {
+ *     consumer
+ *       .apply(LoggerMiddleware)
+ *       .exclude({ path: "/users/health", method: HttpMethod.GET })
+ *       .forRoutes(UsersController);
+ *   }
+ * }
+ * ```
+ *
+ * Class middleware is resolved from the configuring module within the
+ * request scope, so it can inject request-scoped providers.
+ *
+ * @see {@link Middleware}
+ * @see {@link MiddlewareFn}
+ * @see {@link MiddlewareConsumer}
+ *
+ * @module
+ */
+export * from "./consumer.ts";
+export * from "./execute.ts";
+export * from "./middleware.ts";
@@ -36,7 +36,11 @@ export {
   type HttpCoreApplicationOptions,
   type InternalHttpApplicationOptions,
 } from "./http_application.ts";
+export * from "./interceptors/mod.ts";
 export * from "./microservices/mod.ts";
+export * from "./middleware/mod.ts";
 export * from "./pipes/mod.ts";
+export * from "./reflector/mod.ts";
 export * from "./rpc_host_arguments.ts";
 export * from "./type_guards.ts";
+export * from "./websockets/mod.ts";
@@ -4,8 +4,11 @@ import type { Type } from "@denorid/injector";
  * Metadata describing the route argument that a pipe is currently processing.
  */
 export interface ArgumentMetadata {
-  /** Whether the argument originates from a query string or a path parameter. */
-  readonly type: "query" | "param";
+  /**
+   * Whether the argument originates from a query string, a path parameter or
+   * a host parameter.
+   */
+  readonly type: "query" | "param" | "host";
   /** The metatype (constructor) of the expected value, if available. */
   readonly metatype?: Type;
   /** The name of the argument (e.g. the query key or param segment name). */
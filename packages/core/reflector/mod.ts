@@ -0,0 +1,37 @@
+/**
+ * Reflector - custom route metadata for Denorid.
+ *
+ * {@link SetMetadata} and decorators created by {@link createDecorator}
+ * attach custom metadata (roles, permissions, "public" flags, ...) to
+ * controller, gateway and handler classes or to single handler methods. The
+ * globally registered {@link Reflector} reads it, typically in guards and
+ * interceptors:
+ *
+ * ```ts
+ * import { createDecorator, type ExecutionContext, Reflector } from "@denorid/core";
+ *
+ * export const Public = createDecorator<boolean>("public");
+ *
+ * class AuthGuard implements CanActivate {
+ *   @Inject(Reflector)
+ *   private readonly reflector!: Reflector;
+ *
+ *   public canActivate(context: ExecutionContext): boolean {
+ *     return this.reflector.getAllAndOverride(Public, [
+ *       context.getHandler(),
+ *       context.getClass(),
+ *     ]) === true || isAuthenticated(context);
+ *   }
+ * }
+ * ```
+ *
+ * @module
+ */
+export * from "./reflector.ts";
+export {
+  createDecorator,
+  type CustomDecorator,
+  type MetadataKey,
+  type ReflectableDecorator,
+  SetMetadata,
+} from "./set_metadata.ts";
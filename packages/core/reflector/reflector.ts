@@ -0,0 +1,162 @@
+import { Injectable } from "@denorid/injector";
+import {
+  getCustomMetadata,
+  type MetadataKey,
+  type ReflectableDecorator,
+} from "./set_metadata.ts";
+
+/**
+ * Reads the custom metadata attached via `SetMetadata()` or decorators created
+ * by `createDecorator()`.
+ *
+ * The targets are classes and handler methods, typically obtained from
+ * `ExecutionContext.getClass()` and `ExecutionContext.getHandler()` of HTTP
+ * routes, WebSocket and message handlers, KV queue handlers or AMQP
+ * consumers. The reflector is registered globally and can be injected into
+ * guards and interceptors.
+ *
+ * @example
+ * ```ts
+ * \@Injectable()
+ * class RolesGuard implements CanActivate {
+ *   \@Inject(Reflector)
+ *   private readonly reflector!: Reflector;
+ *
+ *   public canActivate(context: ExecutionContext): boolean {
+ *     const roles = this.reflector.getAllAndOverride(Roles, [
+ *       context.getHandler(),
+ *       context.getClass(),
+ *     ]);
+ *
+ *     return !roles || roles.some((role) => hasRole(context, role));
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class Reflector {
+  /**
+   * Get the metadata of a decorator created by `createDecorator()`.
+   *
+   * @template T The metadata value type.
+   * @param {ReflectableDecorator<T>} decorator - The decorator factory.
+   * @param {object} target - The class or handler method.
+   * @return {T | undefined} The metadata value.
+   */
+  public get<T>(
+    decorator: ReflectableDecorator<T>,
+    target: object,
+  ): T | undefined;
+  /**
+   * Get the metadata attached under the given key.
+   *
+   * @template T The metadata value type.
+   * @param {MetadataKey} key - The metadata key.
+   * @param {object} target - The class or handler method.
+   * @return {T | undefined} The metadata value.
+   */
+  public get<T = unknown>(key: MetadataKey, target: object): T | undefined;
+  public get<T>(
+    key: MetadataKey | ReflectableDecorator<T>,
+    target: object,
+  ): T | undefined {
+    return getCustomMetadata(this.resolveKey(key), target) as T | undefined;
+  }
+
+  /**
+   * Get the metadata of each target.
+   *
+   * @template T The metadata value type.
+   * @param {MetadataKey | ReflectableDecorator<T>} key - The metadata key or decorator factory.
+   * @param {object[]} targets - The classes and handler methods.
+   * @return {(T | undefined)[]} The metadata values, in order of `targets`.
+   */
+  public getAll<T = unknown>(
+    key: MetadataKey | ReflectableDecorator<T>,
+    targets: object[],
+  ): (T | undefined)[] {
+    return targets.map((target) =>
+      getCustomMetadata(this.resolveKey(key), target) as T | undefined
+    );
+  }
+
+  /**
+   * Get the first metadata value defined on the targets, e.g. the handler
+   * metadata overriding the class metadata for
+   * `[context.getHandler(), context.getClass()]`.
+   *
+   * @template T The metadata value type.
+   * @param {MetadataKey | ReflectableDecorator<T>} key - The metadata key or decorator factory.
+   * @param {object[]} targets - The classes and handler methods, most specific first.
+   * @return {T | undefined} The first defined metadata value.
+   */
+  public getAllAndOverride<T = unknown>(
+    key: MetadataKey | ReflectableDecorator<T>,
+    targets: object[],
+  ): T | undefined {
+    return this.getAll(key, targets).find((value) => value !== undefined);
+  }
+
+  /**
+   * Merges the metadata values defined on the targets. Arrays are
+   * concatenated and objects are shallowly merged (later targets win),
+   * other values are collected into an array.
+   *
+   * @template T The merged metadata type.
+   * @param {ReflectableDecorator<T>} decorator - The decorator factory.
+   * @param {object[]} targets - The classes and handler methods.
+   * @return {T | undefined} The merged metadata, or `undefined` if no target has metadata.
+   */
+  public getAllAndMerge<T>(
+    decorator: ReflectableDecorator<T>,
+    targets: object[],
+  ): T | undefined;
+  /**
+   * Merges the metadata values attached under the given key.
+   *
+   * @template T The merged metadata type.
+   * @param {MetadataKey} key - The metadata key.
+   * @param {object[]} targets - The classes and handler methods.
+   * @return {T | undefined} The merged metadata, or `undefined` if no target has metadata.
+   */
+  public getAllAndMerge<T = unknown>(
+    key: MetadataKey,
+    targets: object[],
+  ): T | undefined;
+  public getAllAndMerge<T>(
+    key: MetadataKey | ReflectableDecorator<T>,
+    targets: object[],
+  ): T | undefined {
+    const values = this.getAll(this.resolveKey(key), targets).filter((value) =>
+      value !== undefined
+    );
+
+    if (values.length === 0) {
+      return undefined;
+    }
+    if (values.length === 1) {
+      return values[0] as T;
+    }
+
+    return values.reduce((merged, value) => {
+      if (Array.isArray(merged)) {
+        return merged.concat(value);
+      }
+      if (isRecord(merged) && isRecord(value)) {
+        return { ...merged, ...value };
+      }
+
+      return [merged, value];
+    }) as T;
+  }
+
+  private resolveKey<T>(
+    key: MetadataKey | ReflectableDecorator<T>,
+  ): MetadataKey {
+    return typeof key === "function" ? key.KEY : key;
+  }
+}
+
+function isRecord(value: unknown): value is Record<PropertyKey, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,137 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { RpcExecutionContext } from "../rpc_host_arguments.ts";
+import { Reflector } from "./reflector.ts";
+import { createDecorator, SetMetadata } from "./set_metadata.ts";
+
+const Roles = createDecorator<string[]>("roles");
+
+@Roles(["user"])
+@SetMetadata("options", { cache: true, ttl: 10 })
+@SetMetadata("scope", "class")
+class OrdersController {
+  @Roles(["admin"])
+  @SetMetadata("options", { ttl: 60 })
+  public remove(): void {}
+
+  public list(): void {}
+}
+
+describe(Reflector.name, () => {
+  const reflector = new Reflector();
+
+  describe("get()", () => {
+    it("reads the metadata of decorators and keys", () => {
+      assertEquals(reflector.get(Roles, OrdersController), ["user"]);
+      assertEquals(
+        reflector.get(Roles, OrdersController.prototype.remove),
+        ["admin"],
+      );
+      assertEquals(reflector.get("scope", OrdersController), "class");
+      assertEquals(
+        reflector.get("scope", OrdersController.prototype.remove),
+        undefined,
+      );
+    });
+
+    it("reads the metadata of the execution context targets", () => {
+      const instance = new OrdersController();
+      const context = new RpcExecutionContext(
+        "orders.remove",
+        {},
+        OrdersController,
+        instance.remove,
+      );
+
+      assertEquals(reflector.get(Roles, context.getHandler()), ["admin"]);
+      assertEquals(reflector.get(Roles, context.getClass()), ["user"]);
+    });
+  });
+
+  describe("getAll()", () => {
+    it("returns the metadata of each target", () => {
+      assertEquals(
+        reflector.getAll("scope", [
+          OrdersController.prototype.remove,
+          OrdersController,
+        ]),
+        [undefined, "class"],
+      );
+    });
+  });
+
+  describe("getAllAndOverride()", () => {
+    it("returns the first defined metadata", () => {
+      assertEquals(
+        reflector.getAllAndOverride(Roles, [
+          OrdersController.prototype.remove,
+          OrdersController,
+        ]),
+        ["admin"],
+      );
+      assertEquals(
+        reflector.getAllAndOverride(Roles, [
+          OrdersController.prototype.list,
+          OrdersController,
+        ]),
+        ["user"],
+      );
+      assertEquals(
+        reflector.getAllAndOverride("missing", [OrdersController]),
+        undefined,
+      );
+    });
+  });
+
+  describe("getAllAndMerge()", () => {
+    it("concatenates arrays", () => {
+      assertEquals(
+        reflector.getAllAndMerge(Roles, [
+          OrdersController.prototype.remove,
+          OrdersController,
+        ]),
+        ["admin", "user"],
+      );
+    });
+
+    it("merges objects, later targets win", () => {
+      assertEquals(
+        reflector.getAllAndMerge("options", [
+          OrdersController.prototype.remove,
+          OrdersController,
+        ]),
+        { ttl: 10, cache: true },
+      );
+    });
+
+    it("collects other values into an array", () => {
+      @SetMetadata("scope", "class")
+      class ScopedController {
+        @SetMetadata("scope", "method")
+        public index(): void {}
+      }
+
+      assertEquals(
+        reflector.getAllAndMerge("scope", [
+          ScopedController.prototype.index,
+          ScopedController,
+        ]),
+        ["method", "class"],
+      );
+    });
+
+    it("returns single values as is and undefined without metadata", () => {
+      assertEquals(
+        reflector.getAllAndMerge("scope", [
+          OrdersController.prototype.remove,
+          OrdersController,
+        ]),
+        "class",
+      );
+      assertEquals(
+        reflector.getAllAndMerge("missing", [OrdersController]),
+        undefined,
+      );
+    });
+  });
+});
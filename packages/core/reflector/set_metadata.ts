@@ -0,0 +1,133 @@
+import {
+  type ClassMethodDecoratorInitializer,
+  type Decorator,
+  InvalidStaticMemberDecoratorUsageError,
+  type MethodDecorator,
+  type Type,
+} from "@denorid/injector";
+
+/** Key of custom metadata attached via {@link SetMetadata}. */
+export type MetadataKey = string | symbol;
+
+/** A decorator applicable to classes and non-static methods. */
+export type CustomDecorator =
+  & Decorator<ClassDecoratorContext, Type>
+  & MethodDecorator;
+
+/**
+ * A typed decorator factory created by {@link createDecorator}. The factory
+ * itself is accepted as key by the {@link Reflector}.
+ *
+ * @template T The metadata value type.
+ */
+export interface ReflectableDecorator<T> {
+  /**
+   * @param {T} value - The metadata value.
+   * @return {CustomDecorator} A decorator applicable to classes and non-static methods.
+   */
+  (value: T): CustomDecorator;
+  /** The metadata key the decorator writes to. */
+  readonly KEY: symbol;
+}
+
+// Keyed by the decorated class or method, which is exactly what
+// `ExecutionContext.getClass()` and `getHandler()` return.
+const customMetadata = new WeakMap<object, Map<MetadataKey, unknown>>();
+
+/**
+ * Get the custom metadata attached to a class or method.
+ *
+ * @param {MetadataKey} key - The metadata key.
+ * @param {object} target - The class or method.
+ * @return {unknown} The metadata value, or `undefined` if none is attached.
+ */
+export function getCustomMetadata(key: MetadataKey, target: object): unknown {
+  return customMetadata.get(target)?.get(key);
+}
+
+/**
+ * Attaches custom metadata to a controller, gateway or handler class or to a
+ * single handler method, readable by guards and interceptors via the
+ * {@link Reflector}.
+ *
+ * @example
+ * ```ts
+ * \@SetMetadata("roles", ["admin"])
+ * \@Controller("/admin")
+ * class AdminController {
+ *   \@Get("/health")
+ *   \@SetMetadata("public", true)
+ *   health(): string {}
+ * }
+ * ```
+ *
+ * @template T The metadata value type.
+ * @param {MetadataKey} key - The metadata key.
+ * @param {T} value - The metadata value.
+ * @return {CustomDecorator} A decorator applicable to classes and non-static methods.
+ */
+export function SetMetadata<T = unknown>(
+  key: MetadataKey,
+  value: T,
+): CustomDecorator {
+  const decorator = function <
+    T extends object,
+    V extends ClassMethodDecoratorInitializer<T>,
+  >(
+    target: V,
+    ctx: ClassDecoratorContext | ClassMethodDecoratorContext<T, V>,
+  ): V {
+    if (ctx.kind === "method" && ctx.static) {
+      throw new InvalidStaticMemberDecoratorUsageError(
+        SetMetadata.name,
+        ctx.name,
+        "function",
+      );
+    }
+
+    let metadata = customMetadata.get(target);
+
+    if (!metadata) {
+      metadata = new Map();
+
+      customMetadata.set(target, metadata);
+    }
+
+    metadata.set(key, value);
+
+    return target;
+  };
+
+  return decorator as CustomDecorator;
+}
+
+/**
+ * Creates a typed decorator factory writing to a unique metadata key.
+ *
+ * @example
+ * ```ts
+ * const Roles = createDecorator<string[]>();
+ *
+ * \@Controller("/admin")
+ * class AdminController {
+ *   \@Get()
+ *   \@Roles(["admin"])
+ *   index(): string {}
+ * }
+ *
+ * // in a guard
+ * const roles = reflector.get(Roles, context.getHandler());
+ * ```
+ *
+ * @template T The metadata value type.
+ * @param {string} [description] - Description of the metadata key symbol, for debugging.
+ * @return {ReflectableDecorator<T>} The decorator factory.
+ */
+export function createDecorator<T>(
+  description?: string,
+): ReflectableDecorator<T> {
+  const key = Symbol(description);
+  const factory = (value: T): CustomDecorator => SetMetadata(key, value);
+
+  return Object.assign(factory, { KEY: key });
+}
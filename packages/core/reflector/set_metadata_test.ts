@@ -0,0 +1,84 @@
+import { InvalidStaticMemberDecoratorUsageError } from "@denorid/injector";
+import { assertEquals, assertNotEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  createDecorator,
+  getCustomMetadata,
+  SetMetadata,
+} from "./set_metadata.ts";
+
+describe("@SetMetadata()", () => {
+  it("attaches metadata to classes and methods", () => {
+    @SetMetadata("roles", ["admin"])
+    class AdminController {
+      @SetMetadata("public", true)
+      @SetMetadata("roles", ["guest"])
+      public health(): void {}
+
+      public index(): void {}
+    }
+
+    assertEquals(getCustomMetadata("roles", AdminController), ["admin"]);
+    assertEquals(getCustomMetadata("public", AdminController), undefined);
+    assertEquals(
+      getCustomMetadata("roles", AdminController.prototype.health),
+      ["guest"],
+    );
+    assertEquals(
+      getCustomMetadata("public", new AdminController().health),
+      true,
+    );
+    assertEquals(
+      getCustomMetadata("roles", AdminController.prototype.index),
+      undefined,
+    );
+  });
+
+  it("lets the innermost decorator win for the same key", () => {
+    class ExampleController {
+      @SetMetadata("scope", "outer")
+      @SetMetadata("scope", "inner")
+      public index(): void {}
+    }
+
+    assertEquals(
+      getCustomMetadata("scope", ExampleController.prototype.index),
+      "outer",
+    );
+  });
+
+  it("throws on static methods", () => {
+    assertThrows(
+      () => {
+        class _ExampleController {
+          @SetMetadata("public", true)
+          public static index(): void {}
+        }
+      },
+      InvalidStaticMemberDecoratorUsageError,
+    );
+  });
+});
+
+describe(createDecorator.name, () => {
+  it("creates decorators writing to a unique key", () => {
+    const Roles = createDecorator<string[]>("roles");
+    const OtherRoles = createDecorator<string[]>("roles");
+
+    class ExampleController {
+      @Roles(["admin"])
+      public index(): void {}
+    }
+
+    assertNotEquals(Roles.KEY, OtherRoles.KEY);
+    assertEquals(Roles.KEY.description, "roles");
+    assertEquals(
+      getCustomMetadata(Roles.KEY, ExampleController.prototype.index),
+      ["admin"],
+    );
+    assertEquals(
+      getCustomMetadata(OtherRoles.KEY, ExampleController.prototype.index),
+      undefined,
+    );
+  });
+});
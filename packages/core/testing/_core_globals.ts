@@ -0,0 +1,26 @@
+import { InjectorContext } from "@denorid/injector";
+import { ExceptionHandler } from "../exceptions/handler.ts";
+import { Reflector } from "../reflector/reflector.ts";
+
+/**
+ * Registers the global providers that the application bootstrap makes
+ * available.
+ *
+ * @param {InjectorContext} ctx - The injector context of the testing module.
+ */
+export function registerCoreGlobals(ctx: InjectorContext): void {
+  ctx.registerGlobal(
+    {
+      provide: ExceptionHandler,
+      useValue: new ExceptionHandler(ctx),
+    },
+    {
+      provide: InjectorContext,
+      useValue: ctx,
+    },
+    {
+      provide: Reflector,
+      useValue: new Reflector(),
+    },
+  );
+}
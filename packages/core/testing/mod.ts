@@ -16,7 +16,17 @@
  *
  * const svc = await module.get(MyService);
  * ```
+ *
+ * Controllers can be tested end-to-end without opening a port:
+ *
+ * ```ts
+ * const app = await module.createHttpApplication(new DenoAdapter());
+ *
+ * await app.request().get("/users").expect(200).expectJson([]);
+ * ```
  */
 export * from "./mock_factory.ts";
+export * from "./test_request.ts";
+export * from "./testing_http_application.ts";
 export * from "./testing_module.ts";
 export * from "./testing_module_builder.ts";
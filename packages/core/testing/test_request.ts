@@ -0,0 +1,344 @@
+/** Dispatches a request in-process, see {@linkcode HttpAdapter.fetch}. */
+export type TestFetch = (request: Request) => Promise<Response>;
+
+/** Values accepted by {@linkcode TestRequest.query}. */
+export type TestQueryValue =
+  | string
+  | number
+  | boolean
+  | (string | number | boolean)[];
+
+/**
+ * Thrown by a {@linkcode TestRequest} when the response does not meet an
+ * expectation.
+ */
+export class TestRequestAssertionError extends Error {
+  /**
+   * @param {string} message - What was expected and what was received.
+   * @param {Response} response - The received response.
+   */
+  public constructor(message: string, public readonly response: Response) {
+    super(message);
+
+    this.name = "TestRequestAssertionError";
+  }
+}
+
+/**
+ * A request built and asserted fluently. The request is sent when the
+ * instance is awaited, the expectations are checked in declaration order.
+ *
+ * @example
+ * ```ts
+ * const response = await app.request()
+ *   .post("/users")
+ *   .set("Authorization", "Bearer token")
+ *   .send({ name: "Ada" })
+ *   .expect(201)
+ *   .expectHeader("Location", /^\/users\/\d+$/)
+ *   .expectJson({ id: 1, name: "Ada" });
+ * ```
+ */
+export class TestRequest implements PromiseLike<Response> {
+  private readonly headers = new Headers();
+  private readonly expectations: ((response: Response) => Promise<void>)[] = [];
+  private body?: BodyInit;
+  private result?: Promise<Response>;
+
+  /**
+   * @param {TestFetch} fetch - Dispatches the request.
+   * @param {string} method - The HTTP method.
+   * @param {URL} url - The request URL.
+   */
+  public constructor(
+    private readonly fetch: TestFetch,
+    private readonly method: string,
+    private readonly url: URL,
+  ) {}
+
+  /**
+   * Sets a request header.
+   *
+   * @param {string} name - The header name.
+   * @param {string} value - The header value.
+   * @returns {this}
+   */
+  public set(name: string, value: string): this {
+    this.headers.set(name, value);
+
+    return this;
+  }
+
+  /**
+   * Appends query parameters to the URL; arrays append one parameter per
+   * value.
+   *
+   * @param {Record<string, TestQueryValue>} params - The query parameters.
+   * @returns {this}
+   */
+  public query(params: Record<string, TestQueryValue>): this {
+    for (const [name, value] of Object.entries(params)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        this.url.searchParams.append(name, String(item));
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Sets the request body. Strings, `FormData`, `URLSearchParams`, blobs,
+   * buffers and streams are sent as they are, any other value as JSON.
+   *
+   * @param {unknown} body - The request body.
+   * @returns {this}
+   */
+  public send(body: unknown): this {
+    if (isBodyInit(body)) {
+      this.body = body;
+    } else {
+      this.body = JSON.stringify(body);
+
+      if (!this.headers.has("content-type")) {
+        this.headers.set("content-type", "application/json");
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Expects the response status.
+   *
+   * @param {number} status - The expected status code.
+   * @returns {this}
+   */
+  public expect(status: number): this {
+    return this.addExpectation((response) => {
+      if (response.status !== status) {
+        throw new TestRequestAssertionError(
+          `${this.describe()}: expected status ${status}, got ${response.status}`,
+          response,
+        );
+      }
+    });
+  }
+
+  /**
+   * Expects a response header to equal a string or match a pattern.
+   *
+   * @param {string} name - The header name.
+   * @param {string | RegExp} expected - The expected value.
+   * @returns {this}
+   */
+  public expectHeader(name: string, expected: string | RegExp): this {
+    return this.addExpectation((response) => {
+      const value = response.headers.get(name);
+
+      if (
+        value === null ||
+        (typeof expected === "string"
+          ? value !== expected
+          : !expected.test(value))
+      ) {
+        throw new TestRequestAssertionError(
+          `${this.describe()}: expected header "${name}" to ${
+            typeof expected === "string" ? "equal" : "match"
+          } ${String(expected)}, got ${value === null ? "none" : `"${value}"`}`,
+          response,
+        );
+      }
+    });
+  }
+
+  /**
+   * Expects the response body to be JSON deeply equal to `expected`.
+   *
+   * @param {unknown} expected - The expected value.
+   * @returns {this}
+   */
+  public expectJson(expected: unknown): this {
+    return this.addExpectation(async (response) => {
+      const text = await response.clone().text();
+      let actual: unknown;
+
+      try {
+        actual = JSON.parse(text);
+      } catch {
+        throw new TestRequestAssertionError(
+          `${this.describe()}: expected a JSON body, got "${text}"`,
+          response,
+        );
+      }
+
+      if (!equals(actual, expected)) {
+        throw new TestRequestAssertionError(
+          `${this.describe()}: expected body ${
+            JSON.stringify(expected)
+          }, got ${text}`,
+          response,
+        );
+      }
+    });
+  }
+
+  /**
+   * Expects the response body to equal a string or match a pattern.
+   *
+   * @param {string | RegExp} expected - The expected body.
+   * @returns {this}
+   */
+  public expectText(expected: string | RegExp): this {
+    return this.addExpectation(async (response) => {
+      const text = await response.clone().text();
+
+      if (
+        typeof expected === "string" ? text !== expected : !expected.test(text)
+      ) {
+        throw new TestRequestAssertionError(
+          `${this.describe()}: expected body to ${
+            typeof expected === "string" ? "equal" : "match"
+          } ${JSON.stringify(String(expected))}, got ${JSON.stringify(text)}`,
+          response,
+        );
+      }
+    });
+  }
+
+  /**
+   * Sends the request once and checks the expectations.
+   *
+   * @returns {PromiseLike<TResult1 | TResult2>}
+   */
+  public then<TResult1 = Response, TResult2 = never>(
+    onfulfilled?:
+      | ((value: Response) => TResult1 | PromiseLike<TResult1>)
+      | null,
+    onrejected?:
+      | ((reason: unknown) => TResult2 | PromiseLike<TResult2>)
+      | null,
+  ): Promise<TResult1 | TResult2> {
+    this.result ??= this.execute();
+
+    return this.result.then(onfulfilled, onrejected);
+  }
+
+  private async execute(): Promise<Response> {
+    const response = await this.fetch(
+      new Request(this.url, {
+        method: this.method,
+        headers: this.headers,
+        body: this.body,
+      }),
+    );
+
+    for (const expectation of this.expectations) {
+      await expectation(response);
+    }
+
+    return response;
+  }
+
+  private addExpectation(
+    expectation: (response: Response) => void | Promise<void>,
+  ): this {
+    this.expectations.push(async (response) => await expectation(response));
+
+    return this;
+  }
+
+  private describe(): string {
+    return `${this.method} ${this.url.pathname}${this.url.search}`;
+  }
+}
+
+/**
+ * Creates {@linkcode TestRequest}s for one application, obtained via
+ * {@linkcode TestingHttpApplication.request}.
+ */
+export class TestRequestAgent {
+  /**
+   * @param {TestFetch} fetch - Dispatches the requests.
+   * @param {string} [origin="http://localhost"] - Origin of relative paths.
+   */
+  public constructor(
+    private readonly fetch: TestFetch,
+    private readonly origin: string = "http://localhost",
+  ) {}
+
+  /** Creates a `GET` request. */
+  public get(path: string): TestRequest {
+    return this.create("GET", path);
+  }
+
+  /** Creates a `POST` request. */
+  public post(path: string): TestRequest {
+    return this.create("POST", path);
+  }
+
+  /** Creates a `PUT` request. */
+  public put(path: string): TestRequest {
+    return this.create("PUT", path);
+  }
+
+  /** Creates a `PATCH` request. */
+  public patch(path: string): TestRequest {
+    return this.create("PATCH", path);
+  }
+
+  /** Creates a `DELETE` request. */
+  public delete(path: string): TestRequest {
+    return this.create("DELETE", path);
+  }
+
+  /** Creates a `HEAD` request. */
+  public head(path: string): TestRequest {
+    return this.create("HEAD", path);
+  }
+
+  /** Creates an `OPTIONS` request. */
+  public options(path: string): TestRequest {
+    return this.create("OPTIONS", path);
+  }
+
+  private create(method: string, path: string): TestRequest {
+    return new TestRequest(this.fetch, method, new URL(path, this.origin));
+  }
+}
+
+function isBodyInit(body: unknown): body is BodyInit {
+  return typeof body === "string" ||
+    body instanceof FormData ||
+    body instanceof URLSearchParams ||
+    body instanceof Blob ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    body instanceof ReadableStream;
+}
+
+/** Structural equality of JSON values. */
+function equals(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (
+    typeof a !== "object" || typeof b !== "object" || a === null || b === null
+  ) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+
+  return aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      Object.hasOwn(b, key) &&
+      equals(
+        (a as Record<string, unknown>)[key],
+        (b as Record<string, unknown>)[key],
+      )
+    );
+}
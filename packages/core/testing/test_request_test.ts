@@ -0,0 +1,121 @@
+import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCalls, spy } from "@std/testing/mock";
+import {
+  TestRequest,
+  TestRequestAgent,
+  TestRequestAssertionError,
+} from "./test_request.ts";
+
+describe(TestRequest.name, () => {
+  function createAgent(response: () => Response = () => new Response(null)) {
+    const fetch = spy((_request: Request) => Promise.resolve(response()));
+
+    return { agent: new TestRequestAgent(fetch), fetch };
+  }
+
+  it("sends the request once when awaited and resolves the response", async () => {
+    const { agent, fetch } = createAgent(() => new Response("ok"));
+    const request = agent.get("/users");
+
+    const response = await request;
+    await request;
+
+    assertSpyCalls(fetch, 1);
+    assertEquals(await response.text(), "ok");
+
+    const sent = fetch.calls[0].args[0];
+    assertEquals(sent.method, "GET");
+    assertEquals(sent.url, "http://localhost/users");
+  });
+
+  it("sends headers, query parameters and a JSON body", async () => {
+    const { agent, fetch } = createAgent();
+
+    await agent.post("/users?draft=1")
+      .set("Authorization", "Bearer token")
+      .query({ tag: ["a", "b"], page: 2 })
+      .send({ name: "Ada" });
+
+    const sent = fetch.calls[0].args[0];
+    assertEquals(sent.method, "POST");
+    assertEquals(sent.url, "http://localhost/users?draft=1&tag=a&tag=b&page=2");
+    assertEquals(sent.headers.get("authorization"), "Bearer token");
+    assertEquals(sent.headers.get("content-type"), "application/json");
+    assertEquals(await sent.json(), { name: "Ada" });
+  });
+
+  it("sends strings and form data as they are", async () => {
+    const { agent, fetch } = createAgent();
+    const form = new FormData();
+    form.set("name", "Ada");
+
+    await agent.put("/raw").set("content-type", "text/plain").send("raw");
+    await agent.patch("/form").send(form);
+
+    assertEquals(await fetch.calls[0].args[0].text(), "raw");
+    assertEquals(
+      (await fetch.calls[1].args[0].formData()).get("name"),
+      "Ada",
+    );
+  });
+
+  it("passes when the response meets every expectation", async () => {
+    const { agent } = createAgent(() =>
+      Response.json({ id: 1, tags: ["a"] }, {
+        status: 201,
+        headers: { location: "/users/1" },
+      })
+    );
+
+    const response = await agent.post("/users")
+      .expect(201)
+      .expectHeader("Location", "/users/1")
+      .expectHeader("Location", /^\/users\/\d+$/)
+      .expectJson({ tags: ["a"], id: 1 });
+
+    assertEquals(await response.json(), { id: 1, tags: ["a"] });
+  });
+
+  it("rejects with the first failed expectation", async () => {
+    const { agent } = createAgent(() => new Response("nope", { status: 404 }));
+
+    const error = await assertRejects(
+      () => agent.get("/users").expect(200).expectText("nope"),
+      TestRequestAssertionError,
+      "GET /users: expected status 200, got 404",
+    );
+
+    assertInstanceOf(error.response, Response);
+  });
+
+  it("rejects mismatching headers and bodies", async () => {
+    const { agent } = createAgent(() => Response.json({ id: 2 }));
+
+    await assertRejects(
+      () => agent.get("/").expectHeader("x-missing", "value"),
+      TestRequestAssertionError,
+      'expected header "x-missing" to equal value, got none',
+    );
+    await assertRejects(
+      () => agent.get("/").expectJson({ id: 1 }),
+      TestRequestAssertionError,
+      'expected body {"id":1}, got {"id":2}',
+    );
+    await assertRejects(
+      () => agent.get("/").expectText(/^id/),
+      TestRequestAssertionError,
+      "expected body to match",
+    );
+  });
+
+  it("rejects non-JSON bodies for JSON expectations", async () => {
+    const { agent } = createAgent(() => new Response("plain"));
+
+    await assertRejects(
+      () => agent.delete("/").expectJson({}),
+      TestRequestAssertionError,
+      'expected a JSON body, got "plain"',
+    );
+  });
+});
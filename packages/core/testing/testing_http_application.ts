@@ -0,0 +1,79 @@
+import type { InjectorContext, Type } from "@denorid/injector";
+import type { HttpAdapter } from "../http/adapter.ts";
+import {
+  HttpApplication,
+  type HttpApplicationOptions,
+} from "../http_application.ts";
+import { TestRequestAgent } from "./test_request.ts";
+
+/**
+ * An {@linkcode HttpApplication} answering requests in-process, without
+ * opening a port.
+ *
+ * Obtained by calling {@linkcode TestingModule.createHttpApplication}.
+ *
+ * @example
+ * ```ts
+ * const app = await module.createHttpApplication(new DenoAdapter());
+ *
+ * await app.request().get("/users").expect(200).expectJson([]);
+ * ```
+ */
+export class TestingHttpApplication extends HttpApplication {
+  private readonly fetchHandler: (request: Request) => Promise<Response>;
+
+  /**
+   * @param {Type} target - The class used to derive the logger name.
+   * @param {InjectorContext} ctx - The injector context of the testing module.
+   * @param {HttpAdapter} adapter - An adapter implementing {@linkcode HttpAdapter.fetch}.
+   * @param {HttpApplicationOptions} [options] - HTTP application options.
+   * @throws {TypeError} When the adapter cannot dispatch requests in-process.
+   */
+  public constructor(
+    target: Type,
+    ctx: InjectorContext,
+    adapter: HttpAdapter,
+    options: HttpApplicationOptions = {},
+  ) {
+    super(target, ctx, { ...options, adapter });
+
+    if (!adapter.fetch) {
+      throw new TypeError(
+        `${adapter.constructor.name} cannot dispatch requests in-process, it does not implement fetch()`,
+      );
+    }
+
+    this.fetchHandler = adapter.fetch.bind(adapter);
+  }
+
+  /**
+   * Dispatches a request through the adapter, initializing the application
+   * on first use. Relative URLs resolve against `http://localhost`.
+   *
+   * @param {string | URL | Request} input - The request or its URL.
+   * @param {RequestInit} [init] - The request options.
+   * @returns {Promise<Response>} The response.
+   */
+  public async fetch(
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> {
+    await this.init();
+
+    return await this.fetchHandler(
+      input instanceof Request
+        ? new Request(input, init)
+        : new Request(new URL(input, "http://localhost"), init),
+    );
+  }
+
+  /**
+   * Creates a {@linkcode TestRequestAgent} to build and assert requests
+   * fluently.
+   *
+   * @returns {TestRequestAgent}
+   */
+  public request(): TestRequestAgent {
+    return new TestRequestAgent((request) => this.fetch(request));
+  }
+}
@@ -0,0 +1,81 @@
+import type { InjectorContext } from "@denorid/injector";
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCalls, spy } from "@std/testing/mock";
+import type { HttpAdapter } from "../http/adapter.ts";
+import type { ControllerMapping } from "../http/controller_mapping.ts";
+import { TestingHttpApplication } from "./testing_http_application.ts";
+
+describe(TestingHttpApplication.name, () => {
+  class AppModule {}
+
+  function makeCtx(): InjectorContext {
+    return {
+      container: { getTokensByTag: () => [] },
+      resolveInternal: () => Promise.resolve(undefined),
+      getModuleRefs: () => new Map(),
+      onApplicationBootstrap: () => Promise.resolve(),
+    } as unknown as InjectorContext;
+  }
+
+  function makeAdapter() {
+    const register = spy(() => Promise.resolve());
+    const listen = spy(() =>
+      Promise.resolve<Deno.NetAddr>({
+        transport: "tcp",
+        hostname: "127.0.0.1",
+        port: 3000,
+      })
+    );
+    const adapter: HttpAdapter = {
+      listen,
+      close: () => Promise.resolve(),
+      createControllerMapping: () =>
+        ({ register }) as unknown as ControllerMapping,
+      fetch: (request: Request) =>
+        Promise.resolve(
+          Response.json({ method: request.method, url: request.url }),
+        ),
+    };
+
+    return { adapter, register, listen };
+  }
+
+  it("rejects adapters that cannot dispatch requests in-process", () => {
+    const { fetch: _, ...adapter } = makeAdapter().adapter;
+
+    assertThrows(
+      () => new TestingHttpApplication(AppModule, makeCtx(), adapter),
+      TypeError,
+      "does not implement fetch()",
+    );
+  });
+
+  it("initializes once and dispatches requests through the adapter", async () => {
+    const { adapter, register, listen } = makeAdapter();
+    const app = new TestingHttpApplication(AppModule, makeCtx(), adapter);
+
+    const response = await app.fetch("/users", { method: "POST" });
+    await app.fetch(new Request("http://example.com/other"));
+
+    assertEquals(await response.json(), {
+      method: "POST",
+      url: "http://localhost/users",
+    });
+    assertSpyCalls(register, 1);
+    assertSpyCalls(listen, 0);
+  });
+
+  it("creates fluent requests", async () => {
+    const app = new TestingHttpApplication(
+      AppModule,
+      makeCtx(),
+      makeAdapter().adapter,
+    );
+
+    await app.request().get("/users").expect(200).expectJson({
+      method: "GET",
+      url: "http://localhost/users",
+    });
+  });
+});
@@ -5,11 +5,20 @@ import type {
   ModuleRefOptions,
   Tag,
 } from "@denorid/injector";
+import {
+  DEFAULT_SHUTDOWN_SIGNALS,
+  ShutdownSignalListener,
+} from "../_shutdown_hooks.ts";
 import type { ApplicationContext } from "../application_context.ts";
 import {
   ConsoleCommandRunner,
   type ConsoleCommandRunnerOptions,
 } from "../cli/command_runner.ts";
+import { ExceptionHandler } from "../exceptions/handler.ts";
+import type { HttpAdapter } from "../http/adapter.ts";
+import type { HttpApplicationOptions } from "../http_application.ts";
+import { registerCoreGlobals } from "./_core_globals.ts";
+import { TestingHttpApplication } from "./testing_http_application.ts";
 
 /**
  * A compiled test module that provides access to the DI container without export restrictions.
@@ -17,6 +26,8 @@ import {
  * Obtained by calling {@linkcode TestingModuleBuilder.compile}.
  */
 export class TestingModule implements ApplicationContext {
+  private shutdownListener?: ShutdownSignalListener;
+
   public constructor(private readonly ctx: InjectorContext) {}
 
   /**
@@ -69,6 +80,44 @@ export class TestingModule implements ApplicationContext {
     return this.ctx.container.getByTag<T>(arg0);
   }
 
+  /**
+   * Creates an HTTP application serving the controllers of this module
+   * in-process. The core globals are registered unless the module was
+   * compiled with {@linkcode TestingModuleBuilder.useCoreGlobals}.
+   *
+   * @example
+   * ```ts
+   * const module = await Test.createTestingModule({ imports: [AppModule] })
+   *   .overrideGuard(AuthGuard)
+   *   .useValue({ canActivate: () => true })
+   *   .compile();
+   * const app = await module.createHttpApplication(new DenoAdapter());
+   *
+   * await app.request().get("/users").expect(200).expectJson([]);
+   * ```
+   *
+   * @param {HttpAdapter} adapter - An adapter implementing {@linkcode HttpAdapter.fetch}.
+   * @param {HttpApplicationOptions} [options] - HTTP application options.
+   * @returns {Promise<TestingHttpApplication>}
+   */
+  public async createHttpApplication(
+    adapter: HttpAdapter,
+    options?: HttpApplicationOptions,
+  ): Promise<TestingHttpApplication> {
+    try {
+      await this.ctx.resolveInternal(ExceptionHandler);
+    } catch {
+      registerCoreGlobals(this.ctx);
+    }
+
+    return new TestingHttpApplication(
+      TestingModule,
+      this.ctx,
+      adapter,
+      options,
+    );
+  }
+
   /**
    * @inheritdoc
    */
@@ -79,9 +128,27 @@ export class TestingModule implements ApplicationContext {
   /**
    * @inheritdoc
    */
-  public async close(): Promise<void> {
-    await this.ctx.onBeforeApplicationShutdown();
-    await this.ctx.onApplicationShutdown();
+  public async close(signal?: string): Promise<void> {
+    this.shutdownListener?.dispose();
+
+    await this.ctx.onBeforeApplicationShutdown(signal);
+    await this.ctx.onApplicationShutdown(signal);
+  }
+
+  /**
+   * @inheritdoc
+   *
+   * A testing module serves no requests, the drain options are ignored.
+   */
+  public enableShutdownHooks(
+    signals: Deno.Signal[] = DEFAULT_SHUTDOWN_SIGNALS,
+  ): this {
+    this.shutdownListener ??= new ShutdownSignalListener((signal) =>
+      this.close(signal)
+    );
+    this.shutdownListener.listen(signals);
+
+    return this;
   }
 
   /**
@@ -11,7 +11,8 @@ import {
   InjectorContext,
   isClassProvider,
 } from "@denorid/injector";
-import { ExceptionHandler } from "../exceptions/handler.ts";
+import type { CanActivate } from "../guards/can_activate.ts";
+import { registerCoreGlobals } from "./_core_globals.ts";
 import type { MockFactory } from "./mock_factory.ts";
 import { TestingModule } from "./testing_module.ts";
 
@@ -94,6 +95,25 @@ export class TestingModuleBuilder {
     };
   }
 
+  /**
+   * Override a guard class used by `@UseGuards()`, e.g. to let every request
+   * pass in end-to-end tests.
+   *
+   * @example
+   * ```ts
+   * await Test.createTestingModule({ imports: [AppModule] })
+   *   .overrideGuard(AuthGuard)
+   *   .useValue({ canActivate: () => true })
+   *   .compile();
+   * ```
+   *
+   * @param {Type<CanActivate>} guard - The guard class to replace.
+   * @returns {OverrideBuilder}
+   */
+  public overrideGuard(guard: Type<CanActivate>): OverrideBuilder {
+    return this.overrideProvider(guard);
+  }
+
   /**
    * Register a factory that is called for any `@Inject`-decorated field dependency
    * that does not have a provider declared in the testing module.
@@ -147,22 +167,7 @@ export class TestingModuleBuilder {
 
     const ctx = await InjectorContext.create(
       dynamicModule,
-      this.coreGlobals
-        ? {
-          beforeInit: (ctx) => {
-            ctx.registerGlobal(
-              {
-                provide: ExceptionHandler,
-                useValue: new ExceptionHandler(ctx),
-              },
-              {
-                provide: InjectorContext,
-                useValue: ctx,
-              },
-            );
-          },
-        }
-        : undefined,
+      this.coreGlobals ? { beforeInit: registerCoreGlobals } : undefined,
     );
 
     return new TestingModule(ctx);
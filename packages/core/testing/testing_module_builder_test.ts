@@ -8,6 +8,8 @@ import { Inject, Injectable, InjectorContext, Module } from "@denorid/injector";
 import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
 import { afterEach, describe, it } from "@std/testing/bdd";
 import { ExceptionHandler } from "../exceptions/handler.ts";
+import type { CanActivate } from "../guards/can_activate.ts";
+import type { ExecutionContext } from "../guards/execution_context.ts";
 import type { TestingModule } from "./testing_module.ts";
 import { Test, TestingModuleBuilder } from "./testing_module_builder.ts";
 
@@ -209,6 +211,29 @@ describe(TestingModuleBuilder.name, () => {
     });
   });
 
+  describe("overrideGuard()", () => {
+    it("replaces a guard class with the given value", async () => {
+      @Injectable()
+      class AuthGuard implements CanActivate {
+        canActivate(): boolean {
+          return false;
+        }
+      }
+
+      module = await Test.createTestingModule({})
+        .overrideGuard(AuthGuard)
+        .useValue({ canActivate: () => true })
+        .compile();
+
+      const guard = await module.get<CanActivate>(AuthGuard);
+
+      assertEquals(
+        await guard.canActivate(undefined as unknown as ExecutionContext),
+        true,
+      );
+    });
+  });
+
   describe("useMocker()", () => {
     it("auto-mocks @Inject field dependencies that are not declared", async () => {
       const DEP = Symbol("dep");
@@ -1,7 +1,17 @@
-import type { InjectionToken, InjectorContext, Tag } from "@denorid/injector";
-import { assertEquals } from "@std/assert";
+import {
+  type InjectionToken,
+  InjectorContext,
+  type Provider,
+  type Tag,
+} from "@denorid/injector";
+import { assertEquals, assertInstanceOf } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
 import { assertSpyCall, assertSpyCalls, spy } from "@std/testing/mock";
+import { ExceptionHandler } from "../exceptions/handler.ts";
+import type { HttpAdapter } from "../http/adapter.ts";
+import type { ControllerMapping } from "../http/controller_mapping.ts";
+import { Reflector } from "../reflector/reflector.ts";
+import { TestingHttpApplication } from "./testing_http_application.ts";
 import { TestingModule } from "./testing_module.ts";
 
 function makeCtx(overrides?: Record<string, unknown>): InjectorContext {
@@ -122,4 +132,41 @@ describe(TestingModule.name, () => {
       assertEquals(calls, ["before", "shutdown"]);
     });
   });
+
+  describe("createHttpApplication()", () => {
+    const adapter: HttpAdapter = {
+      listen: () => Promise.reject(new Error("not listening")),
+      close: () => Promise.resolve(),
+      createControllerMapping: () => ({}) as ControllerMapping,
+      fetch: () => Promise.resolve(new Response(null)),
+    };
+
+    it("registers the core globals when they are missing", async () => {
+      const registerGlobal = spy((..._providers: Provider[]) => {});
+      const ctx = makeCtx({
+        resolveInternal: () => Promise.reject(new Error("not found")),
+        registerGlobal,
+      });
+
+      const app = await new TestingModule(ctx).createHttpApplication(adapter);
+
+      assertInstanceOf(app, TestingHttpApplication);
+      assertSpyCalls(registerGlobal, 1);
+      assertEquals(
+        registerGlobal.calls[0].args.map((provider) =>
+          (provider as { provide: unknown }).provide
+        ),
+        [ExceptionHandler, InjectorContext, Reflector],
+      );
+    });
+
+    it("keeps the registered core globals", async () => {
+      const registerGlobal = spy(() => {});
+      const ctx = makeCtx({ registerGlobal });
+
+      await new TestingModule(ctx).createHttpApplication(adapter);
+
+      assertSpyCalls(registerGlobal, 0);
+    });
+  });
 });
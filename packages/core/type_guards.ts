@@ -76,3 +76,25 @@ export function isClass<T>(data: unknown): data is Type<T> {
   return isFunction<Type<T>>(data) &&
     /^class\s/.test(Function.prototype.toString.call(data));
 }
+
+/**
+ * Checks whether the given value implements the async iteration protocol,
+ * e.g. async generators and `ReadableStream`s.
+ *
+ * @typeParam T - The type of the iterated values.
+ * @param {unknown} value The value to test.
+ * @returns {boolean} `true` when `value` has a `Symbol.asyncIterator` method, `false` otherwise.
+ *
+ * @example
+ * ```ts
+ * isAsyncIterable((async function* () {})()); // true
+ * isAsyncIterable(new ReadableStream());      // true
+ * isAsyncIterable([1, 2, 3]);                 // false
+ * ```
+ */
+export function isAsyncIterable<T = unknown>(
+  value: unknown,
+): value is AsyncIterable<T> {
+  return typeof value === "object" && value !== null &&
+    isFunction((value as AsyncIterable<T>)[Symbol.asyncIterator]);
+}
@@ -1,6 +1,12 @@
 import { assertEquals } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
-import { isClass, isFunction, isNil, isString } from "./type_guards.ts";
+import {
+  isAsyncIterable,
+  isClass,
+  isFunction,
+  isNil,
+  isString,
+} from "./type_guards.ts";
 
 describe("isNil", () => {
   it("returns true for null", () => {
@@ -109,3 +115,21 @@ describe("isClass", () => {
     assertEquals(isClass("Foo"), false);
   });
 });
+
+describe("isAsyncIterable", () => {
+  it("returns true for an async generator", () => {
+    assertEquals(isAsyncIterable((async function* () {})()), true);
+  });
+
+  it("returns true for a ReadableStream", () => {
+    assertEquals(isAsyncIterable(new ReadableStream()), true);
+  });
+
+  it("returns false for a sync iterable", () => {
+    assertEquals(isAsyncIterable([1, 2, 3]), false);
+  });
+
+  it("returns false for null", () => {
+    assertEquals(isAsyncIterable(null), false);
+  });
+});
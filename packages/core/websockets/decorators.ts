@@ -0,0 +1,136 @@
+import {
+  type Decorator,
+  Injectable,
+  InvalidStaticMemberDecoratorUsageError,
+  type MethodDecorator,
+  Tags,
+  type Type,
+} from "@denorid/injector";
+import {
+  WEBSOCKET_GATEWAY_METADATA,
+  WEBSOCKET_MESSAGE_METADATA,
+  WEBSOCKET_SERVER_METADATA,
+} from "../_constants.ts";
+import type {
+  SubscribeMessageMetadata,
+  WebSocketGatewayOptions,
+} from "./metadata.ts";
+
+/**
+ * Marks a class as a WebSocket gateway, accepting connections on the given
+ * path. Registers the class with the injector and tags it for discovery.
+ *
+ * Every connection runs in its own request scope: request-scoped and
+ * transient dependencies are resolved once per connection.
+ *
+ * @example
+ * ```ts
+ * @WebSocketGateway("/live")
+ * class DashboardGateway implements OnGatewayConnection {
+ *   @WebSocketServer()
+ *   private readonly server!: WsServer;
+ *
+ *   handleConnection(client: WsClient): void {
+ *     client.join("dashboard");
+ *   }
+ *
+ *   @SubscribeMessage("ping")
+ *   ping(data: unknown): string {
+ *     return "pong";
+ *   }
+ * }
+ * ```
+ *
+ * @param {string} [path="/"] - The path clients connect to.
+ * @param {Omit<WebSocketGatewayOptions, "path">} [options] - Injectable options.
+ * @return {Decorator<ClassDecoratorContext, Type>}
+ */
+export function WebSocketGateway(
+  path?: string,
+  options?: Omit<WebSocketGatewayOptions, "path">,
+): Decorator<ClassDecoratorContext, Type>;
+/**
+ * Marks a class as a WebSocket gateway using a full options object.
+ *
+ * @param {WebSocketGatewayOptions} options - The gateway options.
+ * @return {Decorator<ClassDecoratorContext, Type>}
+ */
+export function WebSocketGateway(
+  options: WebSocketGatewayOptions,
+): Decorator<ClassDecoratorContext, Type>;
+export function WebSocketGateway(
+  pathOrOptions?: string | WebSocketGatewayOptions,
+  options?: Omit<WebSocketGatewayOptions, "path">,
+): Decorator<ClassDecoratorContext, Type> {
+  const gatewayOptions: WebSocketGatewayOptions =
+    typeof pathOrOptions === "object"
+      ? pathOrOptions
+      : { ...options, path: pathOrOptions };
+
+  return (target: Type, ctx: ClassDecoratorContext): void => {
+    ctx.metadata[WEBSOCKET_GATEWAY_METADATA] = {
+      ...gatewayOptions,
+      path: gatewayOptions.path ?? "/",
+    };
+
+    Injectable(gatewayOptions)(target, ctx);
+    Tags(WEBSOCKET_GATEWAY_METADATA)(target, ctx);
+  };
+}
+
+/**
+ * Marks a gateway method as the handler of incoming frames with the given
+ * event name.
+ *
+ * The handler receives the `data` of the frame and the sending `WsClient`. A
+ * value returned by the handler is sent back to the client as a frame with
+ * the same event name.
+ *
+ * @param {string} event - The event name.
+ * @return {MethodDecorator}
+ */
+export function SubscribeMessage(event: string): MethodDecorator {
+  return function <
+    T extends object,
+    V extends (this: T, ...args: unknown[]) => unknown,
+  >(
+    target: V,
+    ctx: ClassMethodDecoratorContext<T, V>,
+  ): V {
+    if (ctx.static) {
+      throw new InvalidStaticMemberDecoratorUsageError(
+        SubscribeMessage.name,
+        ctx.name,
+        "function",
+      );
+    }
+
+    const metadata =
+      (ctx.metadata[WEBSOCKET_MESSAGE_METADATA] ??=
+        []) as SubscribeMessageMetadata[];
+
+    metadata.push({ event, name: ctx.name });
+
+    return target;
+  };
+}
+
+/**
+ * Injects the `WsServer` of the gateway into the decorated field, giving
+ * access to all connected clients, rooms and broadcasting.
+ *
+ * @return {Decorator<ClassFieldDecoratorContext>}
+ */
+export function WebSocketServer(): Decorator<ClassFieldDecoratorContext> {
+  return (_: unknown, ctx: ClassFieldDecoratorContext): void => {
+    if (ctx.static) {
+      throw new InvalidStaticMemberDecoratorUsageError(
+        WebSocketServer.name,
+        ctx.name,
+        "property",
+      );
+    }
+
+    ctx.metadata[WEBSOCKET_SERVER_METADATA] = ctx.name;
+  };
+}
@@ -0,0 +1,95 @@
+import { InvalidStaticMemberDecoratorUsageError } from "@denorid/injector";
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { WEBSOCKET_SERVER_METADATA } from "../_constants.ts";
+import {
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from "./decorators.ts";
+import {
+  getSubscribeMessageMetadata,
+  getWebSocketGatewayMetadata,
+} from "./metadata.ts";
+import type { WsServer } from "./ws_server.ts";
+
+describe("@WebSocketGateway()", () => {
+  it("should default the path to /", () => {
+    @WebSocketGateway()
+    class ChatGateway {}
+
+    assertEquals(getWebSocketGatewayMetadata(ChatGateway)?.path, "/");
+  });
+
+  it("should accept a path and options", () => {
+    @WebSocketGateway("/chat", { mode: "request" })
+    class ChatGateway {}
+
+    assertEquals(getWebSocketGatewayMetadata(ChatGateway), {
+      mode: "request",
+      path: "/chat",
+    });
+  });
+
+  it("should accept an options object", () => {
+    @WebSocketGateway({ path: "/events" })
+    class EventsGateway {}
+
+    assertEquals(getWebSocketGatewayMetadata(EventsGateway)?.path, "/events");
+  });
+});
+
+describe("@SubscribeMessage()", () => {
+  it("should collect the subscribed events", () => {
+    class ChatGateway {
+      @SubscribeMessage("message")
+      public onMessage(): void {}
+
+      @SubscribeMessage("typing")
+      public onTyping(): void {}
+    }
+
+    assertEquals(getSubscribeMessageMetadata(ChatGateway), [
+      { event: "message", name: "onMessage" },
+      { event: "typing", name: "onTyping" },
+    ]);
+  });
+
+  it("should throw when applied to a static method", () => {
+    assertThrows(
+      () => {
+        class _ChatGateway {
+          @SubscribeMessage("message")
+          public static onMessage(): void {}
+        }
+      },
+      InvalidStaticMemberDecoratorUsageError,
+    );
+  });
+});
+
+describe("@WebSocketServer()", () => {
+  it("should store the name of the decorated field", () => {
+    class ChatGateway {
+      @WebSocketServer()
+      public server!: WsServer;
+    }
+
+    assertEquals(
+      ChatGateway[Symbol.metadata]?.[WEBSOCKET_SERVER_METADATA],
+      "server",
+    );
+  });
+
+  it("should throw when applied to a static field", () => {
+    assertThrows(
+      () => {
+        class _ChatGateway {
+          @WebSocketServer()
+          public static server: WsServer;
+        }
+      },
+      InvalidStaticMemberDecoratorUsageError,
+    );
+  });
+});
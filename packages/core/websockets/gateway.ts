@@ -0,0 +1,22 @@
+import type { WsClient } from "./ws_client.ts";
+
+/** Lifecycle hook called when a client connected to a gateway. */
+export interface OnGatewayConnection {
+  /**
+   * Called once the connection is open. Throwing closes the connection.
+   *
+   * @param {WsClient} client - The connected client.
+   */
+  handleConnection(client: WsClient): unknown;
+}
+
+/** Lifecycle hook called when a client disconnected from a gateway. */
+export interface OnGatewayDisconnect {
+  /**
+   * Called once the connection is closed, before the request scope of the
+   * connection is released.
+   *
+   * @param {WsClient} client - The disconnected client.
+   */
+  handleDisconnect(client: WsClient): unknown;
+}
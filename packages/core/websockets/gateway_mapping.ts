@@ -0,0 +1,439 @@
+import type { InjectorContext, ModuleRef, Type } from "@denorid/injector";
+import { Logger, type LoggerService } from "@denorid/logger";
+import {
+  WEBSOCKET_GATEWAY_METADATA,
+  WEBSOCKET_SERVER_METADATA,
+} from "../_constants.ts";
+import type { ExceptionFilter } from "../exceptions/filter.ts";
+import type { ExceptionHandler } from "../exceptions/handler.ts";
+import { getScopedFilters } from "../exceptions/use_filters.ts";
+import type { CanActivate, CanActivateFn } from "../guards/can_activate.ts";
+import { getMethodGuards, GUARDS_METADATA } from "../guards/decorator.ts";
+import type { ExecutionContext } from "../guards/execution_context.ts";
+import type { RequestContext } from "../http/request_context.ts";
+import {
+  getMethodInterceptors,
+  INTERCEPTORS_METADATA,
+} from "../interceptors/decorator.ts";
+import { executeInterceptors } from "../interceptors/execute.ts";
+import type {
+  Interceptor,
+  InterceptorFn,
+} from "../interceptors/interceptor.ts";
+import { isClass, isFunction } from "../type_guards.ts";
+import type { OnGatewayConnection, OnGatewayDisconnect } from "./gateway.ts";
+import {
+  getSubscribeMessageMetadata,
+  getWebSocketGatewayMetadata,
+} from "./metadata.ts";
+import { WsClient, type WsFrame } from "./ws_client.ts";
+import { WsException } from "./ws_exception.ts";
+import { WsExecutionContext, WsHostArguments } from "./ws_host_arguments.ts";
+import { WsServer } from "./ws_server.ts";
+
+/** Options passed to {@link HttpAdapter.createGatewayMapping}. */
+export interface GatewayMappingOptions {
+  /** The injector context providing gateway instances. */
+  ctx: InjectorContext;
+  /** Handler invoked when a gateway throws. */
+  exceptionHandler: ExceptionHandler;
+  /** Global guards evaluated before every message handler. */
+  globalGuards: (CanActivate | CanActivateFn)[];
+  /** Global interceptors wrapped around every message handler, outermost first. */
+  globalInterceptors?: (Interceptor | InterceptorFn)[];
+}
+
+/** The event name of error frames sent to clients. */
+export const WS_EXCEPTION_EVENT = "exception";
+
+type Gateway =
+  & Record<PropertyKey, unknown>
+  & Partial<
+    OnGatewayConnection & OnGatewayDisconnect
+  >;
+
+interface MessageHandlerRecord {
+  name: string | symbol;
+  guards: (Type<CanActivate> | CanActivate | CanActivateFn)[];
+  interceptors: (Type<Interceptor> | Interceptor | InterceptorFn)[];
+  filters: (Type<ExceptionFilter> | ExceptionFilter)[];
+}
+
+interface GatewayRecord {
+  server: WsServer;
+  handlers: Map<string, MessageHandlerRecord>;
+}
+
+/**
+ * Base class for adapter-specific WebSocket gateway mappings.
+ *
+ * Discovers all `@WebSocketGateway()` classes and delegates the upgrade route
+ * registration to the adapter via {@link registerGateway}. The adapter passes
+ * every upgraded socket to {@link bindSocket}, which dispatches the frames of
+ * the connection to the gateway.
+ *
+ * Frames are JSON objects of the shape `{ "event": string, "data": unknown }`.
+ * Each connection runs in its own request scope whose ID is the `contextId` of
+ * the upgrade request; the scope is released when the connection closes.
+ */
+export abstract class GatewayMapping {
+  protected readonly logger: LoggerService = new Logger(GatewayMapping.name, {
+    timestamp: true,
+  });
+
+  private readonly gateways: Map<Type<Gateway>, GatewayRecord> = new Map();
+
+  /**
+   * @param {GatewayMappingOptions} options - Configuration for the gateway mapping.
+   */
+  public constructor(protected readonly options: GatewayMappingOptions) {}
+
+  /**
+   * Registers all gateways found in the injector context.
+   *
+   * @return {Promise<void>} Resolves when all gateways have been registered.
+   */
+  public async register(): Promise<void> {
+    for (
+      const token of this.options.ctx.container
+        .getTokensByTag(WEBSOCKET_GATEWAY_METADATA, true)
+    ) {
+      const gatewayClass = token as Type<Gateway>;
+
+      this.gateways.set(gatewayClass, {
+        server: new WsServer(),
+        handlers: this.createHandlerRecords(gatewayClass),
+      });
+
+      await this.registerGateway(
+        gatewayClass,
+        getWebSocketGatewayMetadata(gatewayClass)?.path ?? "/",
+      );
+    }
+  }
+
+  /**
+   * Closes the connections of all gateways.
+   *
+   * @param {number} [code=1001] - The close code sent to the clients.
+   * @param {string} [reason] - The close reason sent to the clients.
+   */
+  public close(code: number = 1001, reason?: string): void {
+    for (const { server } of this.gateways.values()) {
+      for (const client of server.clients.values()) {
+        client.close(code, reason);
+      }
+    }
+  }
+
+  /**
+   * Registers the upgrade route of a gateway with the underlying HTTP engine.
+   *
+   * @param {Type} gatewayClass - The gateway class.
+   * @param {string} path - The path clients connect to.
+   * @return {Promise<void>} Resolves when the route has been registered.
+   */
+  protected abstract registerGateway(
+    gatewayClass: Type,
+    path: string,
+  ): Promise<void>;
+
+  /**
+   * Dispatches the events of an upgraded socket to a gateway.
+   *
+   * @param {Type} gatewayClass - The gateway class the socket connected to.
+   * @param {WebSocket} socket - The upgraded socket.
+   * @param {RequestContext} request - The context of the upgrade request; its
+   *   `contextId` becomes the connection ID.
+   * @return {WsClient} The connected client.
+   */
+  protected bindSocket(
+    gatewayClass: Type,
+    socket: WebSocket,
+    request: RequestContext,
+  ): WsClient {
+    const gatewayType = gatewayClass as Type<Gateway>;
+    const record = this.gateways.get(gatewayType)!;
+    const client = new WsClient(
+      request.contextId,
+      socket,
+      request,
+      record.server,
+    );
+    // Serializes connect, message and disconnect handling of a connection.
+    let queue = Promise.resolve();
+    const enqueue = (task: () => Promise<void>): void => {
+      queue = queue.then(task).catch((err) =>
+        this.logger.error(
+          `Handling of WebSocket client ${client.id} failed`,
+          err instanceof Error ? err.stack : err,
+        )
+      );
+    };
+
+    const onOpen = (): void =>
+      enqueue(() => this.handleConnection(gatewayType, record, client));
+
+    if (socket.readyState === WebSocket.OPEN) {
+      onOpen();
+    } else {
+      socket.addEventListener("open", onOpen, { once: true });
+    }
+
+    socket.addEventListener(
+      "message",
+      (event: MessageEvent) =>
+        enqueue(() =>
+          this.handleMessage(gatewayType, record, client, event.data)
+        ),
+    );
+    socket.addEventListener(
+      "close",
+      () => enqueue(() => this.handleDisconnect(gatewayType, record, client)),
+      { once: true },
+    );
+
+    return client;
+  }
+
+  private createHandlerRecords(
+    gatewayClass: Type,
+  ): Map<string, MessageHandlerRecord> {
+    const handlers = new Map<string, MessageHandlerRecord>();
+    const gatewayGuards = gatewayClass[Symbol.metadata]?.[GUARDS_METADATA] as
+      | Set<Type<CanActivate> | CanActivate | CanActivateFn>
+      | undefined;
+    const gatewayInterceptors = gatewayClass[Symbol.metadata]
+      ?.[INTERCEPTORS_METADATA] as
+        | Set<Type<Interceptor> | Interceptor | InterceptorFn>
+        | undefined;
+
+    for (
+      const { event, name } of getSubscribeMessageMetadata(gatewayClass) ?? []
+    ) {
+      handlers.set(event, {
+        name,
+        guards: [
+          ...new Set([
+            ...this.options.globalGuards,
+            ...(gatewayGuards ?? []),
+            ...(getMethodGuards(gatewayClass, name) ?? []),
+          ]),
+        ],
+        interceptors: [
+          ...new Set([
+            ...(this.options.globalInterceptors ?? []),
+            ...(gatewayInterceptors ?? []),
+            ...(getMethodInterceptors(gatewayClass, name) ?? []),
+          ]),
+        ],
+        filters: getScopedFilters(gatewayClass, name),
+      });
+    }
+
+    return handlers;
+  }
+
+  private async handleConnection(
+    gatewayClass: Type<Gateway>,
+    record: GatewayRecord,
+    client: WsClient,
+  ): Promise<void> {
+    await this.options.ctx.runInRequestScopeAsync(client.id, async () => {
+      try {
+        record.server.add(client);
+
+        const gateway = await this.resolveGateway(
+          gatewayClass,
+          record,
+          client,
+        );
+
+        await gateway.handleConnection?.(client);
+      } catch (err) {
+        await this.options.exceptionHandler.handle(
+          err,
+          new WsHostArguments(client, "connection", undefined),
+          getScopedFilters(gatewayClass, "handleConnection"),
+        );
+
+        client.close(1011, "Internal error");
+      }
+    });
+  }
+
+  private async handleMessage(
+    gatewayClass: Type<Gateway>,
+    record: GatewayRecord,
+    client: WsClient,
+    raw: unknown,
+  ): Promise<void> {
+    const frame = this.parseFrame(raw);
+
+    if (!frame) {
+      client.emit(
+        WS_EXCEPTION_EVENT,
+        new WsException("Invalid frame").getFrameData(),
+      );
+      return;
+    }
+
+    const handler = record.handlers.get(frame.event);
+
+    if (!handler) {
+      return;
+    }
+
+    await this.options.ctx.runInRequestScopeAsync(client.id, async () => {
+      let hostArguments = new WsHostArguments(client, frame.event, frame.data);
+
+      try {
+        const gateway = await this.resolveGateway(
+          gatewayClass,
+          record,
+          client,
+        );
+        const method = gateway[handler.name] as (
+          data: unknown,
+          client: WsClient,
+        ) => unknown;
+        const executionContext = new WsExecutionContext(
+          client,
+          frame.event,
+          frame.data,
+          gatewayClass,
+          method,
+        );
+
+        hostArguments = executionContext;
+
+        for (const guard of handler.guards) {
+          if (!await this.resolveGuard(executionContext, client.id, guard)) {
+            throw new WsException("Forbidden");
+          }
+        }
+
+        const res = await executeInterceptors(
+          (interceptor) => this.getModuleRefFor(executionContext, interceptor),
+          client.id,
+          executionContext,
+          handler.interceptors,
+          () => method.call(gateway, frame.data, client),
+        );
+
+        if (res !== undefined) {
+          client.emit(frame.event, res);
+        }
+      } catch (err) {
+        const handled = await this.options.exceptionHandler.handle(
+          err,
+          hostArguments,
+          handler.filters,
+        );
+
+        client.emit(
+          WS_EXCEPTION_EVENT,
+          handled ??
+            (err instanceof WsException
+              ? err.getFrameData()
+              : { status: "error", message: "Internal server error" }),
+        );
+      }
+    });
+  }
+
+  private async handleDisconnect(
+    gatewayClass: Type<Gateway>,
+    record: GatewayRecord,
+    client: WsClient,
+  ): Promise<void> {
+    await this.options.ctx.runInRequestScopeAsync(client.id, async () => {
+      try {
+        record.server.remove(client);
+
+        const gateway = await this.resolveGateway(
+          gatewayClass,
+          record,
+          client,
+        );
+
+        await gateway.handleDisconnect?.(client);
+      } catch (err) {
+        await this.options.exceptionHandler.handle(
+          err,
+          new WsHostArguments(client, "disconnect", undefined),
+          getScopedFilters(gatewayClass, "handleDisconnect"),
+        );
+      } finally {
+        this.options.ctx.clearContext(client.id);
+      }
+    });
+  }
+
+  private async resolveGateway(
+    gatewayClass: Type<Gateway>,
+    record: GatewayRecord,
+    client: WsClient,
+  ): Promise<Gateway> {
+    const gateway = await this.options.ctx.getModuleRefOf(gatewayClass).get(
+      gatewayClass,
+      { contextId: client.id, strict: false },
+    );
+    const serverField = gatewayClass[Symbol.metadata]
+      ?.[WEBSOCKET_SERVER_METADATA] as string | symbol | undefined;
+
+    if (serverField !== undefined) {
+      gateway[serverField] = record.server;
+    }
+
+    return gateway;
+  }
+
+  private async resolveGuard(
+    executionContext: ExecutionContext,
+    contextId: string,
+    guard: Type<CanActivate> | CanActivate | CanActivateFn,
+  ): Promise<boolean> {
+    if (isClass<CanActivate>(guard)) {
+      return await (await this.getModuleRefFor(executionContext, guard).get(
+        guard,
+        {
+          contextId,
+          strict: false,
+        },
+      )).canActivate(executionContext);
+    }
+    if (isFunction<CanActivateFn>(guard)) {
+      return await guard(executionContext);
+    }
+
+    return await guard.canActivate(executionContext);
+  }
+
+  private getModuleRefFor(
+    executionContext: ExecutionContext,
+    type: Type,
+  ): ModuleRef {
+    const hostModuleRef = this.options.ctx.getHostModuleRef();
+
+    // Guards and interceptors of the application (and their overrides in
+    // tests) win, others are declared next to the gateway.
+    return hostModuleRef.hasGlobal(type)
+      ? hostModuleRef
+      : this.options.ctx.getModuleRefOf(executionContext.getClass());
+  }
+
+  private parseFrame(raw: unknown): WsFrame | undefined {
+    if (typeof raw !== "string") {
+      return undefined;
+    }
+
+    try {
+      const frame = JSON.parse(raw) as Partial<WsFrame> | null;
+
+      return typeof frame?.event === "string" ? frame as WsFrame : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
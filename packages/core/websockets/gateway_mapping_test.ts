@@ -0,0 +1,293 @@
+import type { InjectorContext, Type } from "@denorid/injector";
+import { assertEquals } from "@std/assert";
+import { beforeEach, describe, it } from "@std/testing/bdd";
+import { assertSpyCall, type Spy, spy, stub } from "@std/testing/mock";
+import type { ExceptionHandler } from "../exceptions/handler.ts";
+import { UseGuards } from "../guards/decorator.ts";
+import type { RequestContext } from "../http/request_context.ts";
+import {
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from "./decorators.ts";
+import type { OnGatewayConnection, OnGatewayDisconnect } from "./gateway.ts";
+import {
+  GatewayMapping,
+  type GatewayMappingOptions,
+} from "./gateway_mapping.ts";
+import type { WsClient } from "./ws_client.ts";
+import { WsException } from "./ws_exception.ts";
+import type { WsServer } from "./ws_server.ts";
+
+class FakeSocket extends EventTarget {
+  public readyState: number = WebSocket.CONNECTING;
+  public readonly sent: unknown[] = [];
+  public readonly close = spy((_code?: number, _reason?: string) => {});
+
+  public send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  public open(): void {
+    this.readyState = WebSocket.OPEN;
+    this.dispatchEvent(new Event("open"));
+  }
+
+  public message(data: unknown): void {
+    this.dispatchEvent(
+      new MessageEvent("message", {
+        data: typeof data === "string" ? data : JSON.stringify(data),
+      }),
+    );
+  }
+
+  public disconnect(): void {
+    this.readyState = WebSocket.CLOSED;
+    this.dispatchEvent(new CloseEvent("close"));
+  }
+}
+
+class TestGatewayMapping extends GatewayMapping {
+  public readonly paths: [Type, string][] = [];
+
+  // deno-lint-ignore require-await
+  protected override async registerGateway(
+    gatewayClass: Type,
+    path: string,
+  ): Promise<void> {
+    this.paths.push([gatewayClass, path]);
+  }
+
+  public connect(gatewayClass: Type, id: string = "c1"): FakeSocket {
+    const socket = new FakeSocket();
+
+    this.bindSocket(
+      gatewayClass,
+      socket as unknown as WebSocket,
+      { contextId: id } as RequestContext,
+    );
+
+    return socket;
+  }
+}
+
+const flush = (): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, 0));
+
+@WebSocketGateway("/chat")
+class ChatGateway implements OnGatewayConnection, OnGatewayDisconnect {
+  @WebSocketServer()
+  public server!: WsServer;
+
+  public readonly connected: string[] = [];
+  public readonly disconnected: string[] = [];
+
+  public handleConnection(client: WsClient): void {
+    this.connected.push(client.id);
+    client.join("lobby");
+  }
+
+  public handleDisconnect(client: WsClient): void {
+    this.disconnected.push(client.id);
+  }
+
+  @SubscribeMessage("echo")
+  public echo(data: unknown): unknown {
+    return data;
+  }
+
+  @SubscribeMessage("shout")
+  public shout(data: string): void {
+    this.server.to("lobby").emit("shout", data.toUpperCase());
+  }
+
+  @SubscribeMessage("fail")
+  public fail(): void {
+    throw new WsException("Nope");
+  }
+
+  @SubscribeMessage("crash")
+  public crash(): void {
+    throw new Error("boom");
+  }
+
+  @SubscribeMessage("secret")
+  @UseGuards(() => false)
+  public secret(): string {
+    return "secret";
+  }
+}
+
+describe(GatewayMapping.name, () => {
+  let gateway: ChatGateway;
+  let mapping: TestGatewayMapping;
+  let handle: ReturnType<typeof spy>;
+  let clearContext: Spy;
+  let getModuleRefOf: Spy;
+  let filterResult: unknown;
+
+  beforeEach(async () => {
+    gateway = new ChatGateway();
+    filterResult = undefined;
+    handle = spy((_err: unknown) => Promise.resolve(filterResult));
+    clearContext = spy((_id: string) => {});
+
+    const moduleRef = { get: () => Promise.resolve(gateway) };
+    getModuleRefOf = spy((_token: unknown) => moduleRef);
+
+    const ctx = {
+      container: { getTokensByTag: () => [ChatGateway] },
+      getHostModuleRef: () => moduleRef,
+      getModuleRefOf,
+      runInRequestScopeAsync: (_id: string, fn: () => Promise<unknown>) => fn(),
+      clearContext,
+    } as unknown as InjectorContext;
+
+    mapping = new TestGatewayMapping(
+      {
+        ctx,
+        exceptionHandler: { handle } as unknown as ExceptionHandler,
+        globalGuards: [],
+      } satisfies GatewayMappingOptions,
+    );
+
+    await mapping.register();
+  });
+
+  it("should register every gateway at its path", () => {
+    assertEquals(mapping.paths, [[ChatGateway, "/chat"]]);
+  });
+
+  it("should call the connection hooks and release the scope on close", async () => {
+    const socket = mapping.connect(ChatGateway);
+
+    socket.open();
+    await flush();
+
+    assertEquals(gateway.connected, ["c1"]);
+    assertEquals([...gateway.server.clients.keys()], ["c1"]);
+
+    socket.disconnect();
+    await flush();
+
+    assertEquals(gateway.disconnected, ["c1"]);
+    assertEquals(gateway.server.clients.size, 0);
+    assertEquals(clearContext.calls[0].args, ["c1"]);
+  });
+
+  it("should resolve the gateway through its declaring module", async () => {
+    mapping.connect(ChatGateway).open();
+    await flush();
+
+    assertSpyCall(getModuleRefOf, 0, { args: [ChatGateway] });
+  });
+
+  it("should reply with the return value of a handler", async () => {
+    const socket = mapping.connect(ChatGateway);
+
+    socket.open();
+    socket.message({ event: "echo", data: { n: 1 } });
+    socket.message({ event: "unknown" });
+    await flush();
+
+    assertEquals(socket.sent, [{ event: "echo", data: { n: 1 } }]);
+  });
+
+  it("should broadcast to rooms through the injected server", async () => {
+    const first = mapping.connect(ChatGateway, "c1");
+    const second = mapping.connect(ChatGateway, "c2");
+
+    first.open();
+    second.open();
+    first.message({ event: "shout", data: "hi" });
+    await flush();
+
+    assertEquals(first.sent, [{ event: "shout", data: "HI" }]);
+    assertEquals(second.sent, [{ event: "shout", data: "HI" }]);
+  });
+
+  it("should send exception frames", async () => {
+    const socket = mapping.connect(ChatGateway);
+
+    socket.open();
+    socket.message({ event: "fail" });
+    socket.message({ event: "crash" });
+    socket.message({ event: "secret" });
+    socket.message("not json");
+    await flush();
+
+    assertEquals(socket.sent, [
+      { event: "exception", data: { status: "error", message: "Nope" } },
+      {
+        event: "exception",
+        data: { status: "error", message: "Internal server error" },
+      },
+      { event: "exception", data: { status: "error", message: "Forbidden" } },
+      {
+        event: "exception",
+        data: { status: "error", message: "Invalid frame" },
+      },
+    ]);
+    assertEquals(handle.calls.length, 3);
+  });
+
+  it("should send the result of an exception filter", async () => {
+    filterResult = { handled: true };
+
+    const socket = mapping.connect(ChatGateway);
+
+    socket.open();
+    socket.message({ event: "crash" });
+    await flush();
+
+    assertEquals(socket.sent, [{
+      event: "exception",
+      data: { handled: true },
+    }]);
+  });
+
+  it("should close the connection when the connection hook throws", async () => {
+    gateway.handleConnection = () => {
+      throw new Error("rejected");
+    };
+
+    const socket = mapping.connect(ChatGateway);
+
+    socket.open();
+    await flush();
+
+    assertEquals(socket.close.calls[0].args, [1011, "Internal error"]);
+  });
+
+  it("should log failures and keep handling the connection", async () => {
+    const error = stub(mapping["logger"], "error");
+
+    handle = spy((_err: unknown) => Promise.reject(new Error("filter failed")));
+    (mapping["options"].exceptionHandler as { handle: unknown }).handle =
+      handle;
+
+    const socket = mapping.connect(ChatGateway);
+
+    socket.open();
+    socket.message({ event: "crash" });
+    socket.message({ event: "echo", data: 1 });
+    await flush();
+
+    assertEquals(error.calls.length, 1);
+    assertEquals(
+      error.calls[0].args[0],
+      "Handling of WebSocket client c1 failed",
+    );
+    assertEquals(socket.sent, [{ event: "echo", data: 1 }]);
+  });
+
+  it("should close all connections", async () => {
+    const socket = mapping.connect(ChatGateway);
+
+    socket.open();
+    await flush();
+    mapping.close();
+
+    assertEquals(socket.close.calls[0].args, [1001, undefined]);
+  });
+});
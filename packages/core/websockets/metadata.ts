@@ -0,0 +1,54 @@
+import type { InjectableOptions, Type } from "@denorid/injector";
+import {
+  WEBSOCKET_GATEWAY_METADATA,
+  WEBSOCKET_MESSAGE_METADATA,
+} from "../_constants.ts";
+
+/** Options accepted by `@WebSocketGateway()`. */
+export interface WebSocketGatewayOptions extends InjectableOptions {
+  /**
+   * The path clients connect to.
+   *
+   * @default "/"
+   */
+  path?: string;
+}
+
+/**
+ * Metadata entry stored for each `@SubscribeMessage()` annotated method of a
+ * gateway.
+ */
+export interface SubscribeMessageMetadata {
+  /** The event name matched against the `event` field of incoming frames. */
+  event: string;
+  /** The method name on the gateway class. */
+  name: string | symbol;
+}
+
+/**
+ * Reads the `@WebSocketGateway()` options of a gateway class.
+ *
+ * @param {Type} target - The gateway class.
+ * @return {WebSocketGatewayOptions | undefined} The options, or `undefined` if `target` is no gateway.
+ */
+export function getWebSocketGatewayMetadata(
+  target: Type,
+): WebSocketGatewayOptions | undefined {
+  return target[Symbol.metadata]?.[WEBSOCKET_GATEWAY_METADATA] as
+    | WebSocketGatewayOptions
+    | undefined;
+}
+
+/**
+ * Reads the `@SubscribeMessage()` entries of a gateway class.
+ *
+ * @param {Type} target - The gateway class.
+ * @return {SubscribeMessageMetadata[] | undefined} The entries, or `undefined` if none.
+ */
+export function getSubscribeMessageMetadata(
+  target: Type,
+): SubscribeMessageMetadata[] | undefined {
+  return target[Symbol.metadata]?.[WEBSOCKET_MESSAGE_METADATA] as
+    | SubscribeMessageMetadata[]
+    | undefined;
+}
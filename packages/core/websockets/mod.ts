@@ -0,0 +1,8 @@
+export * from "./decorators.ts";
+export * from "./gateway.ts";
+export * from "./gateway_mapping.ts";
+export * from "./metadata.ts";
+export * from "./ws_client.ts";
+export * from "./ws_exception.ts";
+export * from "./ws_host_arguments.ts";
+export * from "./ws_server.ts";
@@ -0,0 +1,85 @@
+import type { RequestContext } from "../http/request_context.ts";
+import type { WsServer } from "./ws_server.ts";
+
+/** The subset of the standard `WebSocket` interface used by {@link WsClient}. */
+export type WsSocket = Pick<WebSocket, "send" | "close" | "readyState">;
+
+/** A frame exchanged between gateways and clients. */
+export interface WsFrame<T = unknown> {
+  /** The event name, matched against `@SubscribeMessage()`. */
+  event: string;
+  /** The payload of the frame. */
+  data?: T;
+}
+
+/**
+ * A connected WebSocket client of a gateway.
+ *
+ * Passed to `@SubscribeMessage()` handlers and the connection lifecycle hooks.
+ */
+export class WsClient {
+  /** Arbitrary per-connection state, e.g. the authenticated user. */
+  public readonly data: Record<string, unknown> = {};
+
+  /**
+   * @param {string} id - The connection ID, also used as the request scope ID.
+   * @param {WsSocket} socket - The underlying socket.
+   * @param {RequestContext} request - The context of the upgrade request.
+   * @param {WsServer} server - The server of the gateway the client connected to.
+   */
+  public constructor(
+    public readonly id: string,
+    private readonly socket: WsSocket,
+    public readonly request: RequestContext,
+    private readonly server: WsServer,
+  ) {}
+
+  /**
+   * Returns the rooms the client has joined.
+   *
+   * @return {string[]} The room names.
+   */
+  public get rooms(): string[] {
+    return this.server.roomsOf(this);
+  }
+
+  /**
+   * Sends a frame to the client. Frames to closed sockets are dropped.
+   *
+   * @param {string} event - The event name.
+   * @param {unknown} [data] - The payload, serialized as JSON.
+   */
+  public emit(event: string, data?: unknown): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ event, data } satisfies WsFrame));
+    }
+  }
+
+  /**
+   * Adds the client to a room.
+   *
+   * @param {string} room - The room name.
+   */
+  public join(room: string): void {
+    this.server.join(this, room);
+  }
+
+  /**
+   * Removes the client from a room.
+   *
+   * @param {string} room - The room name.
+   */
+  public leave(room: string): void {
+    this.server.leave(this, room);
+  }
+
+  /**
+   * Closes the connection.
+   *
+   * @param {number} [code] - The close code.
+   * @param {string} [reason] - The close reason.
+   */
+  public close(code?: number, reason?: string): void {
+    this.socket.close(code, reason);
+  }
+}
@@ -0,0 +1,43 @@
+import { IntrinsicException } from "../exceptions/intrinsic.ts";
+
+/**
+ * Exception for errors that should be reported to the WebSocket client.
+ *
+ * When thrown from a `@SubscribeMessage()` handler, the client receives an
+ * error frame `{ "event": "exception", "data": ... }`. A string error is sent
+ * as `{ "status": "error", "message": error }`, an object as is.
+ *
+ * @example
+ * ```ts
+ * throw new WsException("Room is full");
+ * throw new WsException({ code: "ROOM_FULL", room: "lobby" });
+ * ```
+ */
+export class WsException extends IntrinsicException {
+  /**
+   * @param {string | object} error - The message or payload sent to the client.
+   */
+  public constructor(private readonly error: string | object) {
+    super(typeof error === "string" ? error : "WebSocket exception");
+  }
+
+  /**
+   * Returns the error as passed to the constructor.
+   *
+   * @return {string | object} The error message or payload.
+   */
+  public getError(): string | object {
+    return this.error;
+  }
+
+  /**
+   * Returns the payload of the error frame sent to the client.
+   *
+   * @return {object} The error frame payload.
+   */
+  public getFrameData(): object {
+    return typeof this.error === "string"
+      ? { status: "error", message: this.error }
+      : this.error;
+  }
+}
@@ -0,0 +1,27 @@
+import { assertEquals, assertInstanceOf } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { IntrinsicException } from "../exceptions/intrinsic.ts";
+import { WsException } from "./ws_exception.ts";
+
+describe(WsException.name, () => {
+  it("should be an intrinsic exception", () => {
+    assertInstanceOf(new WsException("Forbidden"), IntrinsicException);
+  });
+
+  it("should wrap a string message into an error frame", () => {
+    const exception = new WsException("Forbidden");
+
+    assertEquals(exception.message, "Forbidden");
+    assertEquals(exception.getError(), "Forbidden");
+    assertEquals(exception.getFrameData(), {
+      status: "error",
+      message: "Forbidden",
+    });
+  });
+
+  it("should send an object payload as is", () => {
+    const payload = { status: "error", code: "ROOM_FULL" };
+
+    assertEquals(new WsException(payload).getFrameData(), payload);
+  });
+});
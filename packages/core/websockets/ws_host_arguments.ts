@@ -0,0 +1,128 @@
+import type { Type } from "@denorid/injector";
+import type { ExecutionContext } from "../guards/execution_context.ts";
+import type {
+  HostArguments,
+  HttpHostArguments,
+  RpcArguments,
+} from "../host_arguments.ts";
+import type { WsClient } from "./ws_client.ts";
+
+/** Methods to obtain the client and the frame of a WebSocket message. */
+export interface WsArguments {
+  /**
+   * Returns the client that sent the frame.
+   *
+   * @return {WsClient}
+   */
+  getClient(): WsClient;
+
+  /**
+   * Returns the event name of the frame.
+   *
+   * @return {string}
+   */
+  getPattern(): string;
+
+  /**
+   * Returns the payload of the frame.
+   *
+   * @return {unknown}
+   */
+  getData(): unknown;
+}
+
+/**
+ * Host arguments for a WebSocket message.
+ *
+ * `switchToHttp()` exposes the upgrade request of the connection, so guards
+ * written for HTTP routes (e.g. reading an `Authorization` header) also work
+ * for gateways. `switchToRpc()` exposes the event name and payload.
+ */
+export class WsHostArguments implements HostArguments {
+  /**
+   * @param {WsClient} client - The client that sent the frame.
+   * @param {string} event - The event name of the frame.
+   * @param {unknown} data - The payload of the frame.
+   */
+  public constructor(
+    private readonly client: WsClient,
+    private readonly event: string,
+    private readonly data: unknown,
+  ) {}
+
+  /**
+   * Returns the upgrade request of the connection as request and the client
+   * as response.
+   *
+   * @return {HttpHostArguments}
+   */
+  public switchToHttp(): HttpHostArguments {
+    return {
+      getRequest: () => this.client.request,
+      getResponse: <T>() => this.client as T,
+    };
+  }
+
+  /**
+   * Returns the event name as pattern and the payload as data.
+   *
+   * @return {RpcArguments}
+   */
+  public switchToRpc(): RpcArguments {
+    return {
+      getPattern: () => this.event,
+      getData: () => this.data,
+    };
+  }
+
+  /**
+   * Returns the WebSocket arguments of the frame.
+   *
+   * @return {WsArguments}
+   */
+  public switchToWs(): WsArguments {
+    return {
+      getClient: () => this.client,
+      getPattern: () => this.event,
+      getData: () => this.data,
+    };
+  }
+}
+
+/**
+ * Execution context for a `@SubscribeMessage()` handler invocation, passed to
+ * guards and interceptors.
+ */
+export class WsExecutionContext<HandlerMethod = unknown> extends WsHostArguments
+  implements ExecutionContext {
+  /**
+   * @param {WsClient} client - The client that sent the frame.
+   * @param {string} event - The event name of the frame.
+   * @param {unknown} data - The payload of the frame.
+   * @param {Type} gatewayClass - The gateway class owning the handler.
+   * @param {HandlerMethod} handlerFn - Reference to the handler method.
+   */
+  public constructor(
+    client: WsClient,
+    event: string,
+    data: unknown,
+    private readonly gatewayClass: Type,
+    private readonly handlerFn: HandlerMethod,
+  ) {
+    super(client, event, data);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public getClass<T = unknown>(): Type<T> {
+    return this.gatewayClass as Type<T>;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public getHandler<T = HandlerMethod>(): T {
+    return this.handlerFn as unknown as T;
+  }
+}
@@ -0,0 +1,139 @@
+import type { WsClient } from "./ws_client.ts";
+
+/** Sends frames to a group of clients, see {@link WsServer.to}. */
+export interface WsBroadcastOperator {
+  /**
+   * Sends a frame to every client of the group.
+   *
+   * @param {string} event - The event name.
+   * @param {unknown} [data] - The payload, serialized as JSON.
+   */
+  emit(event: string, data?: unknown): void;
+}
+
+/**
+ * Tracks the connected clients of a gateway and their rooms.
+ *
+ * Inject it into a gateway with `@WebSocketServer()`.
+ *
+ * @example
+ * ```ts
+ * this.server.to("dashboard").emit("metrics", snapshot);
+ * ```
+ */
+export class WsServer {
+  private readonly connected: Map<string, WsClient> = new Map();
+  private readonly rooms: Map<string, Set<WsClient>> = new Map();
+
+  /**
+   * Returns all connected clients, keyed by their ID.
+   *
+   * @return {ReadonlyMap<string, WsClient>} The connected clients.
+   */
+  public get clients(): ReadonlyMap<string, WsClient> {
+    return this.connected;
+  }
+
+  /**
+   * Sends a frame to every connected client.
+   *
+   * @param {string} event - The event name.
+   * @param {unknown} [data] - The payload, serialized as JSON.
+   */
+  public emit(event: string, data?: unknown): void {
+    for (const client of this.connected.values()) {
+      client.emit(event, data);
+    }
+  }
+
+  /**
+   * Selects the clients of one or more rooms. Clients in several of the rooms
+   * receive each frame once.
+   *
+   * @param {string | string[]} rooms - The room name(s).
+   * @return {WsBroadcastOperator} The operator sending to the selected clients.
+   */
+  public to(rooms: string | string[]): WsBroadcastOperator {
+    return {
+      emit: (event: string, data?: unknown): void => {
+        const clients = new Set<WsClient>();
+
+        for (const room of Array.isArray(rooms) ? rooms : [rooms]) {
+          for (const client of this.rooms.get(room) ?? []) {
+            clients.add(client);
+          }
+        }
+
+        for (const client of clients) {
+          client.emit(event, data);
+        }
+      },
+    };
+  }
+
+  /**
+   * Adds a newly connected client.
+   *
+   * @param {WsClient} client - The client.
+   */
+  public add(client: WsClient): void {
+    this.connected.set(client.id, client);
+  }
+
+  /**
+   * Removes a disconnected client from the server and all of its rooms.
+   *
+   * @param {WsClient} client - The client.
+   */
+  public remove(client: WsClient): void {
+    this.connected.delete(client.id);
+
+    for (const room of this.roomsOf(client)) {
+      this.leave(client, room);
+    }
+  }
+
+  /**
+   * Adds a client to a room.
+   *
+   * @param {WsClient} client - The client.
+   * @param {string} room - The room name.
+   */
+  public join(client: WsClient, room: string): void {
+    let members = this.rooms.get(room);
+
+    if (!members) {
+      members = new Set();
+
+      this.rooms.set(room, members);
+    }
+
+    members.add(client);
+  }
+
+  /**
+   * Removes a client from a room. Empty rooms are dropped.
+   *
+   * @param {WsClient} client - The client.
+   * @param {string} room - The room name.
+   */
+  public leave(client: WsClient, room: string): void {
+    const members = this.rooms.get(room);
+
+    if (members?.delete(client) && members.size === 0) {
+      this.rooms.delete(room);
+    }
+  }
+
+  /**
+   * Returns the rooms a client has joined.
+   *
+   * @param {WsClient} client - The client.
+   * @return {string[]} The room names.
+   */
+  public roomsOf(client: WsClient): string[] {
+    return [...this.rooms]
+      .filter(([, members]) => members.has(client))
+      .map(([room]) => room);
+  }
+}
@@ -0,0 +1,81 @@
+import { assertEquals } from "@std/assert";
+import { beforeEach, describe, it } from "@std/testing/bdd";
+import type { RequestContext } from "../http/request_context.ts";
+import { WsClient, type WsSocket } from "./ws_client.ts";
+import { WsServer } from "./ws_server.ts";
+
+function createSocket(
+  readyState: number = WebSocket.OPEN,
+): WsSocket & { sent: string[] } {
+  const sent: string[] = [];
+
+  return {
+    sent,
+    readyState,
+    send: (data: string) => sent.push(data),
+    close: () => {},
+  } as unknown as WsSocket & { sent: string[] };
+}
+
+describe(WsServer.name, () => {
+  let server: WsServer;
+  let alice: WsClient;
+  let bob: WsClient;
+  let aliceSocket: ReturnType<typeof createSocket>;
+  let bobSocket: ReturnType<typeof createSocket>;
+
+  beforeEach(() => {
+    server = new WsServer();
+    aliceSocket = createSocket();
+    bobSocket = createSocket();
+    alice = new WsClient("a", aliceSocket, {} as RequestContext, server);
+    bob = new WsClient("b", bobSocket, {} as RequestContext, server);
+
+    server.add(alice);
+    server.add(bob);
+  });
+
+  it("should broadcast to every connected client", () => {
+    server.emit("news", 1);
+
+    assertEquals(aliceSocket.sent, ['{"event":"news","data":1}']);
+    assertEquals(bobSocket.sent, ['{"event":"news","data":1}']);
+  });
+
+  it("should emit to the members of the given rooms once", () => {
+    alice.join("lobby");
+    alice.join("vip");
+    bob.join("vip");
+
+    server.to(["lobby", "vip"]).emit("hello");
+    server.to("lobby").emit("lobby-only");
+
+    assertEquals(aliceSocket.sent.length, 2);
+    assertEquals(bobSocket.sent, ['{"event":"hello"}']);
+  });
+
+  it("should track and drop rooms", () => {
+    alice.join("lobby");
+    alice.join("vip");
+    alice.leave("vip");
+
+    assertEquals(alice.rooms, ["lobby"]);
+    assertEquals(server.roomsOf(bob), []);
+  });
+
+  it("should remove a client from the server and its rooms", () => {
+    alice.join("lobby");
+    server.remove(alice);
+
+    assertEquals([...server.clients.keys()], ["b"]);
+    assertEquals(alice.rooms, []);
+  });
+
+  it("should not send to clients whose socket is not open", () => {
+    const socket = createSocket(WebSocket.CLOSING);
+
+    new WsClient("c", socket, {} as RequestContext, server).emit("news");
+
+    assertEquals(socket.sent, []);
+  });
+});
@@ -0,0 +1,85 @@
+import type {
+  HealthIndicator,
+  HealthIndicatorFactory,
+  HealthProbe,
+} from "@denorid/health";
+import { sql } from "drizzle-orm";
+import { DrizzleService } from "./drizzle_service.ts";
+import type { DrizzleDrivers } from "./module_options.ts";
+
+/** Options accepted by {@link DrizzleHealthIndicator}. */
+export interface DrizzleHealthIndicatorOptions {
+  /**
+   * Key of the indicator in the health check result.
+   *
+   * @default "database"
+   */
+  name?: string;
+  /** The driver of the connection. */
+  type: DrizzleDrivers;
+  /**
+   * The connection to check.
+   *
+   * @default "default"
+   */
+  connection?: string;
+  /**
+   * The probes the indicator takes part in.
+   *
+   * @default ["readiness"]
+   */
+  probes?: HealthProbe[];
+}
+
+/**
+ * Reports a `@denorid/drizzle` connection as down when a `select 1` fails.
+ */
+export class DrizzleHealthIndicator implements HealthIndicator {
+  public readonly name: string;
+  public readonly probes?: HealthProbe[];
+
+  /**
+   * @param {DrizzleService} drizzle - The service holding the connections.
+   * @param {DrizzleHealthIndicatorOptions} options - The connection to check.
+   */
+  public constructor(
+    private readonly drizzle: DrizzleService,
+    private readonly options: DrizzleHealthIndicatorOptions,
+  ) {
+    this.name = options.name ?? "database";
+    this.probes = options.probes;
+  }
+
+  /** @inheritdoc */
+  public async check(): Promise<void> {
+    const connection = this.options.connection ?? "default";
+
+    if (this.options.type === "postgres") {
+      await this.drizzle.pg(connection).execute(sql`select 1`);
+    } else {
+      await this.drizzle.sqlite(connection).run(sql`select 1`);
+    }
+  }
+}
+
+/**
+ * Creates a {@link DrizzleHealthIndicator} for the `indicators` of the
+ * `HealthModule`, injecting the {@link DrizzleService}.
+ *
+ * @example
+ * ```ts
+ * HealthModule.forRoot({ indicators: [drizzleHealthIndicator({ type: "postgres" })] });
+ * ```
+ *
+ * @param {DrizzleHealthIndicatorOptions} options - The connection to check.
+ * @return {HealthIndicatorFactory} The indicator factory.
+ */
+export function drizzleHealthIndicator(
+  options: DrizzleHealthIndicatorOptions,
+): HealthIndicatorFactory {
+  return {
+    useFactory: (drizzle: DrizzleService) =>
+      new DrizzleHealthIndicator(drizzle, options),
+    inject: [DrizzleService],
+  };
+}
@@ -0,0 +1,7 @@
+export const HEALTH_MODULE_OPTIONS = Symbol.for(
+  "denorid.health.module_options",
+);
+export const HEALTH_INDICATORS = Symbol.for("denorid.health.indicators");
+
+export const DEFAULT_HEALTH_PATH = "/health";
+export const DEFAULT_HEALTH_TIMEOUT = 5_000;
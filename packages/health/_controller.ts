@@ -0,0 +1,57 @@
+import {
+  Controller,
+  Get,
+  type RequestContext,
+  StatusCode,
+} from "@denorid/core";
+import { Inject, type Type } from "@denorid/injector";
+import { HealthCheckService } from "./health_check_service.ts";
+import type { HealthCheckResult, HealthProbe } from "./health_indicator.ts";
+
+/**
+ * Creates the controller serving the health check at `path` and the
+ * liveness and readiness probes below it. A failed check responds with
+ * `503 Service Unavailable`.
+ *
+ * @param {string} path - The route of the health check.
+ * @return {Type} The controller class.
+ */
+export function createHealthController(path: string): Type {
+  const base = path.replace(/\/+$/, "");
+
+  @Controller()
+  class HealthController {
+    @Inject(HealthCheckService)
+    private readonly health!: HealthCheckService;
+
+    @Get(base || "/")
+    public check(ctx: RequestContext): Promise<HealthCheckResult> {
+      return this.respond(ctx);
+    }
+
+    @Get(`${base}/live`)
+    public live(ctx: RequestContext): Promise<HealthCheckResult> {
+      return this.respond(ctx, "liveness");
+    }
+
+    @Get(`${base}/ready`)
+    public ready(ctx: RequestContext): Promise<HealthCheckResult> {
+      return this.respond(ctx, "readiness");
+    }
+
+    private async respond(
+      ctx: RequestContext,
+      probe?: HealthProbe,
+    ): Promise<HealthCheckResult> {
+      const result = await this.health.check(probe);
+
+      if (result.status === "error") {
+        ctx.status(StatusCode.ServiceUnavailable);
+      }
+
+      return result;
+    }
+  }
+
+  return HealthController;
+}
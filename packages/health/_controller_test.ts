@@ -0,0 +1,73 @@
+import { type RequestContext, StatusCode } from "@denorid/core";
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCall, assertSpyCalls, spy } from "@std/testing/mock";
+import { createHealthController } from "./_controller.ts";
+import type { HealthCheckService } from "./health_check_service.ts";
+import type { HealthCheckResult, HealthProbe } from "./health_indicator.ts";
+
+type HealthController = Record<
+  "check" | "live" | "ready",
+  (ctx: RequestContext) => Promise<HealthCheckResult>
+>;
+
+function makeController(status: HealthCheckResult["status"]) {
+  const result: HealthCheckResult = {
+    status,
+    info: {},
+    error: {},
+    details: {},
+  };
+  const check = spy((_probe?: HealthProbe) => Promise.resolve(result));
+  const HealthController = createHealthController("/health/");
+  const controller = new HealthController() as HealthController;
+
+  Object.assign(controller, {
+    health: { check } as unknown as HealthCheckService,
+  });
+
+  return { controller, check, result };
+}
+
+function makeContext() {
+  const status = spy((_code: StatusCode) => {});
+
+  return { ctx: { status } as unknown as RequestContext, status };
+}
+
+describe(createHealthController.name, () => {
+  it("mounts the check and the probes below the given path", () => {
+    const routes = createHealthController("/health/")[Symbol.metadata]?.[
+      Symbol.for("denorid.request_mapping")
+    ] as { name: string; path: string }[];
+
+    assertEquals(routes.map(({ name, path }) => [name, path]), [
+      ["check", "/health"],
+      ["live", "/health/live"],
+      ["ready", "/health/ready"],
+    ]);
+  });
+
+  it("returns the result of the requested probe", async () => {
+    const { controller, check, result } = makeController("ok");
+    const { ctx, status } = makeContext();
+
+    assertEquals(await controller.check(ctx), result);
+    assertEquals(await controller.live(ctx), result);
+    assertEquals(await controller.ready(ctx), result);
+
+    assertSpyCall(check, 0, { args: [undefined] });
+    assertSpyCall(check, 1, { args: ["liveness"] });
+    assertSpyCall(check, 2, { args: ["readiness"] });
+    assertSpyCalls(status, 0);
+  });
+
+  it("responds with 503 when the check failed", async () => {
+    const { controller } = makeController("error");
+    const { ctx, status } = makeContext();
+
+    await controller.ready(ctx);
+
+    assertSpyCall(status, 0, { args: [StatusCode.ServiceUnavailable] });
+  });
+});
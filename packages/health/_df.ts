@@ -0,0 +1,28 @@
+import { HealthCheckError } from "./health_indicator.ts";
+
+/**
+ * Parses the POSIX output of `df -Pk`.
+ *
+ * @param {string} output - The command output, a header and one data line.
+ * @return The total, used and available bytes plus the used percentage.
+ */
+export function parseDfOutput(
+  output: string,
+): { total: number; used: number; available: number; usedPercent: number } {
+  const columns = output.trim().split("\n").at(-1)?.trim().split(/\s+/) ?? [];
+  const [total, used, available] = columns.slice(1, 4).map((value) =>
+    Number(value) * 1024
+  );
+
+  if ([total, used, available].some((value) => !Number.isFinite(value))) {
+    throw new HealthCheckError("Unexpected df output.", { output });
+  }
+
+  return {
+    total,
+    used,
+    available,
+    // Same as df's "Capacity": reserved blocks count as unavailable.
+    usedPercent: Math.ceil(used / (used + available) * 100),
+  };
+}
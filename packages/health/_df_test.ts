@@ -0,0 +1,32 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { parseDfOutput } from "./_df.ts";
+import { HealthCheckError } from "./health_indicator.ts";
+
+describe(parseDfOutput.name, () => {
+  it("parses the POSIX df output", () => {
+    assertEquals(
+      parseDfOutput(
+        [
+          "Filesystem     1024-blocks    Used Available Capacity Mounted on",
+          "/dev/sda1         1000       700       200      78% /",
+          "",
+        ].join("\n"),
+      ),
+      {
+        total: 1000 * 1024,
+        used: 700 * 1024,
+        available: 200 * 1024,
+        usedPercent: 78,
+      },
+    );
+  });
+
+  it("throws on unexpected output", () => {
+    assertThrows(
+      () => parseDfOutput("df: /missing: No such file or directory"),
+      HealthCheckError,
+      "Unexpected df output.",
+    );
+  });
+});
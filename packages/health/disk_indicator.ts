@@ -0,0 +1,89 @@
+import { parseDfOutput } from "./_df.ts";
+import {
+  HealthCheckError,
+  type HealthIndicator,
+  type HealthProbe,
+} from "./health_indicator.ts";
+
+/** Options accepted by {@link DiskHealthIndicator}. */
+export interface DiskHealthIndicatorOptions {
+  /**
+   * Key of the indicator in the health check result.
+   *
+   * @default "disk"
+   */
+  name?: string;
+  /**
+   * A path on the file system to check.
+   *
+   * @default "/"
+   */
+  path?: string;
+  /** Maximum used space of the file system in percent (0 - 100). */
+  thresholdPercent: number;
+  /**
+   * The probes the indicator takes part in.
+   *
+   * @default ["readiness"]
+   */
+  probes?: HealthProbe[];
+}
+
+/**
+ * Reports the application as down once the file system holding `path` is
+ * filled above the threshold.
+ *
+ * The usage is read with `df`, the application requires the `--allow-run=df`
+ * permission.
+ *
+ * @example
+ * ```ts
+ * new DiskHealthIndicator({ path: "/var/lib/app", thresholdPercent: 90 });
+ * ```
+ */
+export class DiskHealthIndicator implements HealthIndicator {
+  public readonly name: string;
+  public readonly probes?: HealthProbe[];
+
+  /**
+   * @param {DiskHealthIndicatorOptions} options - The path and threshold to check.
+   */
+  public constructor(private readonly options: DiskHealthIndicatorOptions) {
+    this.name = options.name ?? "disk";
+    this.probes = options.probes;
+  }
+
+  /**
+   * @inheritdoc
+   *
+   * @throws {HealthCheckError} When the used space exceeds the threshold.
+   */
+  public async check(): Promise<Record<string, unknown>> {
+    const path = this.options.path ?? "/";
+    const { success, stdout, stderr } = await new Deno.Command("df", {
+      args: ["-Pk", path],
+      stdout: "piped",
+      stderr: "piped",
+    }).output();
+
+    if (!success) {
+      throw new HealthCheckError(new TextDecoder().decode(stderr).trim(), {
+        path,
+      });
+    }
+
+    const details = {
+      path,
+      ...parseDfOutput(new TextDecoder().decode(stdout)),
+    };
+
+    if (details.usedPercent > this.options.thresholdPercent) {
+      throw new HealthCheckError(
+        `Used disk space of ${details.usedPercent}% exceeds the threshold of ${this.options.thresholdPercent}%.`,
+        details,
+      );
+    }
+
+    return details;
+  }
+}
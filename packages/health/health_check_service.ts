@@ -0,0 +1,123 @@
+import { Inject, Injectable, InjectAll } from "@denorid/injector";
+import {
+  DEFAULT_HEALTH_TIMEOUT,
+  HEALTH_INDICATORS,
+  HEALTH_MODULE_OPTIONS,
+} from "./_constants.ts";
+import {
+  HealthCheckError,
+  type HealthCheckResult,
+  type HealthIndicator,
+  type HealthIndicatorResult,
+  type HealthProbe,
+} from "./health_indicator.ts";
+import type { HealthModuleOptions } from "./module_options.ts";
+
+/**
+ * Runs the registered {@link HealthIndicator}s and aggregates their state.
+ *
+ * Indicators run in parallel; one that rejects or exceeds the configured
+ * timeout is reported as down without affecting the others.
+ *
+ * @example
+ * ```ts
+ * \@Injectable()
+ * class StatusReporter {
+ *   \@Inject(HealthCheckService)
+ *   private readonly health!: HealthCheckService;
+ *
+ *   async isReady(): Promise<boolean> {
+ *     return (await this.health.check("readiness")).status === "ok";
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class HealthCheckService {
+  @InjectAll(HEALTH_INDICATORS)
+  protected readonly indicators!: HealthIndicator[];
+
+  @Inject(HEALTH_MODULE_OPTIONS)
+  protected readonly options!: HealthModuleOptions;
+
+  /**
+   * Checks the registered indicators.
+   *
+   * @param {HealthProbe} [probe] - Only check the indicators taking part in
+   *        this probe. Checks all indicators when omitted.
+   * @return {Promise<HealthCheckResult>} The aggregated result.
+   */
+  public check(probe?: HealthProbe): Promise<HealthCheckResult> {
+    return this.checkIndicators(
+      probe
+        ? this.indicators.filter(({ probes = ["readiness"] }) =>
+          probes.includes(probe)
+        )
+        : this.indicators,
+    );
+  }
+
+  /**
+   * Checks the given indicators, registered or not.
+   *
+   * @param {HealthIndicator[]} indicators - The indicators to check.
+   * @return {Promise<HealthCheckResult>} The aggregated result.
+   */
+  public async checkIndicators(
+    indicators: HealthIndicator[],
+  ): Promise<HealthCheckResult> {
+    const result: HealthCheckResult = {
+      status: "ok",
+      info: {},
+      error: {},
+      details: {},
+    };
+    const states = await Promise.all(
+      indicators.map((indicator) => this.runIndicator(indicator)),
+    );
+
+    for (const [index, state] of states.entries()) {
+      const { name } = indicators[index];
+
+      result.details[name] = state;
+
+      if (state.status === "up") {
+        result.info[name] = state;
+      } else {
+        result.error[name] = state;
+        result.status = "error";
+      }
+    }
+
+    return result;
+  }
+
+  private async runIndicator(
+    indicator: HealthIndicator,
+  ): Promise<HealthIndicatorResult> {
+    const timeout = this.options.timeout ?? DEFAULT_HEALTH_TIMEOUT;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const details = await Promise.race([
+        indicator.check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new HealthCheckError(`Timed out after ${timeout}ms.`)),
+            timeout,
+          );
+        }),
+      ]);
+
+      return { ...details, status: "up" };
+    } catch (err) {
+      return {
+        ...err instanceof HealthCheckError ? err.details : {},
+        status: "down",
+        message: err instanceof Error ? err.message : String(err),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { FakeTime } from "@std/testing/time";
+import { HealthCheckService } from "./health_check_service.ts";
+import {
+  HealthCheckError,
+  type HealthIndicator,
+  type HealthProbe,
+} from "./health_indicator.ts";
+import type { HealthModuleOptions } from "./module_options.ts";
+
+function indicator(
+  name: string,
+  check: HealthIndicator["check"],
+  probes?: HealthProbe[],
+): HealthIndicator {
+  return { name, probes, check };
+}
+
+function createService(
+  indicators: HealthIndicator[],
+  options: HealthModuleOptions = {},
+): HealthCheckService {
+  return Object.assign(new HealthCheckService(), { indicators, options });
+}
+
+describe(HealthCheckService.name, () => {
+  it("reports ok when every indicator is up", async () => {
+    const service = createService([
+      indicator("kv", () => Promise.resolve()),
+      indicator("memory", () => Promise.resolve({ heapUsed: 1 })),
+    ]);
+
+    assertEquals(await service.check(), {
+      status: "ok",
+      info: {
+        kv: { status: "up" },
+        memory: { status: "up", heapUsed: 1 },
+      },
+      error: {},
+      details: {
+        kv: { status: "up" },
+        memory: { status: "up", heapUsed: 1 },
+      },
+    });
+  });
+
+  it("reports the failing indicators with their message and details", async () => {
+    const service = createService([
+      indicator("kv", () => Promise.resolve()),
+      indicator(
+        "disk",
+        () =>
+          Promise.reject(
+            new HealthCheckError("Disk full.", { usedPercent: 99 }),
+          ),
+      ),
+      indicator("s3", () => Promise.reject(new Error("Access denied."))),
+    ]);
+
+    const result = await service.check();
+
+    assertEquals(result.status, "error");
+    assertEquals(result.info, { kv: { status: "up" } });
+    assertEquals(result.error, {
+      disk: { status: "down", message: "Disk full.", usedPercent: 99 },
+      s3: { status: "down", message: "Access denied." },
+    });
+    assertEquals(Object.keys(result.details), ["kv", "disk", "s3"]);
+  });
+
+  it("reports an indicator exceeding the timeout as down", async () => {
+    using time = new FakeTime();
+    const service = createService([
+      indicator("slow", () => new Promise(() => {})),
+    ], { timeout: 100 });
+
+    const pending = service.check();
+
+    await time.tickAsync(100);
+
+    assertEquals((await pending).error, {
+      slow: { status: "down", message: "Timed out after 100ms." },
+    });
+  });
+
+  it("only checks the indicators taking part in the requested probe", async () => {
+    const service = createService([
+      indicator("kv", () => Promise.resolve()),
+      indicator("memory", () => Promise.resolve(), ["liveness", "readiness"]),
+      indicator("event-loop", () => Promise.resolve(), ["liveness"]),
+    ]);
+
+    assertEquals(Object.keys((await service.check("liveness")).details), [
+      "memory",
+      "event-loop",
+    ]);
+    assertEquals(Object.keys((await service.check("readiness")).details), [
+      "kv",
+      "memory",
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import type { GenericFunction, InjectionToken } from "@denorid/injector";
+
+/**
+ * The probe an indicator takes part in. `liveness` checks tell whether the
+ * process has to be restarted, `readiness` checks whether it can serve
+ * traffic.
+ */
+export type HealthProbe = "liveness" | "readiness";
+
+/** A single dependency checked by the {@link HealthCheckService}. */
+export interface HealthIndicator {
+  /** Key of the indicator in the health check result, unique per application. */
+  readonly name: string;
+  /**
+   * The probes the indicator takes part in.
+   *
+   * @default ["readiness"]
+   */
+  readonly probes?: HealthProbe[];
+
+  /**
+   * Checks the dependency. Resolving marks the indicator as up, rejecting as
+   * down.
+   *
+   * @return {Promise<Record<string, unknown> | void>} Optional details added
+   *         to the indicator result.
+   * @throws {HealthCheckError} To mark the indicator as down with details.
+   */
+  check(): Promise<Record<string, unknown> | void>;
+}
+
+/**
+ * An indicator created by a factory, used by integrations depending on
+ * injected services.
+ */
+export interface HealthIndicatorFactory {
+  /** Factory creating the indicator from the injected dependencies. */
+  useFactory: GenericFunction<HealthIndicator | Promise<HealthIndicator>>;
+  /** Tokens injected as arguments into {@link useFactory}. */
+  inject?: InjectionToken[];
+}
+
+/** The state of a single indicator. */
+export interface HealthIndicatorResult {
+  /** Whether the check passed. */
+  status: "up" | "down";
+  [key: string]: unknown;
+}
+
+/** The outcome of a health check over several indicators. */
+export interface HealthCheckResult {
+  /** `"error"` as soon as one indicator is down. */
+  status: "ok" | "error";
+  /** The indicators that are up. */
+  info: Record<string, HealthIndicatorResult>;
+  /** The indicators that are down. */
+  error: Record<string, HealthIndicatorResult>;
+  /** All indicators. */
+  details: Record<string, HealthIndicatorResult>;
+}
+
+/**
+ * Thrown by {@link HealthIndicator.check} to mark the indicator as down with
+ * additional details.
+ */
+export class HealthCheckError extends Error {
+  /**
+   * @param {string} message - Why the check failed.
+   * @param {Record<string, unknown>} [details] - Details added to the indicator result.
+   */
+  public constructor(
+    message: string,
+    public readonly details: Record<string, unknown> = {},
+  ) {
+    super(message);
+  }
+}
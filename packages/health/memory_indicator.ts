@@ -0,0 +1,77 @@
+import {
+  HealthCheckError,
+  type HealthIndicator,
+  type HealthProbe,
+} from "./health_indicator.ts";
+
+/** Options accepted by {@link MemoryHealthIndicator}. */
+export interface MemoryHealthIndicatorOptions {
+  /**
+   * Key of the indicator in the health check result.
+   *
+   * @default "memory"
+   */
+  name?: string;
+  /** Maximum V8 heap usage in bytes. */
+  heapUsedThreshold?: number;
+  /** Maximum resident set size of the process in bytes. */
+  rssThreshold?: number;
+  /**
+   * The probes the indicator takes part in.
+   *
+   * @default ["readiness"]
+   */
+  probes?: HealthProbe[];
+}
+
+/**
+ * Reports the process as down once its heap usage or resident set size
+ * exceeds the configured thresholds.
+ *
+ * @example
+ * ```ts
+ * new MemoryHealthIndicator({ heapUsedThreshold: 512 * 1024 ** 2 });
+ * ```
+ */
+export class MemoryHealthIndicator implements HealthIndicator {
+  public readonly name: string;
+  public readonly probes?: HealthProbe[];
+
+  /**
+   * @param {MemoryHealthIndicatorOptions} [options] - The thresholds to check.
+   */
+  public constructor(
+    private readonly options: MemoryHealthIndicatorOptions = {},
+  ) {
+    this.name = options.name ?? "memory";
+    this.probes = options.probes;
+  }
+
+  /**
+   * @inheritdoc
+   *
+   * @throws {HealthCheckError} When a threshold is exceeded.
+   */
+  public check(): Promise<Record<string, unknown>> {
+    const { heapUsed, rss } = Deno.memoryUsage();
+    const details = { heapUsed, rss };
+
+    for (
+      const [label, value, threshold] of [
+        ["Heap usage", heapUsed, this.options.heapUsedThreshold],
+        ["Resident set size", rss, this.options.rssThreshold],
+      ] as const
+    ) {
+      if (threshold !== undefined && value > threshold) {
+        return Promise.reject(
+          new HealthCheckError(
+            `${label} of ${value} bytes exceeds the threshold of ${threshold} bytes.`,
+            details,
+          ),
+        );
+      }
+    }
+
+    return Promise.resolve(details);
+  }
+}
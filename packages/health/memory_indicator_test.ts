@@ -0,0 +1,35 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { stub } from "@std/testing/mock";
+import { HealthCheckError } from "./health_indicator.ts";
+import { MemoryHealthIndicator } from "./memory_indicator.ts";
+
+function stubMemoryUsage(heapUsed: number, rss: number) {
+  return stub(
+    Deno,
+    "memoryUsage",
+    () => ({ heapUsed, rss, heapTotal: heapUsed, external: 0 }),
+  );
+}
+
+describe(MemoryHealthIndicator.name, () => {
+  it("reports the heap usage and resident set size", async () => {
+    using _s = stubMemoryUsage(10, 20);
+    const indicator = new MemoryHealthIndicator({ heapUsedThreshold: 10 });
+
+    assertEquals(indicator.name, "memory");
+    assertEquals(await indicator.check(), { heapUsed: 10, rss: 20 });
+  });
+
+  it("is down once a threshold is exceeded", async () => {
+    using _s = stubMemoryUsage(10, 20);
+
+    const error = await assertRejects(
+      () => new MemoryHealthIndicator({ rssThreshold: 19 }).check(),
+      HealthCheckError,
+      "Resident set size of 20 bytes exceeds the threshold of 19 bytes.",
+    );
+
+    assertEquals(error.details, { heapUsed: 10, rss: 20 });
+  });
+});
@@ -0,0 +1,57 @@
+import type { ClientProxy } from "@denorid/core";
+import type { HealthIndicator, HealthProbe } from "./health_indicator.ts";
+
+/** Options accepted by {@link MicroserviceHealthIndicator}. */
+export interface MicroserviceHealthIndicatorOptions {
+  /** Key of the indicator in the health check result. */
+  name: string;
+  /**
+   * Creates the client used for a single check, e.g. a `TcpClient` or an
+   * `RmqClient`. A fresh client is connected and closed on every check, so
+   * the check never interferes with the clients serving the application.
+   */
+  client: () => ClientProxy;
+  /**
+   * The probes the indicator takes part in.
+   *
+   * @default ["readiness"]
+   */
+  probes?: HealthProbe[];
+}
+
+/**
+ * Reports a microservice as down when a client can't connect to it.
+ *
+ * @example
+ * ```ts
+ * new MicroserviceHealthIndicator({
+ *   name: "users",
+ *   client: () => new TcpClient({ host: "users", port: 3001 }),
+ * });
+ * ```
+ */
+export class MicroserviceHealthIndicator implements HealthIndicator {
+  public readonly name: string;
+  public readonly probes?: HealthProbe[];
+
+  /**
+   * @param {MicroserviceHealthIndicatorOptions} options - The client to check.
+   */
+  public constructor(
+    private readonly options: MicroserviceHealthIndicatorOptions,
+  ) {
+    this.name = options.name;
+    this.probes = options.probes;
+  }
+
+  /** @inheritdoc */
+  public async check(): Promise<void> {
+    const client = this.options.client();
+
+    try {
+      await client.connect();
+    } finally {
+      await client.close();
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import type { ClientProxy } from "@denorid/core";
+import { assertRejects } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCalls, spy } from "@std/testing/mock";
+import { MicroserviceHealthIndicator } from "./microservice_indicator.ts";
+
+function createClient(connect: () => Promise<void>) {
+  const close = spy(() => Promise.resolve());
+
+  return { client: { connect, close } as unknown as ClientProxy, close };
+}
+
+describe(MicroserviceHealthIndicator.name, () => {
+  it("connects and closes a fresh client", async () => {
+    const { client, close } = createClient(() => Promise.resolve());
+    const factory = spy(() => client);
+
+    await new MicroserviceHealthIndicator({ name: "users", client: factory })
+      .check();
+
+    assertSpyCalls(factory, 1);
+    assertSpyCalls(close, 1);
+  });
+
+  it("is down and closes the client when the connection fails", async () => {
+    const { client, close } = createClient(() =>
+      Promise.reject(new Error("Connection refused"))
+    );
+
+    await assertRejects(
+      () =>
+        new MicroserviceHealthIndicator({ name: "users", client: () => client })
+          .check(),
+      Error,
+      "Connection refused",
+    );
+    assertSpyCalls(close, 1);
+  });
+});
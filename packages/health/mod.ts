@@ -0,0 +1,52 @@
+/**
+ * @module
+ *
+ * Health package for Denorid - exposes the state of the application's
+ * dependencies as health check, liveness and readiness endpoints.
+ *
+ * ### Quick start
+ *
+ * ```ts
+ * import { HealthModule, MemoryHealthIndicator } from "@denorid/health";
+ * import { s3HealthIndicator } from "@denorid/s3/health";
+ *
+ * \@Module({
+ *   imports: [
+ *     S3Module.forRoot({ global: true, connection: { region: "eu-central-1" } }),
+ *     HealthModule.forRoot({
+ *       indicators: [
+ *         new MemoryHealthIndicator({ heapUsedThreshold: 512 * 1024 ** 2 }),
+ *         s3HealthIndicator({ bucket: "avatars" }),
+ *       ],
+ *     }),
+ *   ],
+ * })
+ * class AppModule {}
+ * ```
+ *
+ * ### Exports
+ *
+ * | Symbol | Description |
+ * |---|---|
+ * | {@link HealthModule} | Denorid module - register with `forRoot` or `forRootAsync` |
+ * | {@link HealthCheckService} | Runs the indicators and aggregates their state |
+ * | {@link HealthIndicator} | Contract of a single checked dependency |
+ * | {@link HealthCheckError} | Marks an indicator as down with details |
+ * | {@link HEALTH_INDICATORS} | Multi provider token collecting the indicators |
+ * | {@link MemoryHealthIndicator} | Checks the heap usage and resident set size |
+ * | {@link DiskHealthIndicator} | Checks the used space of a file system |
+ * | {@link MicroserviceHealthIndicator} | Checks that a microservice client connects |
+ *
+ * Indicators of the integrations are exported by their own packages:
+ * `amqpHealthIndicator` from `@denorid/amqp/health`, `cacheHealthIndicator`
+ * from `@denorid/caching/health`, `drizzleHealthIndicator` from
+ * `@denorid/drizzle/health`, `kvHealthIndicator` from `@denorid/kv/health`
+ * and `s3HealthIndicator` from `@denorid/s3/health`.
+ */
+export * from "./disk_indicator.ts";
+export * from "./health_check_service.ts";
+export * from "./health_indicator.ts";
+export * from "./memory_indicator.ts";
+export * from "./microservice_indicator.ts";
+export * from "./module.ts";
+export * from "./module_options.ts";
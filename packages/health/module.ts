@@ -0,0 +1,133 @@
+import {
+  type ClassProvider,
+  type DynamicModule,
+  type FactoryProvider,
+  Module,
+  type Type,
+  type ValueProvider,
+} from "@denorid/injector";
+import {
+  DEFAULT_HEALTH_PATH,
+  HEALTH_INDICATORS,
+  HEALTH_MODULE_OPTIONS,
+} from "./_constants.ts";
+import { createHealthController } from "./_controller.ts";
+import { HealthCheckService } from "./health_check_service.ts";
+import type {
+  HealthAsyncModuleOptions,
+  HealthIndicatorProvider,
+  HealthModuleOptions,
+} from "./module_options.ts";
+
+export { HEALTH_INDICATORS } from "./_constants.ts";
+
+/**
+ * Denorid module exposing the state of the application's dependencies.
+ *
+ * Provides the {@link HealthCheckService} and mounts the health check at
+ * `/health`, the liveness probe at `/health/live` and the readiness probe at
+ * `/health/ready` (configurable, see {@link HealthRegistrationOptions}).
+ * Every route responds with `503` as soon as one checked indicator is down.
+ *
+ * @example Synchronous registration
+ * ```ts
+ * \@Module({
+ *   imports: [
+ *     HealthModule.forRoot({
+ *       indicators: [
+ *         new MemoryHealthIndicator({ heapUsedThreshold: 512 * 1024 ** 2 }),
+ *         kvHealthIndicator(),
+ *       ],
+ *     }),
+ *   ],
+ * })
+ * class AppModule {}
+ * ```
+ *
+ * @example Async registration backed by a config service
+ * ```ts
+ * HealthModule.forRootAsync({
+ *   imports: [ConfigModule],
+ *   inject: [ConfigService],
+ *   useFactory: (config: ConfigService) => ({
+ *     timeout: config.get("HEALTH_TIMEOUT"),
+ *   }),
+ *   indicators: [new DiskHealthIndicator({ thresholdPercent: 90 })],
+ * });
+ * ```
+ */
+@Module({})
+export class HealthModule {
+  /**
+   * Registers `HealthModule` with static options.
+   *
+   * @param {HealthModuleOptions} [options] - Module configuration.
+   * @return {DynamicModule} The configured dynamic module.
+   */
+  public static forRoot(options: HealthModuleOptions = {}): DynamicModule {
+    return this.createDynamicModule(options, { useValue: options });
+  }
+
+  /**
+   * Registers `HealthModule` with options resolved via an async factory.
+   *
+   * @param {HealthAsyncModuleOptions} options - Async module configuration.
+   * @return {DynamicModule} The configured dynamic module.
+   */
+  public static forRootAsync(
+    options: HealthAsyncModuleOptions,
+  ): DynamicModule {
+    return this.createDynamicModule(options, {
+      useFactory: options.useFactory,
+      inject: options.inject,
+    });
+  }
+
+  private static createDynamicModule(
+    options: HealthModuleOptions | HealthAsyncModuleOptions,
+    optionsProviderData:
+      | Omit<ValueProvider, "provide">
+      | Omit<FactoryProvider, "provide">,
+  ): DynamicModule {
+    const path = options.path ?? DEFAULT_HEALTH_PATH;
+    const controllers: Type[] = path === false
+      ? []
+      : [createHealthController(path)];
+
+    return {
+      module: HealthModule,
+      global: options.global,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: HEALTH_MODULE_OPTIONS,
+          ...optionsProviderData,
+        } as ValueProvider | FactoryProvider,
+        ...(options.indicators ?? []).map(toIndicatorProvider),
+        HealthCheckService,
+        ...controllers,
+        ...((options as HealthAsyncModuleOptions).extraProviders ?? []),
+      ],
+      exports: [HealthCheckService, HEALTH_INDICATORS],
+    };
+  }
+}
+
+function toIndicatorProvider(
+  indicator: HealthIndicatorProvider,
+): ValueProvider | ClassProvider | FactoryProvider {
+  if (typeof indicator === "function") {
+    return { provide: HEALTH_INDICATORS, useClass: indicator, multi: true };
+  }
+
+  if ("useFactory" in indicator) {
+    return {
+      provide: HEALTH_INDICATORS,
+      useFactory: indicator.useFactory,
+      inject: indicator.inject,
+      multi: true,
+    };
+  }
+
+  return { provide: HEALTH_INDICATORS, useValue: indicator, multi: true };
+}
@@ -0,0 +1,72 @@
+import type {
+  GenericFunction,
+  InjectionToken,
+  ModuleMetadata,
+  Provider,
+  Type,
+} from "@denorid/injector";
+import type {
+  HealthIndicator,
+  HealthIndicatorFactory,
+} from "./health_indicator.ts";
+
+/** An indicator instance, an injectable indicator class or a factory. */
+export type HealthIndicatorProvider =
+  | HealthIndicator
+  | Type<HealthIndicator>
+  | HealthIndicatorFactory;
+
+/**
+ * Options defining the routes and indicators of the {@link HealthModule}.
+ * They are part of the static module metadata and therefore configured
+ * outside of {@link HealthAsyncModuleOptions.useFactory}.
+ */
+export interface HealthRegistrationOptions
+  extends Pick<ModuleMetadata, "imports"> {
+  /**
+   * Route of the health check, or `false` to mount no controller. The
+   * liveness and readiness probes are served at `${path}/live` and
+   * `${path}/ready`.
+   *
+   * @default "/health"
+   */
+  path?: string | false;
+  /**
+   * The indicators to check. Other modules contribute indicators by
+   * registering a `HEALTH_INDICATORS` multi provider and exporting the token.
+   */
+  indicators?: HealthIndicatorProvider[];
+}
+
+/**
+ * Static configuration for {@link HealthModule.forRoot}.
+ */
+export interface HealthModuleOptions extends HealthRegistrationOptions {
+  /** Register the {@link HealthCheckService} provider globally. */
+  global?: boolean;
+  /**
+   * Time in milliseconds after which an indicator is considered down.
+   *
+   * @default 5000
+   */
+  timeout?: number;
+}
+
+/**
+ * Async configuration for {@link HealthModule.forRootAsync}.
+ */
+export interface HealthAsyncModuleOptions extends HealthRegistrationOptions {
+  /** Register the {@link HealthCheckService} provider globally. */
+  global?: boolean;
+  /** Factory resolving the module options from injected dependencies. */
+  useFactory: GenericFunction<
+    | Omit<HealthModuleOptions, "global" | keyof HealthRegistrationOptions>
+    | Promise<
+      Omit<HealthModuleOptions, "global" | keyof HealthRegistrationOptions>
+    >
+  >;
+  /** Tokens injected as arguments into {@link useFactory}. */
+  inject?: InjectionToken[];
+  /** Additional providers registered alongside the health providers. */
+  extraProviders?: Provider[];
+}
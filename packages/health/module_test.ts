@@ -0,0 +1,134 @@
+import { Test } from "@denorid/core/testing";
+import { Injectable, Module } from "@denorid/injector";
+import { HonoAdapter } from "@denorid/platform-hono";
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { HealthCheckService } from "./health_check_service.ts";
+import { HealthCheckError, type HealthIndicator } from "./health_indicator.ts";
+import { HEALTH_INDICATORS, HealthModule } from "./module.ts";
+
+const ENDPOINT = Symbol("endpoint");
+
+@Injectable()
+class ClassIndicator implements HealthIndicator {
+  public readonly name = "class";
+
+  public check(): Promise<void> {
+    return Promise.resolve();
+  }
+}
+
+@Module({
+  providers: [
+    { provide: ENDPOINT, useValue: "db:5432" },
+    {
+      provide: HEALTH_INDICATORS,
+      useValue: { name: "contributed", check: () => Promise.resolve() },
+      multi: true,
+    },
+  ],
+  exports: [ENDPOINT, HEALTH_INDICATORS],
+})
+class DatabaseModule {}
+
+describe(HealthModule.name, () => {
+  it("registers instance, class and factory indicators", async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        HealthModule.forRoot({
+          path: false,
+          imports: [DatabaseModule],
+          indicators: [
+            { name: "value", check: () => Promise.resolve() },
+            ClassIndicator,
+            {
+              useFactory: (endpoint: string): HealthIndicator => ({
+                name: "factory",
+                check: () => Promise.resolve({ endpoint }),
+              }),
+              inject: [ENDPOINT],
+            },
+          ],
+        }),
+      ],
+    }).compile();
+
+    try {
+      const health = await module.get(HealthCheckService);
+
+      assertEquals((await health.check()).details, {
+        value: { status: "up" },
+        class: { status: "up" },
+        factory: { status: "up", endpoint: "db:5432" },
+        contributed: { status: "up" },
+      });
+    } finally {
+      await module.close();
+    }
+  });
+
+  it("resolves the options via forRootAsync", async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        HealthModule.forRootAsync({
+          path: false,
+          useFactory: () => ({ timeout: 10 }),
+          indicators: [{ name: "slow", check: () => new Promise(() => {}) }],
+        }),
+      ],
+    }).compile();
+
+    try {
+      const health = await module.get(HealthCheckService);
+
+      assertEquals((await health.check()).error, {
+        slow: { status: "down", message: "Timed out after 10ms." },
+      });
+    } finally {
+      await module.close();
+    }
+  });
+
+  describe("serving", () => {
+    @Module({
+      imports: [
+        HealthModule.forRoot({
+          indicators: [
+            {
+              name: "memory",
+              probes: ["liveness"],
+              check: () => Promise.resolve(),
+            },
+            {
+              name: "db",
+              check: () => Promise.reject(new HealthCheckError("Refused.")),
+            },
+          ],
+        }),
+      ],
+    })
+    class AppModule {}
+
+    it("serves the health check and the probes", async () => {
+      const module = await Test.createTestingModule({ imports: [AppModule] })
+        .useCoreGlobals()
+        .compile();
+      await using app = await module.createHttpApplication(new HonoAdapter());
+
+      const health = await app.request().get("/health").expect(503);
+      const live = await app.request().get("/health/live").expect(200);
+      await app.request().get("/health/ready").expect(503);
+
+      assertEquals(await health.json(), {
+        status: "error",
+        info: { memory: { status: "up" } },
+        error: { db: { status: "down", message: "Refused." } },
+        details: {
+          memory: { status: "up" },
+          db: { status: "down", message: "Refused." },
+        },
+      });
+      assertEquals((await live.json()).status, "ok");
+    });
+  });
+});
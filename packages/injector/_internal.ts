@@ -1,4 +1,8 @@
-import type { InjectableMetadata, InjectionDependency } from "./_metadata.ts";
+import type {
+  InjectableMetadata,
+  InjectionDependency,
+  InjectionDependencyMetadata,
+} from "./_metadata.ts";
 import type { InjectionToken, Tag, Type } from "./common.ts";
 import {
   GLOBAL_MODULE_METADATA,
@@ -7,6 +11,7 @@ import {
   MODULE_METADATA,
   TAG_METADATA,
 } from "./constants.ts";
+import { isForwardReference } from "./forward_ref.ts";
 import type {
   OnApplicationBootstrap,
   OnApplicationShutdown,
@@ -93,13 +98,21 @@ export function getInjectableMetadata(
 /**
  * Reads the list of constructor injection dependencies stored on `target` via `Symbol.metadata`.
  *
+ * Forward references are evaluated and flagged with `forward: true`.
+ *
  * @param {Type} target - The class to read the dependencies from.
  * @returns {InjectionDependency[]} The list of injection dependencies, or an empty array if none are registered.
  */
 export function getInjectionDependencies(target: Type): InjectionDependency[] {
-  return (target[Symbol.metadata]
-    ?.[INJECTION_METADATA] as InjectionDependency[]) ??
+  const dependencies = (target[Symbol.metadata]
+    ?.[INJECTION_METADATA] as InjectionDependencyMetadata[] | undefined) ??
     [];
+
+  return dependencies.map((dep) =>
+    isForwardReference(dep.token)
+      ? { ...dep, token: dep.token.forwardRef(), forward: true }
+      : dep as InjectionDependency
+  );
 }
 
 /**
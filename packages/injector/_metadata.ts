@@ -4,6 +4,7 @@ import type {
   InjectionToken,
   InjectOptions,
 } from "./common.ts";
+import type { ForwardReference } from "./forward_ref.ts";
 
 export interface InjectableMetadata extends InjectableOptions {
   /**
@@ -15,6 +16,23 @@ export interface InjectableMetadata extends InjectableOptions {
 export interface InjectionDependency {
   field: string | symbol;
   token: InjectionToken;
+  /**
+   * `true` if the token was declared via `forwardRef()`.
+   */
+  forward?: boolean;
+  /**
+   * `true` if all multi providers of the token are injected (`@InjectAll()`).
+   */
+  all?: boolean;
   options?: InjectOptions;
   expression?: InjectionExpression;
 }
+
+/**
+ * Injection dependency as stored by `@Inject()`, forward references are
+ * evaluated when the dependencies are read.
+ */
+export interface InjectionDependencyMetadata
+  extends Omit<InjectionDependency, "token" | "forward"> {
+  token: InjectionToken | ForwardReference<InjectionToken>;
+}
@@ -5,8 +5,13 @@ import {
 } from "./_internal.ts";
 import type { InjectionToken, Type } from "./common.ts";
 import { ModuleCompilationError } from "./errors.ts";
+import { resolveForwardRef } from "./forward_ref.ts";
 import type { DynamicModule, ModuleMetadata } from "./modules.ts";
-import { getProviderToken, type Provider } from "./provider.ts";
+import {
+  getProviderToken,
+  isMultiProvider,
+  type Provider,
+} from "./provider.ts";
 
 /**
  * Interface of baked or compiled modules to cache.
@@ -44,6 +49,11 @@ export interface CompiledModule {
    * List of tokens available in the current module context.
    */
   ownTokens: Set<InjectionToken>;
+
+  /**
+   * Multi providers (`multi: true`) declared by the module itself.
+   */
+  multiProviders: Provider[];
 }
 
 export class ModuleCompiler {
@@ -54,6 +64,10 @@ export class ModuleCompiler {
   /**
    * Compile a module and all its imports (depth-first)
    *
+   * A module importing a module that is still compiling (circular imports via
+   * `forwardRef()`) receives the pending {@linkcode CompiledModule}, so both
+   * modules end up importing each other.
+   *
    * @async
    * @param {Type|DynamicModule} moduleType
    * @returns {Promise<CompiledModule>} The function returns a `Promise` that resolves into
@@ -76,7 +90,9 @@ export class ModuleCompiler {
 
     const ownProviders = metadata.providers ?? [];
     const ownTokens = new Set<InjectionToken>(
-      ownProviders.map((p) => getProviderToken(p)),
+      ownProviders.filter((p) => !isMultiProvider(p)).map((p) =>
+        getProviderToken(p)
+      ),
     );
 
     ownTokens.add(type);
@@ -88,6 +104,7 @@ export class ModuleCompiler {
       exports: new Set(metadata.exports ?? []),
       isGlobal,
       imports: [],
+      multiProviders: ownProviders.filter((p) => isMultiProvider(p)),
     };
 
     if (isDynamicModule(moduleType)) {
@@ -99,7 +116,9 @@ export class ModuleCompiler {
     const importedProviders: Provider[] = [];
 
     for await (const importItem of metadata.imports ?? []) {
-      const importedModule = await this.compile(importItem);
+      const importedModule = await this.compile(
+        this.resolveImport(type, importItem),
+      );
 
       compiled.imports.push(importedModule);
       importedProviders.push(...importedModule.providers);
@@ -169,6 +188,30 @@ export class ModuleCompiler {
     this.globalProviders = [];
   }
 
+  /**
+   * Evaluates forward references of an import and rejects `undefined` imports,
+   * which are caused by circular file imports without `forwardRef()`.
+   *
+   * @param {Type} parent - The importing module
+   * @param {unknown} importItem - The (awaited) import
+   * @internal
+   */
+  private resolveImport(
+    parent: Type,
+    importItem: unknown,
+  ): Type | DynamicModule {
+    const resolved = resolveForwardRef(importItem);
+
+    if (resolved === undefined || resolved === null) {
+      throw new ModuleCompilationError(
+        `Module "${parent.name}" imports an undefined module. ` +
+          `Use forwardRef(() => Module) for modules that import each other.`,
+      );
+    }
+
+    return resolved as Type | DynamicModule;
+  }
+
   /**
    * Resolve a module type or dynamic module to its metadata
    *
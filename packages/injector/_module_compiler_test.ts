@@ -1,8 +1,10 @@
-import { assertEquals, assertExists } from "@std/assert";
+import { assertEquals, assertExists, assertRejects } from "@std/assert";
 import { afterEach, beforeEach, describe, it } from "@std/testing/bdd";
 import { ModuleCompiler } from "./_module_compiler.ts";
 import { SimpleService } from "./_test_fixtures.ts";
 import { Module } from "./decorators.ts";
+import { ModuleCompilationError } from "./errors.ts";
+import { forwardRef } from "./forward_ref.ts";
 import type { DynamicModule } from "./modules.ts";
 
 describe("ModuleCompiler", () => {
@@ -63,6 +65,35 @@ describe("ModuleCompiler", () => {
     assertEquals(destroyOrder[destroyOrder.length - 1], initOrder[0]);
   });
 
+  it("should compile modules importing each other via forwardRef", async () => {
+    @Module({ imports: [forwardRef(() => AuthModule)] })
+    class UserModule {}
+
+    @Module({ imports: [UserModule] })
+    class AuthModule {}
+
+    const compiled = await compiler.compile(UserModule);
+    const [auth] = compiled.imports;
+
+    assertEquals(auth.type, AuthModule);
+    assertEquals(auth.imports[0], compiled);
+    assertEquals(
+      compiler.getModulesInInitOrder(compiled).map(({ type }) => type),
+      [AuthModule, UserModule],
+    );
+  });
+
+  it("should reject undefined imports", async () => {
+    @Module({ imports: [undefined as unknown as DynamicModule] })
+    class BrokenModule {}
+
+    await assertRejects(
+      () => compiler.compile(BrokenModule),
+      ModuleCompilationError,
+      "forwardRef",
+    );
+  });
+
   it("should clear cache", async () => {
     @Module({ providers: [SimpleService] })
     class ClearModule {}
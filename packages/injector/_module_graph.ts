@@ -0,0 +1,254 @@
+import type { LoggerService } from "@denorid/logger";
+import { hasOnModuleInit } from "./_internal.ts";
+import { type CompiledModule, ModuleCompiler } from "./_module_compiler.ts";
+import { runInModuleContext } from "./_module_context.ts";
+import type { InjectionToken, Type } from "./common.ts";
+import { Container } from "./container.ts";
+import { ModuleRef } from "./module_ref.ts";
+import type { DynamicModule } from "./modules.ts";
+import {
+  getProviderToken,
+  isMultiProvider,
+  type Provider,
+} from "./provider.ts";
+
+/**
+ * Builds and initializes the containers of compiled modules.
+ *
+ * The graph outlives {@linkcode InjectorContext.create}, so modules loaded
+ * later (see {@linkcode LazyModuleLoader}) share the compilation cache, the
+ * containers and the module references of the modules that are already
+ * loaded.
+ *
+ * @internal
+ */
+export class ModuleGraph {
+  /**
+   * Module references of all loaded modules.
+   */
+  public readonly moduleRefs: Map<Type, ModuleRef> = new Map();
+
+  private readonly compiler = new ModuleCompiler();
+  private readonly containers = new Map<Type, Container>();
+  private readonly builtContainers = new Map<CompiledModule, Container>();
+  private readonly builtModuleRefs = new Map<CompiledModule, ModuleRef>();
+  private readonly initializedInstances = new Set<unknown>();
+  private registeredGlobals = 0;
+
+  /**
+   * @param {LoggerService} logger - Logger shared by all containers
+   * @param {Container} globalContainer - The shared global container
+   * @param {boolean} useGlobals - Wether providers of global modules are registered globally
+   */
+  public constructor(
+    private readonly logger: LoggerService,
+    private readonly globalContainer: Container,
+    private readonly useGlobals: boolean,
+  ) {}
+
+  /**
+   * Compiles a module and registers the providers of newly compiled global
+   * modules in the global container.
+   *
+   * @async
+   * @param {Type|DynamicModule} module - The module to compile
+   * @returns {Promise<CompiledModule>} The compiled module.
+   */
+  public async compile(module: Type | DynamicModule): Promise<CompiledModule> {
+    const compiled = await this.compiler.compile(module);
+    const globalProviders = this.compiler.getGlobalProviders();
+
+    if (this.useGlobals) {
+      this.globalContainer.register(
+        ...globalProviders.slice(this.registeredGlobals),
+      );
+    }
+
+    this.registeredGlobals = globalProviders.length;
+
+    return compiled;
+  }
+
+  /**
+   * Check if the container of the given module has been built.
+   *
+   * @param {Type} type - The module class
+   * @returns {boolean} `true` if the module is loaded, `false` otherwise.
+   */
+  public has(type: Type): boolean {
+    return this.containers.has(type);
+  }
+
+  /**
+   * Get the compiled modules of the subtree of `root`, which haven't been
+   * loaded yet, in initialization order (depth-first).
+   *
+   * @note A `root` of an already loaded class, e.g. another dynamic module
+   *       with different options, is pending as long as it isn't built.
+   *
+   * @param {CompiledModule} root - The compiled root of the subtree
+   * @returns {CompiledModule[]} The modules to load.
+   */
+  public getPendingModules(root: CompiledModule): CompiledModule[] {
+    return this.compiler.getModulesInInitOrder(root).filter((mod) =>
+      !this.has(mod.type) || (mod === root && !this.builtContainers.has(root))
+    );
+  }
+
+  /**
+   * Builds the containers of `root` and its imports, reusing the containers
+   * of already loaded modules, and creates the module references of the new
+   * modules. A `root` of an already loaded class gets a container of its own.
+   *
+   * @param {CompiledModule} root - The compiled module
+   * @param {Container} [rootContainer] - The application root container, the
+   *        container of `root` if omitted.
+   * @returns {Container} The container of `root`.
+   */
+  public build(root: CompiledModule, rootContainer?: Container): Container {
+    const pending = this.getPendingModules(root);
+    const container = this.buildContainer(root, this.has(root.type));
+
+    for (const mod of pending) {
+      const moduleRef = new ModuleRef(
+        this.builtContainers.get(mod) ?? this.containers.get(mod.type)!,
+        rootContainer ?? container,
+        mod.ownTokens,
+      );
+
+      this.builtModuleRefs.set(mod, moduleRef);
+
+      if (!this.moduleRefs.has(mod.type)) {
+        this.moduleRefs.set(mod.type, moduleRef);
+      }
+    }
+
+    return container;
+  }
+
+  /**
+   * Get the container of a loaded module.
+   *
+   * @param {CompiledModule} mod - The compiled module
+   * @returns {Container|undefined} The container, or `undefined` if the module isn't loaded.
+   */
+  public getContainer(mod: CompiledModule): Container | undefined {
+    return this.builtContainers.get(mod) ?? this.containers.get(mod.type);
+  }
+
+  /**
+   * Get the module reference of a loaded module.
+   *
+   * @param {CompiledModule} mod - The compiled module
+   * @returns {ModuleRef|undefined} The module reference, or `undefined` if the
+   *          module isn't loaded.
+   */
+  public getModuleRef(mod: CompiledModule): ModuleRef | undefined {
+    return this.builtModuleRefs.get(mod);
+  }
+
+  /**
+   * Instantiates the providers of the given modules and calls their
+   * {@linkcode OnModuleInit} hooks, every instance once.
+   *
+   * @async
+   * @param {CompiledModule[]} modules - The modules in initialization order
+   */
+  public async initialize(modules: CompiledModule[]): Promise<void> {
+    for (const mod of modules) {
+      const container = this.getContainer(mod)!;
+      const moduleRef = this.builtModuleRefs.get(mod)!;
+
+      await runInModuleContext(moduleRef, async () => {
+        for (const token of mod.ownTokens) {
+          if (container.isRequestScoped(token)) {
+            continue;
+          }
+
+          try {
+            const instance = await container.resolve(token);
+            await this.callOnModuleInit(instance);
+          } catch {
+            /** @todo: double check - provider might be transient, skip silently? */
+          }
+        }
+
+        for (
+          const token of new Set(mod.multiProviders.map(getProviderToken))
+        ) {
+          for (const entryToken of container.getMultiTokens(token)) {
+            if (container.isRequestScoped(entryToken)) {
+              continue;
+            }
+
+            await this.callOnModuleInit(await container.resolve(entryToken));
+          }
+        }
+
+        const moduleInstance = await container.resolve(mod.type);
+
+        await this.callOnModuleInit(moduleInstance);
+
+        this.logger.log(`${mod.type.name} dependencies initialized`);
+      });
+    }
+  }
+
+  private async callOnModuleInit(instance: unknown): Promise<void> {
+    if (!this.initializedInstances.has(instance)) {
+      this.initializedInstances.add(instance);
+
+      if (hasOnModuleInit(instance)) {
+        await instance.onModuleInit();
+      }
+    }
+  }
+
+  private buildContainer(
+    mod: CompiledModule,
+    isolated: boolean = false,
+  ): Container {
+    if (!isolated && this.containers.has(mod.type)) {
+      return this.containers.get(mod.type)!;
+    }
+
+    const container = new Container(this.logger, {
+      exports: mod.exports,
+      globalContainer: this.globalContainer,
+    });
+
+    // registered before the imports are built, circular imports
+    // (`forwardRef()`) resolve to the same container
+    if (!isolated) {
+      this.containers.set(mod.type, container);
+    }
+
+    this.builtContainers.set(mod, container);
+
+    for (const importedMod of mod.imports) {
+      container.addChild(this.buildContainer(importedMod));
+    }
+
+    const providerMap = new Map<InjectionToken, Provider>();
+
+    for (const provider of mod.providers) {
+      if (!isMultiProvider(provider)) {
+        providerMap.set(getProviderToken(provider), provider);
+      }
+    }
+
+    for (const token of mod.ownTokens) {
+      const provider = providerMap.get(token);
+
+      if (provider) {
+        container.register(provider);
+      } else if (typeof token === "function") {
+        container.register(token);
+      }
+    }
+
+    container.register(...mod.multiProviders);
+
+    return container;
+  }
+}
@@ -2,6 +2,7 @@ import { getInjectableMetadata } from "./_internal.ts";
 import type { InjectableMode, InjectionToken } from "./common.ts";
 import type { Container } from "./container.ts";
 import { InvalidProviderError } from "./errors.ts";
+import { resolveForwardRef } from "./forward_ref.ts";
 import {
   isClassProvider,
   isExistingProvider,
@@ -79,7 +80,9 @@ export function normalizeProvider(provider: Provider): NormalizedProvider {
       mode,
       resolve: async (container) => {
         const deps = await Promise.all(
-          (provider.inject ?? []).map((token) => container.resolve(token)),
+          (provider.inject ?? []).map((token) =>
+            container.resolve(resolveForwardRef(token))
+          ),
         );
         return provider.useFactory(...deps);
       },
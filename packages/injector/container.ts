@@ -22,7 +22,7 @@ import {
   RequestContextError,
   TokenNotFoundError,
 } from "./errors.ts";
-import { isClassProvider, type Provider } from "./provider.ts";
+import { isClassProvider, isMultiProvider, type Provider } from "./provider.ts";
 
 /**
  * Interface to optionally configure the dependency container instance.
@@ -67,6 +67,14 @@ export class Container {
   private singletons = new Map<InjectionToken, unknown>();
   private resolving = new Set<InjectionToken>();
 
+  /**
+   * Field injections waiting for a singleton that is still being resolved.
+   */
+  private deferred = new Map<
+    InjectionToken,
+    ((instance: unknown) => Promise<void>)[]
+  >();
+
   /**
    * Parent container.
    *
@@ -102,6 +110,11 @@ export class Container {
    */
   private tagToTokens = new Map<Tag, Set<InjectionToken>>();
 
+  /**
+   * Mapping of multi provider tokens to the internal tokens of their entries.
+   */
+  private multiToTokens = new Map<InjectionToken, InjectionToken[]>();
+
   /**
    * Per-context instance caches for context-scoped transient resolution.
    */
@@ -126,6 +139,10 @@ export class Container {
   /**
    * Register a provider in the container.
    *
+   * A provider replaces any provider previously registered for its token,
+   * unless it's a multi provider (`multi: true`): these are appended to the
+   * list of providers resolved by {@linkcode resolveAll}.
+   *
    * @param {...Provider[]} providers - Providers passed as rest arguments
    * @returns {Container} Reference to `this` object.
    *
@@ -145,6 +162,11 @@ export class Container {
     for (const provider of providers) {
       const normalized = normalizeProvider(provider);
 
+      if (isMultiProvider(provider)) {
+        this.registerMulti(normalized);
+        continue;
+      }
+
       this.providers.set(normalized.token, normalized);
 
       const targetClass = this.getProviderClass(provider);
@@ -263,6 +285,17 @@ export class Container {
     return undefined;
   }
 
+  /**
+   * Get the tokens of the multi providers registered for `token` in this
+   * container only.
+   *
+   * @param {InjectionToken} token - The multi provider token
+   * @returns {InjectionToken[]} The tokens of the entries, in registration order.
+   */
+  public getMultiTokens(token: InjectionToken): InjectionToken[] {
+    return [...this.multiToTokens.get(token) ?? []];
+  }
+
   /**
    * Check if a token is request-scoped.
    *
@@ -274,6 +307,58 @@ export class Container {
     return this.getProviderMode(token) === "request";
   }
 
+  /**
+   * Defers `callback` until the singleton of the given `token` is resolved, if
+   * that singleton is currently being resolved. Follows the same resolution
+   * order as {@linkcode resolve}.
+   *
+   * Used to inject forward-referenced dependencies of singletons that depend
+   * on each other.
+   *
+   * @param {InjectionToken} token - The provider token
+   * @param {(instance: unknown) => Promise<void>} callback - Receives the resolved singleton
+   * @returns {boolean} The function returns `true` if `callback` was deferred,
+   *          `false` if the token has to be resolved as usual.
+   */
+  public deferUntilResolved(
+    token: InjectionToken,
+    callback: (instance: unknown) => Promise<void>,
+  ): boolean {
+    const provider = this.providers.get(token);
+
+    if (provider) {
+      if (provider.mode !== "singleton" || !this.resolving.has(token)) {
+        return false;
+      }
+
+      let callbacks = this.deferred.get(token);
+
+      if (!callbacks) {
+        callbacks = [];
+
+        this.deferred.set(token, callbacks);
+      }
+
+      callbacks.push(callback);
+
+      return true;
+    }
+
+    for (const child of this.children) {
+      if (child.isExported(token) && child.canResolve(token)) {
+        return child.deferUntilResolved(token, callback);
+      }
+    }
+
+    if (this.globalContainer && this.globalContainer !== this) {
+      if (this.globalContainer.has(token)) {
+        return this.globalContainer.deferUntilResolved(token, callback);
+      }
+    }
+
+    return false;
+  }
+
   /**
    * Resolve a dependency by its token, using the following resolution order:
    * 1. Own providers
@@ -436,9 +521,55 @@ export class Container {
     return instances;
   }
 
+  /**
+   * Resolve all multi providers registered for the given `token`, using the
+   * following order:
+   * 1. Own multi providers, in registration order
+   * 2. Multi providers of child containers (imported modules) exporting the `token`
+   * 3. Global multi providers
+   *
+   * @async
+   * @template T - The type of each resolved value
+   * @param {InjectionToken} token - The multi provider token
+   * @param {string|undefined} contextId - Optional context identifier for transient caching
+   * @returns {Promise<T[]>} The function returns a `Promise` that resolves into
+   *          the resolved values, or an empty array if no multi provider exists.
+   *
+   * @example
+   * ```ts
+   * container.register(
+   *   { provide: VALIDATORS, useClass: EmailValidator, multi: true },
+   *   { provide: VALIDATORS, useValue: (input: string) => input.length > 0, multi: true },
+   * );
+   *
+   * const validators = await container.resolveAll(VALIDATORS);
+   * ```
+   */
+  public async resolveAll<T = unknown>(
+    token: InjectionToken,
+    contextId?: string,
+  ): Promise<T[]> {
+    const instances = await this.collectMulti<T>(token, contextId, new Set());
+
+    if (this.globalContainer && this.globalContainer !== this) {
+      instances.push(
+        ...(await this.globalContainer.collectMulti<T>(
+          token,
+          contextId,
+          new Set(),
+        )),
+      );
+    }
+
+    return instances;
+  }
+
   /**
    * Get all tokens registered with a specific tag (without resolving).
    *
+   * @note Bypassing the export check includes the tokens of all nested
+   *       children, not only the direct ones.
+   *
    * @param {Tag} tag - The searchable tag
    * @param {boolean|undefined} bypassExportCheck - Optional bypass the isExported() logic
    * @returns {InjectionToken[]} The function returns an array of `InjectionToken`
@@ -451,19 +582,24 @@ export class Container {
     bypassExportCheck ??= false;
 
     const result: InjectionToken[] = [];
-    const ownTokens = this.tagToTokens.get(tag);
 
-    if (ownTokens) {
-      result.push(...ownTokens);
-    }
+    if (bypassExportCheck) {
+      result.push(...new Set(this.collectTaggedTokens(tag, new Set())));
+    } else {
+      const ownTokens = this.tagToTokens.get(tag);
 
-    for (const child of this.children) {
-      const childTokens = child.tagToTokens.get(tag);
+      if (ownTokens) {
+        result.push(...ownTokens);
+      }
 
-      if (childTokens) {
-        for (const token of childTokens) {
-          if (bypassExportCheck || child.isExported(token)) {
-            result.push(token);
+      for (const child of this.children) {
+        const childTokens = child.tagToTokens.get(tag);
+
+        if (childTokens) {
+          for (const token of childTokens) {
+            if (child.isExported(token)) {
+              result.push(token);
+            }
           }
         }
       }
@@ -505,6 +641,9 @@ export class Container {
   /**
    * Inject dependencies into an existing instance.
    *
+   * Forward-referenced dependencies on a singleton that is still being
+   * resolved are injected as soon as that singleton exists.
+   *
    * @async
    * @template T - The actual instance type
    * @param {T} instance - The actual instance
@@ -520,13 +659,24 @@ export class Container {
     const dependencies = getInjectionDependencies(target);
 
     for (const dep of dependencies) {
-      try {
-        const resolved = await this.resolve(dep.token);
-        const value: unknown = dep.expression
+      const inject = async (resolved: unknown): Promise<void> => {
+        (instance as Record<Tag, unknown>)[dep.field] = dep.expression
           ? await dep.expression(resolved)
           : resolved;
+      };
+
+      if (
+        dep.forward && !dep.all && this.deferUntilResolved(dep.token, inject)
+      ) {
+        continue;
+      }
 
-        (instance as Record<Tag, unknown>)[dep.field] = value;
+      try {
+        await inject(
+          dep.all
+            ? await this.resolveAll(dep.token)
+            : await this.resolve(dep.token),
+        );
       } catch (e) {
         const err = e as Error;
 
@@ -555,17 +705,11 @@ export class Container {
    * @returns {unknown[]} The function returns an array of resolved instances.
    */
   public getInstances(options?: RecursiveResolutionOption): unknown[] {
-    const instances = [...this.instances];
-
     if (options?.recursive) {
-      for (const child of this.children) {
-        instances.push(...child.getInstances(options));
-      }
-
-      return [...new Set<unknown>(instances)];
+      return [...new Set<unknown>(this.collectInstances(new Set()))];
     }
 
-    return instances;
+    return [...this.instances];
   }
 
   /**
@@ -600,6 +744,8 @@ export class Container {
   public clear(): void {
     this.providers.clear();
     this.singletons.clear();
+    this.deferred.clear();
+    this.multiToTokens.clear();
     this.instances = [];
     this.tagToTokens.clear();
     this.contexts.clear();
@@ -614,6 +760,129 @@ export class Container {
     this.contexts.delete(contextId);
   }
 
+  /**
+   * Collects the instances of this container and all children, visiting
+   * every container once (imported modules can import each other).
+   *
+   * @param {Set<Container>} visited - The containers collected so far
+   * @returns {unknown[]} The collected instances.
+   *
+   * @internal
+   */
+  private collectInstances(visited: Set<Container>): unknown[] {
+    if (visited.has(this)) {
+      return [];
+    }
+
+    visited.add(this);
+
+    const instances = [...this.instances];
+
+    for (const child of this.children) {
+      instances.push(...child.collectInstances(visited));
+    }
+
+    return instances;
+  }
+
+  /**
+   * Collects the tokens tagged with `tag` of this container and all children,
+   * visiting every container once.
+   *
+   * @param {Tag} tag - The searchable tag
+   * @param {Set<Container>} visited - The containers collected so far
+   * @returns {InjectionToken[]} The collected tokens.
+   *
+   * @internal
+   */
+  private collectTaggedTokens(
+    tag: Tag,
+    visited: Set<Container>,
+  ): InjectionToken[] {
+    if (visited.has(this)) {
+      return [];
+    }
+
+    visited.add(this);
+
+    const tokens = [...this.tagToTokens.get(tag) ?? []];
+
+    for (const child of this.children) {
+      tokens.push(...child.collectTaggedTokens(tag, visited));
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Registers a multi provider under an internal token, so every entry keeps
+   * its own mode and instance cache.
+   *
+   * @param {NormalizedProvider} normalized - The normalized multi provider
+   *
+   * @internal
+   */
+  private registerMulti(normalized: NormalizedProvider): void {
+    let tokens = this.multiToTokens.get(normalized.token);
+
+    if (!tokens) {
+      tokens = [];
+
+      this.multiToTokens.set(normalized.token, tokens);
+    }
+
+    const entryToken = Symbol(
+      `${serializeToken(normalized.token)}[${tokens.length}]`,
+    );
+
+    tokens.push(entryToken);
+    this.providers.set(entryToken, { ...normalized, token: entryToken });
+  }
+
+  /**
+   * Resolves the own multi providers of `token` and those of all children
+   * exporting it, visiting every container once.
+   *
+   * @async
+   * @param {InjectionToken} token - The multi provider token
+   * @param {string|undefined} contextId - Optional context identifier
+   * @param {Set<Container>} visited - The containers collected so far
+   * @returns {Promise<T[]>} The resolved values.
+   *
+   * @internal
+   */
+  private async collectMulti<T>(
+    token: InjectionToken,
+    contextId: string | undefined,
+    visited: Set<Container>,
+  ): Promise<T[]> {
+    if (visited.has(this)) {
+      return [];
+    }
+
+    visited.add(this);
+
+    const instances: T[] = [];
+
+    for (const entryToken of this.multiToTokens.get(token) ?? []) {
+      instances.push(
+        (contextId
+          ? await this.resolveWithContext(entryToken, contextId)
+          : await this.resolve(entryToken)) as T,
+      );
+    }
+
+    for (const child of this.children) {
+      if (child.isExported(token)) {
+        instances.push(
+          ...(await child.collectMulti<T>(token, contextId, visited)),
+        );
+      }
+    }
+
+    return instances;
+  }
+
   /**
    * Extract the concrete class constructor from a provider.
    *
@@ -729,9 +998,14 @@ export class Container {
       this.singletons.set(token, instance);
       this.instances.push(instance);
 
+      for (const inject of this.deferred.get(token) ?? []) {
+        await inject(instance);
+      }
+
       return instance;
     } finally {
       this.resolving.delete(token);
+      this.deferred.delete(token);
     }
   }
 
@@ -19,12 +19,13 @@ import {
 } from "./_test_fixtures.ts";
 import type { InjectableMode } from "./common.ts";
 import { Container } from "./container.ts";
-import { Inject, Injectable, Tags } from "./decorators.ts";
+import { Inject, Injectable, InjectAll, Tags } from "./decorators.ts";
 import {
   CircularDependencyError,
   RequestContextError,
   TokenNotFoundError,
 } from "./errors.ts";
+import { forwardRef } from "./forward_ref.ts";
 
 describe("Container", () => {
   let container: Container;
@@ -232,6 +233,90 @@ describe("Container", () => {
       );
     });
 
+    it("should resolve singletons injecting each other via forwardRef", async () => {
+      @Injectable()
+      class UserService {
+        @Inject(forwardRef(() => AuthService))
+        auth!: AuthService;
+      }
+
+      @Injectable()
+      class AuthService {
+        @Inject(forwardRef(() => UserService), (users) => ({ users }))
+        wrapped!: { users: UserService };
+      }
+
+      container.register(UserService, AuthService);
+
+      const users = await container.resolve(UserService);
+      const auth = await container.resolve(AuthService);
+
+      assertEquals(users.auth, auth);
+      assertEquals(auth.wrapped.users, users);
+    });
+
+    it("should resolve forwardRef dependencies across child containers", async () => {
+      const child = new Container(noopLogger, {
+        exports: new Set(["AUTH"]),
+      });
+
+      @Injectable()
+      class UserService {
+        @Inject(forwardRef(() => "AUTH"))
+        auth!: AuthService;
+      }
+
+      @Injectable()
+      class AuthService {
+        @Inject(forwardRef(() => UserService))
+        users!: UserService;
+      }
+
+      container.register(UserService).setExports(new Set([UserService]));
+      child.register({ provide: "AUTH", useClass: AuthService });
+      container.addChild(child);
+      child.addChild(container);
+
+      const users = await container.resolve(UserService);
+
+      assertInstanceOf(users.auth, AuthService);
+      assertEquals(users.auth.users, users);
+    });
+
+    it("should throw CircularDependencyError for transient forwardRef cycles", async () => {
+      @Injectable({ mode: "transient" })
+      class A {
+        @Inject(forwardRef(() => B))
+        b!: unknown;
+      }
+
+      @Injectable({ mode: "transient" })
+      class B {
+        @Inject(forwardRef(() => A))
+        a!: A;
+      }
+
+      container.register(A, B);
+
+      await assertRejects(
+        () => container.resolve(A),
+        CircularDependencyError,
+      );
+    });
+
+    it("should resolve forwardRef tokens of factory providers", async () => {
+      container.register(
+        {
+          provide: "GREETING",
+          useFactory: (name: string) => `hello ${name}`,
+          inject: [forwardRef(() => "NAME")],
+        },
+        { provide: "NAME", useValue: "world" },
+      );
+
+      assertEquals(await container.resolve("GREETING"), "hello world");
+    });
+
     it("should throw TokenNotFoundError", async () => {
       await assertRejects(
         () => container.resolve("UNKNOWN"),
@@ -272,6 +357,101 @@ describe("Container", () => {
     });
   });
 
+  describe("multi providers", () => {
+    it("should accumulate value, class and factory providers", async () => {
+      container.register(
+        { provide: "PLUGINS", useValue: "value", multi: true },
+        { provide: "PLUGINS", useClass: SimpleService, multi: true },
+        { provide: "PLUGINS", useFactory: () => "factory", multi: true },
+      );
+
+      const plugins = await container.resolveAll("PLUGINS");
+
+      assertEquals(plugins.length, 3);
+      assertEquals(plugins[0], "value");
+      assertInstanceOf(plugins[1], SimpleService);
+      assertEquals(plugins[2], "factory");
+    });
+
+    it("should keep the mode of every entry", async () => {
+      container.register(
+        { provide: "PLUGINS", useClass: SimpleService, multi: true },
+        { provide: "PLUGINS", useClass: TransientService, multi: true },
+      );
+
+      const [singletonA, transientA] = await container.resolveAll("PLUGINS");
+      const [singletonB, transientB] = await container.resolveAll("PLUGINS");
+
+      assertEquals(singletonA, singletonB);
+      assert(transientA !== transientB);
+    });
+
+    it("should not replace or be replaced by a single provider", async () => {
+      container.register(
+        { provide: "PLUGINS", useValue: "single" },
+        { provide: "PLUGINS", useValue: "multi", multi: true },
+      );
+
+      assertEquals(await container.resolve("PLUGINS"), "single");
+      assertEquals(await container.resolveAll("PLUGINS"), ["multi"]);
+    });
+
+    it("should collect entries of children exporting the token and globals", async () => {
+      const globalContainer = new Container(noopLogger);
+      const root = new Container(noopLogger, { globalContainer });
+      const exporting = new Container(noopLogger, {
+        exports: new Set(["PLUGINS"]),
+      });
+      const hidden = new Container(noopLogger);
+
+      globalContainer.register({
+        provide: "PLUGINS",
+        useValue: "global",
+        multi: true,
+      });
+      root.register({ provide: "PLUGINS", useValue: "root", multi: true });
+      exporting.register({
+        provide: "PLUGINS",
+        useValue: "child",
+        multi: true,
+      });
+      hidden.register({ provide: "PLUGINS", useValue: "hidden", multi: true });
+      root.addChild(exporting).addChild(hidden);
+
+      assertEquals(await root.resolveAll("PLUGINS"), [
+        "root",
+        "child",
+        "global",
+      ]);
+    });
+
+    it("should return an empty array without multi providers", async () => {
+      assertEquals(await container.resolveAll("PLUGINS"), []);
+    });
+
+    it("should inject all entries via @InjectAll()", async () => {
+      @Injectable()
+      class Registry {
+        @InjectAll("PLUGINS")
+        plugins!: string[];
+
+        @InjectAll("NONE")
+        none!: string[];
+      }
+
+      container.register(
+        Registry,
+        { provide: "PLUGINS", useValue: "a", multi: true },
+        { provide: "PLUGINS", useValue: "b", multi: true },
+      );
+
+      const registry = await container.resolve(Registry);
+
+      assertEquals(registry.plugins, ["a", "b"]);
+      assertEquals(registry.none, []);
+    });
+  });
+
   describe("tryResolve", () => {
     it("should return instance if found", async () => {
       container.register(SimpleService);
@@ -553,6 +733,20 @@ describe("Container", () => {
       assertEquals(tokens.length, 0);
     });
 
+    it("should include nested children when bypassing the export check", () => {
+      const parent = new Container(noopLogger);
+      const child = new Container(noopLogger);
+      const grandchild = new Container(noopLogger);
+
+      grandchild.register(TaggedServiceA);
+      child.addChild(grandchild);
+      parent.addChild(child);
+      parent.addChild(grandchild);
+
+      assertEquals(parent.getTokensByTag(TAG_A), []);
+      assertEquals(parent.getTokensByTag(TAG_A, true), [TaggedServiceA]);
+    });
+
     it("should handle getTokensByTag with global container", () => {
       const global = new Container(noopLogger);
 
@@ -637,6 +831,17 @@ describe("Container", () => {
     });
   });
 
+  describe("getMultiTokens", () => {
+    it("should return the own entries of a multi provider token", () => {
+      const container = new Container(noopLogger)
+        .register({ provide: "PLUGINS", useValue: "a", multi: true })
+        .register({ provide: "PLUGINS", useValue: "b", multi: true });
+
+      assertEquals(container.getMultiTokens("PLUGINS").length, 2);
+      assertEquals(container.getMultiTokens("OTHER"), []);
+    });
+  });
+
   describe("isRequestScoped", () => {
     it("should return true for request-scoped", () => {
       container.register(RequestScopedService);
@@ -688,6 +893,17 @@ describe("Container", () => {
       assertEquals(instances.length, 2);
     });
 
+    it("should visit circular children once", async () => {
+      const child = new Container(noopLogger);
+
+      container.addChild(child);
+      child.addChild(container);
+      container.register(SimpleService);
+      await container.resolve(SimpleService);
+
+      assertEquals(container.getInstances({ recursive: true }).length, 1);
+    });
+
     it("should deduplicate instances", async () => {
       container.register(SimpleService);
 
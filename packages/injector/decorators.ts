@@ -1,4 +1,7 @@
-import type { InjectableMetadata, InjectionDependency } from "./_metadata.ts";
+import type {
+  InjectableMetadata,
+  InjectionDependencyMetadata,
+} from "./_metadata.ts";
 import type {
   Decorator,
   InjectableOptions,
@@ -15,12 +18,16 @@ import {
   TAG_METADATA,
 } from "./constants.ts";
 import { InvalidStaticMemberDecoratorUsageError } from "./errors.ts";
+import type { ForwardReference } from "./forward_ref.ts";
 import type { ModuleMetadata } from "./modules.ts";
 
 /**
  * Marks a class field for dependency injection.
  *
- * @param {InjectionToken} token - The token to resolve and inject.
+ * Wrap the token with {@linkcode forwardRef} if the class is declared later or
+ * both classes inject each other.
+ *
+ * @param {InjectionToken|ForwardReference<InjectionToken>} token - The token to resolve and inject.
  * @param {InjectOptions} [options] - Optional injection configuration.
  *
  * @example Usage
@@ -36,7 +43,7 @@ import type { ModuleMetadata } from "./modules.ts";
  * ```
  */
 export function Inject(
-  token: InjectionToken,
+  token: InjectionToken | ForwardReference<InjectionToken>,
   options?: InjectOptions,
 ): Decorator<ClassFieldDecoratorContext>;
 
@@ -46,7 +53,7 @@ export function Inject(
  * The resolved instance is passed to `expression`; its return value
  * (which may be a `Promise`) is awaited and becomes the field value.
  *
- * @param {InjectionToken<T>} token - The token to resolve.
+ * @param {InjectionToken<T>|ForwardReference<InjectionToken<T>>} token - The token to resolve.
  * @param {InjectionExpression<T>} expression - Receives the resolved instance; return value becomes the field value.
  *
  * @example Sync expression
@@ -62,48 +69,29 @@ export function Inject(
  * ```
  */
 export function Inject<T>(
-  token: InjectionToken<T>,
+  token: InjectionToken<T> | ForwardReference<InjectionToken<T>>,
   expression: InjectionExpression<T>,
 ): Decorator<ClassFieldDecoratorContext>;
 
 /**
  * Marks a class field for dependency injection with an expression callback and options.
  *
- * @param {InjectionToken<T>} token - The token to resolve.
+ * @param {InjectionToken<T>|ForwardReference<InjectionToken<T>>} token - The token to resolve.
  * @param {InjectionExpression<T>} expression - Receives the resolved instance; return value becomes the field value.
  * @param {InjectOptions} options - Optional injection configuration.
  */
 export function Inject<T>(
-  token: InjectionToken<T>,
+  token: InjectionToken<T> | ForwardReference<InjectionToken<T>>,
   expression: InjectionExpression<T>,
   options: InjectOptions,
 ): Decorator<ClassFieldDecoratorContext>;
 
 export function Inject<T>(
-  token: InjectionToken<T>,
+  token: InjectionToken<T> | ForwardReference<InjectionToken<T>>,
   expressionOrOptions?: InjectionExpression<T> | InjectOptions,
   options?: InjectOptions,
 ): Decorator<ClassFieldDecoratorContext> {
   return (_: unknown, ctx: ClassFieldDecoratorContext): void => {
-    if (ctx.static) {
-      throw new InvalidStaticMemberDecoratorUsageError(
-        "Inject",
-        ctx.name,
-        "property",
-      );
-    }
-
-    const dependencies =
-      (ctx.metadata[INJECTION_METADATA] ??= []) as InjectionDependency[];
-
-    if (dependencies.some(({ field }) => field === ctx.name)) {
-      throw new Error(
-        `Cannot inject multiple tokens into the same field: ${
-          String(ctx.name)
-        }`,
-      );
-    }
-
     const expression = typeof expressionOrOptions === "function"
       ? (expressionOrOptions as InjectionExpression<T>)
       : undefined;
@@ -112,15 +100,78 @@ export function Inject<T>(
       ? options
       : (expressionOrOptions as InjectOptions | undefined);
 
-    dependencies.push({
+    addInjectionDependency(ctx, "Inject", {
       field: ctx.name,
-      token: token as InjectionToken,
+      token: token as InjectionToken | ForwardReference<InjectionToken>,
       options: resolvedOptions,
       expression: expression as InjectionExpression | undefined,
     });
   };
 }
 
+/**
+ * Marks a class field to receive the values of all multi providers
+ * (`multi: true`) registered for `token`, as an array. Modules contribute
+ * entries by exporting the token.
+ *
+ * The field receives an empty array if no multi provider exists.
+ *
+ * @param {InjectionToken|ForwardReference<InjectionToken>} token - The multi provider token.
+ *
+ * @example Usage
+ * ```ts
+ * \@Module({
+ *   providers: [
+ *     { provide: HEALTH_INDICATORS, useClass: DatabaseIndicator, multi: true },
+ *   ],
+ *   exports: [HEALTH_INDICATORS],
+ * })
+ * class DatabaseModule {}
+ *
+ * \@Injectable()
+ * class HealthService {
+ *   \@InjectAll(HEALTH_INDICATORS)
+ *   private indicators!: HealthIndicator[];
+ * }
+ * ```
+ */
+export function InjectAll(
+  token: InjectionToken | ForwardReference<InjectionToken>,
+): Decorator<ClassFieldDecoratorContext> {
+  return (_: unknown, ctx: ClassFieldDecoratorContext): void => {
+    addInjectionDependency(ctx, "InjectAll", {
+      field: ctx.name,
+      token,
+      all: true,
+    });
+  };
+}
+
+function addInjectionDependency(
+  ctx: ClassFieldDecoratorContext,
+  decoratorName: string,
+  dependency: InjectionDependencyMetadata,
+): void {
+  if (ctx.static) {
+    throw new InvalidStaticMemberDecoratorUsageError(
+      decoratorName,
+      ctx.name,
+      "property",
+    );
+  }
+
+  const dependencies =
+    (ctx.metadata[INJECTION_METADATA] ??= []) as InjectionDependencyMetadata[];
+
+  if (dependencies.some(({ field }) => field === ctx.name)) {
+    throw new Error(
+      `Cannot inject multiple tokens into the same field: ${String(ctx.name)}`,
+    );
+  }
+
+  dependencies.push(dependency);
+}
+
 /**
  * Marks a class as injectable (can be provided and injected).
  *
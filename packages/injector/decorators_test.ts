@@ -9,7 +9,14 @@ import {
   INJECTION_METADATA,
   TAG_METADATA,
 } from "./constants.ts";
-import { Global, Inject, Injectable, Module, Tags } from "./decorators.ts";
+import {
+  Global,
+  Inject,
+  Injectable,
+  InjectAll,
+  Module,
+  Tags,
+} from "./decorators.ts";
 import { InvalidStaticMemberDecoratorUsageError } from "./errors.ts";
 
 describe("decorators.ts", () => {
@@ -130,6 +137,46 @@ describe("decorators.ts", () => {
     });
   });
 
+  describe("@InjectAll", () => {
+    it("should store an injection dependency flagged with all", () => {
+      class TestService {
+        @InjectAll("PLUGINS")
+        plugins!: unknown[];
+      }
+
+      const deps = TestService[Symbol.metadata]
+        ?.[INJECTION_METADATA] as InjectionDependency[];
+
+      assertEquals(deps, [{ field: "plugins", token: "PLUGINS", all: true }]);
+    });
+
+    it("should not share a field with @Inject", () => {
+      assertThrows(
+        () => {
+          class _TestService {
+            @Inject("PLUGIN")
+            @InjectAll("PLUGINS")
+            plugins!: unknown[];
+          }
+        },
+        Error,
+        "Cannot inject multiple tokens into the same field",
+      );
+    });
+
+    it("should throw on static fields", () => {
+      assertThrows(
+        () => {
+          class _TestService {
+            @InjectAll("PLUGINS")
+            static plugins: unknown[];
+          }
+        },
+        InvalidStaticMemberDecoratorUsageError,
+      );
+    });
+  });
+
   describe("@Module", () => {
     it("should register module metadata", () => {
       @Module({ providers: [SimpleService] })
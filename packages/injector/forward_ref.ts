@@ -0,0 +1,65 @@
+/**
+ * A lazily evaluated reference, created via {@linkcode forwardRef}.
+ */
+export interface ForwardReference<T = unknown> {
+  /**
+   * Returns the referenced value.
+   */
+  forwardRef: () => T;
+}
+
+/**
+ * Wraps a reference that cannot be evaluated yet, because the referenced class
+ * is declared later or belongs to a module that imports the current one.
+ *
+ * Accepted by {@linkcode Inject}, {@linkcode FactoryProvider.inject} and
+ * {@linkcode ModuleMetadata.imports}. Two singletons referring to each other
+ * through forward-referenced `@Inject()` fields are resolved by deferring the
+ * field injection until both instances exist.
+ *
+ * @example Usage
+ * ```ts
+ * @Injectable()
+ * class UserService {
+ *   @Inject(forwardRef(() => AuthService))
+ *   private readonly auth!: AuthService;
+ * }
+ *
+ * @Injectable()
+ * class AuthService {
+ *   @Inject(forwardRef(() => UserService))
+ *   private readonly users!: UserService;
+ * }
+ * ```
+ *
+ * @template T - The referenced type
+ * @param {() => T} fn - Function returning the referenced value
+ * @returns {ForwardReference<T>} The function returns the forward reference.
+ */
+export function forwardRef<T>(fn: () => T): ForwardReference<T> {
+  return { forwardRef: fn };
+}
+
+/**
+ * Check if the given `data` is a {@linkcode ForwardReference}.
+ *
+ * @param {unknown} data - The value to check
+ * @returns {boolean} The function returns `true` if `data` was created via
+ *          {@linkcode forwardRef}, `false` otherwise.
+ */
+export function isForwardReference(data: unknown): data is ForwardReference {
+  return typeof data === "object" &&
+    data !== null &&
+    typeof (data as ForwardReference).forwardRef === "function";
+}
+
+/**
+ * Evaluates a {@linkcode ForwardReference}, any other value is returned as is.
+ *
+ * @template T - The referenced type
+ * @param {T|ForwardReference<T>} data - The value to resolve
+ * @returns {T} The function returns the referenced value.
+ */
+export function resolveForwardRef<T>(data: T | ForwardReference<T>): T {
+  return isForwardReference(data) ? data.forwardRef() as T : data;
+}
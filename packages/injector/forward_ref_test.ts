@@ -0,0 +1,35 @@
+import { assert, assertEquals, assertFalse } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  forwardRef,
+  isForwardReference,
+  resolveForwardRef,
+} from "./forward_ref.ts";
+
+describe("forwardRef", () => {
+  it("should evaluate the reference lazily", () => {
+    let calls = 0;
+    const ref = forwardRef(() => {
+      calls++;
+      return "TOKEN";
+    });
+
+    assertEquals(calls, 0);
+    assertEquals(resolveForwardRef(ref), "TOKEN");
+    assertEquals(calls, 1);
+  });
+
+  it("should return other values as is", () => {
+    class Service {}
+
+    assertEquals(resolveForwardRef(Service), Service);
+    assertEquals(resolveForwardRef("TOKEN"), "TOKEN");
+  });
+
+  it("should detect forward references", () => {
+    assert(isForwardReference(forwardRef(() => "TOKEN")));
+    assertFalse(isForwardReference("TOKEN"));
+    assertFalse(isForwardReference(null));
+    assertFalse(isForwardReference({ forwardRef: "TOKEN" }));
+  });
+});
@@ -4,15 +4,15 @@ import {
   hasOnApplicationShutdown,
   hasOnBeforeApplicationShutdown,
   hasOnModuleDestroy,
-  hasOnModuleInit,
 } from "./_internal.ts";
-import { type CompiledModule, ModuleCompiler } from "./_module_compiler.ts";
-import { runInModuleContext } from "./_module_context.ts";
+import type { CompiledModule } from "./_module_compiler.ts";
+import { ModuleGraph } from "./_module_graph.ts";
 import {
   runInRequestContext,
   runInRequestContextAsync,
 } from "./_request_context.ts";
-import type { InjectionToken, Type } from "./common.ts";
+import { normalizeProvider } from "./_normalized_provider.ts";
+import type { InjectableMode, InjectionToken, Type } from "./common.ts";
 import { Container } from "./container.ts";
 import { LifecycleError, TokenNotFoundError } from "./errors.ts";
 import type {
@@ -20,9 +20,65 @@ import type {
   OnApplicationShutdown,
   OnBeforeApplicationShutdown,
 } from "./hooks.ts";
-import { ModuleRef } from "./module_ref.ts";
+import { LazyModuleLoader } from "./lazy_module_loader.ts";
+import type { ModuleRef } from "./module_ref.ts";
 import type { DynamicModule } from "./modules.ts";
-import type { Provider } from "./provider.ts";
+import {
+  getProviderToken,
+  isMultiProvider,
+  type Provider,
+} from "./provider.ts";
+
+/**
+ * Describes a provider declared by a module, see {@linkcode ModuleDescriptor}.
+ */
+export interface ProviderDescriptor {
+  /**
+   * The token that identifies the provider.
+   */
+  token: InjectionToken;
+
+  /**
+   * The injectable mode of the provider.
+   */
+  mode: InjectableMode;
+
+  /**
+   * Whether the provider is a multi provider (`multi: true`).
+   */
+  multi: boolean;
+}
+
+/**
+ * Describes a module of the compiled module tree, see
+ * {@linkcode InjectorContext.describeModules}.
+ */
+export interface ModuleDescriptor {
+  /**
+   * The module class.
+   */
+  type: Type;
+
+  /**
+   * Whether the module is global.
+   */
+  isGlobal: boolean;
+
+  /**
+   * The classes of the imported modules.
+   */
+  imports: Type[];
+
+  /**
+   * The providers declared by the module itself.
+   */
+  providers: ProviderDescriptor[];
+
+  /**
+   * The exported tokens, including re-exported modules.
+   */
+  exports: InjectionToken[];
+}
 
 /**
  * Interface to configure the {@linkcode InjectorContext}.
@@ -67,12 +123,18 @@ export class InjectorContext implements InjectorContextLifecycle {
   protected isBootstrapped: boolean = false;
   protected isShuttingDown: boolean = false;
 
+  private readonly loadedModules = new Map<
+    Type | DynamicModule,
+    Promise<ModuleRef>
+  >();
+
   /**
    * @param {Container} container - The root container managing all providers and children
    * @param {Container} globalContainer - The shared global container accessible by all module containers
    * @param {CompiledModule} rootModule - The compiled root module context
    * @param {CompiledModule[]} modulesInOrder - The list of copmiled modules in resolution order
    * @param {Map<Type, ModuleRef>} moduleRefs - A map from module class types to their module references
+   * @param {ModuleGraph} graph - The module graph used to load further modules
    */
   public constructor(
     public readonly container: Container,
@@ -80,6 +142,7 @@ export class InjectorContext implements InjectorContextLifecycle {
     protected readonly rootModule: CompiledModule,
     protected readonly modulesInOrder: CompiledModule[],
     protected readonly moduleRefs: Map<Type, ModuleRef>,
+    private readonly graph: ModuleGraph,
   ) {}
 
   /**
@@ -98,121 +161,35 @@ export class InjectorContext implements InjectorContextLifecycle {
     options?: InjectorContextOptions,
   ): Promise<InjectorContext> {
     const logger = new Logger("Injector", { timestamp: true });
-    const compiler = new ModuleCompiler();
-    const compiled = await compiler.compile(rootModule);
-    const modulesInOrder = compiler.getModulesInInitOrder(compiled);
-
     const globalContainer = new Container(logger);
-    if (options?.useGlobals !== false) {
-      globalContainer.register(...compiler.getGlobalProviders());
-    }
-
-    const moduleContainers = new Map<Type, Container>();
-
-    const buildContainer = (mod: CompiledModule): Container => {
-      if (moduleContainers.has(mod.type)) {
-        return moduleContainers.get(mod.type)!;
-      }
-
-      const childContainers: Container[] = [];
-
-      for (const importedMod of mod.imports) {
-        childContainers.push(buildContainer(importedMod));
-      }
-
-      const container = new Container(logger, {
-        exports: mod.exports,
-        globalContainer,
-      });
-
-      for (const child of childContainers) {
-        container.addChild(child);
-      }
-
-      moduleContainers.set(mod.type, container);
-
-      const providerMap = new Map<InjectionToken, Provider>();
-
-      for (const provider of mod.providers) {
-        const token = typeof provider === "function"
-          ? provider
-          : provider.provide;
-
-        providerMap.set(token, provider);
-      }
-
-      for (const token of mod.ownTokens) {
-        const provider = providerMap.get(token);
-
-        if (provider) {
-          container.register(provider);
-        } else if (typeof token === "function") {
-          container.register(token);
-        }
-      }
-
-      return container;
-    };
-
-    const rootContainer = buildContainer(compiled);
-    const moduleRefs = new Map<Type, ModuleRef>();
-
-    for (const mod of modulesInOrder) {
-      const container = moduleContainers.get(mod.type)!;
-      const moduleRef = new ModuleRef(container, rootContainer, mod.ownTokens);
-
-      moduleRefs.set(mod.type, moduleRef);
-    }
+    const graph = new ModuleGraph(
+      logger,
+      globalContainer,
+      options?.useGlobals !== false,
+    );
+    const compiled = await graph.compile(rootModule);
+    const modulesInOrder = graph.getPendingModules(compiled);
+    const rootContainer = graph.build(compiled);
 
     const context = new InjectorContext(
       rootContainer,
       globalContainer,
       compiled,
       modulesInOrder,
-      moduleRefs,
+      graph.moduleRefs,
+      graph,
     );
 
+    context.registerGlobal({
+      provide: LazyModuleLoader,
+      useValue: new LazyModuleLoader(context),
+    });
+
     if (options?.beforeInit) {
       await options.beforeInit(context);
     }
 
-    const initializedInstances = new Set<unknown>();
-
-    const callOnModuleInit = async (instance: unknown) => {
-      if (!initializedInstances.has(instance)) {
-        initializedInstances.add(instance);
-
-        if (hasOnModuleInit(instance)) {
-          await instance.onModuleInit();
-        }
-      }
-    };
-
-    for (const mod of modulesInOrder) {
-      const container = moduleContainers.get(mod.type)!;
-      const moduleRef = moduleRefs.get(mod.type)!;
-
-      await runInModuleContext(moduleRef, async () => {
-        for (const token of mod.ownTokens) {
-          if (container.isRequestScoped(token)) {
-            continue;
-          }
-
-          try {
-            const instance = await container.resolve(token);
-            await callOnModuleInit(instance);
-          } catch {
-            /** @todo: double check - provider might be transient, skip silently? */
-          }
-        }
-
-        const moduleInstance = await container.resolve(mod.type);
-
-        await callOnModuleInit(moduleInstance);
-
-        logger.log(`${mod.type.name} dependencies initialized`);
-      });
-    }
+    await graph.initialize(modulesInOrder);
 
     return context;
   }
@@ -351,6 +328,113 @@ export class InjectorContext implements InjectorContextLifecycle {
     return this.moduleRefs.get(this.rootModule.type)!;
   }
 
+  /**
+   * Get the {@linkcode ModuleRef} of the module declaring the given provider.
+   *
+   * Providers which aren't exported, e.g. controllers of an imported module,
+   * can only be resolved through the module declaring them.
+   *
+   * @param {InjectionToken} token - The provider token
+   * @returns {ModuleRef} The `ModuleRef` of the declaring module, or the one of
+   *          the root module if no module declares `token`.
+   */
+  public getModuleRefOf(token: InjectionToken): ModuleRef {
+    for (const moduleRef of this.moduleRefs.values()) {
+      if (moduleRef.has(token)) {
+        return moduleRef;
+      }
+    }
+
+    return this.getHostModuleRef();
+  }
+
+  /**
+   * Get the {@linkcode ModuleRef}s of the compiled module tree in
+   * initialization order (depth-first), keyed by module class.
+   *
+   * @note Modules loaded via {@linkcode loadModule} are not included.
+   *
+   * @returns {ReadonlyMap<Type, ModuleRef>} The module references.
+   */
+  public getModuleRefs(): ReadonlyMap<Type, ModuleRef> {
+    return new Map(
+      this.modulesInOrder.map((
+        mod,
+      ) => [mod.type, this.moduleRefs.get(mod.type)!]),
+    );
+  }
+
+  /**
+   * Describe the compiled module tree in initialization order (depth-first):
+   * the imports, own providers and exports of every module.
+   *
+   * @note Modules loaded via {@linkcode loadModule} are not included.
+   *
+   * @returns {ModuleDescriptor[]} The module descriptors.
+   */
+  public describeModules(): ModuleDescriptor[] {
+    return this.modulesInOrder.map((mod) => {
+      const providers = new Map<InjectionToken, Provider>();
+
+      // Imported providers come first, so an own provider wins.
+      for (const provider of mod.providers) {
+        const token = getProviderToken(provider);
+
+        if (!isMultiProvider(provider) && mod.ownTokens.has(token)) {
+          providers.set(token, provider);
+        }
+      }
+
+      return {
+        type: mod.type,
+        isGlobal: mod.isGlobal,
+        imports: mod.imports.map((imported) => imported.type),
+        providers: [...providers.values(), ...mod.multiProviders].map((
+          provider,
+        ) => ({
+          token: getProviderToken(provider),
+          mode: normalizeProvider(provider).mode,
+          multi: isMultiProvider(provider),
+        })),
+        exports: [...mod.exports],
+      };
+    });
+  }
+
+  /**
+   * Load a module that isn't part of the compiled module tree.
+   *
+   * The module is compiled on demand, its container is attached as child of
+   * the root container and the {@linkcode OnModuleInit} hooks of the new
+   * modules run. If the context is already bootstrapped, their
+   * {@linkcode OnApplicationBootstrap} hooks run as well. Imports which are
+   * already loaded are shared, not instantiated again.
+   *
+   * Loading a module again returns the cached {@linkcode ModuleRef}. Dynamic
+   * modules are cached per object, so another dynamic module of a loaded
+   * class, e.g. with different options, is loaded into a module of its own.
+   *
+   * @async
+   * @param {Type|DynamicModule} module - The (dynamic) module to load
+   * @returns {Promise<ModuleRef>} The function returns a `Promise` that resolves
+   *          into the `ModuleRef` of the loaded module when fulfilled.
+   * @throws {ModuleCompilationError}
+   * @throws {LifecycleError}
+   */
+  public loadModule(module: Type | DynamicModule): Promise<ModuleRef> {
+    let loading = this.loadedModules.get(module);
+
+    if (!loading) {
+      loading = this.loadModuleOnce(module);
+
+      this.loadedModules.set(module, loading);
+
+      loading.catch(() => this.loadedModules.delete(module));
+    }
+
+    return loading;
+  }
+
   /**
    * Register providers into the shared global container, making them
    * resolvable from any module in the context.
@@ -413,25 +497,12 @@ export class InjectorContext implements InjectorContextLifecycle {
       return;
     }
 
-    const errors: Error[] = [];
-    const instances = this.container.getInstances({ recursive: true });
-
-    for (const instance of instances) {
-      if (hasOnApplicationBootstrap(instance)) {
-        try {
-          await instance.onApplicationBootstrap();
-        } catch (error) {
-          errors.push(
-            error instanceof Error ? error : new Error(String(error)),
-          );
-        }
-      }
-    }
-
-    this.isBootstrapped = true;
-
-    if (errors.length > 0) {
-      throw new LifecycleError("onApplicationBootstrap", errors);
+    try {
+      await this.callOnApplicationBootstrap(
+        this.container.getInstances({ recursive: true }),
+      );
+    } finally {
+      this.isBootstrapped = true;
     }
   }
 
@@ -520,6 +591,71 @@ export class InjectorContext implements InjectorContextLifecycle {
     }
   }
 
+  /**
+   * Loads a module and its imports, see {@linkcode loadModule}.
+   *
+   * @async
+   * @param {Type|DynamicModule} module - The (dynamic) module to load
+   * @returns {Promise<ModuleRef>} The `ModuleRef` of the loaded module.
+   */
+  private async loadModuleOnce(
+    module: Type | DynamicModule,
+  ): Promise<ModuleRef> {
+    const compiled = await this.graph.compile(module);
+    const loaded = this.graph.getModuleRef(compiled);
+
+    if (loaded) {
+      return loaded;
+    }
+
+    const modules = this.graph.getPendingModules(compiled);
+
+    this.container.addChild(this.graph.build(compiled, this.container));
+
+    await this.graph.initialize(modules);
+
+    if (this.isBootstrapped) {
+      await this.callOnApplicationBootstrap([
+        ...new Set(
+          modules.flatMap((mod) =>
+            this.graph.getContainer(mod)!.getInstances()
+          ),
+        ),
+      ]);
+    }
+
+    return this.graph.getModuleRef(compiled)!;
+  }
+
+  /**
+   * Calls the {@linkcode OnApplicationBootstrap} hook of the given instances.
+   *
+   * @async
+   * @param {unknown[]} instances - The instances to bootstrap
+   * @throws {LifecycleError}
+   */
+  private async callOnApplicationBootstrap(
+    instances: unknown[],
+  ): Promise<void> {
+    const errors: Error[] = [];
+
+    for (const instance of instances) {
+      if (hasOnApplicationBootstrap(instance)) {
+        try {
+          await instance.onApplicationBootstrap();
+        } catch (error) {
+          errors.push(
+            error instanceof Error ? error : new Error(String(error)),
+          );
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new LifecycleError("onApplicationBootstrap", errors);
+    }
+  }
+
   /**
    * Performs the full shutdown sequence.
    *
@@ -4,6 +4,7 @@ import {
   assertExists,
   assertInstanceOf,
   assertRejects,
+  assertStrictEquals,
   assertThrows,
 } from "@std/assert";
 import { describe, it } from "@std/testing/bdd";
@@ -15,7 +16,7 @@ import {
 } from "./_test_fixtures.ts";
 import type { Type } from "./common.ts";
 import { Container } from "./container.ts";
-import { Global, Inject, Injectable, Module } from "./decorators.ts";
+import { Global, Inject, Injectable, InjectAll, Module } from "./decorators.ts";
 import {
   LifecycleError,
   ModuleCompilationError,
@@ -28,6 +29,7 @@ import type {
   OnModuleDestroy,
   OnModuleInit,
 } from "./hooks.ts";
+import { forwardRef } from "./forward_ref.ts";
 import { InjectorContext } from "./injector_context.ts";
 import { ModuleRef } from "./module_ref.ts";
 import type { DynamicModule } from "./modules.ts";
@@ -381,6 +383,101 @@ describe("InjectorContext", () => {
     });
   });
 
+  describe("getModuleRefOf", () => {
+    it("should return the ModuleRef of the module declaring the token", async () => {
+      @Injectable()
+      class FeatureService {}
+
+      @Module({ providers: [FeatureService] })
+      class FeatureModule {}
+
+      @Module({ imports: [FeatureModule] })
+      class AppModule {}
+
+      const ctx = await InjectorContext.create(AppModule);
+      const moduleRef = ctx.getModuleRefOf(FeatureService);
+
+      assertStrictEquals(moduleRef, ctx.getModuleRefs().get(FeatureModule));
+      assertInstanceOf(await moduleRef.get(FeatureService), FeatureService);
+    });
+
+    it("should fall back to the ModuleRef of the root module", async () => {
+      @Module({})
+      class AppModule {}
+
+      const ctx = await InjectorContext.create(AppModule);
+
+      assertStrictEquals(
+        ctx.getModuleRefOf(class Unknown {}),
+        ctx.getHostModuleRef(),
+      );
+    });
+  });
+
+  describe("getModuleRefs", () => {
+    it("should return the module references in initialization order", async () => {
+      @Module({})
+      class FeatureModule {}
+
+      @Module({ imports: [FeatureModule] })
+      class AppModule {}
+
+      const ctx = await InjectorContext.create(AppModule);
+      const moduleRefs = ctx.getModuleRefs();
+
+      assertEquals([...moduleRefs.keys()], [FeatureModule, AppModule]);
+      assertInstanceOf(
+        await moduleRefs.get(FeatureModule)!.get(FeatureModule),
+        FeatureModule,
+      );
+    });
+  });
+
+  describe("describeModules", () => {
+    it("should describe imports, own providers and exports of every module", async () => {
+      @Injectable({ mode: "transient" })
+      class FeatureService {}
+
+      @Global()
+      @Module({
+        providers: [
+          FeatureService,
+          { provide: "plugins", useValue: "a", multi: true },
+        ],
+        exports: [FeatureService],
+      })
+      class FeatureModule {}
+
+      @Module({
+        imports: [FeatureModule],
+        providers: [{ provide: "config", useFactory: () => ({}) }],
+      })
+      class AppModule {}
+
+      const ctx = await InjectorContext.create(AppModule);
+
+      assertEquals(ctx.describeModules(), [
+        {
+          type: FeatureModule,
+          isGlobal: true,
+          imports: [],
+          providers: [
+            { token: FeatureService, mode: "transient", multi: false },
+            { token: "plugins", mode: "singleton", multi: true },
+          ],
+          exports: [FeatureService],
+        },
+        {
+          type: AppModule,
+          isGlobal: false,
+          imports: [FeatureModule],
+          providers: [{ token: "config", mode: "singleton", multi: false }],
+          exports: [],
+        },
+      ]);
+    });
+  });
+
   describe("request scope", () => {
     it("should run in request scope (sync)", async () => {
       @Module({
@@ -828,6 +925,140 @@ describe("InjectorContext", () => {
     });
   });
 
+  describe("multi providers", () => {
+    it("should accumulate multi providers across modules", async () => {
+      const initialized: string[] = [];
+
+      class Indicator implements OnModuleInit {
+        public onModuleInit(): void {
+          initialized.push("class");
+        }
+      }
+
+      @Module({
+        providers: [{ provide: "INDICATORS", useValue: "db", multi: true }],
+        exports: ["INDICATORS"],
+      })
+      class DatabaseModule {}
+
+      @Module({
+        providers: [
+          { provide: "INDICATORS", useClass: Indicator, multi: true },
+          { provide: "INDICATORS", useFactory: () => "cache", multi: true },
+        ],
+        exports: ["INDICATORS"],
+      })
+      class CacheModule {}
+
+      @Injectable()
+      class HealthService {
+        @InjectAll("INDICATORS")
+        indicators!: unknown[];
+      }
+
+      @Module({
+        imports: [DatabaseModule, CacheModule],
+        providers: [HealthService],
+        exports: [HealthService],
+      })
+      class AppModule {}
+
+      const ctx = await InjectorContext.create(AppModule);
+      const health = await ctx.resolve(HealthService);
+
+      assertEquals(health.indicators.length, 3);
+      assertEquals(health.indicators[0], "db");
+      assertInstanceOf(health.indicators[1], Indicator);
+      assertEquals(health.indicators[2], "cache");
+      assertEquals(initialized, ["class"]);
+    });
+
+    it("should skip request-scoped multi providers during initialization", async () => {
+      @Module({
+        providers: [
+          { provide: "PLUGINS", useClass: RequestScopedService, multi: true },
+          { provide: "PLUGINS", useValue: "static", multi: true },
+        ],
+      })
+      class PluginModule {}
+
+      const ctx = await InjectorContext.create(PluginModule);
+      const plugins = await ctx.runInRequestScopeAsync(
+        "req-1",
+        () => ctx.container.resolveAll("PLUGINS", "req-1"),
+      );
+
+      assertEquals(plugins.length, 2);
+      assertInstanceOf(plugins[0], RequestScopedService);
+    });
+
+    it("should propagate errors of multi providers", async () => {
+      class BrokenPlugin implements OnModuleInit {
+        public onModuleInit(): void {
+          throw new Error("plugin failed");
+        }
+      }
+
+      @Module({
+        providers: [{
+          provide: "PLUGINS",
+          useClass: BrokenPlugin,
+          multi: true,
+        }],
+      })
+      class PluginModule {}
+
+      await assertRejects(
+        () => InjectorContext.create(PluginModule),
+        Error,
+        "plugin failed",
+      );
+    });
+  });
+
+  describe("circular modules", () => {
+    it("should resolve modules and providers depending on each other", async () => {
+      @Injectable()
+      class UserService {
+        @Inject(forwardRef(() => AuthService))
+        auth!: AuthService;
+      }
+
+      @Injectable()
+      class AuthService {
+        @Inject(forwardRef(() => UserService))
+        users!: UserService;
+      }
+
+      @Module({
+        imports: [forwardRef(() => AuthModule)],
+        providers: [UserService],
+        exports: [UserService],
+      })
+      class UserModule {}
+
+      @Module({
+        imports: [UserModule],
+        providers: [AuthService],
+        exports: [AuthService],
+      })
+      class AuthModule {}
+
+      @Module({
+        imports: [UserModule, AuthModule],
+        exports: [UserService, AuthService],
+      })
+      class AppModule {}
+
+      const ctx = await InjectorContext.create(AppModule);
+      const users = await ctx.resolve(UserService);
+      const auth = await ctx.resolve(AuthService);
+
+      assertEquals(users.auth, auth);
+      assertEquals(auth.users, users);
+    });
+  });
+
   describe("ModuleCompiler global providers", () => {
     it("should collect and use global providers", async () => {
       @Injectable()
@@ -0,0 +1,86 @@
+import { getModuleMetadata, isDynamicModule } from "./_internal.ts";
+import type { Type } from "./common.ts";
+import { ModuleCompilationError } from "./errors.ts";
+import type { InjectorContext } from "./injector_context.ts";
+import type { ModuleRef } from "./module_ref.ts";
+import type { DynamicModule } from "./modules.ts";
+
+/**
+ * Returns the module to load lazily: a module class, a dynamic module or an
+ * ES module namespace (`import()`) exporting exactly one `@Module()` class.
+ */
+export type LazyModuleFactory = () =>
+  | Type
+  | DynamicModule
+  | object
+  | Promise<Type | DynamicModule | object>;
+
+/**
+ * Loads modules on demand instead of compiling them when the application
+ * starts, e.g. to keep cold starts of serverless functions and CLI tools
+ * short.
+ *
+ * The loader is registered as global provider of every
+ * {@linkcode InjectorContext}.
+ *
+ * @example Usage
+ * ```ts
+ * \@Injectable()
+ * class ReportsCommand {
+ *   \@Inject(LazyModuleLoader)
+ *   private readonly loader!: LazyModuleLoader;
+ *
+ *   public async run(): Promise<void> {
+ *     const moduleRef = await this.loader.load(() =>
+ *       import("./reports.module.ts")
+ *     );
+ *     const reports = await moduleRef.get(ReportsService);
+ *
+ *     await reports.generate();
+ *   }
+ * }
+ * ```
+ */
+export class LazyModuleLoader {
+  /**
+   * @param {InjectorContext} ctx - The context the modules are loaded into
+   */
+  public constructor(private readonly ctx: InjectorContext) {}
+
+  /**
+   * Loads the module returned by `factory`, see {@linkcode InjectorContext.loadModule}.
+   * Subsequent loads of the same module return the cached {@linkcode ModuleRef}.
+   *
+   * @async
+   * @param {LazyModuleFactory} factory - Returns the module to load
+   * @returns {Promise<ModuleRef>} The function returns a `Promise` that resolves
+   *          into the `ModuleRef` of the loaded module when fulfilled.
+   * @throws {ModuleCompilationError} if the namespace doesn't export exactly one module.
+   */
+  public async load(factory: LazyModuleFactory): Promise<ModuleRef> {
+    return await this.ctx.loadModule(toModule(await factory()));
+  }
+}
+
+function toModule(value: object): Type | DynamicModule {
+  if (
+    isDynamicModule(value) ||
+    (typeof value === "function" && getModuleMetadata(value as Type))
+  ) {
+    return value as Type | DynamicModule;
+  }
+
+  const modules = Object.values(value).filter((
+    exported,
+  ): exported is Type =>
+    typeof exported === "function" && getModuleMetadata(exported) !== undefined
+  );
+
+  if (modules.length !== 1) {
+    throw new ModuleCompilationError(
+      `Lazy module namespace must export exactly one @Module() class, found ${modules.length}`,
+    );
+  }
+
+  return modules[0];
+}
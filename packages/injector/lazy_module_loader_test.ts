@@ -0,0 +1,186 @@
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+  assertStrictEquals,
+} from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { SimpleService } from "./_test_fixtures.ts";
+import { Inject, Injectable, Module } from "./decorators.ts";
+import { LifecycleError, ModuleCompilationError } from "./errors.ts";
+import type { OnApplicationBootstrap, OnModuleInit } from "./hooks.ts";
+import { InjectorContext } from "./injector_context.ts";
+import { LazyModuleLoader } from "./lazy_module_loader.ts";
+import { ModuleRef } from "./module_ref.ts";
+import type { DynamicModule } from "./modules.ts";
+
+describe("LazyModuleLoader", () => {
+  @Module({ providers: [SimpleService], exports: [SimpleService] })
+  class SharedModule {}
+
+  @Module({ imports: [SharedModule] })
+  class AppModule {}
+
+  it("should be registered globally", async () => {
+    const ctx = await InjectorContext.create(AppModule);
+
+    assertInstanceOf(await ctx.resolve(LazyModuleLoader), LazyModuleLoader);
+  });
+
+  it("should load a module class and share loaded imports", async () => {
+    @Injectable()
+    class ReportsService {
+      @Inject(SimpleService)
+      simple!: SimpleService;
+    }
+
+    @Module({ imports: [SharedModule], providers: [ReportsService] })
+    class ReportsModule {}
+
+    const ctx = await InjectorContext.create(AppModule);
+    const loader = await ctx.resolve(LazyModuleLoader);
+    const moduleRef = await loader.load(() => ReportsModule);
+    const reports = await moduleRef.get(ReportsService);
+
+    assertInstanceOf(moduleRef, ModuleRef);
+    assertStrictEquals(reports.simple, await ctx.resolve(SimpleService));
+  });
+
+  it("should pick the module of an ES module namespace", async () => {
+    @Module({ providers: [SimpleService] })
+    class ReportsModule {}
+
+    const ctx = await InjectorContext.create(AppModule);
+    const loader = await ctx.resolve(LazyModuleLoader);
+    const moduleRef = await loader.load(() =>
+      Promise.resolve({ ReportsModule, helper: () => {}, VERSION: 1 })
+    );
+
+    assertInstanceOf(await moduleRef.get(SimpleService), SimpleService);
+  });
+
+  it("should reject namespaces without exactly one module", async () => {
+    @Module({})
+    class FirstModule {}
+
+    @Module({})
+    class SecondModule {}
+
+    const ctx = await InjectorContext.create(AppModule);
+    const loader = await ctx.resolve(LazyModuleLoader);
+
+    await assertRejects(
+      () => loader.load(() => ({ FirstModule, SecondModule })),
+      ModuleCompilationError,
+    );
+    await assertRejects(
+      () => loader.load(() => ({ helper: () => {} })),
+      ModuleCompilationError,
+    );
+  });
+
+  it("should cache loaded modules", async () => {
+    let inits = 0;
+
+    @Injectable()
+    class ReportsService implements OnModuleInit {
+      public onModuleInit(): void {
+        inits++;
+      }
+    }
+
+    @Module({ providers: [ReportsService] })
+    class ReportsModule {}
+
+    const ctx = await InjectorContext.create(AppModule);
+    const loader = await ctx.resolve(LazyModuleLoader);
+    const [first, second] = await Promise.all([
+      loader.load(() => ReportsModule),
+      loader.load(() => ReportsModule),
+    ]);
+    const third = await loader.load(() => ReportsModule);
+
+    assertStrictEquals(first, second);
+    assertStrictEquals(first, third);
+    assertEquals(inits, 1);
+  });
+
+  it("should bootstrap the subtree once the application is bootstrapped", async () => {
+    const calls: string[] = [];
+
+    @Injectable()
+    class EagerService implements OnApplicationBootstrap {
+      public onApplicationBootstrap(): void {
+        calls.push("eager");
+      }
+    }
+
+    @Injectable()
+    class LazyService implements OnApplicationBootstrap {
+      public onApplicationBootstrap(): void {
+        calls.push("lazy");
+      }
+    }
+
+    @Module({ providers: [EagerService] })
+    class EagerModule {}
+
+    @Module({ providers: [LazyService] })
+    class LazyModule {}
+
+    const ctx = await InjectorContext.create(EagerModule);
+
+    await ctx.onApplicationBootstrap();
+    await ctx.loadModule(LazyModule);
+
+    assertEquals(calls, ["eager", "lazy"]);
+  });
+
+  it("should throw a LifecycleError when a bootstrap hook of the subtree fails", async () => {
+    @Injectable()
+    class FailingService implements OnApplicationBootstrap {
+      public onApplicationBootstrap(): void {
+        throw new Error("failed");
+      }
+    }
+
+    @Module({ providers: [FailingService] })
+    class FailingModule {}
+
+    const ctx = await InjectorContext.create(AppModule);
+
+    await ctx.onApplicationBootstrap();
+    await assertRejects(() => ctx.loadModule(FailingModule), LifecycleError);
+  });
+
+  it("should return the module reference of already loaded modules", async () => {
+    const ctx = await InjectorContext.create(AppModule);
+    const loader = await ctx.resolve(LazyModuleLoader);
+
+    assertStrictEquals(
+      await loader.load(() => SharedModule),
+      await loader.load(() => SharedModule),
+    );
+  });
+
+  it("should load dynamic modules of the same class separately", async () => {
+    @Module({})
+    class ConfigModule {
+      static forRoot(value: string): DynamicModule {
+        return {
+          module: ConfigModule,
+          providers: [{ provide: "CONFIG", useValue: value }],
+        };
+      }
+    }
+
+    const first = ConfigModule.forRoot("first");
+    const ctx = await InjectorContext.create(AppModule);
+    const firstRef = await ctx.loadModule(first);
+    const secondRef = await ctx.loadModule(ConfigModule.forRoot("second"));
+
+    assertEquals(await firstRef.get("CONFIG"), "first");
+    assertEquals(await secondRef.get("CONFIG"), "second");
+    assertStrictEquals(await ctx.loadModule(first), firstRef);
+  });
+});
@@ -28,8 +28,10 @@ export * from "./constants.ts";
 export * from "./container.ts";
 export * from "./decorators.ts";
 export * from "./errors.ts";
+export * from "./forward_ref.ts";
 export * from "./hooks.ts";
 export * from "./injector_context.ts";
+export * from "./lazy_module_loader.ts";
 export * from "./module_ref.ts";
 export * from "./modules.ts";
 export * from "./provider.ts";
@@ -246,6 +246,32 @@ export class ModuleRef {
     return instances;
   }
 
+  /**
+   * Resolve all multi providers (`multi: true`) registered for a token.
+   *
+   * In strict mode the providers of the current module and its imports are
+   * resolved, otherwise those visible to the root module.
+   *
+   * @template T The type of each resolved value.
+   * @param {InjectionToken} token - The multi provider token.
+   * @param {ModuleRefOptions|ModuleRefContextOptions|undefined} options - Optional resolution options.
+   * @returns {Promise<T[]>} The function returns a `Promise` that resolves into
+   *          an array of resolved values.
+   */
+  public getAll<T = unknown>(
+    token: InjectionToken,
+    options?: ModuleRefOptions | ModuleRefContextOptions,
+  ): Promise<T[]> {
+    const container = (options?.strict ?? true)
+      ? this.container
+      : this.rootContainer;
+
+    return container.resolveAll<T>(
+      token,
+      options && "contextId" in options ? options.contextId : undefined,
+    );
+  }
+
   /**
    * Get all provider tokens registered with a specific tag.
    *
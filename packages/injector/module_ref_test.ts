@@ -213,6 +213,34 @@ describe("ModuleRef", () => {
     });
   });
 
+  describe("getAll", () => {
+    it("should resolve the multi providers of the module scope", async () => {
+      @Module({
+        providers: [{ provide: "PLUGINS", useValue: "child", multi: true }],
+        exports: ["PLUGINS"],
+      })
+      class ChildModule {}
+
+      @Module({
+        imports: [ChildModule],
+        providers: [
+          { provide: "PLUGINS", useValue: "own", multi: true },
+          ServiceWithModuleRef,
+        ],
+        exports: [ServiceWithModuleRef],
+      })
+      class AppModule {}
+
+      const ctx = await InjectorContext.create(AppModule);
+      const service = await ctx.resolve(ServiceWithModuleRef);
+
+      assertEquals(await service.moduleRef.getAll("PLUGINS"), [
+        "own",
+        "child",
+      ]);
+    });
+  });
+
   describe("getByTag", () => {
     it("should get tagged services (strict: true)", async () => {
       @Module({
@@ -1,11 +1,21 @@
 import type { InjectionToken, Type } from "./common.ts";
+import type { ForwardReference } from "./forward_ref.ts";
 import type { Provider } from "./provider.ts";
 
 /**
  * Metadata describing a module's configuration.
  */
 export interface ModuleMetadata {
-  imports?: (Type | DynamicModule | Promise<DynamicModule>)[];
+  /**
+   * Imported modules. Wrap a module with `forwardRef()` if both modules
+   * import each other.
+   */
+  imports?: (
+    | Type
+    | DynamicModule
+    | Promise<DynamicModule>
+    | ForwardReference<Type | DynamicModule>
+  )[];
   providers?: Provider[];
   exports?: InjectionToken[];
 }
@@ -4,6 +4,7 @@ import type {
   InjectionToken,
   Type,
 } from "./common.ts";
+import type { ForwardReference } from "./forward_ref.ts";
 
 /**
  * Base structure for all explicit providers.
@@ -13,6 +14,15 @@ export interface BaseProvider {
    * The token that identifies the provider in the container.
    */
   provide: InjectionToken;
+
+  /**
+   * Contributes the provider to a list of providers sharing the same token
+   * instead of replacing a previously registered one. Multi providers are
+   * resolved as an array via `@InjectAll()` or `Container.resolveAll()`.
+   *
+   * @default false
+   */
+  multi?: boolean;
 }
 
 /**
@@ -41,8 +51,9 @@ export interface FactoryProvider<T = unknown> extends BaseProvider {
   useFactory: GenericFunction<T | Promise<T>>;
   /**
    * Optional list of tokens to inject as arguments into the factory function.
+   * Tokens may be wrapped with `forwardRef()`.
    */
-  inject?: InjectionToken[];
+  inject?: (InjectionToken | ForwardReference<InjectionToken>)[];
 
   /**
    * Optional mode controlling how the factory is instantiated.
@@ -188,3 +199,14 @@ export function isExistingProvider(
 export function getProviderToken(provider: Provider): InjectionToken {
   return typeof provider === "function" ? provider : provider.provide;
 }
+
+/**
+ * Check if the given `provider` is a multi provider.
+ *
+ * @param {Provider} provider - The provider to check
+ * @returns {boolean} The function returns `true` if `provider` sets `multi: true`,
+ *          `false` otherwise.
+ */
+export function isMultiProvider(provider: Provider): boolean {
+  return typeof provider !== "function" && provider.multi === true;
+}
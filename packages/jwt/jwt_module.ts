@@ -93,7 +93,9 @@ export class JwtModule {
 
   private static createDynamicModule(
     options: JwtModuleOptions | JwtModuleAsyncOptions,
-    providerData: Omit<ValueProvider | FactoryProvider, "provide">,
+    providerData:
+      | Omit<ValueProvider, "provide">
+      | Omit<FactoryProvider, "provide">,
   ): DynamicModule {
     return {
       module: JwtModule,
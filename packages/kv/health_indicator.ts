@@ -0,0 +1,74 @@
+import { KvConnections } from "./connections.ts";
+import type {
+  HealthIndicator,
+  HealthIndicatorFactory,
+  HealthProbe,
+} from "@denorid/health";
+
+/** Options accepted by {@link KvHealthIndicator}. */
+export interface KvHealthIndicatorOptions {
+  /**
+   * Key of the indicator in the health check result.
+   *
+   * @default "kv"
+   */
+  name?: string;
+  /** The KV connection to check, the default connection when omitted. */
+  connection?: string;
+  /**
+   * The probes the indicator takes part in.
+   *
+   * @default ["readiness"]
+   */
+  probes?: HealthProbe[];
+}
+
+/**
+ * Reports a `@denorid/kv` connection as down when a read fails.
+ */
+export class KvHealthIndicator implements HealthIndicator {
+  public readonly name: string;
+  public readonly probes?: HealthProbe[];
+
+  /**
+   * @param {KvConnections} connections - The registered KV connections.
+   * @param {KvHealthIndicatorOptions} [options] - The connection to check.
+   */
+  public constructor(
+    private readonly connections: KvConnections,
+    private readonly options: KvHealthIndicatorOptions = {},
+  ) {
+    this.name = options.name ?? "kv";
+    this.probes = options.probes;
+  }
+
+  /** @inheritdoc */
+  public async check(): Promise<void> {
+    await this.connections.get(this.options.connection).get([
+      "denorid",
+      "health",
+    ]);
+  }
+}
+
+/**
+ * Creates a {@link KvHealthIndicator} for the `indicators` of the
+ * `HealthModule`, injecting the {@link KvConnections}.
+ *
+ * @example
+ * ```ts
+ * HealthModule.forRoot({ indicators: [kvHealthIndicator()] });
+ * ```
+ *
+ * @param {KvHealthIndicatorOptions} [options] - The connection to check.
+ * @return {HealthIndicatorFactory} The indicator factory.
+ */
+export function kvHealthIndicator(
+  options: KvHealthIndicatorOptions = {},
+): HealthIndicatorFactory {
+  return {
+    useFactory: (connections: KvConnections) =>
+      new KvHealthIndicator(connections, options),
+    inject: [KvConnections],
+  };
+}
@@ -0,0 +1,43 @@
+import type { KvConnections } from "./connections.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCall, spy } from "@std/testing/mock";
+import { KvHealthIndicator, kvHealthIndicator } from "./health_indicator.ts";
+
+describe(KvHealthIndicator.name, () => {
+  it("reads from the given connection", async () => {
+    await using kv = await Deno.openKv(":memory:");
+    const get = spy((_name?: string) => kv);
+    const indicator = new KvHealthIndicator(
+      { get } as unknown as KvConnections,
+      { connection: "sessions" },
+    );
+
+    await indicator.check();
+
+    assertEquals(indicator.name, "kv");
+    assertSpyCall(get, 0, { args: ["sessions"] });
+  });
+
+  it("is down when the connection is closed", async () => {
+    const kv = await Deno.openKv(":memory:");
+
+    kv.close();
+
+    await assertRejects(() =>
+      new KvHealthIndicator({ get: () => kv } as unknown as KvConnections)
+        .check()
+    );
+  });
+});
+
+describe(kvHealthIndicator.name, () => {
+  it("creates the indicator from the injected connections", async () => {
+    const connections = {} as KvConnections;
+    const factory = kvHealthIndicator({ name: "sessions" });
+    const indicator = await factory.useFactory(connections);
+
+    assertEquals(indicator.name, "sessions");
+    assertEquals(factory.inject?.length, 1);
+  });
+});
@@ -12,6 +12,7 @@ import type {
   KvAsyncModuleOptions,
   KvModuleOptions,
 } from "./module_options.ts";
+import { KvQueuePatternSource } from "./queue/_pattern_source.ts";
 import { KvQueue, KvQueueListener } from "./queue/mod.ts";
 
 /**
@@ -19,7 +20,7 @@ import { KvQueue, KvQueueListener } from "./queue/mod.ts";
  * Use {@link KvModule.forRoot} or {@link KvModule.forRootAsync} to configure connections.
  */
 @Module({
-  providers: [KvConnections, KvQueueListener, KvQueue],
+  providers: [KvConnections, KvQueueListener, KvQueue, KvQueuePatternSource],
   exports: [KvConnections, KvQueue],
 })
 export class KvModule implements OnModuleInit {
@@ -58,7 +59,9 @@ export class KvModule implements OnModuleInit {
   }
 
   private static createDynamicModule(
-    optionsProvider: Omit<ValueProvider | FactoryProvider, "provide">,
+    optionsProvider:
+      | Omit<ValueProvider, "provide">
+      | Omit<FactoryProvider, "provide">,
     imports?: DynamicModule["imports"],
   ): DynamicModule {
     return {
@@ -0,0 +1,38 @@
+import {
+  type PatternDescriptor,
+  PatternSource,
+  type PatternSourceInterface,
+} from "@denorid/core";
+import type { ModuleRef, Type } from "@denorid/injector";
+import { QUEUE_HANDLER, QUEUE_HANDLER_METADATA } from "../_constants.ts";
+import type { MessageMetadata } from "./_metadata.ts";
+
+/**
+ * Internal provider listing the `@Queued()` handlers in the `patterns:list`
+ * console command, as `<queue>: <event>`.
+ */
+@PatternSource()
+export class KvQueuePatternSource implements PatternSourceInterface {
+  public constructor(private readonly moduleRef: ModuleRef) {}
+
+  /**
+   * @inheritdoc
+   */
+  public describePatterns(): PatternDescriptor[] {
+    return this.moduleRef.getTokensByTag<Type>(QUEUE_HANDLER, {
+      strict: false,
+    }).flatMap((handler) => {
+      const metadata = handler[Symbol.metadata];
+      const queueName = metadata?.[QUEUE_HANDLER] as string;
+
+      return ((metadata?.[QUEUE_HANDLER_METADATA] ?? []) as MessageMetadata[])
+        .map((message) => ({
+          transport: "kv",
+          type: "queue",
+          pattern: `${message.name ?? queueName}: ${String(message.event)}`,
+          provider: handler,
+          handler: message.method,
+        }));
+    });
+  }
+}
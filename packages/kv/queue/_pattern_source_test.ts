@@ -0,0 +1,51 @@
+import type { ModuleRef, Type } from "@denorid/injector";
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { QUEUE_HANDLER } from "../_constants.ts";
+import { KvQueuePatternSource } from "./_pattern_source.ts";
+import { Queued, QueueHandler } from "./decorator.ts";
+
+function createSource(handlers: Type[]): KvQueuePatternSource {
+  return new KvQueuePatternSource(
+    {
+      getTokensByTag: (tag: symbol) => tag === QUEUE_HANDLER ? handlers : [],
+    } as unknown as ModuleRef,
+  );
+}
+
+describe(KvQueuePatternSource.name, () => {
+  it("describes every queued handler with its queue and event", () => {
+    @QueueHandler()
+    class UserHandler {
+      @Queued("user.created")
+      public created(): void {}
+
+      @Queued(/^user\./, "audit")
+      public audit(): void {}
+    }
+
+    assertEquals(createSource([UserHandler]).describePatterns(), [
+      {
+        transport: "kv",
+        type: "queue",
+        pattern: "default: user.created",
+        provider: UserHandler,
+        handler: "created",
+      },
+      {
+        transport: "kv",
+        type: "queue",
+        pattern: "audit: /^user\\./",
+        provider: UserHandler,
+        handler: "audit",
+      },
+    ]);
+  });
+
+  it("skips handlers without queued methods", () => {
+    @QueueHandler("mail")
+    class EmptyHandler {}
+
+    assertEquals(createSource([EmptyHandler]).describePatterns(), []);
+  });
+});
@@ -2,10 +2,15 @@ import {
   type CanActivate,
   type CanActivateFn,
   ExceptionHandler,
+  executeInterceptors,
   ForbiddenException,
   getMethodGuards,
+  getMethodInterceptors,
   GUARDS_METADATA,
   type HttpRouteFn,
+  type Interceptor,
+  type InterceptorFn,
+  INTERCEPTORS_METADATA,
   isClass,
   isFunction,
   RpcExecutionContext,
@@ -35,6 +40,8 @@ type InstanceMessageMetadata = MessageMetadata & {
   handler: Type<Instance>;
   controllerGuards: (Type<CanActivate> | CanActivate | CanActivateFn)[];
   methodGuards: (Type<CanActivate> | CanActivate | CanActivateFn)[];
+  controllerInterceptors: (Type<Interceptor> | Interceptor | InterceptorFn)[];
+  methodInterceptors: (Type<Interceptor> | Interceptor | InterceptorFn)[];
 };
 
 /**
@@ -125,14 +132,14 @@ export class KvQueueListener
           ...metadata.methodGuards,
         ];
 
-        if (allGuards.length > 0) {
-          const executionCtx = new RpcExecutionContext(
-            msg.id,
-            msg.payload,
-            metadata.handler,
-            instance[metadata.method] as unknown as HttpRouteFn,
-          );
+        const executionCtx = new RpcExecutionContext(
+          msg.id,
+          msg.payload,
+          metadata.handler,
+          instance[metadata.method] as unknown as HttpRouteFn,
+        );
 
+        if (allGuards.length > 0) {
           for (const guard of allGuards) {
             let allowed: boolean;
 
@@ -155,11 +162,18 @@ export class KvQueueListener
           }
         }
 
-        await instance[metadata.method](
-          payload,
-          metadata.event instanceof RegExp
-            ? metadata.event.exec(msg.id)!
-            : undefined,
+        await executeInterceptors(
+          this.moduleRef,
+          contextId,
+          executionCtx,
+          [...metadata.controllerInterceptors, ...metadata.methodInterceptors],
+          () =>
+            instance[metadata.method](
+              payload,
+              metadata.event instanceof RegExp
+                ? metadata.event.exec(msg.id)!
+                : undefined,
+            ),
         );
       } catch (err) {
         await this.exceptionHandler.handle(
@@ -235,6 +249,11 @@ export class KvQueueListener
           | Set<Type<CanActivate> | CanActivate | CanActivateFn>
           | undefined ?? new Set()),
       ];
+      const controllerInterceptors = [
+        ...(handler[Symbol.metadata]![INTERCEPTORS_METADATA] as
+          | Set<Type<Interceptor> | Interceptor | InterceptorFn>
+          | undefined ?? new Set()),
+      ];
 
       for (const metadata of messageMetadata) {
         const cache = (data[metadata.name ?? queueName] ??= []) as Array<
@@ -244,12 +263,17 @@ export class KvQueueListener
         const methodGuards = [
           ...(getMethodGuards(handler, metadata.method) ?? new Set()),
         ];
+        const methodInterceptors = [
+          ...(getMethodInterceptors(handler, metadata.method) ?? new Set()),
+        ];
 
         cache.push({
           ...metadata,
           handler: handler as Type<Instance>,
           controllerGuards,
           methodGuards,
+          controllerInterceptors,
+          methodInterceptors,
         });
       }
     }
@@ -1,9 +1,16 @@
 import type {
+  CallHandler,
   CanActivate,
   ExceptionHandler,
   ExecutionContext,
+  Interceptor,
+} from "@denorid/core";
+import {
+  ForbiddenException,
+  RpcHostArguments,
+  UseGuards,
+  UseInterceptors,
 } from "@denorid/core";
-import { ForbiddenException, RpcHostArguments, UseGuards } from "@denorid/core";
 import { InjectorContext, type ModuleRef, type Type } from "@denorid/injector";
 import {
   assertEquals,
@@ -649,4 +656,112 @@ describe(KvQueueListener.name, () => {
       );
     });
   });
+
+  describe("interceptor enforcement", () => {
+    it("wraps the handler with class-level then method-level interceptors", async () => {
+      const order: string[] = [];
+
+      class MethodInterceptor implements Interceptor {
+        async intercept(
+          _ctx: ExecutionContext,
+          next: CallHandler,
+        ): Promise<unknown> {
+          order.push("method:before");
+          const result = await next.handle();
+          order.push("method:after");
+
+          return result;
+        }
+      }
+
+      @UseInterceptors(async (_ctx, next) => {
+        order.push("class:before");
+        const result = await next.handle();
+        order.push("class:after");
+
+        return result;
+      })
+      @QueueHandler()
+      class Handler {
+        @Queued("intercepted")
+        @UseInterceptors(MethodInterceptor)
+        handle() {
+          order.push("handler");
+        }
+      }
+
+      const harness = createHarness({
+        entries: { default: { path: "/tmp/default.db", queue: true } },
+        handlers: [Handler],
+        instances: new Map<Type, unknown>([
+          [Handler, new Handler()],
+          [MethodInterceptor, new MethodInterceptor()],
+        ]),
+      });
+
+      await harness.listener.onApplicationBootstrap();
+      await harness.callbacks.default[0]({ id: "intercepted" });
+
+      assertEquals(order, [
+        "class:before",
+        "method:before",
+        "handler",
+        "method:after",
+        "class:after",
+      ]);
+      assertEquals(
+        (harness.resolutionCalls[1][1] as { contextId: string }).contextId,
+        harness.scopes[0],
+      );
+      assertEquals(harness.exceptionCalls.length, 0);
+    });
+
+    it("does not invoke the handler when an interceptor short-circuits", async () => {
+      const calls: unknown[] = [];
+
+      @QueueHandler()
+      class Handler {
+        @Queued("skipped")
+        @UseInterceptors(() => undefined)
+        handle(payload?: object) {
+          calls.push(payload);
+        }
+      }
+
+      const harness = createHarness({
+        entries: { default: { path: "/tmp/default.db", queue: true } },
+        handlers: [Handler],
+        instances: new Map([[Handler, new Handler()]]),
+      });
+
+      await harness.listener.onApplicationBootstrap();
+      await harness.callbacks.default[0]({ id: "skipped", payload: { a: 1 } });
+
+      assertEquals(calls, []);
+    });
+
+    it("passes interceptor errors to the exception handler", async () => {
+      const error = new Error("interceptor failed");
+
+      @UseInterceptors(() => {
+        throw error;
+      })
+      @QueueHandler()
+      class Handler {
+        @Queued("failing")
+        handle() {}
+      }
+
+      const harness = createHarness({
+        entries: { default: { path: "/tmp/default.db", queue: true } },
+        handlers: [Handler],
+        instances: new Map([[Handler, new Handler()]]),
+      });
+
+      await harness.listener.onApplicationBootstrap();
+      await harness.callbacks.default[0]({ id: "failing" });
+
+      assertStrictEquals(harness.exceptionCalls[0][0], error);
+    });
+  });
 });
@@ -1,12 +1,19 @@
 import {
   type CanActivate,
   type CanActivateFn,
+  type ExceptionFilter,
   type ExceptionHandler,
+  executeInterceptors,
   ForbiddenException,
   getMessageMappingMetadata,
   getMethodGuards,
+  getMethodInterceptors,
+  getScopedFilters,
   GUARDS_METADATA,
   type HttpRouteFn,
+  type Interceptor,
+  type InterceptorFn,
+  INTERCEPTORS_METADATA,
   isClass,
   isFunction,
   MicroserviceServer,
@@ -15,7 +22,7 @@ import {
   RpcHostArguments,
   serializePattern,
 } from "@denorid/core";
-import type { InjectorContext, Type } from "@denorid/injector";
+import type { InjectorContext, ModuleRef, Type } from "@denorid/injector";
 import { Logger, type LoggerService } from "@denorid/logger";
 
 /**
@@ -32,6 +39,12 @@ export interface HandlerRecord {
   controllerGuards: (Type<CanActivate> | CanActivate | CanActivateFn)[];
   /** Guards defined on this specific handler method via `@UseGuards`. */
   methodGuards: (Type<CanActivate> | CanActivate | CanActivateFn)[];
+  /** Interceptors defined on the controller class via `@UseInterceptors`. */
+  controllerInterceptors: (Type<Interceptor> | Interceptor | InterceptorFn)[];
+  /** Interceptors defined on this specific handler method via `@UseInterceptors`. */
+  methodInterceptors: (Type<Interceptor> | Interceptor | InterceptorFn)[];
+  /** Exception filters defined via `@UseFilters`, method-level filters first. */
+  filters: (Type<ExceptionFilter> | ExceptionFilter)[];
 }
 
 /**
@@ -52,9 +65,13 @@ export abstract class Server<
   /** Serialized-pattern → handler map populated by {@link registerHandlers}. */
   protected readonly handlers: Map<string, HandlerRecord> = new Map();
 
+  /** The dispatches currently running, settled ones are removed. */
+  private readonly inFlight: Set<Promise<void>> = new Set();
+
   private ctx!: InjectorContext;
   private exceptionHandler?: ExceptionHandler;
   private globalGuards: (CanActivate | CanActivateFn)[] = [];
+  private globalInterceptors: (Interceptor | InterceptorFn)[] = [];
 
   /**
    * @inheritdoc
@@ -72,6 +89,15 @@ export abstract class Server<
     this.globalGuards = guards;
   }
 
+  /**
+   * @inheritdoc
+   */
+  public override setGlobalInterceptors(
+    interceptors: (Interceptor | InterceptorFn)[],
+  ): void {
+    this.globalInterceptors = interceptors;
+  }
+
   /**
    * @inheritdoc
    */
@@ -85,11 +111,19 @@ export abstract class Server<
           | Set<Type<CanActivate> | CanActivate | CanActivateFn>
           | undefined ?? new Set()),
       ];
+      const controllerInterceptors = [
+        ...(type[Symbol.metadata]?.[INTERCEPTORS_METADATA] as
+          | Set<Type<Interceptor> | Interceptor | InterceptorFn>
+          | undefined ?? new Set()),
+      ];
 
       for (const mapping of mappings) {
         const methodGuards = [
           ...(getMethodGuards(type, mapping.name) ?? new Set()),
         ];
+        const methodInterceptors = [
+          ...(getMethodInterceptors(type, mapping.name) ?? new Set()),
+        ];
 
         this.handlers.set(serializePattern(mapping.pattern), {
           methodName: mapping.name,
@@ -97,20 +131,43 @@ export abstract class Server<
           controllerType: type,
           controllerGuards,
           methodGuards,
+          controllerInterceptors,
+          methodInterceptors,
+          filters: getScopedFilters(type, mapping.name),
         });
       }
     }
   }
 
   /**
-   * Dispatches incoming data to the handler registered for `pattern`.
+   * @inheritdoc
+   */
+  public override async drain(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight);
+    }
+  }
+
+  /**
+   * Dispatches incoming data to the handler registered for `pattern`. The
+   * dispatch is tracked until it settles, see {@link drain}.
    *
    * @param {string} pattern - The serialized pattern to look up.
    * @param {unknown} data - The payload forwarded to the handler.
    * @return {Promise<unknown>} The handler's return value.
    * @throws {Error} When no handler is registered for `pattern` or the resolved method is not a function.
    */
-  protected async dispatch(pattern: string, data: unknown): Promise<unknown> {
+  protected dispatch(pattern: string, data: unknown): Promise<unknown> {
+    const result = this.execute(pattern, data);
+    const settled = result.then(() => {}, () => {});
+
+    this.inFlight.add(settled);
+    settled.then(() => this.inFlight.delete(settled));
+
+    return result;
+  }
+
+  private async execute(pattern: string, data: unknown): Promise<unknown> {
     const record = this.handlers.get(pattern);
 
     if (!record) {
@@ -141,42 +198,55 @@ export abstract class Server<
           ...record.methodGuards,
         ];
 
-        if (allGuards.length > 0) {
-          const executionCtx = new RpcExecutionContext(
-            pattern,
-            data,
-            record.controllerType,
-            method as unknown as HttpRouteFn,
-          );
+        const allInterceptors = [
+          ...this.globalInterceptors,
+          ...record.controllerInterceptors,
+          ...record.methodInterceptors,
+        ];
+
+        const executionCtx = new RpcExecutionContext(
+          pattern,
+          data,
+          record.controllerType,
+          method as unknown as HttpRouteFn,
+        );
+
+        for (const guard of allGuards) {
+          let allowed: boolean;
+
+          if (isClass<CanActivate>(guard)) {
+            const guardInstance = await this.getModuleRefFor(
+              record.controllerType,
+              guard,
+            ).get(guard, { contextId, strict: false });
+            allowed = await guardInstance.canActivate(executionCtx);
+          } else if (isFunction<CanActivateFn>(guard)) {
+            allowed = await guard(executionCtx);
+          } else {
+            allowed = await guard.canActivate(executionCtx);
+          }
 
-          for (const guard of allGuards) {
-            let allowed: boolean;
-
-            if (isClass<CanActivate>(guard)) {
-              const guardInstance = await this.ctx.getHostModuleRef().get(
-                guard,
-                { contextId },
-              );
-              allowed = await guardInstance.canActivate(executionCtx);
-            } else if (isFunction<CanActivateFn>(guard)) {
-              allowed = await guard(executionCtx);
-            } else {
-              allowed = await guard.canActivate(executionCtx);
-            }
-
-            if (!allowed) {
-              throw new ForbiddenException();
-            }
+          if (!allowed) {
+            throw new ForbiddenException();
           }
         }
 
-        return await (method as (data: unknown) => unknown | Promise<unknown>)
-          .call(instance, data);
+        return await executeInterceptors(
+          (interceptor) =>
+            this.getModuleRefFor(record.controllerType, interceptor),
+          contextId,
+          executionCtx,
+          allInterceptors,
+          () =>
+            (method as (data: unknown) => unknown | Promise<unknown>)
+              .call(instance, data),
+        );
       } catch (err) {
         if (this.exceptionHandler) {
           await this.exceptionHandler.handle(
             err,
             new RpcHostArguments(pattern, data),
+            record.filters,
           );
         } else {
           this.logger.error(
@@ -193,4 +263,14 @@ export abstract class Server<
       // deno-coverage-ignore-stop
     });
   }
+
+  private getModuleRefFor(controllerType: Type, type: Type): ModuleRef {
+    const hostModuleRef = this.ctx.getHostModuleRef();
+
+    // Guards and interceptors of the application (and their overrides in
+    // tests) win, others are declared next to the controller.
+    return hostModuleRef.hasGlobal(type)
+      ? hostModuleRef
+      : this.ctx.getModuleRefOf(controllerType);
+  }
 }
@@ -1,10 +1,13 @@
 import type {
+  CallHandler,
   CanActivate,
   ExceptionHandler,
   ExecutionContext,
   HostArguments,
+  Interceptor,
+  InterceptorFn,
 } from "@denorid/core";
-import { ForbiddenException, UseGuards } from "@denorid/core";
+import { ForbiddenException, UseGuards, UseInterceptors } from "@denorid/core";
 import {
   EventPattern,
   MessageController,
@@ -19,11 +22,14 @@ import { Server } from "./server.ts";
 
 function makeCtx(...pairs: [Type, unknown][]): InjectorContext {
   const map = new Map<Type, unknown>(pairs);
+  const moduleRef = {
+    get: (type: Type, _opts: unknown) => Promise.resolve(map.get(type)),
+    hasGlobal: () => true,
+  };
   return {
     runInRequestScopeAsync: (_id: string, fn: () => Promise<unknown>) => fn(),
-    getHostModuleRef: () => ({
-      get: (type: Type, _opts: unknown) => Promise.resolve(map.get(type)),
-    }),
+    getHostModuleRef: () => moduleRef,
+    getModuleRefOf: () => moduleRef,
     clearContext: () => {},
   } as unknown as InjectorContext;
 }
@@ -149,6 +155,9 @@ describe(Server.name, () => {
         controllerType: BadCls as unknown as Type,
         controllerGuards: [],
         methodGuards: [],
+        controllerInterceptors: [],
+        methodInterceptors: [],
+        filters: [],
       });
       server["ctx"] = makeCtx([BadCls as unknown as Type, {
         method: "not-a-function",
@@ -265,6 +274,9 @@ describe(Server.name, () => {
         controllerType: ClearCtrl as unknown as Type,
         controllerGuards: [],
         methodGuards: [],
+        controllerInterceptors: [],
+        methodInterceptors: [],
+        filters: [],
       });
       server["ctx"] = {
         runInRequestScopeAsync: (_id: string, fn: () => Promise<unknown>) =>
@@ -316,6 +328,44 @@ describe(Server.name, () => {
     });
   });
 
+  describe("drain", () => {
+    it("resolves once the in-flight dispatches settled", async () => {
+      const { promise, resolve } = Promise.withResolvers<string>();
+
+      @MessageController()
+      class SlowCtrl {
+        @MessagePattern("slow")
+        handle(): Promise<string> {
+          return promise;
+        }
+      }
+
+      server.registerHandlers(
+        [SlowCtrl as unknown as Type],
+        makeCtx([SlowCtrl as unknown as Type, new SlowCtrl()]),
+      );
+
+      const dispatched = server.dispatchPublic(serializePattern("slow"), {});
+      let drained = false;
+      const draining = server.drain().then(() => {
+        drained = true;
+      });
+
+      await new Promise((r) => setTimeout(r, 0));
+      assertEquals(drained, false);
+
+      resolve("done");
+      await draining;
+
+      assertEquals(await dispatched, "done");
+      assertEquals(drained, true);
+    });
+
+    it("resolves immediately without in-flight dispatches", async () => {
+      await server.drain();
+    });
+  });
+
   describe("setGlobalGuards", () => {
     it("stores the provided guards", () => {
       const guard = () => true;
@@ -680,4 +730,219 @@ describe(Server.name, () => {
       assertEquals(methodGuardCalls, []);
     });
   });
+
+  describe("setGlobalInterceptors", () => {
+    it("stores the provided interceptors", () => {
+      const interceptor: InterceptorFn = (_ctx, next) => next.handle();
+      server.setGlobalInterceptors([interceptor]);
+
+      assertEquals(
+        (server as unknown as Record<string, unknown>)["globalInterceptors"],
+        [interceptor],
+      );
+    });
+  });
+
+  describe("dispatch - interceptors", () => {
+    it("wraps the handler with global, controller and method interceptors in order", async () => {
+      const order: string[] = [];
+      const record = (name: string): InterceptorFn => async (_ctx, next) => {
+        order.push(`${name}:before`);
+        const result = await next.handle();
+        order.push(`${name}:after`);
+
+        return result;
+      };
+
+      @UseInterceptors(record("ctrl"))
+      @MessageController()
+      class InterceptedCtrl {
+        @UseInterceptors(record("method"))
+        @MessagePattern("intercept.order")
+        handle(): string {
+          order.push("handler");
+
+          return "ok";
+        }
+      }
+
+      server.registerHandlers(
+        [InterceptedCtrl as unknown as Type],
+        makeCtx([InterceptedCtrl as unknown as Type, new InterceptedCtrl()]),
+      );
+      server.setGlobalInterceptors([record("global")]);
+
+      const result = await server.dispatchPublic(
+        serializePattern("intercept.order"),
+        null,
+      );
+
+      assertEquals(result, "ok");
+      assertEquals(order, [
+        "global:before",
+        "ctrl:before",
+        "method:before",
+        "handler",
+        "method:after",
+        "ctrl:after",
+        "global:after",
+      ]);
+    });
+
+    it("returns the value transformed by an interceptor", async () => {
+      @MessageController()
+      class TransformCtrl {
+        @UseInterceptors(async (_ctx, next) => ({ data: await next.handle() }))
+        @MessagePattern("intercept.transform")
+        handle(data: unknown): unknown {
+          return data;
+        }
+      }
+
+      server.registerHandlers(
+        [TransformCtrl as unknown as Type],
+        makeCtx([TransformCtrl as unknown as Type, new TransformCtrl()]),
+      );
+
+      const result = await server.dispatchPublic(
+        serializePattern("intercept.transform"),
+        42,
+      );
+
+      assertEquals(result, { data: 42 });
+    });
+
+    it("resolves an interceptor class via DI and passes the RPC execution context", async () => {
+      const contexts: ExecutionContext[] = [];
+
+      class CacheInterceptor implements Interceptor {
+        intercept(ctx: ExecutionContext): string {
+          contexts.push(ctx);
+
+          return "cached";
+        }
+      }
+
+      const handlerCalls: unknown[] = [];
+
+      @UseInterceptors(CacheInterceptor)
+      @MessageController()
+      class CachedCtrl {
+        @MessagePattern("intercept.cache")
+        handle(): string {
+          handlerCalls.push(true);
+
+          return "fresh";
+        }
+      }
+
+      server.registerHandlers(
+        [CachedCtrl as unknown as Type],
+        makeCtx(
+          [CachedCtrl as unknown as Type, new CachedCtrl()],
+          [CacheInterceptor as unknown as Type, new CacheInterceptor()],
+        ),
+      );
+
+      const result = await server.dispatchPublic(
+        serializePattern("intercept.cache"),
+        { id: 1 },
+      );
+
+      assertEquals(result, "cached");
+      assertEquals(handlerCalls, []);
+      assertEquals(contexts.length, 1);
+      assertEquals(contexts[0].getClass<CachedCtrl>(), CachedCtrl);
+      assertEquals(contexts[0].switchToRpc().getData(), { id: 1 });
+    });
+
+    it("resolves guards and interceptors declared next to the controller from its module", async () => {
+      class LocalGuard implements CanActivate {
+        canActivate(_ctx: ExecutionContext): boolean {
+          return true;
+        }
+      }
+
+      class LocalInterceptor implements Interceptor {
+        intercept(_ctx: ExecutionContext, next: CallHandler): unknown {
+          return next.handle();
+        }
+      }
+
+      @UseGuards(LocalGuard)
+      @UseInterceptors(LocalInterceptor)
+      @MessageController()
+      class LocalCtrl {
+        @MessagePattern("intercept.local")
+        handle(): string {
+          return "local";
+        }
+      }
+
+      const instances = new Map<Type, unknown>([
+        [LocalGuard, new LocalGuard()],
+        [LocalInterceptor, new LocalInterceptor()],
+      ]);
+      const get = spy((type: Type, _opts: unknown) =>
+        Promise.resolve(instances.get(type))
+      );
+      const getModuleRefOf = spy((_token: unknown) => ({ get }));
+
+      server.registerHandlers([LocalCtrl as unknown as Type], {
+        runInRequestScopeAsync: (_id: string, fn: () => Promise<unknown>) =>
+          fn(),
+        getHostModuleRef: () => ({
+          get: () => Promise.resolve(new LocalCtrl()),
+          hasGlobal: () => false,
+        }),
+        getModuleRefOf,
+        clearContext: () => {},
+      } as unknown as InjectorContext);
+
+      const result = await server.dispatchPublic(
+        serializePattern("intercept.local"),
+        null,
+      );
+
+      assertEquals(result, "local");
+      assertEquals(getModuleRefOf.calls.map((call) => call.args[0]), [
+        LocalCtrl,
+        LocalCtrl,
+      ]);
+      assertEquals(get.calls.map((call) => call.args[0]), [
+        LocalGuard,
+        LocalInterceptor,
+      ]);
+      assertEquals((get.calls[0].args[1] as { strict: boolean }).strict, false);
+    });
+
+    it("does not run interceptors when a guard denies", async () => {
+      const intercepted: boolean[] = [];
+
+      @UseGuards(() => false)
+      @UseInterceptors((_ctx, next) => {
+        intercepted.push(true);
+
+        return next.handle();
+      })
+      @MessageController()
+      class DeniedCtrl {
+        @MessagePattern("intercept.denied")
+        handle(): string {
+          return "never";
+        }
+      }
+
+      server.registerHandlers(
+        [DeniedCtrl as unknown as Type],
+        makeCtx([DeniedCtrl as unknown as Type, new DeniedCtrl()]),
+      );
+
+      await assertRejects(
+        () => server.dispatchPublic(serializePattern("intercept.denied"), null),
+        ForbiddenException,
+      );
+      assertEquals(intercepted, []);
+    });
+  });
 });
@@ -0,0 +1,14 @@
+export const OPENAPI_MODULE_OPTIONS = Symbol.for(
+  "denorid.openapi.module_options",
+);
+export const API_CLASS_METADATA = Symbol.for("denorid.openapi.class");
+export const API_METHOD_METADATA = Symbol.for("denorid.openapi.method");
+
+// Mirrors of the `@denorid/core` controller metadata keys. Registered via
+// `Symbol.for`, so they resolve to the very same symbols.
+export const CONTROLLER_METADATA = Symbol.for("denorid.controller");
+export const HTTP_CONTROLLER_METADATA = Symbol.for("denorid.http_controller");
+export const CONTROLLER_REQUEST_MAPPING = Symbol.for("denorid.request_mapping");
+
+export const DEFAULT_OPENAPI_PATH = "/openapi.json";
+export const DEFAULT_OPENAPI_DOCS_PATH = "/docs";
@@ -0,0 +1,83 @@
+import { Controller, Get } from "@denorid/core";
+import { Inject, type MethodDecorator, type Type } from "@denorid/injector";
+import { OPENAPI_MODULE_OPTIONS } from "./_constants.ts";
+import { ApiExclude } from "./decorators.ts";
+import type { OpenApiDocument } from "./document.ts";
+import type { OpenApiModuleOptions } from "./module_options.ts";
+import { OpenApiService } from "./openapi_service.ts";
+
+/**
+ * Renders the docs UI page loading the document from `documentUrl`.
+ *
+ * @param {string} title - The page title.
+ * @param {string} documentUrl - The URL the JSON document is served at.
+ * @return {string} The HTML page.
+ */
+export function renderDocsPage(title: string, documentUrl: string): string {
+  const escape = (value: string): string =>
+    value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/"/g, "&quot;");
+
+  return `<!doctype html>
+<html>
+  <head>
+    <title>${escape(title)}</title>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+  </head>
+  <body>
+    <script id="api-reference" data-url="${escape(documentUrl)}"></script>
+    <script src="https://cdn.jsdelivr.net/npm/@scalar/api-reference"></script>
+  </body>
+</html>
+`;
+}
+
+/**
+ * Creates the controller serving the document at `path` and, unless
+ * `docsPath` is `false`, the docs UI at `docsPath`. The controller itself is
+ * excluded from the document.
+ *
+ * @param {string} path - The route of the JSON document.
+ * @param {string | false} docsPath - The route of the docs UI.
+ * @return {Type} The controller class.
+ */
+export function createOpenApiController(
+  path: string,
+  docsPath: string | false,
+): Type {
+  const DocsRoute: MethodDecorator = docsPath === false
+    ? (target) => target
+    : Get(docsPath);
+
+  @ApiExclude()
+  @Controller()
+  class OpenApiController {
+    @Inject(OpenApiService)
+    private readonly openApi!: OpenApiService;
+
+    @Inject(OPENAPI_MODULE_OPTIONS)
+    private readonly options!: OpenApiModuleOptions;
+
+    @Get(path)
+    public document(): OpenApiDocument {
+      return this.openApi.getDocument();
+    }
+
+    @DocsRoute
+    public docs(): Response {
+      const documentUrl = `/${
+        [this.options.basePath ?? "", path]
+          .map((p) => p.replace(/^\/+|\/+$/g, ""))
+          .filter(Boolean)
+          .join("/")
+      }`;
+
+      return new Response(
+        renderDocsPage(this.openApi.getDocument().info.title, documentUrl),
+        { headers: { "content-type": "text/html; charset=utf-8" } },
+      );
+    }
+  }
+
+  return OpenApiController;
+}
@@ -0,0 +1,51 @@
+import { assertEquals, assertStringIncludes } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { createOpenApiController, renderDocsPage } from "./_controller.ts";
+import type { OpenApiService } from "./openapi_service.ts";
+
+const document = {
+  openapi: "3.1.0" as const,
+  info: { title: "Orders", version: "1.0.0" },
+  paths: {},
+};
+
+function makeController(basePath?: string) {
+  const OpenApiController = createOpenApiController("/openapi.json", "/docs");
+  const controller = new OpenApiController() as {
+    document(): unknown;
+    docs(): Response;
+  };
+
+  Object.assign(controller, {
+    openApi: { getDocument: () => document } as unknown as OpenApiService,
+    options: { basePath },
+  });
+
+  return controller;
+}
+
+describe(createOpenApiController.name, () => {
+  it("serves the generated document", () => {
+    assertEquals(makeController().document(), document);
+  });
+
+  it("serves the docs UI pointing at the document route", async () => {
+    const res = makeController("/api/").docs();
+
+    assertEquals(res.headers.get("content-type"), "text/html; charset=utf-8");
+
+    const html = await res.text();
+
+    assertStringIncludes(html, "<title>Orders</title>");
+    assertStringIncludes(html, 'data-url="/api/openapi.json"');
+  });
+});
+
+describe(renderDocsPage.name, () => {
+  it("escapes the title and the document URL", () => {
+    const html = renderDocsPage('<A & "B">', '/api/"openapi.json');
+
+    assertStringIncludes(html, "<title>&lt;A &amp; &quot;B&quot;></title>");
+    assertStringIncludes(html, 'data-url="/api/&quot;openapi.json"');
+  });
+});
@@ -0,0 +1,95 @@
+import type { Type } from "@denorid/injector";
+import { API_CLASS_METADATA, API_METHOD_METADATA } from "./_constants.ts";
+import type { ApiOperationOptions, ApiResponseOptions } from "./decorators.ts";
+
+/** OpenAPI metadata recorded for a controller class or a single route method. */
+export interface ApiMetadata {
+  /** Tags from `@ApiTags()`. */
+  tags: string[];
+  /** Responses from `@ApiResponse()`, in declaration order. */
+  responses: ApiResponseOptions[];
+  /** Operation details from `@ApiOperation()` (methods only). */
+  operation?: ApiOperationOptions;
+  /** Set by `@ApiExclude()`. */
+  exclude?: boolean;
+}
+
+function createApiMetadata(): ApiMetadata {
+  return { tags: [], responses: [] };
+}
+
+/**
+ * Returns the (created on first access) class-level metadata of a decorator
+ * context.
+ *
+ * @param {DecoratorMetadataObject} metadata - The decorator context metadata.
+ * @return {ApiMetadata}
+ */
+export function preserveApiClassMetadata(
+  metadata: DecoratorMetadataObject,
+): ApiMetadata {
+  if (!Object.hasOwn(metadata, API_CLASS_METADATA)) {
+    metadata[API_CLASS_METADATA] = createApiMetadata();
+  }
+
+  return metadata[API_CLASS_METADATA] as ApiMetadata;
+}
+
+/**
+ * Returns the (created on first access) metadata of a single method of a
+ * decorator context.
+ *
+ * @param {DecoratorMetadataObject} metadata - The decorator context metadata.
+ * @param {string | symbol} name - The method name.
+ * @return {ApiMetadata}
+ */
+export function preserveApiMethodMetadata(
+  metadata: DecoratorMetadataObject,
+  name: string | symbol,
+): ApiMetadata {
+  if (!Object.hasOwn(metadata, API_METHOD_METADATA)) {
+    metadata[API_METHOD_METADATA] = new Map<string | symbol, ApiMetadata>();
+  }
+
+  const methods = metadata[API_METHOD_METADATA] as Map<
+    string | symbol,
+    ApiMetadata
+  >;
+  let entry = methods.get(name);
+
+  if (!entry) {
+    entry = createApiMetadata();
+
+    methods.set(name, entry);
+  }
+
+  return entry;
+}
+
+/**
+ * Reads the class-level OpenAPI metadata of a controller.
+ *
+ * @param {Type} target - The controller class.
+ * @return {ApiMetadata | undefined}
+ */
+export function getApiClassMetadata(target: Type): ApiMetadata | undefined {
+  return target[Symbol.metadata]?.[API_CLASS_METADATA] as
+    | ApiMetadata
+    | undefined;
+}
+
+/**
+ * Reads the OpenAPI metadata of a single controller method.
+ *
+ * @param {Type} target - The controller class.
+ * @param {string | symbol} name - The method name.
+ * @return {ApiMetadata | undefined}
+ */
+export function getApiMethodMetadata(
+  target: Type,
+  name: string | symbol,
+): ApiMetadata | undefined {
+  return (target[Symbol.metadata]?.[API_METHOD_METADATA] as
+    | Map<string | symbol, ApiMetadata>
+    | undefined)?.get(name);
+}
@@ -0,0 +1,60 @@
+import {
+  ConsoleCommand,
+  type ConsoleCommandInput,
+  type ConsoleCommandInterface,
+  isString,
+} from "@denorid/core";
+import { Inject } from "@denorid/injector";
+import { OpenApiService } from "../openapi_service.ts";
+
+/**
+ * `openapi:generate` — writes the generated OpenAPI document to disk, e.g. as
+ * input for a client generator.
+ *
+ * @example Write the document via the Denorid CLI
+ * ```bash
+ * deno run -A cli.ts openapi:generate --output ./openapi.json
+ * ```
+ */
+@ConsoleCommand({
+  command: "openapi:generate",
+  description: "Writes the OpenAPI document to a file",
+  options: [
+    {
+      name: "output",
+      shortcut: "o",
+      description: "Output file path",
+      type: "string",
+      default: "openapi.json",
+    },
+    {
+      name: "indent",
+      description: "Number of spaces used to indent the JSON output",
+      type: "number",
+      default: 2,
+    },
+  ],
+})
+export class OpenApiGenerateCommand implements ConsoleCommandInterface {
+  @Inject(OpenApiService)
+  private readonly openApi!: OpenApiService;
+
+  /**
+   * @inheritdoc
+   */
+  public async execute(input: ConsoleCommandInput): Promise<number> {
+    const output = isString(input.options["output"])
+      ? input.options["output"]
+      : "openapi.json";
+    const indent = typeof input.options["indent"] === "number"
+      ? input.options["indent"]
+      : 2;
+
+    await Deno.writeTextFile(
+      output,
+      `${JSON.stringify(this.openApi.getDocument(), null, indent)}\n`,
+    );
+
+    return 0;
+  }
+}
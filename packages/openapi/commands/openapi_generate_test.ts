@@ -0,0 +1,58 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCall, stub } from "@std/testing/mock";
+import type { OpenApiService } from "../openapi_service.ts";
+import { OpenApiGenerateCommand } from "./openapi_generate.ts";
+
+const document = {
+  openapi: "3.1.0" as const,
+  info: { title: "Test", version: "1.0.0" },
+  paths: {},
+};
+
+function makeCommand(): OpenApiGenerateCommand {
+  const command = new OpenApiGenerateCommand();
+
+  Object.assign(command, {
+    openApi: { getDocument: () => document } as unknown as OpenApiService,
+  });
+
+  return command;
+}
+
+describe("OpenApiGenerateCommand", () => {
+  it("writes the pretty printed document to the output path", async () => {
+    using writeTextFile = stub(Deno, "writeTextFile", () => Promise.resolve());
+
+    const code = await makeCommand().execute({
+      options: { output: "/out/spec.json", indent: 2 },
+      args: [],
+    });
+
+    assertEquals(code, 0);
+    assertSpyCall(writeTextFile, 0, {
+      args: ["/out/spec.json", `${JSON.stringify(document, null, 2)}\n`],
+    });
+  });
+
+  it("honours a custom indentation", async () => {
+    using writeTextFile = stub(Deno, "writeTextFile", () => Promise.resolve());
+
+    await makeCommand().execute({
+      options: { output: "/out/spec.json", indent: 0 },
+      args: [],
+    });
+
+    assertSpyCall(writeTextFile, 0, {
+      args: ["/out/spec.json", `${JSON.stringify(document)}\n`],
+    });
+  });
+
+  it("falls back to openapi.json", async () => {
+    using writeTextFile = stub(Deno, "writeTextFile", () => Promise.resolve());
+
+    await makeCommand().execute({ options: {}, args: [] });
+
+    assertEquals(writeTextFile.calls[0].args[0], "openapi.json");
+  });
+});
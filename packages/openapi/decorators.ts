@@ -0,0 +1,176 @@
+import {
+  type ClassMethodDecoratorInitializer,
+  type Decorator,
+  InvalidStaticMemberDecoratorUsageError,
+  type MethodDecorator,
+  type Type,
+} from "@denorid/injector";
+import {
+  type ApiMetadata,
+  preserveApiClassMetadata,
+  preserveApiMethodMetadata,
+} from "./_metadata.ts";
+
+/** Options accepted by {@link ApiOperation}. */
+export interface ApiOperationOptions {
+  /** A short summary of what the operation does. */
+  summary?: string;
+  /** A verbose explanation of the operation behavior. */
+  description?: string;
+  /**
+   * Unique identifier of the operation.
+   *
+   * @default `${ControllerName}_${methodName}`
+   */
+  operationId?: string;
+  /** Marks the operation as deprecated. */
+  deprecated?: boolean;
+}
+
+/** Options accepted by {@link ApiResponse}. */
+export interface ApiResponseOptions {
+  /** The HTTP status code of the response. */
+  status: number;
+  /**
+   * A description of the response.
+   *
+   * @default The reason phrase of `status`, e.g. "Not Found".
+   */
+  description?: string;
+  /** A zod schema or plain JSON Schema describing the response body. */
+  schema?: unknown;
+  /**
+   * The media type of the response body.
+   *
+   * @default "application/json"
+   */
+  contentType?: string;
+}
+
+/** A decorator applicable to classes and non-static methods. */
+export type ApiDecorator =
+  & Decorator<ClassDecoratorContext, Type>
+  & MethodDecorator;
+
+function createApiDecorator(
+  name: string,
+  apply: (metadata: ApiMetadata) => void,
+): ApiDecorator {
+  const decorator = function <
+    T extends object,
+    V extends ClassMethodDecoratorInitializer<T>,
+  >(
+    target: V,
+    ctx: ClassDecoratorContext | ClassMethodDecoratorContext<T, V>,
+  ): V {
+    if (ctx.kind === "method") {
+      if (ctx.static) {
+        throw new InvalidStaticMemberDecoratorUsageError(
+          name,
+          ctx.name,
+          "function",
+        );
+      }
+
+      apply(preserveApiMethodMetadata(ctx.metadata, ctx.name));
+    } else {
+      apply(preserveApiClassMetadata(ctx.metadata));
+    }
+
+    return target;
+  };
+
+  return decorator as ApiDecorator;
+}
+
+/**
+ * Groups the operations of a controller or a single route under the given
+ * tags. Class and method tags are merged.
+ *
+ * @example
+ * ```ts
+ * \@ApiTags("orders")
+ * \@Controller("/orders")
+ * class OrdersController {}
+ * ```
+ *
+ * @param {...string} tags - One or more tag names.
+ * @return {ApiDecorator} A decorator applicable to classes and non-static methods.
+ */
+export function ApiTags(...tags: string[]): ApiDecorator {
+  return createApiDecorator(ApiTags.name, (metadata) => {
+    for (const tag of tags) {
+      if (!metadata.tags.includes(tag)) {
+        metadata.tags.push(tag);
+      }
+    }
+  });
+}
+
+/**
+ * Documents a possible response of a route. Applied to a class, the response
+ * is added to every route of the controller; a method-level response for the
+ * same status wins.
+ *
+ * @example
+ * ```ts
+ * \@Get("/:id")
+ * \@ApiResponse({ status: 200, schema: OrderSchema })
+ * \@ApiResponse({ status: 404, description: "Order not found" })
+ * show(ctx: RequestContext): Promise<Order> {}
+ * ```
+ *
+ * @param {ApiResponseOptions} options - The response description.
+ * @return {ApiDecorator} A decorator applicable to classes and non-static methods.
+ */
+export function ApiResponse(options: ApiResponseOptions): ApiDecorator {
+  return createApiDecorator(ApiResponse.name, (metadata) => {
+    metadata.responses.push(options);
+  });
+}
+
+/**
+ * Excludes a controller or a single route from the generated document.
+ *
+ * @return {ApiDecorator} A decorator applicable to classes and non-static methods.
+ */
+export function ApiExclude(): ApiDecorator {
+  return createApiDecorator(ApiExclude.name, (metadata) => {
+    metadata.exclude = true;
+  });
+}
+
+/**
+ * Describes the operation of a route handler.
+ *
+ * @example
+ * ```ts
+ * \@Post("/")
+ * \@ApiOperation({ summary: "Places an order" })
+ * create(ctx: RequestContext): Promise<Order> {}
+ * ```
+ *
+ * @param {ApiOperationOptions} options - The operation details.
+ * @return {MethodDecorator} The method decorator.
+ */
+export function ApiOperation(options: ApiOperationOptions): MethodDecorator {
+  return function <
+    T extends object,
+    V extends ClassMethodDecoratorInitializer<T>,
+  >(
+    target: V,
+    ctx: ClassMethodDecoratorContext<T, V>,
+  ): V {
+    if (ctx.static) {
+      throw new InvalidStaticMemberDecoratorUsageError(
+        ApiOperation.name,
+        ctx.name,
+        "function",
+      );
+    }
+
+    preserveApiMethodMetadata(ctx.metadata, ctx.name).operation = options;
+
+    return target;
+  };
+}
@@ -0,0 +1,109 @@
+import { InvalidStaticMemberDecoratorUsageError } from "@denorid/injector";
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { getApiClassMetadata, getApiMethodMetadata } from "./_metadata.ts";
+import {
+  ApiExclude,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "./decorators.ts";
+
+describe("OpenAPI decorators", () => {
+  describe("@ApiTags()", () => {
+    it("records deduplicated class and method tags separately", () => {
+      @ApiTags("orders", "orders")
+      class OrdersController {
+        @ApiTags("admin")
+        public handler(): void {}
+      }
+
+      assertEquals(getApiClassMetadata(OrdersController)?.tags, ["orders"]);
+      assertEquals(
+        getApiMethodMetadata(OrdersController, "handler")?.tags,
+        ["admin"],
+      );
+    });
+
+    it("throws when decorating a static method", () => {
+      assertThrows(() => {
+        class _ {
+          @ApiTags("x")
+          public static stub(): void {}
+        }
+      }, InvalidStaticMemberDecoratorUsageError);
+    });
+  });
+
+  describe("@ApiResponse()", () => {
+    it("stacks responses per method", () => {
+      class OrdersController {
+        @ApiResponse({ status: 200 })
+        @ApiResponse({ status: 404, description: "missing" })
+        public show(): void {}
+
+        @ApiResponse({ status: 201 })
+        public create(): void {}
+      }
+
+      assertEquals(
+        getApiMethodMetadata(OrdersController, "show")?.responses.map((r) =>
+          r.status
+        ),
+        [404, 200],
+      );
+      assertEquals(
+        getApiMethodMetadata(OrdersController, "create")?.responses,
+        [{ status: 201 }],
+      );
+    });
+  });
+
+  describe("@ApiExclude()", () => {
+    it("marks classes and methods as excluded", () => {
+      @ApiExclude()
+      class HiddenController {
+        @ApiExclude()
+        public handler(): void {}
+      }
+
+      assertEquals(getApiClassMetadata(HiddenController)?.exclude, true);
+      assertEquals(
+        getApiMethodMetadata(HiddenController, "handler")?.exclude,
+        true,
+      );
+    });
+  });
+
+  describe("@ApiOperation()", () => {
+    it("records the operation on the method", () => {
+      class OrdersController {
+        @ApiOperation({ summary: "Places an order", deprecated: true })
+        public create(): void {}
+      }
+
+      assertEquals(
+        getApiMethodMetadata(OrdersController, "create")?.operation,
+        { summary: "Places an order", deprecated: true },
+      );
+    });
+
+    it("throws when decorating a static method", () => {
+      assertThrows(() => {
+        class _ {
+          @ApiOperation({})
+          public static stub(): void {}
+        }
+      }, InvalidStaticMemberDecoratorUsageError);
+    });
+  });
+
+  it("returns undefined for undecorated classes and methods", () => {
+    class PlainController {
+      public handler(): void {}
+    }
+
+    assertEquals(getApiClassMetadata(PlainController), undefined);
+    assertEquals(getApiMethodMetadata(PlainController, "handler"), undefined);
+  });
+});
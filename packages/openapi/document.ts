@@ -0,0 +1,144 @@
+/** A JSON Schema (draft 2020-12) object, as embedded in OpenAPI 3.1. */
+export type JsonSchema = Record<string, unknown>;
+
+/** The `info` object of an OpenAPI document. */
+export interface OpenApiInfo {
+  /** The title of the API. */
+  title: string;
+  /** The version of the API (not the OpenAPI specification version). */
+  version: string;
+  /** A description of the API. CommonMark syntax may be used. */
+  description?: string;
+}
+
+/** A server the API is reachable at. */
+export interface OpenApiServer {
+  /** URL of the target host, relative URLs are resolved against the document location. */
+  url: string;
+  /** Optional description of the host. */
+  description?: string;
+}
+
+/** Metadata for a tag used by operations. */
+export interface OpenApiTag {
+  /** The name of the tag. */
+  name: string;
+  /** A description of the tag. */
+  description?: string;
+}
+
+/** A security scheme referenced by {@link OpenApiSecurityRequirement}s. */
+export interface OpenApiSecurityScheme {
+  /** The type of the security scheme. */
+  type: "apiKey" | "http" | "mutualTLS" | "oauth2" | "openIdConnect";
+  /** A description of the security scheme. */
+  description?: string;
+  /** The name of the header, query or cookie parameter (`apiKey` only). */
+  name?: string;
+  /** The location of the API key (`apiKey` only). */
+  in?: "query" | "header" | "cookie";
+  /** The HTTP authorization scheme, e.g. `bearer` (`http` only). */
+  scheme?: string;
+  /** A hint to the client how the bearer token is formatted (`http` only). */
+  bearerFormat?: string;
+  /** Additional scheme specific fields such as `flows` or `openIdConnectUrl`. */
+  [key: string]: unknown;
+}
+
+/** Maps security scheme names to the scopes required for execution. */
+export type OpenApiSecurityRequirement = Record<string, string[]>;
+
+/** A single parameter of an operation. */
+export interface OpenApiParameter {
+  /** The name of the parameter. */
+  name: string;
+  /** The location of the parameter. */
+  in: "query" | "header" | "path" | "cookie";
+  /** Whether the parameter is mandatory. Always `true` for path parameters. */
+  required?: boolean;
+  /** A description of the parameter. */
+  description?: string;
+  /** The schema of the parameter value. */
+  schema?: JsonSchema;
+}
+
+/** A media type entry of a request body or response. */
+export interface OpenApiMediaType {
+  /** The schema describing the content. */
+  schema?: JsonSchema;
+}
+
+/** The request body of an operation. */
+export interface OpenApiRequestBody {
+  /** A description of the request body. */
+  description?: string;
+  /** Whether the request body is mandatory. */
+  required?: boolean;
+  /** The request body content, keyed by media type. */
+  content: Record<string, OpenApiMediaType>;
+}
+
+/** A single response of an operation. */
+export interface OpenApiResponse {
+  /** A description of the response. */
+  description: string;
+  /** The response content, keyed by media type. */
+  content?: Record<string, OpenApiMediaType>;
+}
+
+/** A single API operation on a path. */
+export interface OpenApiOperation {
+  /** Unique identifier of the operation. */
+  operationId?: string;
+  /** A short summary of what the operation does. */
+  summary?: string;
+  /** A verbose explanation of the operation behavior. */
+  description?: string;
+  /** Tags used to group the operation. */
+  tags?: string[];
+  /** Whether the operation is deprecated. */
+  deprecated?: boolean;
+  /** The parameters applicable to the operation. */
+  parameters?: OpenApiParameter[];
+  /** The request body applicable to the operation. */
+  requestBody?: OpenApiRequestBody;
+  /** The possible responses, keyed by status code. */
+  responses: Record<string, OpenApiResponse>;
+  /** Security mechanisms that can be used for the operation. */
+  security?: OpenApiSecurityRequirement[];
+}
+
+/** The operations available on a single path, keyed by lower case HTTP method. */
+export type OpenApiPathItem = Partial<
+  Record<
+    "get" | "put" | "post" | "delete" | "options" | "head" | "patch" | "trace",
+    OpenApiOperation
+  >
+>;
+
+/** An OpenAPI 3.1 document. */
+export interface OpenApiDocument {
+  /** The OpenAPI specification version. */
+  openapi: "3.1.0";
+  /** Metadata about the API. */
+  info: OpenApiInfo;
+  /** The servers the API is reachable at. */
+  servers?: OpenApiServer[];
+  /** The available paths and operations. */
+  paths: Record<string, OpenApiPathItem>;
+  /** Reusable components. */
+  components?: {
+    /** Reusable schemas. */
+    schemas?: Record<string, JsonSchema>;
+    /** The security schemes available to operations. */
+    securitySchemes?: Record<string, OpenApiSecurityScheme>;
+  };
+  /** Tag metadata. */
+  tags?: OpenApiTag[];
+}
+
+/**
+ * Everything of an {@link OpenApiDocument} except the generated `paths`, as
+ * produced by {@link SwaggerDocumentBuilder.build}.
+ */
+export type OpenApiDocumentConfig = Omit<OpenApiDocument, "paths">;
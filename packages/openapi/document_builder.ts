@@ -0,0 +1,125 @@
+import type {
+  OpenApiDocumentConfig,
+  OpenApiSecurityScheme,
+} from "./document.ts";
+
+/**
+ * Fluent builder for the static part of an OpenAPI document - the `info`
+ * object, servers, tags and security schemes. The `paths` are generated from
+ * the controller metadata by {@link createOpenApiDocument}.
+ *
+ * @example
+ * ```ts
+ * const config = new SwaggerDocumentBuilder()
+ *   .setTitle("Orders API")
+ *   .setVersion("1.2.0")
+ *   .addServer("https://api.example.com")
+ *   .addBearerAuth()
+ *   .build();
+ * ```
+ */
+export class SwaggerDocumentBuilder {
+  private readonly config: OpenApiDocumentConfig = {
+    openapi: "3.1.0",
+    info: { title: "", version: "1.0.0" },
+  };
+
+  /**
+   * Sets the title of the API.
+   *
+   * @param {string} title - The API title.
+   * @return {this} The builder, for chaining.
+   */
+  public setTitle(title: string): this {
+    this.config.info.title = title;
+
+    return this;
+  }
+
+  /**
+   * Sets the description of the API.
+   *
+   * @param {string} description - The API description, CommonMark is allowed.
+   * @return {this} The builder, for chaining.
+   */
+  public setDescription(description: string): this {
+    this.config.info.description = description;
+
+    return this;
+  }
+
+  /**
+   * Sets the version of the API.
+   *
+   * @param {string} version - The API version.
+   * @return {this} The builder, for chaining.
+   */
+  public setVersion(version: string): this {
+    this.config.info.version = version;
+
+    return this;
+  }
+
+  /**
+   * Adds a server the API is reachable at.
+   *
+   * @param {string} url - The server URL.
+   * @param {string} [description] - Optional server description.
+   * @return {this} The builder, for chaining.
+   */
+  public addServer(url: string, description?: string): this {
+    (this.config.servers ??= []).push({ url, description });
+
+    return this;
+  }
+
+  /**
+   * Adds tag metadata, e.g. to describe a tag used via `@ApiTags()`.
+   *
+   * @param {string} name - The tag name.
+   * @param {string} [description] - Optional tag description.
+   * @return {this} The builder, for chaining.
+   */
+  public addTag(name: string, description?: string): this {
+    (this.config.tags ??= []).push({ name, description });
+
+    return this;
+  }
+
+  /**
+   * Adds a security scheme. Guarded routes require every configured scheme.
+   *
+   * @param {string} name - The name the scheme is registered under.
+   * @param {OpenApiSecurityScheme} scheme - The security scheme.
+   * @return {this} The builder, for chaining.
+   */
+  public addSecurityScheme(name: string, scheme: OpenApiSecurityScheme): this {
+    ((this.config.components ??= {}).securitySchemes ??= {})[name] = scheme;
+
+    return this;
+  }
+
+  /**
+   * Adds an HTTP bearer security scheme.
+   *
+   * @param {string} [name="bearer"] - The name the scheme is registered under.
+   * @param {string} [bearerFormat="JWT"] - Hint how the bearer token is formatted.
+   * @return {this} The builder, for chaining.
+   */
+  public addBearerAuth(name = "bearer", bearerFormat = "JWT"): this {
+    return this.addSecurityScheme(name, {
+      type: "http",
+      scheme: "bearer",
+      bearerFormat,
+    });
+  }
+
+  /**
+   * Returns the configured document skeleton.
+   *
+   * @return {OpenApiDocumentConfig} A copy of the configured document, without `paths`.
+   */
+  public build(): OpenApiDocumentConfig {
+    return structuredClone(this.config);
+  }
+}
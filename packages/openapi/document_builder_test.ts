@@ -0,0 +1,55 @@
+import { assertEquals, assertNotStrictEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { SwaggerDocumentBuilder } from "./document_builder.ts";
+
+describe(SwaggerDocumentBuilder.name, () => {
+  it("defaults to an untitled 1.0.0 document", () => {
+    assertEquals(new SwaggerDocumentBuilder().build(), {
+      openapi: "3.1.0",
+      info: { title: "", version: "1.0.0" },
+    });
+  });
+
+  it("collects info, servers, tags and security schemes", () => {
+    const config = new SwaggerDocumentBuilder()
+      .setTitle("Orders API")
+      .setDescription("Manages orders")
+      .setVersion("2.0.0")
+      .addServer("https://api.example.com", "production")
+      .addTag("orders", "Order endpoints")
+      .addBearerAuth()
+      .addSecurityScheme("apiKey", {
+        type: "apiKey",
+        in: "header",
+        name: "x-api-key",
+      })
+      .build();
+
+    assertEquals(config, {
+      openapi: "3.1.0",
+      info: {
+        title: "Orders API",
+        description: "Manages orders",
+        version: "2.0.0",
+      },
+      servers: [{ url: "https://api.example.com", description: "production" }],
+      tags: [{ name: "orders", description: "Order endpoints" }],
+      components: {
+        securitySchemes: {
+          bearer: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+          apiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+        },
+      },
+    });
+  });
+
+  it("returns a copy on every build", () => {
+    const builder = new SwaggerDocumentBuilder().setTitle("A");
+    const first = builder.build();
+
+    first.info.title = "changed";
+
+    assertNotStrictEquals(builder.build(), first);
+    assertEquals(builder.build().info.title, "A");
+  });
+});
@@ -0,0 +1,288 @@
+import {
+  type CanActivate,
+  type CanActivateFn,
+  GUARDS_METADATA,
+  HttpMethod,
+  type RequestMappingMetadata,
+  STATUS_TEXT,
+  StatusCode,
+} from "@denorid/core";
+import type { Type } from "@denorid/injector";
+import {
+  CONTROLLER_METADATA,
+  CONTROLLER_REQUEST_MAPPING,
+} from "./_constants.ts";
+import { getApiClassMetadata, getApiMethodMetadata } from "./_metadata.ts";
+import type { ApiResponseOptions } from "./decorators.ts";
+import type {
+  JsonSchema,
+  OpenApiDocument,
+  OpenApiDocumentConfig,
+  OpenApiOperation,
+  OpenApiParameter,
+  OpenApiPathItem,
+  OpenApiRequestBody,
+  OpenApiResponse,
+} from "./document.ts";
+import { toJsonSchema } from "./schema.ts";
+
+/** Options accepted by {@link createOpenApiDocument}. */
+export interface CreateOpenApiDocumentOptions {
+  /** Path prefix applied to every route, same as `HttpApplicationOptions.basePath`. */
+  basePath?: string;
+}
+
+/**
+ * Generates an OpenAPI 3.1 document from the metadata of the given HTTP
+ * controllers.
+ *
+ * Paths and methods are taken from the route decorators, request bodies and
+ * parameters from the `Body()`, `Form()`, `Query()`, `Params()` and
+ * `Headers()` schemas. Routes with validation document a `400` response,
+ * guarded routes a `403` response and require every security scheme of
+ * `config`. The `Serialize()` schema documents the success response.
+ * `@ApiTags()`, `@ApiOperation()` and `@ApiResponse()` enrich the generated
+ * operations, `@ApiExclude()` omits them.
+ *
+ * @param {Type[]} controllers - The `@Controller()` decorated classes.
+ * @param {OpenApiDocumentConfig} config - The document skeleton, see {@link SwaggerDocumentBuilder}.
+ * @param {CreateOpenApiDocumentOptions} [options] - Generation options.
+ * @return {OpenApiDocument} The generated document.
+ */
+export function createOpenApiDocument(
+  controllers: Type[],
+  config: OpenApiDocumentConfig,
+  options: CreateOpenApiDocumentOptions = {},
+): OpenApiDocument {
+  const document: OpenApiDocument = { ...structuredClone(config), paths: {} };
+  const securitySchemes = Object.keys(
+    config.components?.securitySchemes ?? {},
+  );
+
+  for (const controller of controllers) {
+    const classApi = getApiClassMetadata(controller);
+
+    if (classApi?.exclude) {
+      continue;
+    }
+
+    const metadata = controller[Symbol.metadata];
+    const controllerPath = (metadata?.[CONTROLLER_METADATA] as
+      | { path?: string | string[] }
+      | undefined)?.path;
+    const routes = (metadata?.[CONTROLLER_REQUEST_MAPPING] ??
+      []) as RequestMappingMetadata[];
+    const controllerGuards = metadata?.[GUARDS_METADATA] as
+      | Set<Type<CanActivate> | CanActivate | CanActivateFn>
+      | undefined;
+
+    for (const route of routes) {
+      const methodApi = getApiMethodMetadata(controller, route.name);
+
+      if (methodApi?.exclude) {
+        continue;
+      }
+
+      const { path, pathParameters } = toOpenApiPath(
+        joinPaths(
+          options.basePath ?? "",
+          ...normalizePaths(controllerPath),
+          ...normalizePaths(route.path),
+        ),
+      );
+      const guarded = (controllerGuards?.size ?? 0) > 0 ||
+        (route.guards?.size ?? 0) > 0;
+      const operation: OpenApiOperation = {
+        operationId: methodApi?.operation?.operationId ??
+          `${controller.name}_${String(route.name)}`,
+        summary: methodApi?.operation?.summary,
+        description: methodApi?.operation?.description,
+        deprecated: methodApi?.operation?.deprecated,
+        tags: [...new Set([...classApi?.tags ?? [], ...methodApi?.tags ?? []])],
+        parameters: createParameters(route, pathParameters),
+        requestBody: createRequestBody(route),
+        responses: createResponses(route, guarded, [
+          ...classApi?.responses ?? [],
+          ...methodApi?.responses ?? [],
+        ]),
+        security: guarded && securitySchemes.length > 0
+          ? [Object.fromEntries(securitySchemes.map((name) => [name, []]))]
+          : undefined,
+      };
+
+      const method = HttpMethod[route.method ?? HttpMethod.GET]
+        .toLowerCase() as keyof OpenApiPathItem;
+
+      (document.paths[path] ??= {})[method] = removeEmpty(operation);
+    }
+  }
+
+  return document;
+}
+
+function normalizePaths(path: string | string[] | undefined): string[] {
+  return path !== undefined ? Array.isArray(path) ? path : [path] : [];
+}
+
+function joinPaths(...parts: string[]): string {
+  return `/${
+    parts.map((p) => p.replace(/^\/+|\/+$/g, "")).filter(Boolean).join("/")
+  }`;
+}
+
+/**
+ * Converts a route path using `:name`, `:name?` and `:name{pattern}` segments
+ * to the OpenAPI `{name}` template syntax.
+ */
+function toOpenApiPath(
+  path: string,
+): { path: string; pathParameters: string[] } {
+  const pathParameters: string[] = [];
+  const segments = path.split("/").map((segment) => {
+    const match = /^:([^{?]+)(?:\{.*\})?\??$/.exec(segment);
+
+    if (!match) {
+      return segment;
+    }
+
+    pathParameters.push(match[1]);
+
+    return `{${match[1]}}`;
+  });
+
+  return { path: segments.join("/"), pathParameters };
+}
+
+function getParameterSchema(
+  route: RequestMappingMetadata,
+  type: "query" | "param" | "header",
+): JsonSchema | undefined {
+  const validation = route.parameterValidation?.find((v) => v.type === type);
+
+  return validation ? toJsonSchema(validation.dto, "input") : undefined;
+}
+
+function createParameters(
+  route: RequestMappingMetadata,
+  pathParameters: string[],
+): OpenApiParameter[] {
+  const parameters: OpenApiParameter[] = [];
+  const paramSchema = getParameterSchema(route, "param");
+  const paramProperties = paramSchema?.properties as
+    | Record<string, JsonSchema>
+    | undefined;
+
+  for (const name of pathParameters) {
+    parameters.push({
+      name,
+      in: "path",
+      required: true,
+      schema: paramProperties?.[name] ?? { type: "string" },
+    });
+  }
+
+  for (
+    const [type, location] of [
+      ["query", "query"],
+      ["header", "header"],
+    ] as const
+  ) {
+    const schema = getParameterSchema(route, type);
+    const required = (schema?.required ?? []) as string[];
+
+    for (
+      const [name, property] of Object.entries(
+        (schema?.properties ?? {}) as Record<string, JsonSchema>,
+      )
+    ) {
+      parameters.push({
+        name,
+        in: location,
+        required: required.includes(name),
+        schema: property,
+      });
+    }
+  }
+
+  return parameters;
+}
+
+function createRequestBody(
+  route: RequestMappingMetadata,
+): OpenApiRequestBody | undefined {
+  if (!route.validation) {
+    return undefined;
+  }
+
+  const schema = toJsonSchema(route.validation.dto, "input");
+  const mediaTypes = route.validation.type === "json"
+    ? ["application/json"]
+    : ["multipart/form-data", "application/x-www-form-urlencoded"];
+
+  return {
+    required: true,
+    content: Object.fromEntries(mediaTypes.map((type) => [type, { schema }])),
+  };
+}
+
+function createResponses(
+  route: RequestMappingMetadata,
+  guarded: boolean,
+  declared: ApiResponseOptions[],
+): Record<string, OpenApiResponse> {
+  const responses: Record<string, OpenApiResponse> = {};
+
+  // Later declarations (method level) win over earlier ones (class level).
+  for (const response of declared) {
+    const schema = toJsonSchema(response.schema);
+
+    responses[response.status] = {
+      description: response.description ?? describeStatus(response.status),
+    };
+
+    if (schema) {
+      responses[response.status].content = {
+        [response.contentType ?? "application/json"]: { schema },
+      };
+    }
+  }
+
+  const success = route.statusCode ?? StatusCode.Ok;
+  const serialized = toJsonSchema(route.serialization?.schema);
+
+  // The `Serialize()` schema documents the response unless one is declared.
+  if (serialized && !responses[success]?.content) {
+    responses[success] = {
+      description: responses[success]?.description ?? describeStatus(success),
+      content: { "application/json": { schema: serialized } },
+    };
+  }
+
+  const defaults: number[] = [success];
+
+  if (route.validation || route.parameterValidation?.length) {
+    defaults.push(StatusCode.BadRequest);
+  }
+  if (guarded) {
+    defaults.push(StatusCode.Forbidden);
+  }
+
+  for (const status of defaults) {
+    responses[status] ??= { description: describeStatus(status) };
+  }
+
+  return responses;
+}
+
+function describeStatus(status: number): string {
+  return STATUS_TEXT[status as keyof typeof STATUS_TEXT] ?? String(status);
+}
+
+/** Drops `undefined` values and empty arrays to keep the emitted JSON compact. */
+function removeEmpty<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) =>
+      v !== undefined && !(Array.isArray(v) && v.length === 0)
+    ),
+  ) as T;
+}
@@ -0,0 +1,301 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Form,
+  Get,
+  Headers,
+  HttpCode,
+  Params,
+  Post,
+  Query,
+  Serialize,
+  StatusCode,
+  UseGuards,
+} from "@denorid/core";
+import { assertEquals, assertExists } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { z } from "zod";
+import {
+  ApiExclude,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from "./decorators.ts";
+import { SwaggerDocumentBuilder } from "./document_builder.ts";
+import { createOpenApiDocument } from "./document_factory.ts";
+
+const config = new SwaggerDocumentBuilder().setTitle("Test").build();
+
+describe(createOpenApiDocument.name, () => {
+  it("copies the configured skeleton and starts with empty paths", () => {
+    const document = createOpenApiDocument([], config);
+
+    assertEquals(document.openapi, "3.1.0");
+    assertEquals(document.info.title, "Test");
+    assertEquals(document.paths, {});
+  });
+
+  it("joins base, controller and route paths and converts path parameters", () => {
+    @Controller("/orders")
+    class OrdersController {
+      @Get("/:id{[0-9]+}/items/:item?")
+      public show(): void {}
+
+      @Delete("/:id")
+      @HttpCode(StatusCode.NoContent)
+      public remove(): void {}
+    }
+
+    const document = createOpenApiDocument([OrdersController], config, {
+      basePath: "/api",
+    });
+
+    const show = document.paths["/api/orders/{id}/items/{item}"]?.get;
+    assertExists(show);
+    assertEquals(show.operationId, "OrdersController_show");
+    assertEquals(
+      show.parameters?.map(({ name, in: location, required }) => ({
+        name,
+        location,
+        required,
+      })),
+      [
+        { name: "id", location: "path", required: true },
+        { name: "item", location: "path", required: true },
+      ],
+    );
+    assertEquals(show.responses, { 200: { description: "OK" } });
+
+    const remove = document.paths["/api/orders/{id}"]?.delete;
+    assertExists(remove);
+    assertEquals(remove.responses, { 204: { description: "No Content" } });
+  });
+
+  it("documents request bodies and a 400 response for validated routes", () => {
+    const dto = z.object({ item: z.string() });
+
+    @Controller("/orders")
+    class OrdersController {
+      @Post()
+      @Body(dto)
+      public create(): void {}
+
+      @Post("/upload")
+      @Form(dto)
+      public upload(): void {}
+    }
+
+    const { paths } = createOpenApiDocument([OrdersController], config);
+
+    const create = paths["/orders"]?.post;
+    assertEquals(create?.requestBody?.required, true);
+    assertEquals(
+      Object.keys(create?.requestBody?.content ?? {}),
+      ["application/json"],
+    );
+    assertEquals(
+      create?.requestBody?.content["application/json"].schema?.type,
+      "object",
+    );
+    assertEquals(create?.responses[400], { description: "Bad Request" });
+
+    assertEquals(
+      Object.keys(paths["/orders/upload"]?.post?.requestBody?.content ?? {}),
+      ["multipart/form-data", "application/x-www-form-urlencoded"],
+    );
+  });
+
+  it("derives query, header and path parameters from their schemas", () => {
+    @Controller("/orders")
+    class OrdersController {
+      @Get("/:id")
+      @Params(z.object({ id: z.coerce.number() }))
+      @Query(z.object({ page: z.coerce.number(), sort: z.string().optional() }))
+      @Headers(z.object({ "x-tenant": z.string() }))
+      public show(): void {}
+    }
+
+    const { paths } = createOpenApiDocument([OrdersController], config);
+
+    assertEquals(
+      paths["/orders/{id}"]?.get?.parameters?.map((
+        { name, in: location, required, schema },
+      ) => [name, location, required, schema?.type]),
+      [
+        ["id", "path", true, "number"],
+        ["page", "query", true, "number"],
+        ["sort", "query", false, "string"],
+        ["x-tenant", "header", true, "string"],
+      ],
+    );
+  });
+
+  it("documents guarded routes with a 403 response and the security schemes", () => {
+    const guard = () => true;
+
+    @UseGuards(guard)
+    @Controller("/admin")
+    class AdminController {
+      @Get()
+      public index(): void {}
+    }
+
+    @Controller("/public")
+    class PublicController {
+      @Get()
+      public index(): void {}
+
+      @Get("/me")
+      @UseGuards(guard)
+      public me(): void {}
+    }
+
+    const { paths } = createOpenApiDocument(
+      [AdminController, PublicController],
+      new SwaggerDocumentBuilder().addBearerAuth().addBearerAuth("other")
+        .build(),
+    );
+
+    assertEquals(paths["/admin"]?.get?.security, [{ bearer: [], other: [] }]);
+    assertEquals(paths["/admin"]?.get?.responses[403], {
+      description: "Forbidden",
+    });
+    assertEquals(paths["/public"]?.get?.security, undefined);
+    assertEquals(paths["/public"]?.get?.responses[403], undefined);
+    assertEquals(paths["/public/me"]?.get?.security, [{
+      bearer: [],
+      other: [],
+    }]);
+  });
+
+  it("omits the security requirement when no scheme is configured", () => {
+    @UseGuards(() => true)
+    @Controller("/admin")
+    class AdminController {
+      @Get()
+      public index(): void {}
+    }
+
+    const { paths } = createOpenApiDocument([AdminController], config);
+
+    assertEquals(paths["/admin"]?.get?.security, undefined);
+    assertExists(paths["/admin"]?.get?.responses[403]);
+  });
+
+  it("applies tags, operation details and declared responses", () => {
+    @ApiTags("orders")
+    @ApiResponse({ status: 500, description: "Unexpected" })
+    @ApiResponse({ status: 404 })
+    @Controller("/orders")
+    class OrdersController {
+      @Get("/:id")
+      @ApiTags("read", "orders")
+      @ApiOperation({
+        operationId: "getOrder",
+        summary: "Shows an order",
+        deprecated: true,
+      })
+      @ApiResponse({ status: 200, schema: z.object({ id: z.number() }) })
+      @ApiResponse({ status: 404, description: "Order not found" })
+      public show(): void {}
+    }
+
+    const operation = createOpenApiDocument([OrdersController], config)
+      .paths["/orders/{id}"]?.get;
+
+    assertExists(operation);
+    assertEquals(operation.operationId, "getOrder");
+    assertEquals(operation.summary, "Shows an order");
+    assertEquals(operation.deprecated, true);
+    assertEquals(operation.tags, ["orders", "read"]);
+    assertEquals(operation.responses[404], { description: "Order not found" });
+    assertEquals(operation.responses[500], { description: "Unexpected" });
+    assertEquals(
+      operation.responses[200].content?.["application/json"].schema?.type,
+      "object",
+    );
+  });
+
+  it("documents the success response with the Serialize() schema", () => {
+    @Controller("/users")
+    class UsersController {
+      @Post()
+      @HttpCode(StatusCode.Created)
+      @Serialize(z.object({ id: z.number() }))
+      public create(): void {}
+
+      @Get()
+      @Serialize(z.array(z.object({ id: z.number() })))
+      @ApiResponse({
+        status: 200,
+        description: "Users",
+        schema: { type: "array" },
+      })
+      public index(): void {}
+    }
+
+    const { paths } = createOpenApiDocument([UsersController], config);
+
+    assertEquals(paths["/users"]?.post?.responses[201], {
+      description: "Created",
+      content: {
+        "application/json": {
+          schema: {
+            type: "object",
+            properties: { id: { type: "number" } },
+            required: ["id"],
+            additionalProperties: false,
+          },
+        },
+      },
+    });
+    assertEquals(paths["/users"]?.get?.responses[200], {
+      description: "Users",
+      content: { "application/json": { schema: { type: "array" } } },
+    });
+  });
+
+  it("skips excluded controllers and routes", () => {
+    @ApiExclude()
+    @Controller("/hidden")
+    class HiddenController {
+      @Get()
+      public index(): void {}
+    }
+
+    @Controller("/visible")
+    class VisibleController {
+      @Get()
+      public index(): void {}
+
+      @Get("/internal")
+      @ApiExclude()
+      public internal(): void {}
+    }
+
+    const { paths } = createOpenApiDocument(
+      [HiddenController, VisibleController],
+      config,
+    );
+
+    assertEquals(Object.keys(paths), ["/visible"]);
+  });
+
+  it("omits empty fields from operations", () => {
+    @Controller()
+    class RootController {
+      @Get()
+      public index(): void {}
+    }
+
+    assertEquals(createOpenApiDocument([RootController], config).paths, {
+      "/": {
+        get: {
+          operationId: "RootController_index",
+          responses: { 200: { description: "OK" } },
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * @module
+ *
+ * OpenAPI 3.1 document generation for Denorid HTTP controllers.
+ *
+ * The document is generated from the metadata the controllers already carry:
+ * `@Controller()` paths, route decorators, status codes, the zod schemas of
+ * `Body()`, `Form()`, `Query()`, `Params()` and `Headers()`, and guards.
+ * `@ApiTags()`, `@ApiOperation()` and `@ApiResponse()` enrich the output.
+ *
+ * ### Quick start
+ *
+ * ```ts
+ * import { OpenApiModule, SwaggerDocumentBuilder } from "@denorid/openapi";
+ *
+ * \@Module({
+ *   imports: [
+ *     OpenApiModule.forRoot({
+ *       document: new SwaggerDocumentBuilder()
+ *         .setTitle("Orders API")
+ *         .setVersion("1.0.0")
+ *         .addBearerAuth()
+ *         .build(),
+ *     }),
+ *   ],
+ *   providers: [OrdersController],
+ * })
+ * export class AppModule {}
+ * ```
+ *
+ * The document is served at `/openapi.json`, a docs UI at `/docs`, and the
+ * `openapi:generate` console command writes the document to disk.
+ */
+export * from "./commands/openapi_generate.ts";
+export * from "./decorators.ts";
+export * from "./document.ts";
+export * from "./document_builder.ts";
+export * from "./document_factory.ts";
+export * from "./module.ts";
+export * from "./module_options.ts";
+export * from "./openapi_service.ts";
+export * from "./schema.ts";
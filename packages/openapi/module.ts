@@ -0,0 +1,116 @@
+import {
+  type DynamicModule,
+  type FactoryProvider,
+  Module,
+  type Type,
+  type ValueProvider,
+} from "@denorid/injector";
+import {
+  DEFAULT_OPENAPI_DOCS_PATH,
+  DEFAULT_OPENAPI_PATH,
+  OPENAPI_MODULE_OPTIONS,
+} from "./_constants.ts";
+import { createOpenApiController } from "./_controller.ts";
+import { OpenApiGenerateCommand } from "./commands/openapi_generate.ts";
+import type {
+  OpenApiAsyncModuleOptions,
+  OpenApiModuleOptions,
+} from "./module_options.ts";
+import { OpenApiService } from "./openapi_service.ts";
+
+/**
+ * Denorid module that generates an OpenAPI 3.1 document from the registered
+ * HTTP controllers.
+ *
+ * Provides the {@link OpenApiService}, mounts the document at `/openapi.json`
+ * plus a docs UI at `/docs` (both configurable, see
+ * {@link OpenApiRouteOptions}) and registers the `openapi:generate` console
+ * command.
+ *
+ * @example Synchronous registration
+ * ```ts
+ * \@Module({
+ *   imports: [
+ *     OpenApiModule.forRoot({
+ *       document: new SwaggerDocumentBuilder()
+ *         .setTitle("Orders API")
+ *         .setVersion("1.0.0")
+ *         .build(),
+ *     }),
+ *   ],
+ * })
+ * class AppModule {}
+ * ```
+ *
+ * @example Async registration backed by a config service
+ * ```ts
+ * OpenApiModule.forRootAsync({
+ *   imports: [ConfigModule],
+ *   inject: [ConfigService],
+ *   useFactory: (config: ConfigService) => ({
+ *     document: new SwaggerDocumentBuilder()
+ *       .addServer(config.get("PUBLIC_URL"))
+ *       .build(),
+ *   }),
+ * });
+ * ```
+ */
+@Module({
+  providers: [OpenApiService, OpenApiGenerateCommand],
+  exports: [OpenApiService],
+})
+export class OpenApiModule {
+  /**
+   * Registers `OpenApiModule` with static options.
+   *
+   * @param {OpenApiModuleOptions} [options] - Module configuration.
+   * @return {DynamicModule} The configured dynamic module.
+   */
+  public static forRoot(options: OpenApiModuleOptions = {}): DynamicModule {
+    return this.createDynamicModule(options, { useValue: options });
+  }
+
+  /**
+   * Registers `OpenApiModule` with options resolved via an async factory.
+   *
+   * @param {OpenApiAsyncModuleOptions} options - Async module configuration.
+   * @return {DynamicModule} The configured dynamic module.
+   */
+  public static forRootAsync(
+    options: OpenApiAsyncModuleOptions,
+  ): DynamicModule {
+    return this.createDynamicModule(options, {
+      useFactory: options.useFactory,
+      inject: options.inject,
+    });
+  }
+
+  private static createDynamicModule(
+    options: OpenApiModuleOptions | OpenApiAsyncModuleOptions,
+    optionsProviderData:
+      | Omit<ValueProvider, "provide">
+      | Omit<FactoryProvider, "provide">,
+  ): DynamicModule {
+    const path = options.path ?? DEFAULT_OPENAPI_PATH;
+    const controllers: Type[] = path === false ? [] : [
+      createOpenApiController(
+        path,
+        options.docsPath ?? DEFAULT_OPENAPI_DOCS_PATH,
+      ),
+    ];
+
+    return {
+      module: OpenApiModule,
+      global: options.global,
+      imports: (options as OpenApiAsyncModuleOptions).imports ?? [],
+      providers: [
+        {
+          provide: OPENAPI_MODULE_OPTIONS,
+          ...optionsProviderData,
+        } as ValueProvider | FactoryProvider,
+        ...controllers,
+        ...((options as OpenApiAsyncModuleOptions).extraProviders ?? []),
+      ],
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import type {
+  GenericFunction,
+  InjectionToken,
+  ModuleMetadata,
+  Provider,
+} from "@denorid/injector";
+import type { OpenApiDocumentConfig } from "./document.ts";
+
+/** Options controlling the routes mounted by {@link OpenApiModule}. */
+export interface OpenApiRouteOptions {
+  /**
+   * Route serving the generated document as JSON, or `false` to mount neither
+   * the document nor the docs UI.
+   *
+   * @default "/openapi.json"
+   */
+  path?: string | false;
+  /**
+   * Route serving an HTML docs UI for the document, or `false` to skip it.
+   *
+   * @default "/docs"
+   */
+  docsPath?: string | false;
+}
+
+/**
+ * Static configuration for {@link OpenApiModule.forRoot}.
+ */
+export interface OpenApiModuleOptions extends OpenApiRouteOptions {
+  /** Register the {@link OpenApiService} provider globally. */
+  global?: boolean;
+  /**
+   * The document skeleton (info, servers, tags, security schemes), usually
+   * built with {@link SwaggerDocumentBuilder}.
+   */
+  document?: OpenApiDocumentConfig;
+  /**
+   * Path prefix applied to every documented route. Must match the
+   * `basePath` the HTTP application was created with.
+   */
+  basePath?: string;
+}
+
+/**
+ * Async configuration for {@link OpenApiModule.forRootAsync}.
+ *
+ * The mounted routes are part of the static module metadata and therefore
+ * configured outside of {@link useFactory}.
+ */
+export interface OpenApiAsyncModuleOptions
+  extends Pick<ModuleMetadata, "imports">, OpenApiRouteOptions {
+  /** Register the {@link OpenApiService} provider globally. */
+  global?: boolean;
+  /** Factory resolving the module options from injected dependencies. */
+  useFactory: GenericFunction<
+    | Omit<OpenApiModuleOptions, "global" | keyof OpenApiRouteOptions>
+    | Promise<Omit<OpenApiModuleOptions, "global" | keyof OpenApiRouteOptions>>
+  >;
+  /** Tokens injected as arguments into {@link useFactory}. */
+  inject?: InjectionToken[];
+  /** Additional providers registered alongside the OpenAPI providers. */
+  extraProviders?: Provider[];
+}
@@ -0,0 +1,163 @@
+import { Controller, Get } from "@denorid/core";
+import { Test } from "@denorid/core/testing";
+import {
+  type BaseProvider,
+  Module,
+  type Type,
+  type ValueProvider,
+} from "@denorid/injector";
+import { HonoAdapter } from "@denorid/platform-hono";
+import {
+  assertEquals,
+  assertStrictEquals,
+  assertStringIncludes,
+} from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import {
+  CONTROLLER_REQUEST_MAPPING,
+  OPENAPI_MODULE_OPTIONS,
+} from "./_constants.ts";
+import { getApiClassMetadata } from "./_metadata.ts";
+import { SwaggerDocumentBuilder } from "./document_builder.ts";
+import { OpenApiModule } from "./module.ts";
+
+function findController(providers: unknown[]): Type | undefined {
+  return providers.find((provider) =>
+    typeof provider === "function" &&
+    (provider as Type)[Symbol.metadata]?.[CONTROLLER_REQUEST_MAPPING]
+  ) as Type | undefined;
+}
+
+function routePaths(controller: Type): unknown[] {
+  return (controller[Symbol.metadata]?.[CONTROLLER_REQUEST_MAPPING] as {
+    name: string;
+    path?: string;
+  }[]).map(({ name, path }) => [name, path]);
+}
+
+describe(OpenApiModule.name, () => {
+  describe("forRoot", () => {
+    it("registers the options as a value provider", () => {
+      const options = { global: true, basePath: "/api" };
+      const mod = OpenApiModule.forRoot(options);
+
+      assertEquals(mod.module, OpenApiModule);
+      assertEquals(mod.global, true);
+      assertEquals(mod.imports, []);
+
+      const provider = mod.providers!.find(
+        (p) => (p as BaseProvider).provide === OPENAPI_MODULE_OPTIONS,
+      ) as ValueProvider;
+
+      assertStrictEquals(provider.useValue, options);
+    });
+
+    it("mounts the document and the docs UI on the default routes", () => {
+      const controller = findController(OpenApiModule.forRoot().providers!);
+
+      assertEquals(routePaths(controller!), [
+        ["document", "/openapi.json"],
+        ["docs", "/docs"],
+      ]);
+      assertEquals(getApiClassMetadata(controller!)?.exclude, true);
+    });
+
+    it("honours custom routes and skips the docs UI when disabled", () => {
+      const controller = findController(
+        OpenApiModule.forRoot({ path: "/spec.json", docsPath: false })
+          .providers!,
+      );
+
+      assertEquals(routePaths(controller!), [["document", "/spec.json"]]);
+    });
+
+    it("mounts no controller when the document route is disabled", () => {
+      assertEquals(
+        findController(OpenApiModule.forRoot({ path: false }).providers!),
+        undefined,
+      );
+    });
+  });
+
+  describe("forRootAsync", () => {
+    it("registers a factory provider with imports and extra providers", () => {
+      class ConfigModule {}
+      class Extra {}
+      const useFactory = () => ({});
+      const mod = OpenApiModule.forRootAsync({
+        imports: [ConfigModule],
+        inject: ["CONFIG"],
+        useFactory,
+        extraProviders: [Extra],
+        docsPath: "/reference",
+      });
+
+      assertEquals(mod.imports, [ConfigModule]);
+
+      const provider = mod.providers!.find(
+        (p) => (p as BaseProvider).provide === OPENAPI_MODULE_OPTIONS,
+      ) as { useFactory: unknown; inject: unknown[] };
+
+      assertStrictEquals(provider.useFactory, useFactory);
+      assertEquals(provider.inject, ["CONFIG"]);
+      assertEquals(mod.providers!.includes(Extra), true);
+      assertEquals(routePaths(findController(mod.providers!)!), [
+        ["document", "/openapi.json"],
+        ["docs", "/reference"],
+      ]);
+    });
+  });
+
+  describe("serving", () => {
+    @Controller("/orders")
+    class OrdersController {
+      @Get()
+      public index(): unknown[] {
+        return [];
+      }
+    }
+
+    @Module({ providers: [OrdersController] })
+    class OrdersModule {}
+
+    @Module({
+      imports: [
+        OrdersModule,
+        OpenApiModule.forRoot({
+          document: new SwaggerDocumentBuilder().setTitle("Orders").build(),
+          basePath: "/api",
+        }),
+      ],
+    })
+    class AppModule {}
+
+    it("serves the document of the controllers of imported modules", async () => {
+      const module = await Test.createTestingModule({ imports: [AppModule] })
+        .useCoreGlobals()
+        .compile();
+      await using app = await module.createHttpApplication(new HonoAdapter(), {
+        basePath: "/api",
+      });
+
+      const res = await app.request().get("/api/openapi.json").expect(200);
+      const document = await res.json();
+
+      assertEquals(document.info.title, "Orders");
+      assertEquals(Object.keys(document.paths), ["/api/orders"]);
+    });
+
+    it("serves the docs UI pointing at the document", async () => {
+      const module = await Test.createTestingModule({ imports: [AppModule] })
+        .useCoreGlobals()
+        .compile();
+      await using app = await module.createHttpApplication(new HonoAdapter(), {
+        basePath: "/api",
+      });
+
+      const res = await app.request().get("/api/docs").expect(200)
+        .expectHeader("content-type", "text/html; charset=utf-8");
+
+      assertStringIncludes(await res.text(), 'data-url="/api/openapi.json"');
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  Inject,
+  Injectable,
+  InjectorContext,
+  type Type,
+} from "@denorid/injector";
+import {
+  HTTP_CONTROLLER_METADATA,
+  OPENAPI_MODULE_OPTIONS,
+} from "./_constants.ts";
+import type { OpenApiDocument } from "./document.ts";
+import { SwaggerDocumentBuilder } from "./document_builder.ts";
+import { createOpenApiDocument } from "./document_factory.ts";
+import type { OpenApiModuleOptions } from "./module_options.ts";
+
+/**
+ * Provides the OpenAPI document of the application, generated from every
+ * registered HTTP controller on first access.
+ */
+@Injectable()
+export class OpenApiService {
+  @Inject(OPENAPI_MODULE_OPTIONS)
+  private readonly options!: OpenApiModuleOptions;
+
+  @Inject(InjectorContext)
+  private readonly ctx!: InjectorContext;
+
+  private document?: OpenApiDocument;
+
+  /**
+   * Returns the generated OpenAPI document.
+   *
+   * @return {OpenApiDocument} The document, generated once and cached afterwards.
+   */
+  public getDocument(): OpenApiDocument {
+    return this.document ??= createOpenApiDocument(
+      // Same lookup as the controller mapping, controllers of imported
+      // modules are rarely exported.
+      this.ctx.container.getTokensByTag(
+        HTTP_CONTROLLER_METADATA,
+        true,
+      ) as Type[],
+      this.options.document ?? new SwaggerDocumentBuilder().build(),
+      { basePath: this.options.basePath },
+    );
+  }
+}
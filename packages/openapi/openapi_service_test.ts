@@ -0,0 +1,60 @@
+import { Controller, Get } from "@denorid/core";
+import type { InjectorContext } from "@denorid/injector";
+import { assertEquals, assertStrictEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCalls, spy } from "@std/testing/mock";
+import { HTTP_CONTROLLER_METADATA } from "./_constants.ts";
+import { SwaggerDocumentBuilder } from "./document_builder.ts";
+import type { OpenApiModuleOptions } from "./module_options.ts";
+import { OpenApiService } from "./openapi_service.ts";
+
+@Controller("/orders")
+class OrdersController {
+  @Get()
+  public index(): void {}
+}
+
+function makeService(options: OpenApiModuleOptions) {
+  const getTokensByTag = spy((_tag: unknown, _bypass: unknown) => [
+    OrdersController,
+  ]);
+  const service = new OpenApiService();
+
+  Object.assign(service, {
+    options,
+    ctx: { container: { getTokensByTag } } as unknown as InjectorContext,
+  });
+
+  return { service, getTokensByTag };
+}
+
+describe(OpenApiService.name, () => {
+  it("generates the document from every registered HTTP controller", () => {
+    const { service, getTokensByTag } = makeService({
+      document: new SwaggerDocumentBuilder().setTitle("Orders").build(),
+      basePath: "/api",
+    });
+
+    const document = service.getDocument();
+
+    assertEquals(document.info.title, "Orders");
+    assertEquals(Object.keys(document.paths), ["/api/orders"]);
+    assertEquals(getTokensByTag.calls[0].args, [
+      HTTP_CONTROLLER_METADATA,
+      true,
+    ]);
+  });
+
+  it("falls back to a default document skeleton", () => {
+    const { service } = makeService({});
+
+    assertEquals(service.getDocument().info, { title: "", version: "1.0.0" });
+  });
+
+  it("generates the document once", () => {
+    const { service, getTokensByTag } = makeService({});
+
+    assertStrictEquals(service.getDocument(), service.getDocument());
+    assertSpyCalls(getTokensByTag, 1);
+  });
+});
@@ -0,0 +1,36 @@
+import { toJSONSchema, ZodType } from "zod";
+import type { JsonSchema } from "./document.ts";
+
+/**
+ * Converts a zod schema into a JSON Schema (draft 2020-12) as used by
+ * OpenAPI 3.1. Any other object is assumed to be a JSON Schema already and is
+ * returned as is.
+ *
+ * Types without a JSON Schema representation (e.g. `z.date()`) are emitted as
+ * an unconstrained schema instead of throwing.
+ *
+ * @param {unknown} schema - A zod schema or a plain JSON Schema.
+ * @param {"input" | "output"} [io="output"] - Whether to describe the schema's
+ *   input (request) or output (response) shape.
+ * @return {JsonSchema | undefined} The JSON Schema, or `undefined` when `schema` is not an object.
+ */
+export function toJsonSchema(
+  schema: unknown,
+  io: "input" | "output" = "output",
+): JsonSchema | undefined {
+  if (schema instanceof ZodType) {
+    const { $schema: _, ...jsonSchema } = toJSONSchema(schema, {
+      target: "draft-2020-12",
+      unrepresentable: "any",
+      io,
+    }) as JsonSchema;
+
+    return jsonSchema;
+  }
+
+  if (typeof schema === "object" && schema !== null) {
+    return schema as JsonSchema;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,37 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { z } from "zod";
+import { toJsonSchema } from "./schema.ts";
+
+describe(toJsonSchema.name, () => {
+  it("converts zod schemas without the $schema keyword", () => {
+    const schema = toJsonSchema(z.object({ name: z.string() }));
+
+    assertEquals(schema?.type, "object");
+    assertEquals(schema?.properties, { name: { type: "string" } });
+    assertEquals(schema?.required, ["name"]);
+    assertEquals("$schema" in schema!, false);
+  });
+
+  it("describes the input shape of defaults when asked to", () => {
+    const dto = z.object({ page: z.number().default(1) });
+
+    assertEquals(toJsonSchema(dto, "input")?.required ?? [], []);
+    assertEquals(toJsonSchema(dto, "output")?.required, ["page"]);
+  });
+
+  it("does not throw on unrepresentable types", () => {
+    assertEquals(typeof toJsonSchema(z.date()), "object");
+  });
+
+  it("passes plain JSON schemas through", () => {
+    const schema = { type: "string", format: "uuid" };
+
+    assertEquals(toJsonSchema(schema), schema);
+  });
+
+  it("returns undefined for non-objects", () => {
+    assertEquals(toJsonSchema(undefined), undefined);
+    assertEquals(toJsonSchema("string"), undefined);
+  });
+});
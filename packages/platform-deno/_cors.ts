@@ -0,0 +1,111 @@
+import { type CorsOptions, HttpMethod } from "@denorid/core";
+
+const DEFAULT_ALLOW_METHODS = ["GET", "HEAD", "PUT", "POST", "DELETE", "PATCH"];
+
+/**
+ * Answers CORS preflight requests and adds the CORS headers to responses,
+ * following the defaults of the Hono `cors()` middleware.
+ *
+ * @internal
+ */
+export class Cors {
+  private readonly options: Partial<CorsOptions>;
+
+  /**
+   * @param {true | CorsOptions} options - `true` for the defaults.
+   */
+  public constructor(options: true | CorsOptions) {
+    this.options = options === true ? {} : options;
+  }
+
+  /**
+   * Creates the response of a preflight (`OPTIONS`) request.
+   *
+   * @param {Request} request - The preflight request.
+   * @return {Response} A `204 No Content` response with the CORS headers.
+   */
+  public preflight(request: Request): Response {
+    const headers = this.createHeaders(request);
+    const { maxAge, allowMethods, allowHeaders } = this.options;
+
+    if (maxAge !== undefined) {
+      headers.set("Access-Control-Max-Age", String(maxAge));
+    }
+
+    headers.set(
+      "Access-Control-Allow-Methods",
+      (allowMethods?.map((method) =>
+        typeof method === "string" ? method : HttpMethod[method]
+      ) ?? DEFAULT_ALLOW_METHODS).join(","),
+    );
+
+    const requestHeaders = allowHeaders?.length
+      ? allowHeaders.join(",")
+      : request.headers.get("Access-Control-Request-Headers");
+
+    if (requestHeaders) {
+      headers.set("Access-Control-Allow-Headers", requestHeaders);
+
+      if (!allowHeaders?.length) {
+        headers.append("Vary", "Access-Control-Request-Headers");
+      }
+    }
+
+    return new Response(null, { status: 204, headers });
+  }
+
+  /**
+   * Adds the CORS headers to the response of an actual request.
+   *
+   * @param {Request} request - The request.
+   * @param {Response} response - The route's response.
+   * @return {Response} A response carrying the CORS headers.
+   */
+  public apply(request: Request, response: Response): Response {
+    const headers = new Headers(response.headers);
+
+    for (const [name, value] of this.createHeaders(request)) {
+      headers.set(name, value);
+    }
+
+    if (this.options.exposeHeaders?.length) {
+      headers.set(
+        "Access-Control-Expose-Headers",
+        this.options.exposeHeaders.join(","),
+      );
+    }
+
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  private createHeaders(request: Request): Headers {
+    const headers = new Headers();
+    const origin = this.resolveOrigin(request.headers.get("Origin"));
+
+    if (origin) {
+      headers.set("Access-Control-Allow-Origin", origin);
+    }
+    if (origin !== "*") {
+      headers.set("Vary", "Origin");
+    }
+    if (this.options.credentials) {
+      headers.set("Access-Control-Allow-Credentials", "true");
+    }
+
+    return headers;
+  }
+
+  private resolveOrigin(origin: string | null): string | undefined {
+    const allowed = this.options.origin ?? "*";
+
+    if (typeof allowed === "string") {
+      return allowed;
+    }
+
+    return origin !== null && allowed.includes(origin) ? origin : undefined;
+  }
+}
@@ -0,0 +1,82 @@
+import { HttpMethod } from "@denorid/core";
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { Cors } from "./_cors.ts";
+
+describe(Cors.name, () => {
+  const request = (headers: Record<string, string> = {}) =>
+    new Request("http://localhost/", { headers });
+
+  describe("preflight()", () => {
+    it("answers with the default methods and reflects the requested headers", () => {
+      const res = new Cors(true).preflight(
+        request({ "Access-Control-Request-Headers": "x-token" }),
+      );
+
+      assertEquals(res.status, 204);
+      assertEquals(res.headers.get("Access-Control-Allow-Origin"), "*");
+      assertEquals(
+        res.headers.get("Access-Control-Allow-Methods"),
+        "GET,HEAD,PUT,POST,DELETE,PATCH",
+      );
+      assertEquals(res.headers.get("Access-Control-Allow-Headers"), "x-token");
+      assertEquals(
+        res.headers.get("Vary"),
+        "Access-Control-Request-Headers",
+      );
+    });
+
+    it("applies the configured options", () => {
+      const res = new Cors({
+        origin: ["https://a.example", "https://b.example"],
+        allowMethods: [HttpMethod.GET, "POST"],
+        allowHeaders: ["content-type"],
+        maxAge: 600,
+        credentials: true,
+      }).preflight(request({ Origin: "https://b.example" }));
+
+      assertEquals(
+        res.headers.get("Access-Control-Allow-Origin"),
+        "https://b.example",
+      );
+      assertEquals(res.headers.get("Access-Control-Allow-Methods"), "GET,POST");
+      assertEquals(
+        res.headers.get("Access-Control-Allow-Headers"),
+        "content-type",
+      );
+      assertEquals(res.headers.get("Access-Control-Max-Age"), "600");
+      assertEquals(res.headers.get("Access-Control-Allow-Credentials"), "true");
+      assertEquals(res.headers.get("Vary"), "Origin");
+    });
+  });
+
+  describe("apply()", () => {
+    it("adds the CORS headers and keeps the response", async () => {
+      const res = new Cors({
+        origin: "https://a.example",
+        exposeHeaders: ["x-total"],
+      }).apply(
+        request(),
+        new Response("ok", { status: 201, headers: { "x-total": "3" } }),
+      );
+
+      assertEquals(res.status, 201);
+      assertEquals(await res.text(), "ok");
+      assertEquals(res.headers.get("x-total"), "3");
+      assertEquals(
+        res.headers.get("Access-Control-Allow-Origin"),
+        "https://a.example",
+      );
+      assertEquals(res.headers.get("Access-Control-Expose-Headers"), "x-total");
+    });
+
+    it("omits the origin header for origins that are not allowed", () => {
+      const res = new Cors({ origin: ["https://a.example"] }).apply(
+        request({ Origin: "https://evil.example" }),
+        new Response(null),
+      );
+
+      assertEquals(res.headers.get("Access-Control-Allow-Origin"), null);
+    });
+  });
+});
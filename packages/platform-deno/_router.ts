@@ -0,0 +1,128 @@
+/** The request state passed to a {@link RouteHandler}. */
+export interface RouteMatch {
+  /** The parsed request URL. */
+  url: URL;
+  /** The decoded path parameters of the matched route. */
+  params: Record<string, string>;
+  /** Connection information, absent for in-process requests. */
+  info?: Deno.ServeHandlerInfo;
+}
+
+/**
+ * Handles a matched request. Calling `next` leaves the request to the
+ * following matching route or the not-found response.
+ */
+export type RouteHandler = (
+  request: Request,
+  match: RouteMatch,
+  next: () => Promise<Response>,
+) => Response | Promise<Response>;
+
+interface Route {
+  method: string;
+  pattern: URLPattern;
+  handler: RouteHandler;
+}
+
+/**
+ * Minimal router on top of `URLPattern`, matching routes in registration
+ * order.
+ *
+ * Paths use the same syntax as the route decorators: `:name` parameters,
+ * optional `:name?` parameters, `:name{regex}` constraints and `*` wildcards.
+ * `HEAD` requests fall back to the `GET` routes and respond without a body.
+ *
+ * @internal
+ */
+export class Router {
+  private readonly routes: Route[] = [];
+
+  /**
+   * Registers a route.
+   *
+   * @param {string} method - The upper-case HTTP method.
+   * @param {string} path - The route path.
+   * @param {RouteHandler} handler - The route handler.
+   */
+  public on(method: string, path: string, handler: RouteHandler): void {
+    this.routes.push({
+      method,
+      pattern: new URLPattern({ pathname: toUrlPatternPath(path) }),
+      handler,
+    });
+  }
+
+  /**
+   * Answers a request with the first matching route, `404 Not Found` when no
+   * route handles it.
+   *
+   * @param {Request} request - The incoming request.
+   * @param {Deno.ServeHandlerInfo} [info] - Connection information.
+   * @return {Promise<Response>} The response.
+   */
+  public async fetch(
+    request: Request,
+    info?: Deno.ServeHandlerInfo,
+  ): Promise<Response> {
+    const url = new URL(request.url);
+    const methods = request.method === "HEAD"
+      ? ["HEAD", "GET"]
+      : [request.method];
+    const candidates = methods.flatMap((method) =>
+      this.routes.filter((route) => route.method === method)
+    );
+
+    const dispatch = async (index: number): Promise<Response> => {
+      for (let i = index; i < candidates.length; i++) {
+        const match = candidates[i].pattern.exec({ pathname: url.pathname });
+
+        if (match) {
+          return await candidates[i].handler(
+            request,
+            { url, params: decodeParams(match.pathname.groups), info },
+            () => dispatch(i + 1),
+          );
+        }
+      }
+
+      return new Response("404 Not Found", {
+        status: 404,
+        headers: { "content-type": "text/plain; charset=UTF-8" },
+      });
+    };
+
+    const response = await dispatch(0);
+
+    return request.method === "HEAD" && response.body
+      ? new Response(null, response)
+      : response;
+  }
+}
+
+/**
+ * Converts `:name{regex}` constraints to the `:name(regex)` syntax of
+ * `URLPattern`.
+ */
+function toUrlPatternPath(path: string): string {
+  return path.replace(/:(\w+)\{([^}]+)\}/g, ":$1($2)");
+}
+
+function decodeParams(
+  groups: Record<string, string | undefined>,
+): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(groups)) {
+    if (value === undefined || /^\d+$/.test(name)) {
+      continue;
+    }
+
+    try {
+      params[name] = decodeURIComponent(value);
+    } catch {
+      params[name] = value;
+    }
+  }
+
+  return params;
+}
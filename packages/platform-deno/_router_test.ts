@@ -0,0 +1,81 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { Router } from "./_router.ts";
+
+describe(Router.name, () => {
+  const request = (path: string, method = "GET") =>
+    new Request(`http://localhost${path}`, { method });
+
+  it("matches routes by method and path and decodes the parameters", async () => {
+    const router = new Router();
+    router.on("GET", "/users/:id", (_req, { params }) => Response.json(params));
+    router.on("POST", "/users", () => new Response("created"));
+
+    assertEquals(
+      await (await router.fetch(request("/users/j%C3%B6rg"))).json(),
+      { id: "jörg" },
+    );
+    assertEquals(
+      await (await router.fetch(request("/users", "POST"))).text(),
+      "created",
+    );
+  });
+
+  it("supports optional parameters, regex constraints and wildcards", async () => {
+    const router = new Router();
+    router.on("GET", "/items/:id{[0-9]+}", () => new Response("numeric"));
+    router.on(
+      "GET",
+      "/items/:slug?",
+      (_req, { params }) => Response.json(params),
+    );
+    router.on("GET", "/files/*", () => new Response("file"));
+
+    assertEquals(
+      await (await router.fetch(request("/items/42"))).text(),
+      "numeric",
+    );
+    assertEquals(await (await router.fetch(request("/items/abc"))).json(), {
+      slug: "abc",
+    });
+    assertEquals(await (await router.fetch(request("/items"))).json(), {});
+    assertEquals(
+      await (await router.fetch(request("/files/a/b.txt"))).text(),
+      "file",
+    );
+  });
+
+  it("passes the request to the next matching route", async () => {
+    const router = new Router();
+    router.on("GET", "/", (_req, _match, next) => next());
+    router.on("GET", "/", () => new Response("second"));
+
+    assertEquals(await (await router.fetch(request("/"))).text(), "second");
+  });
+
+  it("answers unmatched requests with 404 Not Found", async () => {
+    const router = new Router();
+    router.on("GET", "/", (_req, _match, next) => next());
+
+    const res = await router.fetch(request("/"));
+
+    assertEquals(res.status, 404);
+    assertEquals(await res.text(), "404 Not Found");
+    assertEquals((await router.fetch(request("/", "DELETE"))).status, 404);
+  });
+
+  it("answers HEAD requests with the GET routes without a body", async () => {
+    const router = new Router();
+    router.on(
+      "GET",
+      "/",
+      () => new Response("body", { headers: { "x-route": "get" } }),
+    );
+
+    const res = await router.fetch(request("/", "HEAD"));
+
+    assertEquals(res.status, 200);
+    assertEquals(res.headers.get("x-route"), "get");
+    assertEquals(res.body, null);
+  });
+});
@@ -0,0 +1,98 @@
+import type {
+  ControllerMapping,
+  ControllerMappingOptions,
+  GatewayMapping,
+  GatewayMappingOptions,
+  HttpAdapter,
+  ListenAddress,
+  ListenOptions,
+} from "@denorid/core";
+import { Router } from "./_router.ts";
+import { DenoControllerMapping } from "./controller_mapping.ts";
+import { DenoGatewayMapping } from "./gateway_mapping.ts";
+
+/**
+ * Options accepted by the {@link DenoAdapter} constructor. The listen options
+ * are defaults, the options passed to `listen()` take precedence.
+ */
+export interface DenoAdapterOptions extends ListenOptions {
+  /** Called once the server listens. Defaults to Deno's log line. */
+  onListen?: (localAddr: ListenAddress) => void;
+  /** Answers errors that escape the request handling. */
+  onError?: (error: unknown) => Response | Promise<Response>;
+}
+
+export class DenoAdapter implements HttpAdapter {
+  private readonly router = new Router();
+  private server?: Deno.HttpServer<ListenAddress>;
+
+  /**
+   * @param {DenoAdapterOptions} [options] - Options passed to `Deno.serve`.
+   */
+  public constructor(private readonly options: DenoAdapterOptions = {}) {}
+
+  /**
+   * @inheritdoc
+   */
+  public listen(options: ListenOptions = {}): Promise<ListenAddress> {
+    const { onListen, onError, ...defaults } = this.options;
+    const { cert, key, path, port, hostname, reusePort, signal } = {
+      ...defaults,
+      ...options,
+    };
+
+    // `Deno.serve()` binds synchronously, the address is known right away.
+    this.server ??= path !== undefined
+      ? Deno.serve({ path, signal, onListen, onError }, this.fetch)
+      : Deno.serve({
+        hostname,
+        port: port ?? 3000,
+        reusePort,
+        signal,
+        onListen,
+        onError,
+        ...(cert !== undefined && key !== undefined ? { cert, key } : {}),
+      }, this.fetch);
+
+    return Promise.resolve(this.server.addr);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public async close(): Promise<void> {
+    await this.server?.shutdown();
+
+    delete this.server;
+  }
+
+  /**
+   * Answers a request with the registered routes, without a listening server.
+   *
+   * @param {Request} request - The request.
+   * @param {Deno.ServeHandlerInfo} [info] - Connection information.
+   * @return {Promise<Response>} The response.
+   */
+  public fetch = (
+    request: Request,
+    info?: Deno.ServeHandlerInfo,
+  ): Promise<Response> => this.router.fetch(request, info);
+
+  /**
+   * @inheritdoc
+   */
+  public createControllerMapping(
+    opts: ControllerMappingOptions,
+  ): ControllerMapping | Promise<ControllerMapping> {
+    return new DenoControllerMapping(this.router, opts);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public createGatewayMapping(
+    opts: GatewayMappingOptions,
+  ): GatewayMapping | Promise<GatewayMapping> {
+    return new DenoGatewayMapping(this.router, opts);
+  }
+}
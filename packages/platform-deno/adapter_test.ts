@@ -0,0 +1,110 @@
+import {
+  type CanActivate,
+  Controller,
+  Get,
+  HttpCode,
+  Post,
+  type RequestContext,
+  StatusCode,
+  UseGuards,
+} from "@denorid/core";
+import { Test } from "@denorid/core/testing";
+import { Injectable, Module } from "@denorid/injector";
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { DenoAdapter } from "./adapter.ts";
+
+const canListen =
+  (await Deno.permissions.query({ name: "net" })).state === "granted";
+const canUseFiles =
+  (await Deno.permissions.query({ name: "read" })).state === "granted" &&
+  (await Deno.permissions.query({ name: "write" })).state === "granted";
+
+describe(DenoAdapter.name, () => {
+  @Injectable()
+  class AuthGuard implements CanActivate {
+    public canActivate(): boolean {
+      return false;
+    }
+  }
+
+  @Controller("/users")
+  class UsersController {
+    @Get("/:id")
+    public show(ctx: RequestContext): unknown {
+      return { id: ctx.param("id", Number) };
+    }
+
+    @Post()
+    @HttpCode(StatusCode.Created)
+    @UseGuards(AuthGuard)
+    public create(): unknown {
+      return { created: true };
+    }
+  }
+
+  @Module({ providers: [UsersController, AuthGuard] })
+  class UsersModule {}
+
+  @Module({ imports: [UsersModule] })
+  class AppModule {}
+
+  it("serves the controllers in-process", async () => {
+    const module = await Test.createTestingModule({ imports: [AppModule] })
+      .compile();
+    await using app = await module.createHttpApplication(new DenoAdapter());
+
+    await app.request().get("/users/7").expect(200).expectJson({ id: 7 });
+    await app.request().post("/users").expect(403);
+    await app.request().get("/missing").expect(404).expectText(
+      "404 Not Found",
+    );
+  });
+
+  it("lets overridden guards pass", async () => {
+    const module = await Test.createTestingModule({ imports: [UsersModule] })
+      .overrideGuard(AuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+    await using app = await module.createHttpApplication(new DenoAdapter());
+
+    await app.request().post("/users").expect(201).expectJson({
+      created: true,
+    });
+  });
+
+  it("resolves to the bound TCP address", { ignore: !canListen }, async () => {
+    const adapter = new DenoAdapter({
+      hostname: "127.0.0.1",
+      onListen: () => {},
+    });
+
+    try {
+      const address = await adapter.listen({ port: 0 }) as Deno.NetAddr;
+
+      assertEquals(address.hostname, "127.0.0.1");
+      const res = await fetch(`http://127.0.0.1:${address.port}/missing`);
+
+      assertEquals(res.status, 404);
+      await res.body?.cancel();
+      assertEquals(await adapter.listen(), address);
+    } finally {
+      await adapter.close();
+    }
+  });
+
+  it("listens on a Unix domain socket", { ignore: !canUseFiles }, async () => {
+    const dir = await Deno.makeTempDir();
+    const adapter = new DenoAdapter({ onListen: () => {} });
+
+    try {
+      assertEquals(await adapter.listen({ path: `${dir}/app.sock` }), {
+        transport: "unix",
+        path: `${dir}/app.sock`,
+      });
+    } finally {
+      await adapter.close();
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+});
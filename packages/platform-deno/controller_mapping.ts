@@ -0,0 +1,115 @@
+import {
+  type CanActivate,
+  type CanActivateFn,
+  ControllerMapping,
+  type ControllerMappingOptions,
+  type HttpController,
+  HttpMethod,
+  type HttpRouteRequest,
+  type RequestMappingMetadata,
+} from "@denorid/core";
+import type { Type } from "@denorid/injector";
+import { Cors } from "./_cors.ts";
+import type { RouteHandler, RouteMatch, Router } from "./_router.ts";
+import { DenoExecutionContext } from "./execution_context.ts";
+import { DenoHostArguments } from "./host_arguments.ts";
+import { DenoRequestContext } from "./request_context.ts";
+
+export class DenoControllerMapping extends ControllerMapping {
+  private readonly cors?: Cors;
+  private readonly preflightPaths = new Set<string>();
+
+  /**
+   * @param {Router} router - The router of the {@link DenoAdapter}.
+   * @param {ControllerMappingOptions} options - The mapping options.
+   *
+   * @internal
+   */
+  public constructor(
+    private readonly router: Router,
+    options: ControllerMappingOptions,
+  ) {
+    super(options);
+
+    if (options.cors === true || typeof options.cors === "object") {
+      this.cors = new Cors(options.cors);
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  // deno-lint-ignore require-await
+  protected override async registerRoute(
+    controllerClass: Type<HttpController>,
+    controllerBasePath: string,
+    controllerGuards: (Type<CanActivate> | CanActivate | CanActivateFn)[],
+    route: RequestMappingMetadata,
+  ): Promise<void> {
+    const fullPath = this.joinPaths(
+      controllerBasePath,
+      ...this.normalizePaths(route.path),
+    );
+
+    const methodName = HttpMethod[route.method ?? HttpMethod.GET];
+    const handle = this.createRouteHandler<DenoRequestContext>(
+      controllerClass,
+      fullPath,
+      controllerGuards,
+      route,
+    );
+
+    const handler: RouteHandler = async (request, match, next) =>
+      (await handle(this.createRouteRequest(request, match))) ?? await next();
+
+    const cors = this.cors;
+
+    if (cors) {
+      this.router.on(
+        methodName,
+        fullPath,
+        async (request, match, next) =>
+          cors.apply(request, await handler(request, match, next)),
+      );
+
+      if (!this.preflightPaths.has(fullPath)) {
+        this.preflightPaths.add(fullPath);
+        this.router.on(
+          "OPTIONS",
+          fullPath,
+          (request) => cors.preflight(request),
+        );
+      }
+    } else {
+      this.router.on(methodName, fullPath, handler);
+    }
+
+    this.logger.log(`Mapped {${fullPath}, ${methodName}} route`);
+  }
+
+  private createRouteRequest(
+    request: Request,
+    match: RouteMatch,
+  ): HttpRouteRequest<DenoRequestContext> {
+    return {
+      url: match.url,
+      header: (name) => request.headers.get(name) ?? undefined,
+      createContext: (requestId, hostParams) =>
+        new DenoRequestContext<unknown>(
+          request,
+          match.params,
+          match.info,
+          requestId,
+          null,
+          hostParams,
+          this.cookieSecrets,
+        ),
+      createHostArguments: (context) => new DenoHostArguments(context),
+      createExecutionContext: (context, controllerClass, handler) =>
+        new DenoExecutionContext(context, controllerClass, handler),
+      arrayBuffer: (context) => context.arrayBuffer(),
+      parseBody: (context, options) => context.parseBody(options),
+      respond: (body, init) => new Response(body, init),
+    };
+  }
+}
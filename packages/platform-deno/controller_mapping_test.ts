@@ -0,0 +1,309 @@
+import {
+  Body,
+  Controller,
+  type CorsOptions,
+  CsvEncoder,
+  type ExceptionHandler,
+  Get,
+  HttpCode,
+  type HttpRequestDecoder,
+  type HttpResponseEncoder,
+  JsonDecoder,
+  NotFoundException,
+  Post,
+  Query,
+  type RequestContext,
+  Serialize,
+  Sse,
+  StatusCode,
+  UseGuards,
+} from "@denorid/core";
+import type { InjectorContext, Type } from "@denorid/injector";
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCalls, spy } from "@std/testing/mock";
+import { z } from "zod";
+import { Router } from "./_router.ts";
+import { DenoControllerMapping } from "./controller_mapping.ts";
+
+describe(DenoControllerMapping.name, () => {
+  @Controller("/users")
+  class UsersController {
+    @Get("/:id")
+    public show(ctx: RequestContext): unknown {
+      const id = ctx.param("id", Number);
+
+      if (id === 0) {
+        throw new NotFoundException();
+      }
+
+      return { id };
+    }
+
+    @Get()
+    @Query(z.object({ page: z.coerce.number() }))
+    public index(ctx: RequestContext<unknown, { page: number }>): string {
+      return `page ${ctx.validatedQuery?.page}`;
+    }
+
+    @Post()
+    @HttpCode(StatusCode.Created)
+    @Body(z.object({ name: z.string() }))
+    public create(ctx: RequestContext<{ name: string }>): unknown {
+      ctx.setHeader("Location", "/users/1");
+
+      return ctx.dto;
+    }
+
+    @Post("/batch")
+    @Body(z.array(z.object({ name: z.string() })))
+    public createMany(ctx: RequestContext<{ name: string }[]>): unknown {
+      return ctx.dto;
+    }
+
+    @Get("/secret/value")
+    @UseGuards(() => false)
+    public secret(): string {
+      return "secret";
+    }
+
+    @Get("/empty/value")
+    public empty(): void {}
+
+    @Get("/me/profile")
+    @Serialize(z.object({ id: z.number() }))
+    public profile(): unknown {
+      return { id: 1, passwordHash: "secret" };
+    }
+
+    @Get("/me/strict")
+    @Serialize(z.object({ id: z.number() }), { mode: "strict" })
+    public strict(): unknown {
+      return { id: 1, passwordHash: "secret" };
+    }
+
+    @Sse("/events/stream", { keepAlive: false })
+    public events(ctx: RequestContext): AsyncIterable<string> {
+      ctx.setHeader("X-Accel-Buffering", "no");
+
+      return (async function* () {
+        yield "a";
+      })();
+    }
+  }
+
+  async function createRouter(
+    opts: {
+      cors?: boolean | CorsOptions;
+      handled?: Response;
+      encoders?: HttpResponseEncoder[];
+      decoders?: HttpRequestDecoder[];
+      problemDetails?: boolean;
+    } = {},
+  ) {
+    const router = new Router();
+    const clearContext = spy((_id: string) => {});
+    const ctx = {
+      container: { getTokensByTag: () => [UsersController as Type] },
+      getHostModuleRef: () => ({
+        get: () => Promise.resolve(new UsersController()),
+      }),
+      getModuleRefOf: () => ({
+        get: () => Promise.resolve(new UsersController()),
+      }),
+      runInRequestScopeAsync: (_id: string, fn: () => Promise<unknown>) => fn(),
+      clearContext,
+    } as unknown as InjectorContext;
+
+    await new DenoControllerMapping(router, {
+      ctx,
+      exceptionHandler: {
+        handle: () => Promise.resolve(opts.handled),
+      } as unknown as ExceptionHandler,
+      globalGuards: [],
+      cors: opts.cors,
+      encoders: opts.encoders,
+      decoders: opts.decoders,
+      problemDetails: opts.problemDetails,
+    }).register("/api");
+
+    const fetch = (path: string, init?: RequestInit) =>
+      router.fetch(new Request(`http://localhost${path}`, init));
+
+    return { fetch, clearContext };
+  }
+
+  it("answers objects as JSON and releases the request scope", async () => {
+    const { fetch, clearContext } = await createRouter();
+
+    const res = await fetch("/api/users/42");
+
+    assertEquals(res.status, StatusCode.Ok);
+    assertEquals(res.headers.get("content-type"), "application/json");
+    assertEquals(await res.json(), { id: 42 });
+    assertSpyCalls(clearContext, 1);
+  });
+
+  it("answers primitives as text and empty results with 204", async () => {
+    const { fetch } = await createRouter();
+
+    const text = await fetch("/api/users?page=3");
+    assertEquals(text.headers.get("content-type"), "text/plain; charset=UTF-8");
+    assertEquals(await text.text(), "page 3");
+
+    assertEquals((await fetch("/api/users/empty/value")).status, 204);
+  });
+
+  it("validates the body and applies @HttpCode() and response headers", async () => {
+    const { fetch } = await createRouter();
+
+    const res = await fetch("/api/users", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ name: "Ada" }),
+    });
+
+    assertEquals(res.status, StatusCode.Created);
+    assertEquals(res.headers.get("location"), "/users/1");
+    assertEquals(await res.json(), { name: "Ada" });
+  });
+
+  it("rejects invalid and malformed requests with 400", async () => {
+    const { fetch } = await createRouter();
+
+    const invalid = await fetch("/api/users", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ name: 1 }),
+    });
+    const malformed = await fetch("/api/users", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: "{",
+    });
+
+    assertEquals(invalid.status, StatusCode.BadRequest);
+    assertEquals(malformed.status, StatusCode.BadRequest);
+    assertEquals((await malformed.json()).message, "Malformed request body");
+    assertEquals((await fetch("/api/users?page=x")).status, 400);
+  });
+
+  it("negotiates the response encoder and the request body decoder", async () => {
+    class VendorJsonDecoder extends JsonDecoder {
+      public override readonly mediaType = "application/vnd.users+json";
+    }
+
+    const { fetch } = await createRouter({
+      encoders: [new CsvEncoder()],
+      decoders: [new VendorJsonDecoder()],
+    });
+
+    const res = await fetch("/api/users/batch", {
+      method: "POST",
+      headers: {
+        accept: "text/csv",
+        "content-type": "application/vnd.users+json",
+      },
+      body: JSON.stringify([{ name: "Ada" }]),
+    });
+
+    assertEquals(res.status, StatusCode.Ok);
+    assertEquals(res.headers.get("content-type"), "text/csv; charset=UTF-8");
+    assertEquals(await res.text(), "name\r\nAda\r\n");
+  });
+
+  it("answers unsupported media types with 406 and 415", async () => {
+    const { fetch } = await createRouter();
+
+    const notAcceptable = await fetch("/api/users/1", {
+      headers: { accept: "application/xml" },
+    });
+    const unsupported = await fetch("/api/users", {
+      method: "POST",
+      headers: { "content-type": "application/xml" },
+      body: "<user />",
+    });
+
+    assertEquals(notAcceptable.status, StatusCode.NotAcceptable);
+    assertEquals(unsupported.status, StatusCode.UnsupportedMediaType);
+  });
+
+  it("answers with Problem Details when enabled", async () => {
+    const { fetch } = await createRouter({ problemDetails: true });
+
+    const res = await fetch("/api/users", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ name: 1 }),
+    });
+
+    assertEquals(res.status, StatusCode.BadRequest);
+    assertEquals(
+      res.headers.get("content-type"),
+      "application/problem+json",
+    );
+    assertEquals(await res.json(), {
+      type: "about:blank",
+      title: "Bad Request",
+      status: StatusCode.BadRequest,
+      detail: "The request failed validation",
+      instance: "/api/users",
+      errors: [{
+        detail: "Invalid input: expected string, received number",
+        pointer: "#/name",
+      }],
+    });
+  });
+
+  it("serializes results with the route's schema", async () => {
+    const { fetch } = await createRouter();
+
+    assertEquals(await (await fetch("/api/users/me/profile")).json(), {
+      id: 1,
+    });
+    assertEquals(
+      (await fetch("/api/users/me/strict")).status,
+      StatusCode.InternalServerError,
+    );
+  });
+
+  it("streams Sse routes with the headers set by the handler", async () => {
+    const { fetch, clearContext } = await createRouter();
+    const res = await fetch("/api/users/events/stream");
+
+    assertEquals(res.headers.get("content-type"), "text/event-stream");
+    assertEquals(res.headers.get("x-accel-buffering"), "no");
+    assertEquals(await res.text(), "data: a\n\n");
+    assertSpyCalls(clearContext, 1);
+  });
+
+  it("answers with 403 when a guard denies the request", async () => {
+    const { fetch } = await createRouter();
+
+    assertEquals((await fetch("/api/users/secret/value")).status, 403);
+  });
+
+  it("answers thrown HTTP exceptions unless the exception handler responds", async () => {
+    const { fetch } = await createRouter();
+    const handled = await createRouter({
+      handled: new Response("handled", { status: 418 }),
+    });
+
+    assertEquals((await fetch("/api/users/0")).status, StatusCode.NotFound);
+    assertEquals((await handled.fetch("/api/users/0")).status, 418);
+  });
+
+  it("adds CORS headers and answers preflight requests", async () => {
+    const { fetch } = await createRouter({ cors: true });
+
+    const res = await fetch("/api/users/1");
+    const preflight = await fetch("/api/users/1", { method: "OPTIONS" });
+
+    assertEquals(res.headers.get("access-control-allow-origin"), "*");
+    assertEquals(preflight.status, StatusCode.NoContent);
+    assertEquals(
+      preflight.headers.get("access-control-allow-methods"),
+      "GET,HEAD,PUT,POST,DELETE,PATCH",
+    );
+  });
+});
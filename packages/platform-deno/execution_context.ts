@@ -0,0 +1,33 @@
+import type {
+  ExecutionContext,
+  HttpController,
+  HttpRouteFn,
+  RequestContext,
+} from "@denorid/core";
+import type { Type } from "@denorid/injector";
+import { DenoHostArguments } from "./host_arguments.ts";
+
+export class DenoExecutionContext extends DenoHostArguments
+  implements ExecutionContext {
+  public constructor(
+    ctx: RequestContext,
+    private readonly controllerClass: Type<HttpController>,
+    private readonly handler: HttpRouteFn,
+  ) {
+    super(ctx);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public getClass<T = HttpController>(): Type<T> {
+    return this.controllerClass as Type<T>;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public getHandler<T = HttpRouteFn>(): T {
+    return this.handler as T;
+  }
+}
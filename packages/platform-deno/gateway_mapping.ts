@@ -0,0 +1,61 @@
+import {
+  GatewayMapping,
+  type GatewayMappingOptions,
+  StatusCode,
+} from "@denorid/core";
+import type { Type } from "@denorid/injector";
+import type { Router } from "./_router.ts";
+import { DenoRequestContext } from "./request_context.ts";
+
+export class DenoGatewayMapping extends GatewayMapping {
+  /**
+   * @param {Router} router - The router of the {@link DenoAdapter}.
+   * @param {GatewayMappingOptions} options - The mapping options.
+   *
+   * @internal
+   */
+  public constructor(
+    private readonly router: Router,
+    options: GatewayMappingOptions,
+  ) {
+    super(options);
+  }
+
+  /**
+   * Registers a `GET` route at `path` upgrading the connection via
+   * `Deno.upgradeWebSocket`. Requests without an `Upgrade: websocket` header
+   * are answered with `426 Upgrade Required`.
+   *
+   * @inheritdoc
+   */
+  // deno-lint-ignore require-await
+  protected override async registerGateway(
+    gatewayClass: Type,
+    path: string,
+  ): Promise<void> {
+    this.router.on("GET", path, (request, match) => {
+      if (request.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+        return new Response("Upgrade Required", {
+          status: StatusCode.UpgradeRequired,
+          headers: { "Content-Type": "text/plain; charset=UTF-8" },
+        });
+      }
+
+      const { socket, response } = Deno.upgradeWebSocket(request);
+
+      this.bindSocket(
+        gatewayClass,
+        socket,
+        new DenoRequestContext(
+          request,
+          match.params,
+          match.info,
+          crypto.randomUUID(),
+          null,
+        ),
+      );
+
+      return response;
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  type ExceptionHandler,
+  StatusCode,
+  SubscribeMessage,
+  WebSocketGateway,
+} from "@denorid/core";
+import type { InjectorContext } from "@denorid/injector";
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertStrictEquals,
+} from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCalls, stub } from "@std/testing/mock";
+import { Router } from "./_router.ts";
+import { DenoGatewayMapping } from "./gateway_mapping.ts";
+
+describe(DenoGatewayMapping.name, () => {
+  @WebSocketGateway("/chat")
+  class ChatGateway {
+    @SubscribeMessage("echo")
+    public echo(data: unknown): unknown {
+      return data;
+    }
+  }
+
+  async function createRouter(): Promise<Router> {
+    const router = new Router();
+    const moduleRef = { get: () => Promise.resolve(new ChatGateway()) };
+    const ctx = {
+      container: { getTokensByTag: () => [ChatGateway] },
+      getHostModuleRef: () => moduleRef,
+      getModuleRefOf: () => moduleRef,
+      runInRequestScopeAsync: (_id: string, fn: () => Promise<unknown>) => fn(),
+      clearContext: () => {},
+    } as unknown as InjectorContext;
+
+    await new DenoGatewayMapping(router, {
+      ctx,
+      exceptionHandler: {
+        handle: () => Promise.resolve(),
+      } as unknown as ExceptionHandler,
+      globalGuards: [],
+    }).register();
+
+    return router;
+  }
+
+  it("should answer plain requests with 426 Upgrade Required", async () => {
+    const router = await createRouter();
+    using upgrade = stub(Deno, "upgradeWebSocket");
+
+    const res = await router.fetch(new Request("http://localhost/chat"));
+
+    assertEquals(res.status, StatusCode.UpgradeRequired);
+    assertSpyCalls(upgrade, 0);
+  });
+
+  it("should upgrade the connection and bind the socket", async () => {
+    const router = await createRouter();
+    const socket = Object.assign(new EventTarget(), {
+      readyState: WebSocket.OPEN,
+      sent: [] as string[],
+      send(data: string) {
+        this.sent.push(data);
+      },
+      close() {},
+    });
+    const response = new Response(null);
+    using upgrade = stub(
+      Deno,
+      "upgradeWebSocket",
+      () => ({ socket: socket as unknown as WebSocket, response }),
+    );
+
+    const res = await router.fetch(
+      new Request("http://localhost/chat", {
+        headers: { upgrade: "websocket" },
+      }),
+    );
+
+    assertStrictEquals(res, response);
+    assertSpyCalls(upgrade, 1);
+    assertInstanceOf(upgrade.calls[0].args[0], Request);
+
+    socket.dispatchEvent(
+      new MessageEvent("message", {
+        data: JSON.stringify({ event: "echo", data: "hi" }),
+      }),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    assertEquals(socket.sent, ['{"event":"echo","data":"hi"}']);
+  });
+});
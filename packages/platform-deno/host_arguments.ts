@@ -0,0 +1,29 @@
+import type { HttpHostArguments, RpcArguments } from "@denorid/core";
+import {
+  ContextNotAvailableException,
+  type HostArguments,
+  type RequestContext,
+} from "@denorid/core";
+
+export class DenoHostArguments implements HostArguments {
+  public constructor(private readonly ctx: RequestContext) {}
+
+  /**
+   * `Deno.serve` has no response object, `getResponse()` returns `undefined`.
+   * Set the status and headers on the request context instead.
+   */
+  public switchToHttp(): HttpHostArguments {
+    return {
+      getRequest: () => this.ctx,
+      getResponse: <T>() => undefined as T,
+    };
+  }
+
+  public switchToRpc(): RpcArguments {
+    throw new ContextNotAvailableException(
+      "HTTP",
+      "switchToRpc",
+      "switchToHttp",
+    );
+  }
+}
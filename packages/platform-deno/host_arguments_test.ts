@@ -0,0 +1,29 @@
+import type { RequestContext } from "@denorid/core";
+import { ContextNotAvailableException } from "@denorid/core";
+import { assertEquals, assertThrows } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { DenoHostArguments } from "./host_arguments.ts";
+
+describe(DenoHostArguments.name, () => {
+  describe("switchToHttp()", () => {
+    it("returns the request context and no response", () => {
+      const ctx = {} as RequestContext;
+      const http = new DenoHostArguments(ctx).switchToHttp();
+
+      assertEquals(http.getRequest(), ctx);
+      assertEquals(http.getResponse(), undefined);
+    });
+  });
+
+  describe("switchToRpc()", () => {
+    it("ensure method throws exception", () => {
+      assertThrows(
+        () =>
+          new DenoHostArguments(
+            undefined as unknown as RequestContext,
+          ).switchToRpc(),
+        ContextNotAvailableException,
+      );
+    });
+  });
+});
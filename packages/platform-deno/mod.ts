@@ -0,0 +1,31 @@
+/**
+ * HTTP adapter for Denorid without a third-party router, built directly on
+ * `Deno.serve` and `URLPattern`.
+ *
+ * This module exports the {@linkcode DenoAdapter}, which implements the
+ * {@linkcode HttpAdapter} interface, along with its supporting
+ * {@linkcode DenoControllerMapping}, {@linkcode DenoGatewayMapping} and {@linkcode DenoRequestContext} types.
+ *
+ * # Usage
+ *
+ * Pass a {@linkcode DenoAdapter} instance to {@linkcode DenoridFactory.create}
+ * when bootstrapping your application:
+ *
+ * ```ts
+ * import { DenoridFactory } from "@denorid/core";
+ * import { DenoAdapter } from "@denorid/platform-deno";
+ * import { AppModule } from "./app_module.ts";
+ *
+ * const app = await DenoridFactory.create(
+ *   AppModule,
+ *   new DenoAdapter({ hostname: "127.0.0.1" }),
+ * );
+ * await app.listen();
+ * ```
+ *
+ * @module
+ */
+export * from "./adapter.ts";
+export * from "./controller_mapping.ts";
+export * from "./gateway_mapping.ts";
+export * from "./request_context.ts";
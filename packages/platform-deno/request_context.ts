@@ -0,0 +1,235 @@
+import {
+  type InferIfZod,
+  type PipeTransform,
+  type PipeTransformFn,
+  RequestContext,
+} from "@denorid/core";
+
+/** A value of a parsed form body. */
+export type FormValue = string | File;
+
+/** Options accepted by {@link DenoRequestContext.parseBody}. */
+export interface ParseBodyOptions {
+  /**
+   * Collects every value of repeated fields in an array. Otherwise the last
+   * value wins.
+   *
+   * @default false
+   */
+  all?: boolean;
+}
+
+export class DenoRequestContext<
+  Dto = unknown,
+  Query = unknown,
+  Params = unknown,
+  Headers = unknown,
+> extends RequestContext<Dto, Query, Params, Headers> {
+  private readonly url: URL;
+  private body?: Promise<ArrayBuffer>;
+
+  public constructor(
+    private readonly request: Request,
+    private readonly pathParams: Record<string, string>,
+    private readonly info: Deno.ServeHandlerInfo | undefined,
+    contextId: string,
+    dto: Dto,
+    hostParams?: Record<string, string>,
+    cookieSecrets?: string[],
+  ) {
+    super(contextId, dto as InferIfZod<Dto>, hostParams, cookieSecrets);
+
+    this.url = new URL(request.url);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public override get ip(): string {
+    const cfIp = this.header("cf-connecting-ip");
+    if (cfIp) {
+      return cfIp;
+    }
+
+    const xff = this.header("x-forwarded-for");
+    if (xff) {
+      const ips = xff.split(",").map((ip) => ip.trim());
+
+      if (ips.length > 0) {
+        return ips[0];
+      }
+    }
+
+    const realIp = this.header("x-real-ip");
+
+    if (realIp) {
+      return realIp;
+    }
+
+    const remote = this.info?.remoteAddr;
+
+    return remote && "hostname" in remote ? remote.hostname : "0.0.0.0";
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public override getUnderlying<T = Request>(): T {
+    return this.request as unknown as T;
+  }
+
+  /**
+   * Reads the raw request body. The body is buffered, so it can be read more
+   * than once.
+   *
+   * @return {Promise<ArrayBuffer>} The raw body.
+   */
+  public arrayBuffer(): Promise<ArrayBuffer> {
+    return this.body ??= this.request.arrayBuffer();
+  }
+
+  /**
+   * Parses the request body as JSON. The body is buffered, so it can be read
+   * more than once.
+   *
+   * @return {Promise<T>} The parsed body.
+   */
+  public async json<T = unknown>(): Promise<T> {
+    return JSON.parse(new TextDecoder().decode(await this.arrayBuffer()));
+  }
+
+  /**
+   * Parses a `multipart/form-data` or `application/x-www-form-urlencoded`
+   * request body. The body is buffered, so it can be read more than once.
+   *
+   * @param {ParseBodyOptions} [options] - Parsing options.
+   * @return {Promise<Record<string, FormValue | FormValue[]>>} The form fields.
+   */
+  public async parseBody(
+    options: ParseBodyOptions = {},
+  ): Promise<Record<string, FormValue | FormValue[]>> {
+    const form = await new Response(await this.arrayBuffer(), {
+      headers: { "content-type": this.header("content-type") ?? "" },
+    }).formData();
+    const body: Record<string, FormValue | FormValue[]> = {};
+
+    for (const [key, value] of form) {
+      const current = body[key];
+
+      if (options.all && current !== undefined) {
+        body[key] = Array.isArray(current)
+          ? [...current, value]
+          : [current, value];
+      } else {
+        body[key] = value;
+      }
+    }
+
+    return body;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public override headers(): Record<string, string> {
+    return Object.fromEntries(this.request.headers);
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public override header(key: string): string | undefined {
+    return this.request.headers.get(key) ?? undefined;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public override queries(): Record<string, string[]>;
+  /**
+   * @inheritdoc
+   */
+  public override queries(key: string): string[];
+  /**
+   * @inheritdoc
+   */
+  public override queries<T>(
+    key: string,
+    transformer: PipeTransform<T> | PipeTransformFn<T>,
+  ): T[];
+  public override queries<T>(
+    key?: string,
+    transformer?: PipeTransform<T> | PipeTransformFn<T>,
+  ): string[] | Record<string, string[]> | T[] {
+    if (!key) {
+      const queries: Record<string, string[]> = {};
+
+      for (const [name, value] of this.url.searchParams) {
+        (queries[name] ??= []).push(value);
+      }
+
+      return queries;
+    }
+
+    const values = this.url.searchParams.getAll(key);
+
+    if (transformer) {
+      return values.map((val) =>
+        this.transform(val, transformer, { type: "query", data: key })
+      ) as T[];
+    }
+
+    return values;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public override query(key: string): string | undefined;
+  /**
+   * @inheritdoc
+   */
+  public override query<T>(
+    key: string,
+    transformer: PipeTransform<T> | PipeTransformFn<T>,
+  ): T;
+  public override query<T>(
+    key: string,
+    transformer?: PipeTransform<T> | PipeTransformFn<T>,
+  ): string | T | undefined {
+    const value = this.url.searchParams.get(key) ?? undefined;
+
+    return transformer
+      ? this.transform(value, transformer, { type: "query", data: key })
+      : value;
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public override params(): Record<string, string> {
+    return { ...this.pathParams };
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public override param(key: string): string | undefined;
+  /**
+   * @inheritdoc
+   */
+  public override param<T>(
+    key: string,
+    transformer: PipeTransform<T> | PipeTransformFn<T>,
+  ): T;
+  public override param<T>(
+    key: string,
+    transformer?: PipeTransform<T> | PipeTransformFn<T>,
+  ): string | T | undefined {
+    const value = this.pathParams[key];
+
+    return transformer
+      ? this.transform(value, transformer, { type: "param", data: key })
+      : value;
+  }
+}
@@ -0,0 +1,79 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { DenoRequestContext } from "./request_context.ts";
+
+describe(DenoRequestContext.name, () => {
+  const create = (
+    init: RequestInit & { url?: string } = {},
+    params: Record<string, string> = {},
+    info?: Deno.ServeHandlerInfo,
+  ) =>
+    new DenoRequestContext(
+      new Request(init.url ?? "http://localhost/", init),
+      params,
+      info,
+      "",
+      undefined,
+    );
+
+  it("reads headers, queries and path parameters", () => {
+    const ctx = create(
+      {
+        url: "http://localhost/?tag=a&tag=b&page=2",
+        headers: { "X-Token": "secret" },
+      },
+      { id: "42" },
+    );
+
+    assertEquals(ctx.header("x-token"), "secret");
+    assertEquals(ctx.headers(), { "x-token": "secret" });
+    assertEquals(ctx.queries(), { tag: ["a", "b"], page: ["2"] });
+    assertEquals(ctx.queries("tag"), ["a", "b"]);
+    assertEquals(ctx.query("page", Number), 2);
+    assertEquals(ctx.query("missing"), undefined);
+    assertEquals(ctx.params(), { id: "42" });
+    assertEquals(ctx.param("id", Number), 42);
+  });
+
+  describe("ip", () => {
+    it("prefers the proxy headers", () => {
+      assertEquals(
+        create({ headers: { "x-forwarded-for": "1.1.1.1, 2.2.2.2" } }).ip,
+        "1.1.1.1",
+      );
+      assertEquals(
+        create({ headers: { "x-real-ip": "3.3.3.3" } }).ip,
+        "3.3.3.3",
+      );
+    });
+
+    it("falls back to the remote address of the connection", () => {
+      const info = {
+        remoteAddr: { transport: "tcp", hostname: "4.4.4.4", port: 1234 },
+      } as Deno.ServeHandlerInfo;
+
+      assertEquals(create({}, {}, info).ip, "4.4.4.4");
+      assertEquals(create().ip, "0.0.0.0");
+    });
+  });
+
+  it("buffers the body so it can be read more than once", async () => {
+    const ctx = create({ method: "POST", body: '{"name":"a"}' });
+
+    assertEquals(await ctx.json(), { name: "a" });
+    assertEquals(await ctx.json(), { name: "a" });
+  });
+
+  it("parses form bodies, keeping the last value unless all is set", async () => {
+    const form = new FormData();
+    form.append("tag", "a");
+    form.append("tag", "b");
+    form.append("file", new File(["x"], "x.txt"));
+    const ctx = create({ method: "POST", body: form });
+
+    const body = await ctx.parseBody();
+    assertEquals(body.tag, "b");
+    assertEquals((body.file as File).name, "x.txt");
+    assertEquals((await ctx.parseBody({ all: true })).tag, ["a", "b"]);
+  });
+});
@@ -1,20 +1,36 @@
 import type {
   ControllerMapping,
   ControllerMappingOptions,
+  GatewayMapping,
+  GatewayMappingOptions,
   HttpAdapter,
+  ListenAddress,
+  ListenOptions,
 } from "@denorid/core";
 import { Hono } from "@hono/hono";
 import { HonoControllerMapping } from "./controller_mapping.ts";
+import { HonoGatewayMapping } from "./gateway_mapping.ts";
 
 export class HonoAdapter implements HttpAdapter {
   private readonly app = new Hono();
-  private server?: Deno.HttpServer<Deno.NetAddr>;
+  private server?: Deno.HttpServer<ListenAddress>;
 
   /**
    * @inheritdoc
    */
-  public listen(port?: number): void {
-    this.server ??= Deno.serve({ port: port ?? 3000 }, this.app.fetch);
+  public listen(options: ListenOptions = {}): Promise<ListenAddress> {
+    const { cert, key, path, port, ...tcpOptions } = options;
+
+    // `Deno.serve()` binds synchronously, the address is known right away.
+    this.server ??= path !== undefined
+      ? Deno.serve({ path, signal: tcpOptions.signal }, this.app.fetch)
+      : Deno.serve({
+        ...tcpOptions,
+        port: port ?? 3000,
+        ...(cert !== undefined && key !== undefined ? { cert, key } : {}),
+      }, this.app.fetch);
+
+    return Promise.resolve(this.server.addr);
   }
 
   /**
@@ -26,6 +42,13 @@ export class HonoAdapter implements HttpAdapter {
     delete this.server;
   }
 
+  /**
+   * @inheritdoc
+   */
+  public async fetch(request: Request): Promise<Response> {
+    return await this.app.fetch(request);
+  }
+
   /**
    * @inheritdoc
    */
@@ -34,4 +57,13 @@ export class HonoAdapter implements HttpAdapter {
   ): ControllerMapping | Promise<ControllerMapping> {
     return new HonoControllerMapping(this.app, opts);
   }
+
+  /**
+   * @inheritdoc
+   */
+  public createGatewayMapping(
+    opts: GatewayMappingOptions,
+  ): GatewayMapping | Promise<GatewayMapping> {
+    return new HonoGatewayMapping(this.app, opts);
+  }
 }
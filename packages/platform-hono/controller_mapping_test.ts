@@ -1,12 +1,28 @@
 import type {
   CanActivateFn,
+  ControllerOptions,
   CorsOptions,
   ExceptionHandler,
   HttpController,
+  HttpRequestDecoder,
+  HttpResponseEncoder,
+  InterceptorFn,
+  MiddlewareConfiguration,
+  RequestContext,
   RequestMappingMetadata,
+  VersioningOptions,
 } from "@denorid/core";
-import { BadRequestException, HttpMethod, StatusCode } from "@denorid/core";
-import type { InjectorContext, Type } from "@denorid/injector";
+import {
+  BadRequestException,
+  CsvEncoder,
+  HttpMethod,
+  NdjsonDecoder,
+  signCookieValue,
+  StatusCode,
+  unsignCookieValue,
+  VERSION_NEUTRAL,
+} from "@denorid/core";
+import type { InjectorContext, ModuleRef, Type } from "@denorid/injector";
 import type { Context, Hono } from "@hono/hono";
 import {
   assertEquals,
@@ -24,7 +40,10 @@ describe(HonoControllerMapping.name, () => {
   // todo: maybe export them?
   const CONTROLLER_METADATA = Symbol.for("denorid.controller");
   const CONTROLLER_REQUEST_MAPPING = Symbol.for("denorid.request_mapping");
-  type RouteHandler = (c: Context) => Promise<Response>;
+  type RouteHandler = (
+    c: Context,
+    next?: () => Promise<void>,
+  ) => Promise<Response | void>;
 
   interface CapturedRoute {
     method: string;
@@ -58,37 +77,60 @@ describe(HonoControllerMapping.name, () => {
     formBody?: unknown;
     jsonThrows?: boolean;
     formThrows?: boolean;
+    queries?: Record<string, string[]>;
+    params?: Record<string, string>;
+    headers?: Record<string, string>;
+    url?: string;
   }) {
     const requestId = opts?.requestId;
     const addValidatedDataSpy = spy((_type: string, _data: unknown) => {});
-    const bodySpy = spy((_data: null, status: number) =>
-      new Response(null, { status })
-    );
-    const textSpy = spy((text: string, status: number) =>
-      new Response(text, { status })
-    );
-    const jsonSpy = spy((data: unknown, status: number) =>
-      new Response(JSON.stringify(data), { status })
-    );
+    const bodySpy = spy((
+      data: string | ReadableStream | null,
+      init?: ResponseInit,
+    ) => new Response(data, init));
 
     const ctx = {
       req: {
+        url: opts?.url ?? "http://localhost/",
         header: (key?: string) =>
-          key === "x-request-id" ? requestId : undefined,
-        json: opts?.jsonThrows
-          ? () => Promise.reject(new SyntaxError("bad json"))
-          : () => Promise.resolve(opts?.jsonBody ?? {}),
+          key === undefined
+            ? opts?.headers ?? {}
+            : key === "x-request-id"
+            ? requestId
+            : opts?.headers?.[key],
+        queries: () => opts?.queries ?? {},
+        param: () => opts?.params ?? {},
+        arrayBuffer: () =>
+          Promise.resolve(
+            new TextEncoder().encode(
+              opts?.jsonThrows ? "{" : JSON.stringify(opts?.jsonBody ?? {}),
+            ).buffer,
+          ),
         parseBody: opts?.formThrows
           ? () => Promise.reject(new Error("bad form"))
           : () => Promise.resolve(opts?.formBody ?? {}),
         addValidatedData: addValidatedDataSpy,
       },
       body: bodySpy,
-      text: textSpy,
-      json: jsonSpy,
+      json: (data: unknown, init?: ResponseInit) =>
+        new Response(JSON.stringify(data), init),
     } as unknown as Context;
 
-    return { ctx, addValidatedDataSpy, bodySpy, textSpy, jsonSpy };
+    return { ctx, addValidatedDataSpy, bodySpy };
+  }
+
+  async function assertResponse(
+    res: Response,
+    status: number,
+    body: string,
+    contentType?: string,
+  ): Promise<void> {
+    assertEquals(res.status, status);
+    assertEquals(await res.text(), body);
+
+    if (contentType) {
+      assertEquals(res.headers.get("content-type"), contentType);
+    }
   }
 
   function makeInjectorContext(opts: {
@@ -110,11 +152,15 @@ describe(HonoControllerMapping.name, () => {
       getHostModuleRef: () => ({
         get: moduleRefGet,
       }),
+      getModuleRefOf: () => ({
+        get: moduleRefGet,
+      }),
     } as unknown as InjectorContext;
 
     return {
       injectorCtx,
       runInRequestScopeAsync,
+      clearContext,
       resolveInternal: moduleRefGet,
     };
   }
@@ -131,7 +177,7 @@ describe(HonoControllerMapping.name, () => {
 
   function setControllerMetadata(
     target: Type,
-    meta: { path?: string | string[] },
+    meta: ControllerOptions,
     routes?: RequestMappingMetadata[],
   ): void {
     Object.defineProperty(target, Symbol.metadata, {
@@ -152,20 +198,35 @@ describe(HonoControllerMapping.name, () => {
     exHandler?: ExceptionHandler;
     basePath?: string;
     controllerPath?: string;
+    host?: ControllerOptions["host"];
     globalGuards?: CanActivateFn[];
+    globalInterceptors?: InterceptorFn[];
+    middleware?: MiddlewareConfiguration[];
+    version?: ControllerOptions["version"];
+    versioning?: VersioningOptions;
     cors?: boolean | CorsOptions;
+    cookieSecret?: string | string[];
+    encoders?: HttpResponseEncoder[];
+    decoders?: HttpRequestDecoder[];
+    problemDetails?: boolean;
   }) {
     class FakeController {}
     setControllerMetadata(FakeController, {
       path: opts.controllerPath ?? "/test",
+      host: opts.host,
+      version: opts.version,
     }, [opts.route]);
 
     const { app, routes: capturedRoutes } = makeHonoApp();
-    const { injectorCtx, runInRequestScopeAsync, resolveInternal } =
-      makeInjectorContext({
-        tokens: [FakeController],
-        controller: opts.controller,
-      });
+    const {
+      injectorCtx,
+      runInRequestScopeAsync,
+      clearContext,
+      resolveInternal,
+    } = makeInjectorContext({
+      tokens: [FakeController],
+      controller: opts.controller,
+    });
 
     const mapping = new HonoControllerMapping(
       app,
@@ -173,13 +234,25 @@ describe(HonoControllerMapping.name, () => {
         ctx: injectorCtx,
         exceptionHandler: opts.exHandler ?? makeExceptionHandler().exHandler,
         globalGuards: opts.globalGuards ?? [],
+        globalInterceptors: opts.globalInterceptors,
+        middleware: opts.middleware,
+        versioning: opts.versioning,
         cors: opts.cors,
+        cookieSecret: opts.cookieSecret,
+        encoders: opts.encoders,
+        decoders: opts.decoders,
+        problemDetails: opts.problemDetails,
       },
     );
 
     await mapping.register(opts.basePath);
 
-    return { capturedRoutes, runInRequestScopeAsync, resolveInternal };
+    return {
+      capturedRoutes,
+      runInRequestScopeAsync,
+      clearContext,
+      resolveInternal,
+    };
   }
 
   describe("registerRoute()", () => {
@@ -389,20 +462,72 @@ describe(HonoControllerMapping.name, () => {
       assertEquals(capturedDto, undefined);
     });
 
-    it("calls c.req.json() for json validation type", async () => {
+    it("calls c.req.arrayBuffer() for json validation type", async () => {
       const schema = z.object({ name: z.string() });
+      let capturedDto: unknown;
       const { capturedRoutes } = await registerAndCapture({
         route: { name: "create", validation: { type: "json", dto: schema } },
-        controller: { create: () => null },
+        controller: {
+          create: (ctx) => {
+            capturedDto = ctx.dto;
+            return null;
+          },
+        },
       });
 
-      const jsonSpy = spy(() => Promise.resolve({ name: "Alice" }));
+      const arrayBufferSpy = spy(() =>
+        Promise.resolve(new TextEncoder().encode('{"name":"Alice"}').buffer)
+      );
       const { ctx } = makeHonoContext();
-      (ctx.req as unknown as Record<string, unknown>).json = jsonSpy;
+      (ctx.req as unknown as Record<string, unknown>).arrayBuffer =
+        arrayBufferSpy;
+
+      await capturedRoutes[0].handler(ctx);
+
+      assertSpyCalls(arrayBufferSpy, 1);
+      assertEquals(capturedDto, { name: "Alice" });
+    });
+
+    it("decodes the body with a decoder matching the content type", async () => {
+      const schema = z.array(z.object({ id: z.number() }));
+      let capturedDto: unknown;
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "import", validation: { type: "json", dto: schema } },
+        controller: {
+          import: (ctx) => {
+            capturedDto = ctx.dto;
+            return null;
+          },
+        },
+        decoders: [new NdjsonDecoder()],
+      });
+
+      const { ctx } = makeHonoContext({
+        headers: { "content-type": "application/x-ndjson" },
+      });
+      (ctx.req as unknown as Record<string, unknown>).arrayBuffer = () =>
+        Promise.resolve(
+          new TextEncoder().encode('{"id":1}\n{"id":2}\n').buffer,
+        );
 
       await capturedRoutes[0].handler(ctx);
 
-      assertSpyCalls(jsonSpy, 1);
+      assertEquals(capturedDto, [{ id: 1 }, { id: 2 }]);
+    });
+
+    it("returns 415 UnsupportedMediaType for an unknown content type", async () => {
+      const schema = z.object({ name: z.string() });
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "create", validation: { type: "json", dto: schema } },
+        controller: { create: () => null },
+      });
+
+      const { ctx } = makeHonoContext({
+        headers: { "content-type": "application/xml" },
+      });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.status, StatusCode.UnsupportedMediaType);
     });
 
     it("calls c.req.parseBody() for form validation type", async () => {
@@ -428,12 +553,10 @@ describe(HonoControllerMapping.name, () => {
         controller: { create: () => null },
       });
 
-      const { ctx, jsonSpy } = makeHonoContext({ jsonThrows: true });
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext({ jsonThrows: true });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(jsonSpy, 1);
-      const [body] = jsonSpy.calls[0].args as [{ message: string }, number];
-      assertEquals(body.message, "Malformed request body");
+      assertEquals((await res.json()).message, "Malformed request body");
     });
 
     it("returns 400 BadRequest when form body cannot be parsed", async () => {
@@ -443,12 +566,10 @@ describe(HonoControllerMapping.name, () => {
         controller: { submit: () => null },
       });
 
-      const { ctx, jsonSpy } = makeHonoContext({ formThrows: true });
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext({ formThrows: true });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(jsonSpy, 1);
-      const [body] = jsonSpy.calls[0].args as [{ message: string }, number];
-      assertEquals(body.message, "Malformed request body");
+      assertEquals((await res.json()).message, "Malformed request body");
     });
 
     it("returns 400 when dto validation fails (ZodValidationException)", async () => {
@@ -458,13 +579,12 @@ describe(HonoControllerMapping.name, () => {
         controller: { create: () => null },
       });
 
-      const { ctx, jsonSpy } = makeHonoContext({
+      const { ctx } = makeHonoContext({
         jsonBody: { age: "not-a-number" },
       });
-      await capturedRoutes[0].handler(ctx);
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      const [, status] = jsonSpy.calls[0].args as [unknown, number];
-      assertEquals(status, StatusCode.BadRequest);
+      assertEquals(res.status, StatusCode.BadRequest);
     });
 
     it("calls c.req.addValidatedData with the validated data on success", async () => {
@@ -505,6 +625,206 @@ describe(HonoControllerMapping.name, () => {
     });
   });
 
+  describe("validateParameters()", () => {
+    it("leaves the validated parameters undefined without parameter validation", async () => {
+      let captured: unknown[] = [];
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index" },
+        controller: {
+          index: (ctx) => {
+            captured = [
+              ctx.validatedQuery,
+              ctx.validatedParams,
+              ctx.validatedHeaders,
+            ];
+            return null;
+          },
+        },
+      });
+
+      const { ctx } = makeHonoContext();
+      await capturedRoutes[0].handler(ctx);
+
+      assertEquals(captured, [undefined, undefined, undefined]);
+    });
+
+    it("coerces the query string, flattening keys that occur once", async () => {
+      const schema = z.object({
+        page: z.coerce.number(),
+        tag: z.array(z.string()),
+      });
+      let captured: unknown;
+      const { capturedRoutes } = await registerAndCapture({
+        route: {
+          name: "list",
+          parameterValidation: [{ type: "query", dto: schema }],
+        },
+        controller: {
+          list: (ctx) => {
+            captured = ctx.validatedQuery;
+            return null;
+          },
+        },
+      });
+
+      const { ctx, addValidatedDataSpy } = makeHonoContext({
+        queries: { page: ["2"], tag: ["a", "b"] },
+      });
+      await capturedRoutes[0].handler(ctx);
+
+      assertEquals(captured, { page: 2, tag: ["a", "b"] });
+      assertSpyCall(addValidatedDataSpy, 0, {
+        args: ["query", { page: 2, tag: ["a", "b"] }],
+      });
+    });
+
+    it("exposes validated path parameters and headers", async () => {
+      let captured: unknown[] = [];
+      const { capturedRoutes } = await registerAndCapture({
+        route: {
+          name: "show",
+          parameterValidation: [
+            { type: "param", dto: z.object({ id: z.coerce.number() }) },
+            { type: "header", dto: z.object({ "x-tenant": z.string() }) },
+          ],
+        },
+        controller: {
+          show: (ctx) => {
+            captured = [ctx.validatedParams, ctx.validatedHeaders];
+            return null;
+          },
+        },
+      });
+
+      const { ctx } = makeHonoContext({
+        params: { id: "7" },
+        headers: { "x-tenant": "acme" },
+      });
+      await capturedRoutes[0].handler(ctx);
+
+      assertEquals(captured, [{ id: 7 }, { "x-tenant": "acme" }]);
+    });
+
+    it("returns 400 and skips the handler when a parameter is invalid", async () => {
+      const handlerFn = spy(() => null);
+      const { capturedRoutes } = await registerAndCapture({
+        route: {
+          name: "show",
+          parameterValidation: [
+            { type: "param", dto: z.object({ id: z.coerce.number() }) },
+          ],
+        },
+        controller: { show: handlerFn },
+      });
+
+      const { ctx } = makeHonoContext({ params: { id: "abc" } });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertSpyCalls(handlerFn, 0);
+      assertEquals(res.status, StatusCode.BadRequest);
+    });
+  });
+
+  describe("uploads", () => {
+    const multipart = { "content-type": "multipart/form-data; boundary=x" };
+
+    it("stores the uploaded files before validating the form", async () => {
+      let files: unknown;
+      let dto: unknown;
+      const { capturedRoutes } = await registerAndCapture({
+        route: {
+          name: "upload",
+          method: HttpMethod.POST,
+          uploads: [{ field: "avatar", required: true, options: {} }],
+          validation: { type: "form", dto: z.object({ title: z.string() }) },
+        },
+        controller: {
+          upload: (ctx: RequestContext) => {
+            files = ctx.files;
+            dto = ctx.dto;
+
+            return null;
+          },
+        },
+      });
+
+      const { ctx } = makeHonoContext({
+        headers: multipart,
+        formBody: {
+          title: "Me",
+          avatar: new File(["png"], "me.png", { type: "image/png" }),
+        },
+      });
+      await capturedRoutes[0].handler(ctx);
+
+      assertEquals(dto, { title: "Me" });
+      assertEquals(files, [{
+        fieldName: "avatar",
+        originalName: "me.png",
+        mimeType: "image/png",
+        size: 3,
+        buffer: new TextEncoder().encode("png"),
+      }]);
+    });
+
+    it("rejects requests that are not multipart with 415", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: {
+          name: "upload",
+          uploads: [{ field: "avatar", required: true, options: {} }],
+        },
+        controller: { upload: () => null },
+      });
+
+      const { ctx } = makeHonoContext({
+        headers: { "content-type": "application/json" },
+      });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.status, StatusCode.UnsupportedMediaType);
+    });
+
+    it("rejects files exceeding the limits with 413", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: {
+          name: "upload",
+          uploads: [{
+            field: "avatar",
+            required: true,
+            options: { limits: { fileSize: 2 } },
+          }],
+        },
+        controller: { upload: () => null },
+      });
+
+      const { ctx } = makeHonoContext({
+        headers: multipart,
+        formBody: { avatar: new File(["png"], "me.png") },
+      });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.status, StatusCode.ContentTooLarge);
+    });
+
+    it("rejects malformed bodies with 400", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: {
+          name: "upload",
+          uploads: [{ field: "avatar", required: true, options: {} }],
+        },
+        controller: { upload: () => null },
+      });
+
+      const { ctx } = makeHonoContext({
+        headers: multipart,
+        formThrows: true,
+      });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.status, StatusCode.BadRequest);
+    });
+  });
+
   describe("resolveResponse()", () => {
     it("returns a Response instance from the controller directly", async () => {
       const expected = new Response("direct", { status: 201 });
@@ -513,12 +833,11 @@ describe(HonoControllerMapping.name, () => {
         controller: { index: () => expected },
       });
 
-      const { ctx, textSpy, jsonSpy } = makeHonoContext();
+      const { ctx, bodySpy } = makeHonoContext();
       const result = await capturedRoutes[0].handler(ctx);
 
       assertEquals(result, expected);
-      assertSpyCalls(textSpy, 0);
-      assertSpyCalls(jsonSpy, 0);
+      assertSpyCalls(bodySpy, 0);
     });
 
     it("returns 204 No Content when controller returns undefined", async () => {
@@ -527,11 +846,10 @@ describe(HonoControllerMapping.name, () => {
         controller: { index: () => undefined },
       });
 
-      const { ctx, bodySpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(bodySpy, 1);
-      assertSpyCall(bodySpy, 0, { args: [null, StatusCode.NoContent] });
+      await assertResponse(res, StatusCode.NoContent, "");
     });
 
     it("returns 204 No Content when controller returns null", async () => {
@@ -540,91 +858,114 @@ describe(HonoControllerMapping.name, () => {
         controller: { index: () => null },
       });
 
-      const { ctx, bodySpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(bodySpy, 1);
-      assertSpyCall(bodySpy, 0, { args: [null, StatusCode.NoContent] });
+      await assertResponse(res, StatusCode.NoContent, "");
     });
 
-    it("returns c.text for a string result", async () => {
+    it("encodes a string result as plain text", async () => {
       const { capturedRoutes } = await registerAndCapture({
         route: { name: "ping" },
         controller: { ping: () => "pong" },
       });
 
-      const { ctx, textSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(textSpy, 1);
-      assertSpyCall(textSpy, 0, { args: ["pong", StatusCode.Ok] });
+      await assertResponse(
+        res,
+        StatusCode.Ok,
+        "pong",
+        "text/plain; charset=UTF-8",
+      );
     });
 
-    it("returns c.text for a number result", async () => {
+    it("encodes a number result as plain text", async () => {
       const { capturedRoutes } = await registerAndCapture({
         route: { name: "count" },
         controller: { count: () => 42 },
       });
 
-      const { ctx, textSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(textSpy, 1);
-      assertSpyCall(textSpy, 0, { args: ["42", StatusCode.Ok] });
+      await assertResponse(
+        res,
+        StatusCode.Ok,
+        "42",
+        "text/plain; charset=UTF-8",
+      );
     });
 
-    it("returns c.text for a boolean result", async () => {
+    it("encodes a boolean result as plain text", async () => {
       const { capturedRoutes } = await registerAndCapture({
         route: { name: "flag" },
         controller: { flag: () => true },
       });
 
-      const { ctx, textSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(textSpy, 1);
-      assertSpyCall(textSpy, 0, { args: ["true", StatusCode.Ok] });
+      await assertResponse(
+        res,
+        StatusCode.Ok,
+        "true",
+        "text/plain; charset=UTF-8",
+      );
     });
 
-    it("returns c.text for a bigint result", async () => {
+    it("encodes a bigint result as plain text", async () => {
       const { capturedRoutes } = await registerAndCapture({
         route: { name: "big" },
         controller: { big: () => BigInt(9999) },
       });
 
-      const { ctx, textSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(textSpy, 1);
-      assertSpyCall(textSpy, 0, { args: ["9999", StatusCode.Ok] });
+      await assertResponse(
+        res,
+        StatusCode.Ok,
+        "9999",
+        "text/plain; charset=UTF-8",
+      );
     });
 
-    it("returns c.text for a symbol result", async () => {
+    it("encodes a symbol result as plain text", async () => {
       const sym = Symbol("hello");
       const { capturedRoutes } = await registerAndCapture({
         route: { name: "sym" },
         controller: { sym: () => sym },
       });
 
-      const { ctx, textSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(textSpy, 1);
-      assertSpyCall(textSpy, 0, { args: [String(sym), StatusCode.Ok] });
+      await assertResponse(
+        res,
+        StatusCode.Ok,
+        String(sym),
+        "text/plain; charset=UTF-8",
+      );
     });
 
-    it("returns c.json for an object result", async () => {
+    it("encodes an object result as JSON", async () => {
       const data = { id: 1, name: "Alice" };
       const { capturedRoutes } = await registerAndCapture({
         route: { name: "get" },
         controller: { get: () => data },
       });
 
-      const { ctx, jsonSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(jsonSpy, 1);
-      assertSpyCall(jsonSpy, 0, { args: [data, StatusCode.Ok] });
+      await assertResponse(
+        res,
+        StatusCode.Ok,
+        JSON.stringify(data),
+        "application/json",
+      );
     });
 
     it("uses the route statusCode when provided", async () => {
@@ -633,13 +974,15 @@ describe(HonoControllerMapping.name, () => {
         controller: { create: () => ({ id: 99 }) },
       });
 
-      const { ctx, jsonSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(jsonSpy, 1);
-      assertSpyCall(jsonSpy, 0, {
-        args: [{ id: 99 }, StatusCode.Created],
-      });
+      await assertResponse(
+        res,
+        StatusCode.Created,
+        '{"id":99}',
+        "application/json",
+      );
     });
 
     it("defaults to 200 when the route does not specify a statusCode", async () => {
@@ -648,11 +991,44 @@ describe(HonoControllerMapping.name, () => {
         controller: { get: () => ({ ok: true }) },
       });
 
-      const { ctx, jsonSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      const [, status] = jsonSpy.calls[0].args as [unknown, number];
-      assertEquals(status, StatusCode.Ok);
+      assertEquals(res.status, StatusCode.Ok);
+    });
+
+    it("encodes the result with the encoder selected by the Accept header", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "export" },
+        controller: { export: () => [{ id: 1, name: "Alice" }] },
+        encoders: [new CsvEncoder()],
+      });
+
+      const { ctx } = makeHonoContext({
+        headers: { accept: "text/csv, application/json;q=0.5" },
+      });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      await assertResponse(
+        res,
+        StatusCode.Ok,
+        "id,name\r\n1,Alice\r\n",
+        "text/csv; charset=UTF-8",
+      );
+    });
+
+    it("returns 406 NotAcceptable when no encoder matches the Accept header", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "get" },
+        controller: { get: () => ({ id: 1 }) },
+      });
+
+      const { ctx } = makeHonoContext({
+        headers: { accept: "application/xml" },
+      });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.status, StatusCode.NotAcceptable);
     });
 
     it("returns 422 UnprocessableContent when controller returns a function", async () => {
@@ -661,12 +1037,152 @@ describe(HonoControllerMapping.name, () => {
         controller: { bad: () => () => {} },
       });
 
-      const { ctx, jsonSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(jsonSpy, 1);
-      const [, status] = jsonSpy.calls[0].args as [unknown, number];
-      assertEquals(status, StatusCode.UnprocessableContent);
+      assertEquals(res.status, StatusCode.UnprocessableContent);
+    });
+  });
+
+  describe("response state", () => {
+    it("applies the status, headers and cookies set on the context", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index", statusCode: StatusCode.Ok },
+        controller: {
+          index: (ctx: RequestContext) => {
+            ctx.status(StatusCode.Created)
+              .setHeader("x-trace", "1")
+              .setCookie("theme", "dark");
+
+            return { ok: true };
+          },
+        },
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      await assertResponse(
+        res,
+        StatusCode.Created,
+        '{"ok":true}',
+        "application/json",
+      );
+      assertEquals(res.headers.get("x-trace"), "1");
+      assertEquals(res.headers.getSetCookie(), ["theme=dark; Path=/"]);
+    });
+
+    it("reads and writes signed cookies with the configured secret", async () => {
+      let session: string | undefined;
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index" },
+        cookieSecret: ["new", "old"],
+        controller: {
+          index: async (ctx: RequestContext) => {
+            session = await ctx.signedCookie("session");
+            ctx.setCookie("session", "user-2", { signed: true });
+
+            return "ok";
+          },
+        },
+      });
+
+      const signed = await signCookieValue("user-1", "old");
+      const { ctx } = makeHonoContext({
+        headers: { cookie: `session=${encodeURIComponent(signed)}` },
+      });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(session, "user-1");
+      const [value] = res.headers.getSetCookie();
+      assertEquals(
+        await unsignCookieValue(
+          decodeURIComponent(value.split(";")[0].slice("session=".length)),
+          ["new"],
+        ),
+        "user-2",
+      );
+    });
+
+    it("applies the headers set before an error", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index" },
+        controller: {
+          index: (ctx: RequestContext) => {
+            ctx.setHeader("Retry-After", "30");
+
+            throw new BadRequestException();
+          },
+        },
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.headers.get("retry-after"), "30");
+      assertEquals(res.status, StatusCode.BadRequest);
+    });
+
+    it("applies the headers set before an error only once", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index" },
+        controller: {
+          index: (ctx: RequestContext) => {
+            ctx.setHeader("x-trace", "1").setCookie("theme", "dark");
+
+            return { id: 1 };
+          },
+        },
+      });
+
+      const { ctx } = makeHonoContext({
+        headers: { accept: "application/xml" },
+      });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.status, StatusCode.NotAcceptable);
+      assertEquals(res.headers.get("x-trace"), "1");
+      assertEquals(res.headers.getSetCookie(), ["theme=dark; Path=/"]);
+    });
+
+    it("renders the error of a signed cookie without a secret", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index" },
+        controller: {
+          index: (ctx: RequestContext) => {
+            ctx.setHeader("x-trace", "1")
+              .setCookie("session", "user-1", { signed: true });
+
+            return "ok";
+          },
+        },
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.status, StatusCode.InternalServerError);
+      assertEquals(res.headers.get("x-trace"), null);
+    });
+
+    it("leaves a returned Response untouched", async () => {
+      const expected = new Response("direct");
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index" },
+        controller: {
+          index: (ctx: RequestContext) => {
+            ctx.setHeader("x-trace", "1");
+
+            return expected;
+          },
+        },
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res, expected);
+      assertEquals(res.headers.get("x-trace"), null);
     });
   });
 
@@ -703,12 +1219,42 @@ describe(HonoControllerMapping.name, () => {
         exHandler,
       });
 
-      const { ctx, jsonSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.status, StatusCode.BadRequest);
+    });
+
+    it("renders HttpExceptions as Problem Details when enabled", async () => {
+      const { exHandler } = makeExceptionHandler(undefined);
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "auth" },
+        controller: {
+          auth: () => {
+            throw new BadRequestException("Invalid input");
+          },
+        },
+        exHandler,
+        problemDetails: true,
+      });
 
-      assertSpyCalls(jsonSpy, 1);
-      const [, status] = jsonSpy.calls[0].args as [unknown, number];
-      assertEquals(status, StatusCode.BadRequest);
+      const { ctx } = makeHonoContext({
+        url: "http://localhost/test?page=1",
+      });
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      await assertResponse(
+        res,
+        StatusCode.BadRequest,
+        JSON.stringify({
+          type: "about:blank",
+          title: "Bad Request",
+          status: StatusCode.BadRequest,
+          detail: "Invalid input",
+          instance: "/test",
+        }),
+        "application/problem+json",
+      );
     });
 
     it("wraps a plain Error in InternalServerErrorException when handler returns undefined", async () => {
@@ -723,12 +1269,10 @@ describe(HonoControllerMapping.name, () => {
         exHandler,
       });
 
-      const { ctx, jsonSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(jsonSpy, 1);
-      const [, status] = jsonSpy.calls[0].args as [unknown, number];
-      assertEquals(status, StatusCode.InternalServerError);
+      assertEquals(res.status, StatusCode.InternalServerError);
     });
 
     it("wraps a thrown string in InternalServerErrorException with the string as message", async () => {
@@ -744,16 +1288,11 @@ describe(HonoControllerMapping.name, () => {
         exHandler,
       });
 
-      const { ctx, jsonSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(jsonSpy, 1);
-      const [body, status] = jsonSpy.calls[0].args as [
-        { message: string },
-        number,
-      ];
-      assertEquals(status, StatusCode.InternalServerError);
-      assertEquals(body.message, "something went wrong");
+      assertEquals(res.status, StatusCode.InternalServerError);
+      assertEquals((await res.json()).message, "something went wrong");
     });
 
     it("wraps an unknown non-string thrown value in InternalServerErrorException", async () => {
@@ -769,12 +1308,10 @@ describe(HonoControllerMapping.name, () => {
         exHandler,
       });
 
-      const { ctx, jsonSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(jsonSpy, 1);
-      const [, status] = jsonSpy.calls[0].args as [unknown, number];
-      assertEquals(status, StatusCode.InternalServerError);
+      assertEquals(res.status, StatusCode.InternalServerError);
     });
 
     it("still clears context via finally when handleError itself throws", async () => {
@@ -846,6 +1383,211 @@ describe(HonoControllerMapping.name, () => {
     });
   });
 
+  describe("scoped filters", () => {
+    it("passes the method filters to the exception handler", async () => {
+      const filter = { catch: () => undefined };
+      const { exHandler, handleSpy } = makeExceptionHandler(undefined);
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "boom", filters: new Set([filter]) },
+        controller: {
+          boom: () => {
+            throw new BadRequestException();
+          },
+        },
+        exHandler,
+      });
+
+      const { ctx } = makeHonoContext();
+      await capturedRoutes[0].handler(ctx);
+
+      assertEquals(
+        (handleSpy.calls[0].args as unknown[])[2],
+        [filter],
+      );
+    });
+  });
+
+  describe("middleware", () => {
+    const moduleRef = {} as ModuleRef;
+
+    it("runs the selected middleware before the guards", async () => {
+      const calls: string[] = [];
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index", path: "/items/:id" },
+        controller: {
+          index: () => {
+            calls.push("handler");
+            return "ok";
+          },
+        },
+        globalGuards: [() => {
+          calls.push("guard");
+          return true;
+        }],
+        middleware: [{
+          middleware: [async (_ctx, next) => {
+            calls.push("before");
+            const response = await next();
+            calls.push("after");
+            return response;
+          }],
+          routes: ["/test/*"],
+          exclude: [],
+          moduleRef,
+        }],
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx);
+
+      assertEquals(await (res as Response).text(), "ok");
+      assertEquals(calls, ["before", "guard", "handler", "after"]);
+    });
+
+    it("responds with the value of a short-circuiting middleware", async () => {
+      const handler = spy(() => "ok");
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index" },
+        controller: { index: handler },
+        middleware: [{
+          middleware: [{ use: () => ({ blocked: true }) }],
+          routes: [{ path: "/test", method: HttpMethod.GET }],
+          exclude: [],
+          moduleRef,
+        }],
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertSpyCalls(handler, 0);
+      await assertResponse(res, 200, '{"blocked":true}', "application/json");
+    });
+
+    it("skips middleware of other methods and excluded routes", async () => {
+      const middlewareFn = spy((_ctx: unknown, next: () => Promise<unknown>) =>
+        next()
+      );
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index", method: HttpMethod.POST },
+        controller: { index: () => "ok" },
+        basePath: "/api",
+        middleware: [{
+          middleware: [middlewareFn],
+          routes: [{ path: "/test", method: HttpMethod.GET }],
+          exclude: [],
+          moduleRef,
+        }, {
+          middleware: [middlewareFn],
+          routes: ["*"],
+          exclude: ["/test"],
+          moduleRef,
+        }],
+      });
+
+      const { ctx } = makeHonoContext();
+      await capturedRoutes[0].handler(ctx);
+
+      assertSpyCalls(middlewareFn, 0);
+    });
+
+    it("passes middleware errors to the exception handler", async () => {
+      const { exHandler, handleSpy } = makeExceptionHandler(undefined);
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index" },
+        controller: { index: () => "ok" },
+        exHandler,
+        middleware: [{
+          middleware: [() => {
+            throw new BadRequestException();
+          }],
+          routes: ["*"],
+          exclude: [],
+          moduleRef,
+        }],
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx);
+
+      assertSpyCalls(handleSpy, 1);
+      assertEquals((res as Response).status, StatusCode.BadRequest);
+    });
+  });
+
+  describe("streaming", () => {
+    it("streams async iterables returned by a route", async () => {
+      const { capturedRoutes, clearContext } = await registerAndCapture({
+        route: { name: "download" },
+        controller: {
+          download: async function* () {
+            yield "a";
+            yield "b";
+          },
+        },
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertSpyCalls(clearContext, 0);
+      assertEquals(await res.text(), "ab");
+      assertSpyCalls(clearContext, 1);
+    });
+
+    it("streams Sse routes as text/event-stream", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "events", sse: { keepAlive: false } },
+        controller: {
+          events: async function* () {
+            yield { event: "tick", data: { n: 1 } };
+          },
+        },
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.headers.get("content-type"), "text/event-stream");
+      assertEquals(res.headers.get("cache-control"), "no-cache");
+      assertEquals(await res.text(), 'event: tick\ndata: {"n":1}\n\n');
+    });
+
+    it("applies the headers set by Sse routes", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "events", sse: { keepAlive: false } },
+        controller: {
+          events: (ctx: RequestContext) => {
+            ctx.setHeader("X-Accel-Buffering", "no");
+
+            return (async function* () {
+              yield "a";
+            })();
+          },
+        },
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.headers.get("x-accel-buffering"), "no");
+      assertEquals(await res.text(), "data: a\n\n");
+    });
+
+    it("rejects Sse routes that do not return an async iterable", async () => {
+      const { capturedRoutes, clearContext } = await registerAndCapture({
+        route: { name: "events", sse: { keepAlive: false } },
+        controller: { events: () => "nope" },
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertEquals(res.status, StatusCode.UnprocessableContent);
+      assertSpyCalls(clearContext, 1);
+    });
+  });
+
   describe("cors", () => {
     it("does not attach a cors middleware when cors is undefined", async () => {
       const { capturedRoutes } = await registerAndCapture({
@@ -936,12 +1678,10 @@ describe(HonoControllerMapping.name, () => {
         globalGuards: [denyGuard],
       });
 
-      const { ctx, jsonSpy } = makeHonoContext();
-      await capturedRoutes[0].handler(ctx);
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
 
-      assertSpyCalls(jsonSpy, 1);
-      const [, status] = jsonSpy.calls[0].args as [unknown, number];
-      assertEquals(status, StatusCode.Forbidden);
+      assertEquals(res.status, StatusCode.Forbidden);
     });
 
     it("exposes the correct handler via executionContext.getHandler()", async () => {
@@ -981,4 +1721,222 @@ describe(HonoControllerMapping.name, () => {
       assertEquals(typeof capturedClass, "function");
     });
   });
+
+  describe("interceptors", () => {
+    it("passes the value returned by a global interceptor to the response", async () => {
+      const wrap: InterceptorFn = async (_ctx, next) => ({
+        data: await next.handle(),
+      });
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "wrapped" },
+        controller: { wrapped: () => "ok" },
+        globalInterceptors: [wrap],
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      await assertResponse(
+        res,
+        StatusCode.Ok,
+        '{"data":"ok"}',
+        "application/json",
+      );
+    });
+
+    it("skips the handler when an interceptor short-circuits", async () => {
+      const handlerFn = spy(() => "fresh");
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "cached" },
+        controller: { cached: handlerFn },
+        globalInterceptors: [() => "cached"],
+      });
+
+      const { ctx } = makeHonoContext();
+      const res = await capturedRoutes[0].handler(ctx) as Response;
+
+      assertSpyCalls(handlerFn, 0);
+      await assertResponse(
+        res,
+        StatusCode.Ok,
+        "cached",
+        "text/plain; charset=UTF-8",
+      );
+    });
+
+    it("runs route interceptors inside global interceptors", async () => {
+      const order: string[] = [];
+      const record = (name: string): InterceptorFn => async (_ctx, next) => {
+        order.push(name);
+        return await next.handle();
+      };
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "ordered", interceptors: new Set([record("route")]) },
+        controller: { ordered: () => order.push("handler") },
+        globalInterceptors: [record("global")],
+      });
+
+      const { ctx } = makeHonoContext();
+      await capturedRoutes[0].handler(ctx);
+
+      assertEquals(order, ["global", "route", "handler"]);
+    });
+  });
+
+  describe("host", () => {
+    it("leaves requests to other hosts to the next handler", async () => {
+      const handlerFn = spy(() => "ok");
+      const { capturedRoutes, runInRequestScopeAsync } =
+        await registerAndCapture({
+          route: { name: "index" },
+          controller: { index: handlerFn },
+          host: ":tenant.example.com",
+        });
+
+      const next = spy(() => Promise.resolve());
+      const { ctx } = makeHonoContext({ url: "http://example.org/test" });
+      await capturedRoutes[0].handler(ctx, next);
+
+      assertSpyCalls(next, 1);
+      assertSpyCalls(runInRequestScopeAsync, 0);
+      assertSpyCalls(handlerFn, 0);
+    });
+
+    it("exposes the host parameters of matching hosts", async () => {
+      let tenant: string | undefined;
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index" },
+        controller: {
+          index: (ctx) => {
+            tenant = ctx.hostParam("tenant");
+            return null;
+          },
+        },
+        host: ["localhost", ":tenant.example.com"],
+      });
+
+      const next = spy(() => Promise.resolve());
+      const { ctx } = makeHonoContext({
+        url: "http://acme.example.com:8000/test",
+      });
+      await capturedRoutes[0].handler(ctx, next);
+
+      assertSpyCalls(next, 0);
+      assertEquals(tenant, "acme");
+    });
+  });
+
+  describe("versioning", () => {
+    it("registers uri versions below a version segment", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index", version: ["2", VERSION_NEUTRAL] },
+        controller: { index: () => null },
+        basePath: "/api",
+        version: "1",
+        versioning: { type: "uri" },
+      });
+
+      assertEquals(capturedRoutes.map(({ path }) => path), [
+        "/api/v2/test",
+        "/api/test",
+      ]);
+    });
+
+    it("applies the uri prefix and default version", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index" },
+        controller: { index: () => null },
+        versioning: { type: "uri", prefix: false, defaultVersion: "1" },
+      });
+
+      assertEquals(capturedRoutes[0].path, "/1/test");
+    });
+
+    it("ignores versions when versioning is disabled", async () => {
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index", version: "2" },
+        controller: { index: () => null },
+        version: "1",
+      });
+
+      assertEquals(capturedRoutes[0].path, "/test");
+    });
+
+    it("leaves requests for other header versions to the next handler", async () => {
+      const handlerFn = spy(() => "ok");
+      const { capturedRoutes, runInRequestScopeAsync } =
+        await registerAndCapture({
+          route: { name: "index" },
+          controller: { index: handlerFn },
+          version: "1",
+          versioning: { type: "header", header: "x-api-version" },
+        });
+
+      const next = spy(() => Promise.resolve());
+      await capturedRoutes[0].handler(
+        makeHonoContext({ headers: { "x-api-version": "2" } }).ctx,
+        next,
+      );
+      await capturedRoutes[0].handler(makeHonoContext().ctx, next);
+
+      assertSpyCalls(next, 2);
+      assertSpyCalls(runInRequestScopeAsync, 0);
+
+      await capturedRoutes[0].handler(
+        makeHonoContext({ headers: { "x-api-version": "1" } }).ctx,
+        next,
+      );
+
+      assertSpyCalls(next, 2);
+      assertSpyCalls(handlerFn, 1);
+    });
+
+    it("serves every request on version neutral routes", async () => {
+      const handlerFn = spy(() => "ok");
+      const { capturedRoutes } = await registerAndCapture({
+        route: { name: "index", version: VERSION_NEUTRAL },
+        controller: { index: handlerFn },
+        versioning: {
+          type: "header",
+          header: "x-api-version",
+          defaultVersion: "1",
+        },
+      });
+
+      await capturedRoutes[0].handler(makeHonoContext().ctx);
+
+      assertSpyCalls(handlerFn, 1);
+    });
+
+    it("matches media type and custom versions", async () => {
+      const mediaType = await registerAndCapture({
+        route: { name: "index" },
+        controller: { index: () => "ok" },
+        version: "2",
+        versioning: { type: "media-type", key: "v=" },
+      });
+      const custom = await registerAndCapture({
+        route: { name: "index" },
+        controller: { index: () => "ok" },
+        version: "3",
+        versioning: {
+          type: "custom",
+          extractor: (ctx) => ctx.header("x-version")?.split(","),
+        },
+      });
+      const next = spy(() => Promise.resolve());
+
+      await mediaType.capturedRoutes[0].handler(
+        makeHonoContext({
+          headers: { accept: "text/html, application/json;q=0.9; v=2" },
+        }).ctx,
+        next,
+      );
+      await custom.capturedRoutes[0].handler(makeHonoContext().ctx, next);
+
+      assertSpyCalls(next, 1);
+      assertSpyCalls(mediaType.runInRequestScopeAsync, 1);
+      assertSpyCalls(custom.runInRequestScopeAsync, 0);
+    });
+  });
 });
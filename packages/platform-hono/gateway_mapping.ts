@@ -0,0 +1,46 @@
+import {
+  GatewayMapping,
+  type GatewayMappingOptions,
+  StatusCode,
+} from "@denorid/core";
+import type { Type } from "@denorid/injector";
+import type { Hono } from "@hono/hono";
+import { HonoRequestContext } from "./request_context.ts";
+
+export class HonoGatewayMapping extends GatewayMapping {
+  public constructor(
+    private readonly app: Hono,
+    options: GatewayMappingOptions,
+  ) {
+    super(options);
+  }
+
+  /**
+   * Registers a `GET` route at `path` upgrading the connection via
+   * `Deno.upgradeWebSocket`. Requests without an `Upgrade: websocket` header
+   * are answered with `426 Upgrade Required`.
+   *
+   * @inheritdoc
+   */
+  // deno-lint-ignore require-await
+  protected override async registerGateway(
+    gatewayClass: Type,
+    path: string,
+  ): Promise<void> {
+    this.app.get(path, (c) => {
+      if (c.req.header("upgrade")?.toLowerCase() !== "websocket") {
+        return c.text("Upgrade Required", StatusCode.UpgradeRequired);
+      }
+
+      const { socket, response } = Deno.upgradeWebSocket(c.req.raw);
+
+      this.bindSocket(
+        gatewayClass,
+        socket,
+        new HonoRequestContext(c, crypto.randomUUID(), null),
+      );
+
+      return response;
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  type ExceptionHandler,
+  StatusCode,
+  SubscribeMessage,
+  WebSocketGateway,
+} from "@denorid/core";
+import type { InjectorContext } from "@denorid/injector";
+import { Hono } from "@hono/hono";
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertStrictEquals,
+} from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCalls, stub } from "@std/testing/mock";
+import { HonoGatewayMapping } from "./gateway_mapping.ts";
+
+describe(HonoGatewayMapping.name, () => {
+  @WebSocketGateway("/chat")
+  class ChatGateway {
+    @SubscribeMessage("echo")
+    public echo(data: unknown): unknown {
+      return data;
+    }
+  }
+
+  async function createApp(): Promise<Hono> {
+    const app = new Hono();
+    const moduleRef = { get: () => Promise.resolve(new ChatGateway()) };
+    const ctx = {
+      container: { getTokensByTag: () => [ChatGateway] },
+      getHostModuleRef: () => moduleRef,
+      getModuleRefOf: () => moduleRef,
+      runInRequestScopeAsync: (_id: string, fn: () => Promise<unknown>) => fn(),
+      clearContext: () => {},
+    } as unknown as InjectorContext;
+
+    await new HonoGatewayMapping(app, {
+      ctx,
+      exceptionHandler: {
+        handle: () => Promise.resolve(),
+      } as unknown as ExceptionHandler,
+      globalGuards: [],
+    }).register();
+
+    return app;
+  }
+
+  it("should answer plain requests with 426 Upgrade Required", async () => {
+    const app = await createApp();
+    using upgrade = stub(Deno, "upgradeWebSocket");
+
+    const res = await app.request("/chat");
+
+    assertEquals(res.status, StatusCode.UpgradeRequired);
+    assertSpyCalls(upgrade, 0);
+  });
+
+  it("should upgrade the connection and bind the socket", async () => {
+    const app = await createApp();
+    const socket = Object.assign(new EventTarget(), {
+      readyState: WebSocket.OPEN,
+      sent: [] as string[],
+      send(data: string) {
+        this.sent.push(data);
+      },
+      close() {},
+    });
+    const response = new Response(null);
+    using upgrade = stub(
+      Deno,
+      "upgradeWebSocket",
+      () => ({ socket: socket as unknown as WebSocket, response }),
+    );
+
+    const res = await app.request("/chat", {
+      headers: { upgrade: "websocket" },
+    });
+
+    assertStrictEquals(res, response);
+    assertSpyCalls(upgrade, 1);
+    assertInstanceOf(upgrade.calls[0].args[0], Request);
+
+    socket.dispatchEvent(
+      new MessageEvent("message", {
+        data: JSON.stringify({ event: "echo", data: "hi" }),
+      }),
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    assertEquals(socket.sent, ['{"event":"echo","data":"hi"}']);
+  });
+});
@@ -4,7 +4,7 @@
  *
  * This module exports the {@linkcode HonoAdapter}, which implements the
  * {@linkcode HttpAdapter} interface, along with its supporting
- * {@linkcode HonoControllerMapping} and {@linkcode HonoRequestContext} types.
+ * {@linkcode HonoControllerMapping}, {@linkcode HonoGatewayMapping} and {@linkcode HonoRequestContext} types.
  *
  * # Usage
  *
@@ -24,4 +24,5 @@
  */
 export * from "./adapter.ts";
 export * from "./controller_mapping.ts";
+export * from "./gateway_mapping.ts";
 export * from "./request_context.ts";
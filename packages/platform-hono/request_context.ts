@@ -7,13 +7,20 @@ import {
 import type { Context, HonoRequest } from "@hono/hono";
 import { getConnInfo } from "@hono/hono/deno";
 
-export class HonoRequestContext<Dto = unknown> extends RequestContext<Dto> {
+export class HonoRequestContext<
+  Dto = unknown,
+  Query = unknown,
+  Params = unknown,
+  Headers = unknown,
+> extends RequestContext<Dto, Query, Params, Headers> {
   public constructor(
     private readonly ctx: Context,
     contextId: string,
     dto: Dto,
+    hostParams?: Record<string, string>,
+    cookieSecrets?: string[],
   ) {
-    super(contextId, dto as InferIfZod<Dto>);
+    super(contextId, dto as InferIfZod<Dto>, hostParams, cookieSecrets);
   }
 
   /**
@@ -0,0 +1,97 @@
+import type { FileStorage, StoredFile } from "@denorid/core";
+import { Inject } from "@denorid/injector";
+import { StorageConnections } from "./connections.ts";
+
+/** Options accepted by {@link S3FileStorage}. */
+export interface S3FileStorageOptions {
+  /** The bucket the files are uploaded to. */
+  bucket: string;
+  /**
+   * The connection of the bucket.
+   *
+   * @default "default"
+   */
+  connection?: string;
+  /**
+   * Prefix of the generated object keys, e.g. `"avatars/"`.
+   *
+   * @default ""
+   */
+  prefix?: string;
+  /**
+   * Generates the object key of a file.
+   *
+   * @default A random UUID below {@link prefix}.
+   */
+  key?: (fieldName: string, file: File) => string;
+}
+
+/**
+ * {@link FileStorage} streaming uploaded files straight into a bucket of a
+ * {@link StorageConnections} connection. The object key is exposed as
+ * {@link StoredFile.location}.
+ *
+ * Extend it with the bucket options, register the subclass as a provider and
+ * pass the class as the `storage` of `UploadedFile()` or `UploadedFiles()`.
+ *
+ * @example
+ * ```ts
+ * @Injectable()
+ * class AvatarStorage extends S3FileStorage {
+ *   constructor() {
+ *     super({ bucket: "avatars", prefix: "uploads/" });
+ *   }
+ * }
+ *
+ * @Post("/avatar")
+ * @UploadedFile("avatar", { storage: AvatarStorage })
+ * upload(ctx: RequestContext): string {
+ *   return ctx.file("avatar")!.location!;
+ * }
+ * ```
+ */
+export abstract class S3FileStorage implements FileStorage {
+  @Inject(StorageConnections)
+  protected readonly connections!: StorageConnections;
+
+  /**
+   * @param {S3FileStorageOptions} options - The bucket and key of the files.
+   */
+  protected constructor(protected readonly options: S3FileStorageOptions) {}
+
+  /** @inheritdoc */
+  public async store(fieldName: string, file: File): Promise<StoredFile> {
+    const { bucket, connection, prefix = "", key } = this.options;
+    const location = key?.(fieldName, file) ??
+      `${prefix}${crypto.randomUUID()}`;
+    const mimeType = file.type || "application/octet-stream";
+
+    await this.connections.get(connection).putObject({
+      Bucket: bucket,
+      Key: location,
+      Body: file.stream(),
+      ContentLength: file.size,
+      ContentType: mimeType,
+    });
+
+    return {
+      fieldName,
+      originalName: file.name,
+      mimeType,
+      size: file.size,
+      location,
+    };
+  }
+
+  /** @inheritdoc */
+  public async remove(file: StoredFile): Promise<void> {
+    if (!file.location) {
+      return;
+    }
+
+    await this.connections.get(this.options.connection).deleteObject({
+      Bucket: this.options.bucket,
+      Key: file.location,
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import { assertEquals, assertMatch } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCall, spy } from "@std/testing/mock";
+import type { StorageConnections } from "./connections.ts";
+import { S3FileStorage, type S3FileStorageOptions } from "./file_storage.ts";
+
+class TestStorage extends S3FileStorage {
+  public constructor(options: S3FileStorageOptions) {
+    super(options);
+  }
+}
+
+function createStorage(options: S3FileStorageOptions) {
+  const putObject = spy((_input: Record<string, unknown>) =>
+    Promise.resolve({})
+  );
+  const deleteObject = spy((_input: Record<string, unknown>) =>
+    Promise.resolve({})
+  );
+  const get = spy((_name?: string) => ({ putObject, deleteObject }));
+  const storage = new TestStorage(options);
+
+  Object.defineProperty(storage, "connections", {
+    value: { get } as unknown as StorageConnections,
+  });
+
+  return { storage, putObject, deleteObject, get };
+}
+
+describe(S3FileStorage.name, () => {
+  const file = new File(["hello"], "hello.txt", { type: "text/plain" });
+
+  it("streams the file into the bucket below the prefix", async () => {
+    const { storage, putObject, get } = createStorage({
+      bucket: "uploads",
+      connection: "primary",
+      prefix: "docs/",
+    });
+
+    const stored = await storage.store("doc", file);
+
+    assertSpyCall(get, 0, { args: ["primary"] });
+    assertMatch(stored.location!, /^docs\/[0-9a-f-]{36}$/);
+    assertEquals(stored, {
+      fieldName: "doc",
+      originalName: "hello.txt",
+      mimeType: "text/plain",
+      size: 5,
+      location: stored.location,
+    });
+
+    const [input] = putObject.calls[0].args;
+    assertEquals(input.Bucket, "uploads");
+    assertEquals(input.Key, stored.location);
+    assertEquals(input.ContentLength, 5);
+    assertEquals(input.ContentType, "text/plain");
+    assertEquals(
+      await new Response(input.Body as ReadableStream).text(),
+      "hello",
+    );
+  });
+
+  it("uses the configured key generator", async () => {
+    const { storage, putObject } = createStorage({
+      bucket: "uploads",
+      key: (fieldName, { name }) => `${fieldName}/${name}`,
+    });
+
+    assertEquals((await storage.store("doc", file)).location, "doc/hello.txt");
+    assertEquals(putObject.calls[0].args[0].Key, "doc/hello.txt");
+  });
+
+  it("deletes stored objects", async () => {
+    const { storage, deleteObject } = createStorage({ bucket: "uploads" });
+
+    await storage.remove({
+      fieldName: "doc",
+      originalName: "hello.txt",
+      mimeType: "text/plain",
+      size: 5,
+      location: "doc/hello.txt",
+    });
+    await storage.remove({
+      fieldName: "doc",
+      originalName: "hello.txt",
+      mimeType: "text/plain",
+      size: 5,
+    });
+
+    assertEquals(deleteObject.calls.length, 1);
+    assertSpyCall(deleteObject, 0, {
+      args: [{ Bucket: "uploads", Key: "doc/hello.txt" }],
+    });
+  });
+});
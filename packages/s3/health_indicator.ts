@@ -0,0 +1,77 @@
+import { StorageConnections } from "./connections.ts";
+import type {
+  HealthIndicator,
+  HealthIndicatorFactory,
+  HealthProbe,
+} from "@denorid/health";
+
+/** Options accepted by {@link S3HealthIndicator}. */
+export interface S3HealthIndicatorOptions {
+  /**
+   * Key of the indicator in the health check result.
+   *
+   * @default "s3"
+   */
+  name?: string;
+  /** The bucket that has to be reachable. */
+  bucket: string;
+  /** The storage connection to check, the default connection when omitted. */
+  connection?: string;
+  /**
+   * The probes the indicator takes part in.
+   *
+   * @default ["readiness"]
+   */
+  probes?: HealthProbe[];
+}
+
+/**
+ * Reports a `@denorid/s3` bucket as down when a `HeadBucket` request fails.
+ */
+export class S3HealthIndicator implements HealthIndicator {
+  public readonly name: string;
+  public readonly probes?: HealthProbe[];
+
+  /**
+   * @param {StorageConnections} connections - The registered storage clients.
+   * @param {S3HealthIndicatorOptions} options - The bucket to check.
+   */
+  public constructor(
+    private readonly connections: StorageConnections,
+    private readonly options: S3HealthIndicatorOptions,
+  ) {
+    this.name = options.name ?? "s3";
+    this.probes = options.probes;
+  }
+
+  /** @inheritdoc */
+  public async check(): Promise<Record<string, unknown>> {
+    await this.connections.get(this.options.connection).headBucket({
+      Bucket: this.options.bucket,
+    });
+
+    return { bucket: this.options.bucket };
+  }
+}
+
+/**
+ * Creates a {@link S3HealthIndicator} for the `indicators` of the
+ * `HealthModule`, injecting the {@link StorageConnections}.
+ *
+ * @example
+ * ```ts
+ * HealthModule.forRoot({ indicators: [s3HealthIndicator({ bucket: "avatars" })] });
+ * ```
+ *
+ * @param {S3HealthIndicatorOptions} options - The bucket to check.
+ * @return {HealthIndicatorFactory} The indicator factory.
+ */
+export function s3HealthIndicator(
+  options: S3HealthIndicatorOptions,
+): HealthIndicatorFactory {
+  return {
+    useFactory: (connections: StorageConnections) =>
+      new S3HealthIndicator(connections, options),
+    inject: [StorageConnections],
+  };
+}
@@ -48,6 +48,7 @@
  * | {@link StorageClient} | Aggregated S3 client; one method per AWS command |
  * | {@link StorageConnections} | Registry of every registered storage client |
  * | {@link InjectStorage} | Field decorator: `InjectStorage(name?)` |
+ * | {@link S3FileStorage} | Upload storage streaming files into a bucket |
  * | {@link S3ConnectionInfo} | Single named connection descriptor |
  * | {@link S3ConnectionOptions} | Single-connection module configuration |
  * | {@link S3ConnectionsOptions} | Multi-connection module configuration |
@@ -59,6 +60,7 @@
  */
 export * from "./connections.ts";
 export * from "./exceptions.ts";
+export * from "./file_storage.ts";
 export * from "./module.ts";
 export * from "./module_options.ts";
 export * from "./storage_client.ts";
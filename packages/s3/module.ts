@@ -106,7 +106,9 @@ export class S3Module {
 
   private static createDynamicModule(
     options: S3ModuleOptions | S3AsyncModuleOptions,
-    optionsProviderData: Omit<ValueProvider | FactoryProvider, "provide">,
+    optionsProviderData:
+      | Omit<ValueProvider, "provide">
+      | Omit<FactoryProvider, "provide">,
   ): DynamicModule {
     return {
       module: S3Module,
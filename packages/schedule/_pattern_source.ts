@@ -0,0 +1,37 @@
+import {
+  type PatternDescriptor,
+  PatternSource,
+  type PatternSourceInterface,
+} from "@denorid/core";
+import type { ModuleRef, Type } from "@denorid/injector";
+import { CRON_METADATA, CRON_PROVIDER } from "./_constants.ts";
+import type { CronMetadata } from "./_metadata.ts";
+
+/**
+ * Internal provider listing the `@Cron()` jobs in the `patterns:list` console
+ * command.
+ */
+@PatternSource()
+export class CronPatternSource implements PatternSourceInterface {
+  public constructor(private readonly moduleRef: ModuleRef) {}
+
+  /**
+   * @inheritdoc
+   */
+  public describePatterns(): PatternDescriptor[] {
+    return this.moduleRef.getTokensByTag<Type>(CRON_PROVIDER, {
+      strict: false,
+    }).flatMap((provider) =>
+      ((provider[Symbol.metadata]?.[CRON_METADATA] ?? []) as CronMetadata[])
+        .map((meta) => ({
+          transport: "cron",
+          type: "cron",
+          pattern: typeof meta.schedule === "string"
+            ? meta.schedule
+            : JSON.stringify(meta.schedule),
+          provider,
+          handler: meta.method,
+        }))
+    );
+  }
+}
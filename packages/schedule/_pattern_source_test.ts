@@ -0,0 +1,49 @@
+import type { ModuleRef, Type } from "@denorid/injector";
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { CRON_PROVIDER } from "./_constants.ts";
+import { CronPatternSource } from "./_pattern_source.ts";
+import { Cron } from "./decorator.ts";
+
+function createSource(providers: Type[]): CronPatternSource {
+  return new CronPatternSource(
+    {
+      getTokensByTag: (tag: symbol) => tag === CRON_PROVIDER ? providers : [],
+    } as unknown as ModuleRef,
+  );
+}
+
+describe(CronPatternSource.name, () => {
+  it("describes every cron job with its schedule", () => {
+    class ReportService {
+      @Cron("0 * * * *", { name: "hourly-report" })
+      public hourly(): void {}
+
+      @Cron({ minute: { every: 5 } })
+      public frequent(): void {}
+    }
+
+    assertEquals(createSource([ReportService]).describePatterns(), [
+      {
+        transport: "cron",
+        type: "cron",
+        pattern: "0 * * * *",
+        provider: ReportService,
+        handler: "hourly",
+      },
+      {
+        transport: "cron",
+        type: "cron",
+        pattern: '{"minute":{"every":5}}',
+        provider: ReportService,
+        handler: "frequent",
+      },
+    ]);
+  });
+
+  it("skips providers without cron metadata", () => {
+    class NoMeta {}
+
+    assertEquals(createSource([NoMeta]).describePatterns(), []);
+  });
+});
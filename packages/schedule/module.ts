@@ -1,12 +1,14 @@
 import { Module } from "@denorid/injector";
 import { ScheduleExplorer } from "./_explorer.ts";
+import { CronPatternSource } from "./_pattern_source.ts";
 import { SchedulerRegistry } from "./registry.ts";
 
 /**
  * Denorid module that enables decorator-based Deno cron job registration.
  *
  * Import this module to activate `@Cron()` discovery at bootstrap and make
- * {@linkcode SchedulerRegistry} available for injection.
+ * {@linkcode SchedulerRegistry} available for injection. The jobs are listed
+ * by the `patterns:list` console command.
  *
  * > **Deno Deploy note:** `Deno.cron()` jobs are registered at runtime during
  * > `onApplicationBootstrap`. Deno Deploy's static top-level cron discovery
@@ -28,7 +30,7 @@ import { SchedulerRegistry } from "./registry.ts";
  * ```
  */
 @Module({
-  providers: [SchedulerRegistry, ScheduleExplorer],
+  providers: [SchedulerRegistry, ScheduleExplorer, CronPatternSource],
   exports: [SchedulerRegistry],
 })
 export class ScheduleModule {}
@@ -0,0 +1,8 @@
+export const THROTTLER_MODULE_OPTIONS = Symbol.for(
+  "denorid.throttler.module_options",
+);
+export const THROTTLER_STORAGE = Symbol.for("denorid.throttler.storage");
+export const THROTTLE_METADATA = Symbol.for("denorid.throttler.throttle");
+export const SKIP_THROTTLE_METADATA = Symbol.for(
+  "denorid.throttler.skip_throttle",
+);
@@ -0,0 +1,47 @@
+import type { ThrottlerStorageRecord } from "./storage.ts";
+
+/** The persisted state of a throttled key, timestamps in epoch milliseconds. */
+export interface ThrottlerState {
+  hits: number;
+  expiresAt: number;
+  blockedUntil?: number;
+}
+
+/**
+ * Applies a hit to the state of a key, starting a new window once the
+ * previous one or the block ended.
+ */
+export function incrementState(
+  state: ThrottlerState | undefined,
+  now: number,
+  ttl: number,
+  limit: number,
+  blockDuration: number,
+): { state: ThrottlerState; record: ThrottlerStorageRecord } {
+  if (state?.blockedUntil === undefined || state.blockedUntil <= now) {
+    state = state && state.blockedUntil === undefined && state.expiresAt > now
+      ? { ...state, hits: state.hits + 1 }
+      : { hits: 1, expiresAt: now + ttl };
+
+    if (state.hits > limit) {
+      state.blockedUntil = now + blockDuration;
+    }
+  }
+
+  const blocked = state.blockedUntil !== undefined && state.blockedUntil > now;
+
+  return {
+    state,
+    record: {
+      totalHits: state.hits,
+      timeToExpire: Math.max(0, state.expiresAt - now),
+      isBlocked: blocked,
+      timeToBlockExpire: blocked ? state.blockedUntil! - now : 0,
+    },
+  };
+}
+
+/** Milliseconds until the state can be discarded. */
+export function getStateTtl(state: ThrottlerState, now: number): number {
+  return Math.max(state.expiresAt, state.blockedUntil ?? 0) - now;
+}
@@ -0,0 +1,68 @@
+import { assertEquals, assertStrictEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { getStateTtl, incrementState } from "./_state.ts";
+
+describe(incrementState.name, () => {
+  it("starts a window and counts the hits", () => {
+    const first = incrementState(undefined, 1000, 500, 2, 800);
+    const second = incrementState(first.state, 1100, 500, 2, 800);
+
+    assertEquals(first.state, { hits: 1, expiresAt: 1500 });
+    assertEquals(second.record, {
+      totalHits: 2,
+      timeToExpire: 400,
+      isBlocked: false,
+      timeToBlockExpire: 0,
+    });
+  });
+
+  it("blocks keys exceeding the limit without counting further hits", () => {
+    const blocked = incrementState(
+      { hits: 2, expiresAt: 1500 },
+      1200,
+      500,
+      2,
+      800,
+    );
+
+    assertEquals(blocked.record, {
+      totalHits: 3,
+      timeToExpire: 300,
+      isBlocked: true,
+      timeToBlockExpire: 800,
+    });
+
+    const again = incrementState(blocked.state, 1600, 500, 2, 800);
+
+    assertStrictEquals(again.state, blocked.state);
+    assertEquals(again.record.isBlocked, true);
+    assertEquals(again.record.timeToBlockExpire, 400);
+  });
+
+  it("starts a new window once the window or the block ended", () => {
+    assertEquals(
+      incrementState({ hits: 2, expiresAt: 1500 }, 1500, 500, 2, 800).state,
+      { hits: 1, expiresAt: 2000 },
+    );
+    assertEquals(
+      incrementState(
+        { hits: 3, expiresAt: 1500, blockedUntil: 2000 },
+        2000,
+        500,
+        2,
+        800,
+      ).state,
+      { hits: 1, expiresAt: 2500 },
+    );
+  });
+});
+
+describe(getStateTtl.name, () => {
+  it("lasts until the window and the block ended", () => {
+    assertEquals(getStateTtl({ hits: 1, expiresAt: 1500 }, 1000), 500);
+    assertEquals(
+      getStateTtl({ hits: 3, expiresAt: 1500, blockedUntil: 1800 }, 1000),
+      800,
+    );
+  });
+});
@@ -0,0 +1,36 @@
+import { type CustomDecorator, SetMetadata } from "@denorid/core";
+import { SKIP_THROTTLE_METADATA, THROTTLE_METADATA } from "./_constants.ts";
+import type { ThrottleOptions } from "./module_options.ts";
+
+/**
+ * Overrides the module's rate limit for a controller or a single route.
+ * A route-level limit wins over the controller-level one.
+ *
+ * @example
+ * ```ts
+ * \@UseGuards(ThrottlerGuard)
+ * \@Controller("/auth")
+ * class AuthController {
+ *   \@Post("/login")
+ *   \@Throttle({ limit: 5, ttl: 60_000 })
+ *   login(ctx: RequestContext): Promise<Session> {}
+ * }
+ * ```
+ *
+ * @param {ThrottleOptions} options - The rate limit.
+ * @return {CustomDecorator} A decorator applicable to classes and non-static methods.
+ */
+export function Throttle(options: ThrottleOptions): CustomDecorator {
+  return SetMetadata(THROTTLE_METADATA, options);
+}
+
+/**
+ * Excludes a controller or a single route from throttling. Pass `false` to
+ * throttle a single route of a skipped controller again.
+ *
+ * @param {boolean} [skip=true] - Whether throttling is skipped.
+ * @return {CustomDecorator} A decorator applicable to classes and non-static methods.
+ */
+export function SkipThrottle(skip: boolean = true): CustomDecorator {
+  return SetMetadata(SKIP_THROTTLE_METADATA, skip);
+}
@@ -0,0 +1,131 @@
+import {
+  type CanActivate,
+  ContextNotAvailableException,
+  type ExecutionContext,
+  Reflector,
+  type RequestContext,
+  TooManyRequestsException,
+} from "@denorid/core";
+import { Inject, Injectable } from "@denorid/injector";
+import {
+  SKIP_THROTTLE_METADATA,
+  THROTTLE_METADATA,
+  THROTTLER_MODULE_OPTIONS,
+  THROTTLER_STORAGE,
+} from "./_constants.ts";
+import type {
+  ThrottleOptions,
+  ThrottlerModuleOptions,
+} from "./module_options.ts";
+import type { ThrottlerStorage } from "./storage.ts";
+
+/**
+ * Guard limiting the requests per window of HTTP routes and message
+ * handlers, configured by the {@link ThrottlerModule}.
+ *
+ * Requests are counted per handler and tracker (the client IP by default).
+ * Requests exceeding the limit are rejected with a
+ * `TooManyRequestsException`; HTTP responses carry the `RateLimit-*` headers
+ * and, once blocked, a `Retry-After` header.
+ *
+ * @example
+ * ```ts
+ * \@UseGuards(ThrottlerGuard)
+ * \@Controller("/orders")
+ * class OrdersController {}
+ * ```
+ */
+@Injectable()
+export class ThrottlerGuard implements CanActivate {
+  @Inject(THROTTLER_MODULE_OPTIONS)
+  protected readonly options!: ThrottlerModuleOptions;
+
+  @Inject(THROTTLER_STORAGE)
+  protected readonly storage!: ThrottlerStorage;
+
+  @Inject(Reflector)
+  protected readonly reflector!: Reflector;
+
+  /**
+   * @inheritdoc
+   *
+   * @throws {TooManyRequestsException} When the tracker exceeded the limit.
+   */
+  public async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler<object>(), context.getClass()];
+
+    if (
+      this.reflector.getAllAndOverride<boolean>(
+        SKIP_THROTTLE_METADATA,
+        targets,
+      ) || await this.options.skipIf?.(context)
+    ) {
+      return true;
+    }
+
+    const { limit, ttl, blockDuration = ttl } = this.reflector
+      .getAllAndOverride<ThrottleOptions>(THROTTLE_METADATA, targets) ??
+      this.options;
+    const request = this.getRequest(context);
+    const tracker = this.options.getTracker
+      ? await this.options.getTracker(context)
+      : request?.ip;
+    const key = [
+      context.getClass().name,
+      context.getHandler<{ name: string }>().name,
+      ...tracker !== undefined ? [tracker] : [],
+    ].join(":");
+
+    const record = await this.storage.increment(
+      key,
+      ttl,
+      limit,
+      blockDuration,
+    );
+    const headers = request && this.options.headers !== false;
+
+    if (headers) {
+      request
+        .setHeader("RateLimit-Limit", String(limit))
+        .setHeader(
+          "RateLimit-Remaining",
+          String(Math.max(0, limit - record.totalHits)),
+        )
+        .setHeader(
+          "RateLimit-Reset",
+          String(Math.ceil(
+            (record.isBlocked
+              ? record.timeToBlockExpire
+              : record.timeToExpire) /
+              1000,
+          )),
+        );
+    }
+
+    if (record.isBlocked) {
+      if (headers) {
+        request.setHeader(
+          "Retry-After",
+          String(Math.ceil(record.timeToBlockExpire / 1000)),
+        );
+      }
+
+      throw new TooManyRequestsException();
+    }
+
+    return true;
+  }
+
+  /** Returns the HTTP request, or `undefined` for other transports. */
+  private getRequest(context: ExecutionContext): RequestContext | undefined {
+    try {
+      return context.switchToHttp().getRequest();
+    } catch (err) {
+      if (err instanceof ContextNotAvailableException) {
+        return undefined;
+      }
+
+      throw err;
+    }
+  }
+}
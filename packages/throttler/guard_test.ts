@@ -0,0 +1,217 @@
+import {
+  type ExecutionContext,
+  type RequestContext,
+  RpcExecutionContext,
+  TooManyRequestsException,
+} from "@denorid/core";
+import { Test } from "@denorid/core/testing";
+import { assertEquals, assertRejects } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { spy } from "@std/testing/mock";
+import { SkipThrottle, Throttle } from "./decorators.ts";
+import { ThrottlerGuard } from "./guard.ts";
+import { THROTTLER_STORAGE, ThrottlerModule } from "./module.ts";
+import type { ThrottlerModuleOptions } from "./module_options.ts";
+import type { ThrottlerStorage } from "./storage.ts";
+
+class OrdersController {
+  public index(): void {}
+
+  @Throttle({ limit: 1, ttl: 10_000 })
+  public create(): void {}
+
+  @SkipThrottle()
+  public health(): void {}
+}
+
+@SkipThrottle()
+class InternalController {
+  public index(): void {}
+
+  @SkipThrottle(false)
+  public sensitive(): void {}
+}
+
+async function createGuard(options: ThrottlerModuleOptions) {
+  const module = await Test.createTestingModule({
+    imports: [ThrottlerModule.forRoot(options)],
+  })
+    .useCoreGlobals()
+    .compile();
+
+  return {
+    guard: await module.get(ThrottlerGuard),
+    storage: await module.get<ThrottlerStorage>(THROTTLER_STORAGE),
+    module,
+  };
+}
+
+function createHttpContext(
+  controller: new () => object,
+  handler: string,
+  ip = "10.0.0.1",
+) {
+  const headers: Record<string, string> = {};
+  const request = {
+    ip,
+    setHeader(name: string, value: string) {
+      headers[name] = value;
+
+      return this;
+    },
+  } as unknown as RequestContext;
+  const context = {
+    getClass: () => controller,
+    getHandler: () =>
+      (controller.prototype as Record<string, unknown>)[handler],
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+
+  return { context, headers };
+}
+
+describe(ThrottlerGuard.name, () => {
+  it("allows requests up to the limit and sets the rate limit headers", async () => {
+    const { guard, module } = await createGuard({ limit: 2, ttl: 60_000 });
+
+    try {
+      const { context, headers } = createHttpContext(OrdersController, "index");
+
+      assertEquals(await guard.canActivate(context), true);
+      assertEquals(headers, {
+        "RateLimit-Limit": "2",
+        "RateLimit-Remaining": "1",
+        "RateLimit-Reset": "60",
+      });
+
+      assertEquals(await guard.canActivate(context), true);
+      await assertRejects(
+        () => guard.canActivate(context),
+        TooManyRequestsException,
+      );
+      assertEquals(headers["RateLimit-Remaining"], "0");
+      assertEquals(headers["Retry-After"], "60");
+    } finally {
+      await module.close();
+    }
+  });
+
+  it("counts per handler and client IP", async () => {
+    const { guard, module } = await createGuard({ limit: 1, ttl: 60_000 });
+
+    try {
+      assertEquals(
+        await guard.canActivate(
+          createHttpContext(OrdersController, "index").context,
+        ),
+        true,
+      );
+      assertEquals(
+        await guard.canActivate(
+          createHttpContext(OrdersController, "index", "10.0.0.2").context,
+        ),
+        true,
+      );
+      assertEquals(
+        await guard.canActivate(
+          createHttpContext(InternalController, "sensitive").context,
+        ),
+        true,
+      );
+    } finally {
+      await module.close();
+    }
+  });
+
+  it("applies Throttle() and SkipThrottle()", async () => {
+    const { guard, module } = await createGuard({ limit: 5, ttl: 60_000 });
+
+    try {
+      const create = createHttpContext(OrdersController, "create");
+
+      await guard.canActivate(create.context);
+      assertEquals(create.headers["RateLimit-Limit"], "1");
+      await assertRejects(
+        () => guard.canActivate(create.context),
+        TooManyRequestsException,
+      );
+      assertEquals(create.headers["Retry-After"], "10");
+
+      for (
+        const [controller, handler] of [
+          [OrdersController, "health"],
+          [InternalController, "index"],
+        ] as const
+      ) {
+        const { context, headers } = createHttpContext(controller, handler);
+
+        for (let i = 0; i < 6; i++) {
+          assertEquals(await guard.canActivate(context), true);
+        }
+        assertEquals(headers, {});
+      }
+
+      const sensitive = createHttpContext(InternalController, "sensitive");
+      await guard.canActivate(sensitive.context);
+      assertEquals(sensitive.headers["RateLimit-Limit"], "5");
+    } finally {
+      await module.close();
+    }
+  });
+
+  it("uses the configured tracker, skipIf and headers options", async () => {
+    const getTracker = spy(() => "tenant-1");
+    const { guard, storage, module } = await createGuard({
+      limit: 5,
+      ttl: 60_000,
+      headers: false,
+      getTracker,
+      skipIf: (context) =>
+        context.switchToHttp().getRequest().ip === "127.0.0.1",
+    });
+    const increment = spy(storage, "increment");
+
+    try {
+      const { context, headers } = createHttpContext(
+        OrdersController,
+        "index",
+      );
+
+      await guard.canActivate(context);
+      await guard.canActivate(
+        createHttpContext(OrdersController, "index", "127.0.0.1").context,
+      );
+
+      assertEquals(headers, {});
+      assertEquals(getTracker.calls.length, 1);
+      assertEquals(
+        increment.calls[0].args,
+        ["OrdersController:index:tenant-1", 60_000, 5, 60_000],
+      );
+    } finally {
+      increment.restore();
+      await module.close();
+    }
+  });
+
+  it("throttles message handlers", async () => {
+    const { guard, module } = await createGuard({ limit: 1, ttl: 60_000 });
+
+    try {
+      const context = new RpcExecutionContext(
+        "orders.create",
+        {},
+        OrdersController,
+        OrdersController.prototype.index,
+      );
+
+      assertEquals(await guard.canActivate(context), true);
+      await assertRejects(
+        () => guard.canActivate(context),
+        TooManyRequestsException,
+      );
+    } finally {
+      await module.close();
+    }
+  });
+});
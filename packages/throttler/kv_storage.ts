@@ -0,0 +1,91 @@
+/**
+ * Deno KV backed storage for `@denorid/throttler`, sharing the limits
+ * between every instance connected to the same database.
+ *
+ * @module
+ */
+import type { KvConnections } from "@denorid/kv";
+import { getStateTtl, incrementState, type ThrottlerState } from "./_state.ts";
+import type { ThrottlerStorage, ThrottlerStorageRecord } from "./storage.ts";
+
+/** Options accepted by {@link KvThrottlerStorage}. */
+export interface KvThrottlerStorageOptions {
+  /**
+   * The KV connection storing the hits.
+   *
+   * @default The default connection of {@link KvConnections}.
+   */
+  connection?: string;
+  /**
+   * The key prefix of the stored hits.
+   *
+   * @default ["denorid", "throttler"]
+   */
+  prefix?: Deno.KvKey;
+}
+
+/**
+ * {@link ThrottlerStorage} keeping the hits in a {@link KvConnections}
+ * connection. Hits are counted with atomic operations and expire with the
+ * window, so the limits hold across instances.
+ *
+ * @example
+ * ```ts
+ * ThrottlerModule.forRootAsync({
+ *   imports: [KvModule.forRoot({ connections: [{ name: "default", path: "./kv.db" }] })],
+ *   inject: [KvConnections],
+ *   useFactory: (connections: KvConnections) => ({
+ *     limit: 100,
+ *     ttl: 60_000,
+ *     storage: new KvThrottlerStorage(connections),
+ *   }),
+ * });
+ * ```
+ */
+export class KvThrottlerStorage implements ThrottlerStorage {
+  /**
+   * @param {KvConnections} connections - The KV connections registry.
+   * @param {KvThrottlerStorageOptions} [options] - The connection and key prefix.
+   */
+  public constructor(
+    private readonly connections: KvConnections,
+    private readonly options: KvThrottlerStorageOptions = {},
+  ) {}
+
+  /** @inheritdoc */
+  public async increment(
+    key: string,
+    ttl: number,
+    limit: number,
+    blockDuration: number,
+  ): Promise<ThrottlerStorageRecord> {
+    const kv = this.connections.get(this.options.connection);
+    const kvKey = [...this.options.prefix ?? ["denorid", "throttler"], key];
+
+    // Retry until no other instance changed the key in between.
+    while (true) {
+      const entry = await kv.get<ThrottlerState>(kvKey);
+      const now = Date.now();
+      const { state, record } = incrementState(
+        entry.value ?? undefined,
+        now,
+        ttl,
+        limit,
+        blockDuration,
+      );
+
+      if (state === entry.value) {
+        return record;
+      }
+
+      const { ok } = await kv.atomic()
+        .check(entry)
+        .set(kvKey, state, { expireIn: getStateTtl(state, now) })
+        .commit();
+
+      if (ok) {
+        return record;
+      }
+    }
+  }
+}
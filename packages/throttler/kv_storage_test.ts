@@ -0,0 +1,52 @@
+import type { KvConnections } from "@denorid/kv";
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { assertSpyCall, spy } from "@std/testing/mock";
+import { KvThrottlerStorage } from "./kv_storage.ts";
+
+function createConnections(kv: Deno.Kv) {
+  const get = spy((_name?: string) => kv);
+
+  return { connections: { get } as unknown as KvConnections, get };
+}
+
+describe(KvThrottlerStorage.name, () => {
+  it("counts the hits in the given connection", async () => {
+    await using kv = await Deno.openKv(":memory:");
+    const { connections, get } = createConnections(kv);
+    const storage = new KvThrottlerStorage(connections, {
+      connection: "limits",
+      prefix: ["app"],
+    });
+
+    await storage.increment("a", 60_000, 2, 60_000);
+    const second = await storage.increment("a", 60_000, 2, 60_000);
+    const blocked = await storage.increment("a", 60_000, 2, 60_000);
+    const stillBlocked = await storage.increment("a", 60_000, 2, 60_000);
+
+    assertSpyCall(get, 0, { args: ["limits"] });
+    assertEquals(second.totalHits, 2);
+    assertEquals(second.isBlocked, false);
+    assertEquals(blocked.isBlocked, true);
+    assertEquals(stillBlocked.totalHits, 3);
+    assertEquals(
+      (await kv.get<{ hits: number }>(["app", "a"])).value?.hits,
+      3,
+    );
+  });
+
+  it("counts concurrent hits exactly once", async () => {
+    await using kv = await Deno.openKv(":memory:");
+    const storage = new KvThrottlerStorage(createConnections(kv).connections);
+
+    await Promise.all(
+      Array.from({ length: 5 }, () => storage.increment("a", 60_000, 10, 0)),
+    );
+
+    assertEquals(
+      (await kv.get<{ hits: number }>(["denorid", "throttler", "a"])).value
+        ?.hits,
+      5,
+    );
+  });
+});
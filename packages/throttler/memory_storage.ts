@@ -0,0 +1,54 @@
+import { getStateTtl, incrementState, type ThrottlerState } from "./_state.ts";
+import type { ThrottlerStorage, ThrottlerStorageRecord } from "./storage.ts";
+
+const SWEEP_INTERVAL = 60_000;
+
+/**
+ * {@link ThrottlerStorage} keeping the hits in process memory. The default
+ * storage of the {@link ThrottlerModule}; limits are not shared between
+ * instances.
+ *
+ * Expired keys are swept lazily, at most once a minute.
+ */
+export class MemoryThrottlerStorage implements ThrottlerStorage {
+  private readonly states = new Map<string, ThrottlerState>();
+  private nextSweep = 0;
+
+  /** @inheritdoc */
+  public increment(
+    key: string,
+    ttl: number,
+    limit: number,
+    blockDuration: number,
+  ): Promise<ThrottlerStorageRecord> {
+    const now = Date.now();
+
+    this.sweep(now);
+
+    const { state, record } = incrementState(
+      this.states.get(key),
+      now,
+      ttl,
+      limit,
+      blockDuration,
+    );
+
+    this.states.set(key, state);
+
+    return Promise.resolve(record);
+  }
+
+  private sweep(now: number): void {
+    if (now < this.nextSweep) {
+      return;
+    }
+
+    for (const [key, state] of this.states) {
+      if (getStateTtl(state, now) <= 0) {
+        this.states.delete(key);
+      }
+    }
+
+    this.nextSweep = now + SWEEP_INTERVAL;
+  }
+}
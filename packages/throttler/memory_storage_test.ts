@@ -0,0 +1,40 @@
+import { assertEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { FakeTime } from "@std/testing/time";
+import { MemoryThrottlerStorage } from "./memory_storage.ts";
+
+describe(MemoryThrottlerStorage.name, () => {
+  it("counts the hits per key and window", async () => {
+    using time = new FakeTime(0);
+    const storage = new MemoryThrottlerStorage();
+
+    await storage.increment("a", 1000, 2, 1000);
+    assertEquals((await storage.increment("a", 1000, 2, 1000)).totalHits, 2);
+    assertEquals((await storage.increment("b", 1000, 2, 1000)).totalHits, 1);
+
+    const blocked = await storage.increment("a", 1000, 2, 1000);
+    assertEquals(blocked.isBlocked, true);
+
+    time.tick(1000);
+
+    assertEquals(await storage.increment("a", 1000, 2, 1000), {
+      totalHits: 1,
+      timeToExpire: 1000,
+      isBlocked: false,
+      timeToBlockExpire: 0,
+    });
+  });
+
+  it("sweeps expired keys", async () => {
+    using time = new FakeTime(0);
+    const storage = new MemoryThrottlerStorage();
+    const states = (storage as unknown as { states: Map<string, unknown> })
+      .states;
+
+    await storage.increment("a", 1000, 2, 1000);
+    time.tick(60_000);
+    await storage.increment("b", 1000, 2, 1000);
+
+    assertEquals([...states.keys()], ["b"]);
+  });
+});
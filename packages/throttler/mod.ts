@@ -0,0 +1,46 @@
+/**
+ * @module
+ *
+ * Throttler package for Denorid - rate limits HTTP routes and message
+ * handlers with a guard, per-route overrides and pluggable storage.
+ *
+ * ### Quick start
+ *
+ * ```ts
+ * \@Module({
+ *   imports: [ThrottlerModule.forRoot({ limit: 100, ttl: 60_000 })],
+ * })
+ * class AppModule {}
+ *
+ * \@UseGuards(ThrottlerGuard)
+ * \@Controller("/auth")
+ * class AuthController {
+ *   \@Post("/login")
+ *   \@Throttle({ limit: 5, ttl: 60_000 })
+ *   login(ctx: RequestContext): Promise<Session> {}
+ *
+ *   \@Get("/status")
+ *   \@SkipThrottle()
+ *   status(): string {}
+ * }
+ * ```
+ *
+ * ### Exports
+ *
+ * | Symbol | Description |
+ * |---|---|
+ * | {@link ThrottlerModule} | Denorid module - register with `forRoot` or `forRootAsync` |
+ * | {@link ThrottlerGuard} | Guard rejecting requests over the limit with `429` |
+ * | {@link Throttle} | Overrides the limit of a controller or route |
+ * | {@link SkipThrottle} | Excludes a controller or route from throttling |
+ * | {@link ThrottlerStorage} | Storage contract counting the hits |
+ * | {@link MemoryThrottlerStorage} | In-process storage, the default |
+ * | {@link THROTTLER_STORAGE} | Injection token resolving to the storage |
+ * | `KvThrottlerStorage` | (`./kv`) Storage shared via `@denorid/kv` |
+ */
+export * from "./decorators.ts";
+export * from "./guard.ts";
+export * from "./memory_storage.ts";
+export * from "./module.ts";
+export * from "./module_options.ts";
+export * from "./storage.ts";
@@ -0,0 +1,99 @@
+import {
+  type DynamicModule,
+  type FactoryProvider,
+  Module,
+  type ValueProvider,
+} from "@denorid/injector";
+import { THROTTLER_MODULE_OPTIONS, THROTTLER_STORAGE } from "./_constants.ts";
+import { ThrottlerGuard } from "./guard.ts";
+import { MemoryThrottlerStorage } from "./memory_storage.ts";
+import type {
+  ThrottlerAsyncModuleOptions,
+  ThrottlerModuleOptions,
+} from "./module_options.ts";
+import type { ThrottlerStorage } from "./storage.ts";
+
+export { THROTTLER_STORAGE } from "./_constants.ts";
+
+/**
+ * Denorid module that rate limits HTTP routes and message handlers.
+ *
+ * Provides the {@link ThrottlerGuard}, which is applied with `UseGuards()`,
+ * and the configured {@link ThrottlerStorage} under the
+ * {@link THROTTLER_STORAGE} token.
+ *
+ * @example Synchronous registration, 100 requests per minute
+ * ```ts
+ * \@Module({
+ *   imports: [ThrottlerModule.forRoot({ limit: 100, ttl: 60_000 })],
+ * })
+ * class AppModule {}
+ * ```
+ *
+ * @example Async registration backed by a config service
+ * ```ts
+ * ThrottlerModule.forRootAsync({
+ *   imports: [ConfigModule],
+ *   inject: [ConfigService],
+ *   useFactory: (config: ConfigService) => ({
+ *     limit: config.get("RATE_LIMIT"),
+ *     ttl: 60_000,
+ *   }),
+ * });
+ * ```
+ */
+@Module({})
+export class ThrottlerModule {
+  /**
+   * Registers `ThrottlerModule` with static options.
+   *
+   * @param {ThrottlerModuleOptions} options - Module configuration.
+   * @return {DynamicModule} The configured dynamic module.
+   */
+  public static forRoot(options: ThrottlerModuleOptions): DynamicModule {
+    return this.createDynamicModule(options, { useValue: options });
+  }
+
+  /**
+   * Registers `ThrottlerModule` with options resolved via an async factory.
+   *
+   * @param {ThrottlerAsyncModuleOptions} options - Async module configuration.
+   * @return {DynamicModule} The configured dynamic module.
+   */
+  public static forRootAsync(
+    options: ThrottlerAsyncModuleOptions,
+  ): DynamicModule {
+    return this.createDynamicModule(options, {
+      useFactory: options.useFactory,
+      inject: options.inject,
+    });
+  }
+
+  private static createDynamicModule(
+    options: ThrottlerModuleOptions | ThrottlerAsyncModuleOptions,
+    optionsProviderData:
+      | Omit<ValueProvider, "provide">
+      | Omit<FactoryProvider, "provide">,
+  ): DynamicModule {
+    return {
+      module: ThrottlerModule,
+      global: options.global,
+      imports: (options as ThrottlerAsyncModuleOptions).imports ?? [],
+      providers: [
+        {
+          provide: THROTTLER_MODULE_OPTIONS,
+          ...optionsProviderData,
+        } as ValueProvider | FactoryProvider,
+        {
+          provide: THROTTLER_STORAGE,
+          useFactory: (opts: ThrottlerModuleOptions): ThrottlerStorage =>
+            opts.storage ?? new MemoryThrottlerStorage(),
+          inject: [THROTTLER_MODULE_OPTIONS],
+        } satisfies FactoryProvider,
+        ThrottlerGuard,
+        ...((options as ThrottlerAsyncModuleOptions).extraProviders ?? []),
+      ],
+      exports: [ThrottlerGuard, THROTTLER_STORAGE],
+    };
+  }
+}
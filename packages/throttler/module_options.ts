@@ -0,0 +1,75 @@
+import type { ExecutionContext } from "@denorid/core";
+import type {
+  GenericFunction,
+  InjectionToken,
+  ModuleMetadata,
+  Provider,
+} from "@denorid/injector";
+import type { ThrottlerStorage } from "./storage.ts";
+
+/** A rate limit, see {@link Throttle}. */
+export interface ThrottleOptions {
+  /** The requests allowed per window. */
+  limit: number;
+  /** The window length in milliseconds. */
+  ttl: number;
+  /**
+   * How long a key exceeding the limit is blocked, in milliseconds.
+   *
+   * @default ttl
+   */
+  blockDuration?: number;
+}
+
+/**
+ * Static configuration for {@link ThrottlerModule.forRoot}. The limit
+ * applies to every route guarded by the {@link ThrottlerGuard} unless
+ * overridden with {@link Throttle}.
+ */
+export interface ThrottlerModuleOptions extends ThrottleOptions {
+  /** Register the {@link ThrottlerGuard} provider globally. */
+  global?: boolean;
+  /**
+   * Where the hits are counted.
+   *
+   * @default MemoryThrottlerStorage
+   */
+  storage?: ThrottlerStorage;
+  /**
+   * Extracts the key the requests are counted for.
+   *
+   * Defaults to `RequestContext.ip` for HTTP requests. RPC messages carry no
+   * client address, without a tracker every message of a handler counts
+   * towards the same limit.
+   */
+  getTracker?: (
+    context: ExecutionContext,
+  ) => string | undefined | Promise<string | undefined>;
+  /** Skips throttling of the requests it returns `true` for. */
+  skipIf?: (context: ExecutionContext) => boolean | Promise<boolean>;
+  /**
+   * Whether HTTP responses carry the `RateLimit-Limit`,
+   * `RateLimit-Remaining`, `RateLimit-Reset` and `Retry-After` headers.
+   *
+   * @default true
+   */
+  headers?: boolean;
+}
+
+/**
+ * Async configuration for {@link ThrottlerModule.forRootAsync}.
+ */
+export interface ThrottlerAsyncModuleOptions
+  extends Pick<ModuleMetadata, "imports"> {
+  /** Register the {@link ThrottlerGuard} provider globally. */
+  global?: boolean;
+  /** Factory resolving the module options from injected dependencies. */
+  useFactory: GenericFunction<
+    | Omit<ThrottlerModuleOptions, "global">
+    | Promise<Omit<ThrottlerModuleOptions, "global">>
+  >;
+  /** Tokens injected as arguments into {@link useFactory}. */
+  inject?: InjectionToken[];
+  /** Additional providers registered alongside the throttler providers. */
+  extraProviders?: Provider[];
+}
@@ -0,0 +1,54 @@
+import { Test } from "@denorid/core/testing";
+import { assertInstanceOf, assertStrictEquals } from "@std/assert";
+import { describe, it } from "@std/testing/bdd";
+import { ThrottlerGuard } from "./guard.ts";
+import { MemoryThrottlerStorage } from "./memory_storage.ts";
+import { THROTTLER_STORAGE, ThrottlerModule } from "./module.ts";
+import type { ThrottlerStorage } from "./storage.ts";
+
+describe(ThrottlerModule.name, () => {
+  it("provides the guard and an in-memory storage by default", async () => {
+    const module = await Test.createTestingModule({
+      imports: [ThrottlerModule.forRoot({ limit: 10, ttl: 1000 })],
+    })
+      .useCoreGlobals()
+      .compile();
+
+    try {
+      assertInstanceOf(await module.get(ThrottlerGuard), ThrottlerGuard);
+      assertInstanceOf(
+        await module.get(THROTTLER_STORAGE),
+        MemoryThrottlerStorage,
+      );
+    } finally {
+      await module.close();
+    }
+  });
+
+  it("resolves the options via forRootAsync", async () => {
+    const storage: ThrottlerStorage = {
+      increment: () =>
+        Promise.resolve({
+          totalHits: 1,
+          timeToExpire: 0,
+          isBlocked: false,
+          timeToBlockExpire: 0,
+        }),
+    };
+    const module = await Test.createTestingModule({
+      imports: [
+        ThrottlerModule.forRootAsync({
+          useFactory: () => ({ limit: 10, ttl: 1000, storage }),
+        }),
+      ],
+    })
+      .useCoreGlobals()
+      .compile();
+
+    try {
+      assertStrictEquals(await module.get(THROTTLER_STORAGE), storage);
+    } finally {
+      await module.close();
+    }
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * The state of a throttled key after a hit, returned by
+ * {@link ThrottlerStorage.increment}.
+ */
+export interface ThrottlerStorageRecord {
+  /** The number of hits within the current window. */
+  totalHits: number;
+  /** Milliseconds until the current window ends. */
+  timeToExpire: number;
+  /** Whether the key exceeded the limit and is blocked. */
+  isBlocked: boolean;
+  /** Milliseconds until the block ends, `0` if not blocked. */
+  timeToBlockExpire: number;
+}
+
+/**
+ * Backend counting the hits of the throttled keys.
+ *
+ * Use a shared backend, e.g. `KvThrottlerStorage` from
+ * `@denorid/throttler/kv`, to enforce the limits across multiple instances.
+ */
+export interface ThrottlerStorage {
+  /**
+   * Records a hit of `key`. Once the hits within a window of `ttl`
+   * milliseconds exceed `limit`, the key is blocked for `blockDuration`
+   * milliseconds; hits of blocked keys are not counted.
+   *
+   * @param {string} key - The throttled key.
+   * @param {number} ttl - The window length in milliseconds.
+   * @param {number} limit - The hits allowed per window.
+   * @param {number} blockDuration - The block length in milliseconds.
+   * @return {Promise<ThrottlerStorageRecord>} The state of the key after the hit.
+   */
+  increment(
+    key: string,
+    ttl: number,
+    limit: number,
+    blockDuration: number,
+  ): Promise<ThrottlerStorageRecord>;
+}